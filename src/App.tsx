@@ -8,6 +8,11 @@ import { AuthProvider } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { PersistentLayout } from "./components/PersistentLayout";
 import ContentPage from "./pages/ContentPage";
+import PrintPage from "./pages/PrintPage";
+import TagBrowserPage from "./pages/TagBrowserPage";
+import TagManagementPage from "./pages/TagManagementPage";
+import SearchAnalyticsPage from "./pages/SearchAnalyticsPage";
+import LinkCheckerPage from "./pages/LinkCheckerPage";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -23,6 +28,11 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/auth" element={<Auth />} />
+              <Route path="/_/print/*" element={
+                <ProtectedRoute>
+                  <PrintPage />
+                </ProtectedRoute>
+              } />
               <Route path="/*" element={
                 <ProtectedRoute>
                   <PersistentLayout />
@@ -30,6 +40,11 @@ const App = () => (
               }>
                 {/* Dynamic content routes - handles all wiki content */}
                 <Route index element={<ContentPage />} />
+                {/* The app's own pages live under /_/, so they never take the path of a wiki page */}
+                <Route path="_/tags" element={<TagBrowserPage />} />
+                <Route path="_/tags/manage" element={<TagManagementPage />} />
+                <Route path="_/search-analytics" element={<SearchAnalyticsPage />} />
+                <Route path="_/links" element={<LinkCheckerPage />} />
                 <Route path="*" element={<ContentPage />} />
               </Route>
             </Routes>
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { FileStack, FileText, Folder, FolderPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContentItem } from '@/services/contentService';
+import { IngestionService } from '@/services/ingestionService';
+import { IngestionAction, IngestionDocument, IngestionPlan, IngestionTarget, setIngestionAction } from '@/lib/bulkIngestion';
+
+interface BulkIngestDialogProps {
+  structure: ContentItem[];
+  onIngested: () => void;
+}
+
+const TOP_LEVEL = '__top__';
+const NEW_FOLDER = '__new__';
+
+const ACTION_LABELS: Record<IngestionAction, string> = {
+  create: 'Create',
+  skip: 'Skip',
+  merge: 'Merge',
+  overwrite: 'Overwrite'
+};
+
+// Creating a page is only possible when the duplicate lives at a different path
+const availableActions = (document: IngestionDocument): IngestionAction[] => {
+  if (!document.duplicate) return ['create', 'skip'];
+  const actions: IngestionAction[] = ['skip', 'merge', 'overwrite'];
+  return document.duplicate.path === document.path ? actions : ['create', ...actions];
+};
+
+const flattenStructure = (items: ContentItem[], depth = 0): Array<{ item: ContentItem; depth: number }> =>
+  items.flatMap(item => [{ item, depth }, ...flattenStructure(item.children || [], depth + 1)]);
+
+/**
+ * Split a multi-document text file (documents separated by `---`) into pages,
+ * preview where each would go, and choose what to do with duplicates.
+ */
+export const BulkIngestDialog: React.FC<BulkIngestDialogProps> = ({ structure, onIngested }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [targetValue, setTargetValue] = useState(TOP_LEVEL);
+  const [newFolderTitle, setNewFolderTitle] = useState('');
+  const [plan, setPlan] = useState<IngestionPlan | null>(null);
+  const [busy, setBusy] = useState<'preview' | 'commit' | null>(null);
+
+  const folders = useMemo(() => flattenStructure(structure), [structure]);
+  const writeCount = plan?.documents.filter(document => document.action !== 'skip').length || 0;
+
+  const reset = () => {
+    setText('');
+    setTargetValue(TOP_LEVEL);
+    setNewFolderTitle('');
+    setPlan(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setPlan(null);
+    if (!newFolderTitle) {
+      setNewFolderTitle(file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' '));
+    }
+    event.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    const target: IngestionTarget = targetValue === NEW_FOLDER
+      ? { kind: 'new-folder', title: newFolderTitle.trim() }
+      : { kind: 'existing', parentId: targetValue === TOP_LEVEL ? null : targetValue };
+
+    setBusy('preview');
+    try {
+      setPlan(await IngestionService.planIngestion(text, target));
+    } catch (error) {
+      console.error('Error previewing ingestion:', error);
+      toast.error('Could not build the preview');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setAction = (key: number, action: IngestionAction) => {
+    setPlan(current => current && setIngestionAction(current, key, action));
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+
+    setBusy('commit');
+    try {
+      const result = await IngestionService.commitIngestion(plan);
+      const summary = [
+        result.created && `${result.created} created`,
+        result.merged && `${result.merged} merged`,
+        result.overwritten && `${result.overwritten} overwritten`,
+        result.skipped && `${result.skipped} skipped`
+      ].filter(Boolean).join(', ');
+
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} document${result.failed.length === 1 ? '' : 's'} failed`, {
+          description: result.failed.map(failure => `${failure.title}: ${failure.message}`).join('\n')
+        });
+      } else {
+        toast.success(`Ingested documents: ${summary || 'nothing to do'}`);
+      }
+      onIngested();
+      handleOpenChange(false);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const targetLabel = plan?.newFolder
+    ? `${plan.newFolder.title} (new folder, ${plan.newFolder.path})`
+    : plan?.parentPath || 'Top level';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" title="Ingest documents from a text file">
+          <FileStack className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Ingest documents</DialogTitle>
+          <DialogDescription>
+            Paste or open a text file with documents separated by <code>---</code> lines. Each document starts with a
+            {' '}<code># Title</code> heading and becomes one page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <div className="space-y-3 min-h-0 flex flex-col">
+            <div className="flex items-center gap-2">
+              <Input type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" onChange={handleFileChosen} className="max-w-xs" />
+              <span className="text-xs text-muted-foreground">or paste below</span>
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'# First document\nIntro...\n\n# A section [tag]\n...\n\n---\n\n# Second document\n...'}
+              className="min-h-[200px] font-mono text-xs"
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-muted-foreground whitespace-nowrap">Add to</label>
+              <Select value={targetValue} onValueChange={setTargetValue}>
+                <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                  <SelectItem value={NEW_FOLDER}>New folder…</SelectItem>
+                  {folders.map(({ item, depth }) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      <span style={{ paddingLeft: depth * 12 }}>{item.title}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {targetValue === NEW_FOLDER && (
+                <Input value={newFolderTitle} onChange={(e) => setNewFolderTitle(e.target.value)} placeholder="Folder name" className="w-56" />
+              )}
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 rounded-md border">
+            <div className="p-3 space-y-1 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                {plan.newFolder ? <FolderPlus className="w-4 h-4" /> : <Folder className="w-4 h-4" />}
+                {targetLabel}
+              </div>
+              {plan.documents.map(document => (
+                <div key={document.key} className="ml-5 border-l pl-3 py-1.5">
+                  <div className="flex items-center gap-2">
+                    <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-medium truncate ${document.action === 'skip' ? 'text-muted-foreground line-through' : ''}`}>
+                        {document.title}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        <span className="font-mono">{document.path}</span> · order {document.order_index} · {document.sections.length} section{document.sections.length === 1 ? '' : 's'}
+                        {document.duplicate && (
+                          <span className="ml-1 text-amber-600 dark:text-amber-400">
+                            · already exists{document.duplicate.path !== document.path ? ` at ${document.duplicate.path}` : ''}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <Select value={document.action} onValueChange={(value) => setAction(document.key, value as IngestionAction)}>
+                      <SelectTrigger className="h-7 w-28 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {availableActions(document).map(action => (
+                          <SelectItem key={action} value={action} className="text-xs">{ACTION_LABELS[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <ul className="mt-1 ml-6 space-y-0.5">
+                    {document.sections.map(section => (
+                      <li key={section.id} className="text-xs text-muted-foreground truncate" style={{ paddingLeft: (section.level - 1) * 12 }}>
+                        {section.title}
+                        {section.tags.length > 0 && <span className="ml-1 opacity-70">[{section.tags.join(', ')}]</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {plan.documents.length === 0 && <p className="text-xs text-muted-foreground ml-5">No documents found</p>}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {plan ? (
+            <>
+              <Button variant="ghost" onClick={() => setPlan(null)} disabled={busy !== null}>Back</Button>
+              <Button onClick={handleCommit} disabled={writeCount === 0 || busy !== null}>
+                {busy === 'commit' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Ingest {writeCount} document{writeCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handlePreview} disabled={!text.trim() || (targetValue === NEW_FOLDER && !newFolderTitle.trim()) || busy !== null}>
+              {busy === 'preview' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { PresenceState } from '@/services/realtimeService';
+
+interface DocumentPresenceProps {
+  peers: PresenceState[];
+  maxVisible?: number;
+}
+
+const getInitials = (email: string | null) => {
+  if (!email) return '?';
+  const name = email.split('@')[0];
+  const parts = name.split(/[._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : name.slice(0, 2)).toUpperCase();
+};
+
+// Stable colour per user so the same person keeps the same avatar
+const AVATAR_COLORS = ['bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-violet-500', 'bg-teal-500'];
+const getAvatarColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+const describePeer = (peer: PresenceState) => {
+  const activity = peer.mode === 'editing' ? 'Editing' : 'Viewing';
+  return peer.sectionTitle ? `${activity} "${peer.sectionTitle}"` : `${activity} the document`;
+};
+
+/**
+ * Stacked avatars of the other people who have the current document open
+ */
+export const DocumentPresence: React.FC<DocumentPresenceProps> = ({ peers, maxVisible = 4 }) => {
+  if (peers.length === 0) return null;
+
+  const visible = peers.slice(0, maxVisible);
+  const hidden = peers.slice(maxVisible);
+
+  return (
+    <div className="flex items-center -space-x-1.5" aria-label={`${peers.length} other ${peers.length === 1 ? 'person' : 'people'} here`}>
+      {visible.map((peer, index) => (
+        <Tooltip key={`${peer.userId}-${peer.joinedAt}-${index}`}>
+          <TooltipTrigger asChild>
+            <div
+              className={`relative w-6 h-6 rounded-full ring-2 ring-background flex items-center justify-center text-[10px] font-semibold text-white ${getAvatarColor(peer.userId)}`}
+            >
+              {getInitials(peer.email)}
+              {peer.mode === 'editing' && (
+                <span className="absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full bg-background flex items-center justify-center">
+                  <Pencil className="w-2 h-2 text-foreground" />
+                </span>
+              )}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <div className="text-xs font-medium">{peer.email || 'Unknown user'}</div>
+            <div className="text-xs text-muted-foreground">{describePeer(peer)}</div>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="w-6 h-6 rounded-full ring-2 ring-background bg-muted flex items-center justify-center text-[10px] font-semibold text-muted-foreground">
+              +{hidden.length}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {hidden.map((peer, index) => (
+              <div key={index} className="text-xs">
+                {peer.email || 'Unknown user'} · {describePeer(peer)}
+              </div>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+};
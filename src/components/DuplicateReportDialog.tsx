@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Copy, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { EmbeddingService } from '@/services/embeddingService';
+import { NearDuplicatePair, SectionVector } from '@/lib/sectionEmbeddings';
+
+const DEFAULT_THRESHOLD = 80;
+
+/**
+ * Report of sections across the wiki that say nearly the same thing, such as
+ * the same guidance repeated in every lifecycle phase.
+ */
+export const DuplicateReportDialog: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  // Follows the slider while dragging; the report reruns when it is released
+  const [sliderValue, setSliderValue] = useState(DEFAULT_THRESHOLD);
+  const [pairs, setPairs] = useState<NearDuplicatePair[] | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setPairs(null);
+    EmbeddingService.getNearDuplicates(threshold / 100).then(result => {
+      if (!cancelled) setPairs(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, threshold]);
+
+  const openSection = (section: SectionVector) => {
+    setOpen(false);
+    navigate(`${section.documentPath}#${section.sectionId}`);
+  };
+
+  const renderSection = (section: SectionVector) => (
+    <button onClick={() => openSection(section)} className="text-left hover:underline min-w-0">
+      <div className="text-sm font-medium truncate">{section.sectionTitle}</div>
+      <div className="text-xs text-muted-foreground truncate">{section.documentTitle}</div>
+    </button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" title="Near-duplicate sections">
+          <Copy className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Near-duplicate sections</DialogTitle>
+          <DialogDescription>
+            Sections whose text overlaps heavily with another section's. Similarity compares wording, computed
+            in the browser; sections without body text are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Minimum similarity</span>
+          <Slider
+            value={[sliderValue]}
+            min={50}
+            max={100}
+            step={5}
+            onValueChange={([value]) => setSliderValue(value)}
+            onValueCommit={([value]) => setThreshold(value)}
+            className="flex-1"
+          />
+          <span className="text-xs tabular-nums w-10 text-right">{sliderValue}%</span>
+        </div>
+
+        {pairs === null ? (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Comparing sections…
+          </div>
+        ) : pairs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No sections are this similar.</p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 rounded-md border">
+            <ul className="divide-y">
+              {pairs.map(({ a, b, score }) => (
+                <li key={`${a.itemId}-${a.sectionId}-${b.itemId}-${b.sectionId}`} className="grid grid-cols-[1fr_1fr_auto] items-center gap-3 p-3">
+                  {renderSection(a)}
+                  {renderSection(b)}
+                  <span className="text-xs tabular-nums text-muted-foreground">{Math.round(score * 100)}%</span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,8 +1,10 @@
 import React, { useState, createContext, useContext, useMemo } from 'react';
 import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
 import { renderMarkdown } from '@/lib/markdownRenderer';
-import { getStampColors, getRubricOrderIndex } from '@/lib/rubricConfig';
+import { formatHeadingAnchor, splitHeadingAnchor } from '@/lib/sectionAnchors';
+import { getStampColors, getRubricOrderIndex, parseRubric } from '@/lib/rubricConfig';
 import { SourcesIndicator } from './SourcesIndicator';
+import { TagFilter } from '@/lib/tagFilters';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -34,6 +36,10 @@ interface HierarchicalContentDisplayProps {
   showDescriptions?: 'on' | 'off' | 'mixed';
   descriptionOverrides?: Record<string, boolean>;
   onToggleDescription?: (sectionId: string, currentlyVisible: boolean) => void;
+  // Hides sections (and their subsections) by their tags
+  sectionFilter?: TagFilter | null;
+  // Internal link targets styled as broken
+  brokenLinks?: ReadonlySet<string>;
 }
 
 // Context to track if any top-level node has exposed children
@@ -47,23 +53,8 @@ const TopLevelExpandedContext = createContext<TopLevelExpandedContextType>({
   registerTopLevelExpanded: () => {},
 });
 
-// Helper to parse title and extract rubric if present
-// Skip rubric extraction for root (level 0) and first level (level 1) sections
-const parseRubric = (title: string, absoluteLevel?: number): { rubric: string | null; text: string } => {
-  // Don't extract rubrics for level 0 and level 1 sections
-  if (absoluteLevel !== undefined && absoluteLevel <= 1) {
-    return { rubric: null, text: title };
-  }
-  
-  const colonIndex = title.indexOf(':');
-  if (colonIndex === -1 || colonIndex > 20) {
-    return { rubric: null, text: title };
-  }
-  return {
-    rubric: title.substring(0, colonIndex),
-    text: title.substring(colonIndex + 1).trim()
-  };
-};
+// Broken link targets, passed down to every rendered section
+const BrokenLinksContext = createContext<ReadonlySet<string> | undefined>(undefined);
 
 // Group children by rubric and sort by rubric order
 interface RubricGroup {
@@ -110,7 +101,7 @@ const extractSectionFullContent = (targetSection: ContentSection): string => {
     let childContent = '';
     for (const child of section.children) {
       const headerLevel = '#'.repeat(Math.max(1, child.level));
-      childContent += `${headerLevel} ${child.title}\n\n`;
+      childContent += `${formatHeadingAnchor(`${headerLevel} ${child.title}`, child.id)}\n\n`;
       
       if (child.content && child.content.trim()) {
         childContent += child.content.trim() + '\n\n';
@@ -152,8 +143,9 @@ const parseHierarchicalContent = (content: string): { preContent: string; sectio
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    // Support up to 30 levels of headers
-    const headingMatch = line.match(/^(#{1,99})\s*(.+?)(?:\s*\[(.*?)\])?$/);
+    // Support up to 30 levels of headers; the section's anchor follows the heading
+    const { heading, anchor } = splitHeadingAnchor(line);
+    const headingMatch = heading.match(/^(#{1,99})\s*(.+?)(?:\s*\[(.*?)\])?$/);
     
     if (headingMatch) {
       // Process any accumulated content
@@ -186,7 +178,8 @@ const parseHierarchicalContent = (content: string): { preContent: string; sectio
         content: '',
         tags,
         children: [],
-        id: `section-${++sectionId}`,
+        // Numbered by position when the markup has no anchor
+        id: anchor || `section-${++sectionId}`,
         sources: []
       };
 
@@ -277,6 +270,7 @@ const ContentSectionComponent: React.FC<{
   
   // Get top-level expansion context
   const { anyTopLevelExpanded, registerTopLevelExpanded } = useContext(TopLevelExpandedContext);
+  const brokenLinks = useContext(BrokenLinksContext);
   
   const hasChildren = section.children.length > 0;
   const hasContent = section.content.trim().length > 0;
@@ -436,7 +430,7 @@ const ContentSectionComponent: React.FC<{
               className="prose prose-slate dark:prose-invert max-w-none text-base text-muted-foreground italic [&>p]:inline"
               onClick={handleContentClick}
               dangerouslySetInnerHTML={{ 
-                __html: renderMarkdown(section.content.trim()) 
+                __html: renderMarkdown(section.content.trim(), { brokenLinks }) 
               }}
             />
             {section.sources && section.sources.length > 0 && (
@@ -529,7 +523,7 @@ const ContentSectionComponent: React.FC<{
                 className="prose prose-slate dark:prose-invert max-w-none prose-sm [&>p]:inline"
                 onClick={handleContentClick}
                 dangerouslySetInnerHTML={{ 
-                  __html: renderMarkdown(section.content.trim()) 
+                  __html: renderMarkdown(section.content.trim(), { brokenLinks }) 
                 }}
               />
               {section.sources && section.sources.length > 0 && (
@@ -665,6 +659,12 @@ const renderGroupedChildren = (
     );
   });
 };
+// Sections the filter hides are dropped along with everything below them
+const pruneSections = (sections: ContentSection[], filter: TagFilter): ContentSection[] =>
+  sections
+    .filter(section => filter(section.tags))
+    .map(section => ({ ...section, children: pruneSections(section.children, filter) }));
+
 const HierarchicalContentDisplayInner: React.FC<HierarchicalContentDisplayProps> = ({ 
   content, 
   onSectionClick,
@@ -678,12 +678,15 @@ const HierarchicalContentDisplayInner: React.FC<HierarchicalContentDisplayProps>
   onToggleSection,
   showDescriptions,
   descriptionOverrides,
-  onToggleDescription
+  onToggleDescription,
+  sectionFilter,
+  brokenLinks
 }) => {
   
   // Clean tag syntax from content before parsing
   const cleanedContent = content.replace(/^(#+\s*.+?)\s*\[.*?\](\s*$)/gm, '$1$2');
-  const { preContent, sections } = parseHierarchicalContent(content); // Use original content with tags for parsing
+  const { preContent, sections: parsedSections } = parseHierarchicalContent(content); // Use original content with tags for parsing
+  const sections = sectionFilter ? pruneSections(parsedSections, sectionFilter) : parsedSections;
 
   // Handle clicks on internal links within pre-content
   const handlePreContentClick = (e: React.MouseEvent) => {
@@ -699,13 +702,21 @@ const HierarchicalContentDisplayInner: React.FC<HierarchicalContentDisplayProps>
     }
   };
 
+  if (parsedSections.length > 0 && sections.length === 0) {
+    return (
+      <p className="py-4 text-sm text-muted-foreground italic">
+        All sections here are hidden by the tag filters.
+      </p>
+    );
+  }
+
   if (sections.length === 0) {
     return (
       <div className="mb-6 py-4 border-b-2 border-border/50">
         <span 
           className="prose prose-slate dark:prose-invert max-w-none text-[0.95rem] text-muted-foreground italic [&>p]:inline"
           onClick={handlePreContentClick}
-          dangerouslySetInnerHTML={{ __html: renderMarkdown(cleanedContent) }}
+          dangerouslySetInnerHTML={{ __html: renderMarkdown(cleanedContent, { brokenLinks }) }}
         />
       </div>
     );
@@ -718,7 +729,7 @@ const HierarchicalContentDisplayInner: React.FC<HierarchicalContentDisplayProps>
           <span 
             className="prose prose-slate dark:prose-invert max-w-none text-[0.95rem] text-muted-foreground italic [&>p]:inline"
             onClick={handlePreContentClick}
-            dangerouslySetInnerHTML={{ __html: renderMarkdown(preContent) }}
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(preContent, { brokenLinks }) }}
           />
         </div>
       )}
@@ -765,7 +776,9 @@ export const HierarchicalContentDisplay: React.FC<HierarchicalContentDisplayProp
   
   return (
     <TopLevelExpandedContext.Provider value={contextValue}>
-      <HierarchicalContentDisplayInner {...props} />
+      <BrokenLinksContext.Provider value={props.brokenLinks}>
+        <HierarchicalContentDisplayInner {...props} />
+      </BrokenLinksContext.Provider>
     </TopLevelExpandedContext.Provider>
   );
 };
\ No newline at end of file
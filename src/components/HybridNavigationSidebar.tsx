@@ -12,7 +12,11 @@ import {
   ExternalLink,
   Home,
   Sun,
-  Moon
+  Moon,
+  Bookmark,
+  Tags,
+  BarChart3,
+  Unlink
 } from 'lucide-react';
 import { useTheme } from '@/hooks/use-theme';
 import { useNavigate, useLocation } from 'react-router-dom';
@@ -26,6 +30,14 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { toast } from 'sonner';
 import { buildSectionHierarchy } from '../lib/sectionHierarchy';
 import { EnhancedSectionItem } from './EnhancedSectionItem';
+import { VaultDialog } from './VaultDialog';
+import { BulkIngestDialog } from './BulkIngestDialog';
+import { DuplicateReportDialog } from './DuplicateReportDialog';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { SavedSearch } from '@/services/savedSearchService';
+import { TagCategory } from '@/services/tagTaxonomyService';
+import { countTags, filterSectionsByTags, normalizeTag, TagFilter } from '@/lib/tagFilters';
+import { TagManager } from '@/lib/tagManager';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -49,8 +61,15 @@ interface HybridNavigationSidebarProps {
   showDescriptions?: 'on' | 'off' | 'mixed';
   onShowDescriptionsChange?: (mode: 'on' | 'off') => void;
   onSearchOpen?: () => void;
+  onSavedSearchOpen?: (search: SavedSearch) => void;
   onCollapseAll?: () => void;
   sidebarCollapseKey?: number;
+  tagTaxonomy?: TagCategory[];
+  // Normalized tag values unchecked in the Filters pane
+  excludedTags?: string[];
+  tagFilter?: TagFilter | null;
+  onTagToggle?: (tag: string, included: boolean) => void;
+  onTagFiltersReset?: () => void;
 }
 
 // Helper to collect expanded state from sidebar
@@ -88,6 +107,7 @@ const FolderNode: React.FC<{
   collapseKey?: number;
   initialExpandedFolders?: string[];
   initialExpandedSections?: string[];
+  tagFilter?: TagFilter | null;
 }> = ({
   node, 
   contentNodes, 
@@ -101,7 +121,8 @@ const FolderNode: React.FC<{
   navigation,
   collapseKey,
   initialExpandedFolders,
-  initialExpandedSections
+  initialExpandedSections,
+  tagFilter
 }) => {
   // Check if this folder should be initially expanded based on restored state
   const shouldBeExpanded = initialExpandedFolders?.includes(node.id) ?? true;
@@ -134,17 +155,18 @@ const FolderNode: React.FC<{
   const { hierarchicalSections, flatSections } = useMemo(() => {
     if (!associatedContent?.content_json) return { hierarchicalSections: [], flatSections: [] };
     
-    const flatSections = associatedContent.content_json.map((section, index) => ({
+    const allSections = associatedContent.content_json.map((section, index) => ({
       id: section.id || `section-${index}`,
       level: section.level || 1,
       title: section.title || '',
       content: section.content || '',
       tags: section.tags || []
     }));
+    const flatSections = tagFilter ? filterSectionsByTags(allSections, tagFilter) : allSections;
     
     const hierarchicalSections = buildSectionHierarchy(flatSections);
     return { hierarchicalSections, flatSections };
-  }, [associatedContent?.content_json]);
+  }, [associatedContent?.content_json, tagFilter]);
 
   const toggleExpanded = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -224,6 +246,8 @@ const FolderNode: React.FC<{
   };
 
   const isActiveNode = navigation.isAtDocument(node.path);
+  // Documents carry the tags of all their sections
+  const isFilteredOut = !!tagFilter && !!associatedContent && !tagFilter(associatedContent.tags || []);
 
   const handleOpenInNewTab = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -233,6 +257,8 @@ const FolderNode: React.FC<{
     window.open(`${window.location.origin}${node.path}?sidebarState=${encodedState}`, '_blank');
   };
 
+  if (isFilteredOut && !isActiveNode) return null;
+
   return (
     <>
       <ContextMenu>
@@ -294,10 +320,12 @@ const ThemeToggleButton: React.FC = () => {
 };
 
 export const HybridNavigationSidebar: React.FC<HybridNavigationSidebarProps> = ({
-  structure, contentNodes = [], onStructureUpdate, onNavigationClick, currentNavId, setShowEditor, currentPath, onSectionNavigate, navigation, expandDepth = 1, expandMode = 'depth', onExpandDepthChange, showDescriptions = 'on', onShowDescriptionsChange, onSearchOpen, onCollapseAll, sidebarCollapseKey
+  structure, contentNodes = [], onStructureUpdate, onNavigationClick, currentNavId, setShowEditor, currentPath, onSectionNavigate, navigation, expandDepth = 1, expandMode = 'depth', onExpandDepthChange, showDescriptions = 'on', onShowDescriptionsChange, onSearchOpen, onSavedSearchOpen, onCollapseAll, sidebarCollapseKey,
+  tagTaxonomy = [], excludedTags = [], tagFilter, onTagToggle, onTagFiltersReset
 }) => {
   const location = useLocation();
   const navigate = useNavigate();
+  const pinnedSearches = useSavedSearches().filter(search => search.pinned);
   
   // Parse sidebar state from URL on initial load
   const initialSidebarState = React.useMemo(() => {
@@ -328,13 +356,12 @@ export const HybridNavigationSidebar: React.FC<HybridNavigationSidebarProps> = (
   const [newFolderName, setNewFolderName] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
   const [isFiltersPaneOpen, setIsFiltersPaneOpen] = useState(false);
-  const [expandedFilters, setExpandedFilters] = useState({ ventureLevel: false, technology: false, marketProduct: false, content: false });
-  const [filters, setFilters] = useState({
-    ventureLevel: { early: true, pmf: true, scaleUp: true },
-    technology: { aiLlm: true, aiOther: true, nonAi: true },
-    marketProduct: { b2b: true, b2c: true, saas: true, internalTooling: true, shopSite: true, multiMarketplace: true, service: true },
-    content: { overviews: true, pitfalls: true, tips: true, steps: true, frameworks: true, diligence: true, gptTips: true, agenticTools: true, tooling: true, news: true, discussions: true, debates: true, postmortem: true }
-  });
+  const [expandedFilters, setExpandedFilters] = useState<Record<string, boolean>>({});
+  // Sections carrying each tag, directly or inherited, across all documents
+  const tagCounts = useMemo(
+    () => countTags(contentNodes.map(doc => TagManager.getSectionTags(doc.content_json || []).map(tags => ({ tags: tags.effective })))),
+    [contentNodes]
+  );
 
   const handleCreateFolder = async () => {
     if (newFolderName.trim()) {
@@ -353,41 +380,37 @@ export const HybridNavigationSidebar: React.FC<HybridNavigationSidebarProps> = (
 
   const topLevelNodes = structure.filter(node => !node.parent_id).sort((a, b) => (a.order_index || 0) - (b.order_index || 0));
 
-  const toggleFilterSection = (section: keyof typeof expandedFilters) => setExpandedFilters(prev => ({ ...prev, [section]: !prev[section] }));
-  const toggleFilter = (category: keyof typeof filters, filter: string) => setFilters(prev => ({ ...prev, [category]: { ...prev[category], [filter]: !prev[category][filter as keyof typeof prev[typeof category]] } }));
+  const toggleFilterSection = (categoryId: string) => setExpandedFilters(prev => ({ ...prev, [categoryId]: !prev[categoryId] }));
 
-  const FilterSection = ({ title, sectionKey, items }: { title: string; sectionKey: keyof typeof expandedFilters; items: { key: string; label: string }[] }) => (
+  const FilterSection = ({ category }: { category: TagCategory }) => (
     <div className="mb-1 min-w-0">
-      <button onClick={() => toggleFilterSection(sectionKey)} className="flex items-center justify-start gap-1 w-full py-0.5 pr-2 hover:bg-accent/50 rounded-md transition-colors min-w-0">
-        {expandedFilters[sectionKey] ? <ChevronDown className="w-4 h-4 text-muted-foreground" /> : <ChevronRight className="w-4 h-4 text-muted-foreground" />}
-        <span className="text-sm text-foreground truncate whitespace-nowrap flex-1 min-w-0" style={{ textAlign: 'left' }}>{title}</span>
+      <button onClick={() => toggleFilterSection(category.id)} className="flex items-center justify-start gap-1 w-full py-0.5 pr-2 hover:bg-accent/50 rounded-md transition-colors min-w-0">
+        {expandedFilters[category.id] ? <ChevronDown className="w-4 h-4 text-muted-foreground" /> : <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+        <span className="text-sm text-foreground truncate whitespace-nowrap flex-1 min-w-0" style={{ textAlign: 'left' }}>{category.name}</span>
       </button>
-      {expandedFilters[sectionKey] && (
+      {expandedFilters[category.id] && (
         <div className="space-y-1 mt-1" style={{ marginLeft: '31px' }}>
-          {items.map(item => (
-            <div key={item.key} className="flex items-center justify-start space-x-2 py-0.5 min-w-0">
-              <Checkbox id={`${sectionKey}-${item.key}`} checked={filters[sectionKey][item.key as keyof typeof filters[typeof sectionKey]]} onCheckedChange={() => toggleFilter(sectionKey, item.key)} className="h-4 w-4 flex-shrink-0" />
-              <label htmlFor={`${sectionKey}-${item.key}`} className="text-sm text-left text-foreground cursor-pointer hover:text-foreground/80 transition-colors truncate whitespace-nowrap flex-1 min-w-0" style={{ textAlign: 'left' }} title={item.label}>{item.label}</label>
-            </div>
-          ))}
+          {category.values.map(item => {
+            const tag = normalizeTag(item.value);
+            return (
+              <div key={item.id} className="flex items-center justify-start space-x-2 py-0.5 min-w-0">
+                <Checkbox id={`tag-${item.id}`} checked={!excludedTags.includes(tag)} onCheckedChange={(checked) => onTagToggle?.(item.value, checked === true)} className="h-4 w-4 flex-shrink-0" />
+                <label htmlFor={`tag-${item.id}`} className="text-sm text-left text-foreground cursor-pointer hover:text-foreground/80 transition-colors truncate whitespace-nowrap flex-1 min-w-0" style={{ textAlign: 'left' }} title={item.label}>{item.label}</label>
+                <span className="text-xs text-muted-foreground tabular-nums pr-2">{tagCounts.get(tag) || 0}</span>
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
   );
 
-  const filterSections = [
-    { title: "Venture level", sectionKey: "ventureLevel" as const, items: [{ key: "early", label: "early" }, { key: "pmf", label: "PMF" }, { key: "scaleUp", label: "scale-up" }] },
-    { title: "Technology", sectionKey: "technology" as const, items: [{ key: "aiLlm", label: "AI (LLM)" }, { key: "aiOther", label: "AI (other)" }, { key: "nonAi", label: "Non-AI" }] },
-    { title: "Market/Product type", sectionKey: "marketProduct" as const, items: [{ key: "b2b", label: "b2b" }, { key: "b2c", label: "b2c" }, { key: "saas", label: "saas" }, { key: "internalTooling", label: "internal tooling" }, { key: "shopSite", label: "shop site" }, { key: "multiMarketplace", label: "2/multi marketplace" }, { key: "service", label: "service" }] },
-    { title: "Content", sectionKey: "content" as const, items: [{ key: "overviews", label: "Overviews/summaries" }, { key: "pitfalls", label: "Top pitfalls" }, { key: "tips", label: "Tips" }, { key: "steps", label: "Steps" }, { key: "frameworks", label: "Frameworks" }, { key: "diligence", label: "Diligence/Checklists" }, { key: "gptTips", label: "GPT tips" }, { key: "agenticTools", label: "Agentic Tools" }, { key: "tooling", label: "Tooling" }, { key: "news", label: "News" }, { key: "discussions", label: "Discussions" }, { key: "debates", label: "Debates" }, { key: "postmortem", label: "Postmortem Data" }] }
-  ];
-
   return (
     <div className="h-full w-full flex flex-col bg-sidebar">
       <div className="flex-1 overflow-y-auto p-3 flex flex-col">
         <div className="flex-1 overflow-y-auto">
           {topLevelNodes.length > 0 ? topLevelNodes.map((item) => (
-            <FolderNode key={item.id} node={item} contentNodes={contentNodes} onStructureUpdate={onStructureUpdate} onNavigationClick={onNavigationClick} currentNavId={currentNavId} setShowEditor={setShowEditor} currentPath={currentPath} allRootNodes={topLevelNodes} onSectionNavigate={onSectionNavigate} navigation={navigation} collapseKey={sidebarCollapseKey} initialExpandedFolders={initialSidebarState?.expandedFolders} initialExpandedSections={initialSidebarState?.expandedSections} />
+            <FolderNode key={item.id} node={item} contentNodes={contentNodes} onStructureUpdate={onStructureUpdate} onNavigationClick={onNavigationClick} currentNavId={currentNavId} setShowEditor={setShowEditor} currentPath={currentPath} allRootNodes={topLevelNodes} onSectionNavigate={onSectionNavigate} navigation={navigation} collapseKey={sidebarCollapseKey} initialExpandedFolders={initialSidebarState?.expandedFolders} initialExpandedSections={initialSidebarState?.expandedSections} tagFilter={tagFilter} />
           )) : <div className="p-3 text-center text-muted-foreground"><p className="text-sm">No folders found</p></div>}
         </div>
       </div>
@@ -396,17 +419,36 @@ export const HybridNavigationSidebar: React.FC<HybridNavigationSidebarProps> = (
           <CollapsibleTrigger className="w-full flex items-center gap-1 cursor-pointer hover:bg-accent/30 rounded px-1 py-0.5 -mx-1">
             <ChevronRight className={`w-3 h-3 text-sidebar-foreground/70 transition-transform ${isFiltersPaneOpen ? 'rotate-90' : ''}`} />
             <span className="text-xs font-medium text-sidebar-foreground/70 uppercase tracking-wide">Filters</span>
+            {excludedTags.length > 0 && <span className="text-xs text-sidebar-foreground/50">· {excludedTags.length} hidden</span>}
           </CollapsibleTrigger>
-          <CollapsibleContent><div className="space-y-1 mt-3">{filterSections.map((section) => <FilterSection key={section.sectionKey} title={section.title} sectionKey={section.sectionKey} items={section.items} />)}</div></CollapsibleContent>
+          <CollapsibleContent>
+            <div className="space-y-1 mt-3">
+              {tagTaxonomy.length > 0
+                ? tagTaxonomy.map((category) => <FilterSection key={category.id} category={category} />)
+                : <p className="text-xs text-muted-foreground px-1">No tag categories defined</p>}
+              {excludedTags.length > 0 && (
+                <button onClick={onTagFiltersReset} className="text-xs text-muted-foreground hover:text-foreground px-1">Show all</button>
+              )}
+            </div>
+          </CollapsibleContent>
         </Collapsible>
         <div className="mt-3 pt-2 border-t border-sidebar-border/50">
           <button onClick={onSearchOpen} className="w-full flex items-center gap-2 px-2 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-md transition-colors"><Search className="w-3 h-3" /><span>Search...</span></button>
+          {pinnedSearches.map(search => (
+            <button key={search.id} onClick={() => onSavedSearchOpen?.(search)} className="w-full flex items-center gap-2 px-2 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-md transition-colors" title={search.query}><Bookmark className="w-3 h-3" /><span className="truncate">{search.name}</span></button>
+          ))}
         </div>
         <div className="py-2 border-t border-sidebar-border/50 flex items-center gap-2 mt-3" style={{ paddingLeft: '2px' }}>
           <div className="flex items-center gap-1.5"><label className="text-xs text-muted-foreground whitespace-nowrap">Desc:</label><Select value={showDescriptions} onValueChange={(value: string) => { if (value === 'on' || value === 'off') onShowDescriptionsChange?.(value); }}><SelectTrigger className="h-7 w-9 text-sm text-center px-1 focus:ring-0 focus:ring-offset-0 focus-visible:ring-0 focus-visible:ring-offset-0 [&>svg]:hidden"><SelectValue /></SelectTrigger><SelectContent align="end" className="min-w-[3rem]"><SelectItem value="on" className="text-sm text-center justify-center">On</SelectItem><SelectItem value="off" className="text-sm text-center justify-center">Off</SelectItem><SelectItem value="-" disabled className="text-sm text-center justify-center">-</SelectItem></SelectContent></Select></div>
           <div className="flex items-center gap-1.5"><label className="text-xs text-muted-foreground whitespace-nowrap">Depth:</label><Input type="text" value={expandMode === 'mixed' ? '-' : (expandDepth + 1).toString()} onChange={(e) => { const num = parseInt(e.target.value); if (!isNaN(num) && num >= 1) onExpandDepthChange?.(num - 1); }} className="h-7 text-sm w-7 text-center px-0 focus:ring-0 focus:ring-offset-0 focus-visible:ring-0 focus-visible:ring-offset-0" /></div>
           <Button variant="ghost" size="sm" onClick={() => { onCollapseAll?.(); onShowDescriptionsChange?.('off'); setIsFiltersPaneOpen(false); }} className="w-8 h-8 p-0 flex-shrink-0" title="Collapse all sections"><Home className="w-4 h-4" /></Button>
           <ThemeToggleButton />
+          <VaultDialog onImported={onStructureUpdate} />
+          <BulkIngestDialog structure={topLevelNodes} onIngested={onStructureUpdate} />
+          <DuplicateReportDialog />
+          <Button variant="ghost" size="sm" onClick={() => navigate('/_/tags')} className="w-8 h-8 p-0 flex-shrink-0" title="Browse tags"><Tags className="w-4 h-4" /></Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/_/search-analytics')} className="w-8 h-8 p-0 flex-shrink-0" title="Search analytics"><BarChart3 className="w-4 h-4" /></Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/_/links')} className="w-8 h-8 p-0 flex-shrink-0" title="Check links"><Unlink className="w-4 h-4" /></Button>
           <div className="flex-shrink-0">
             <Button variant="ghost" size="sm" onClick={startCreating} className="w-8 h-8 p-0" title="Add new folder"><Plus className="w-4 h-4" /></Button>
             {isCreating && <div className="mt-2 flex items-center gap-2 absolute left-3 right-3 bg-sidebar z-10"><Input ref={inputRef} value={newFolderName} onChange={(e) => setNewFolderName(e.target.value)} onKeyDown={handleKeyPress} placeholder="Folder name..." className="text-sm" /><Button variant="ghost" size="sm" onClick={handleCreateFolder} disabled={!newFolderName.trim()} className="h-6 w-6 p-0"><Check className="w-3 h-3" /></Button><Button variant="ghost" size="sm" onClick={() => { setIsCreating(false); setNewFolderName(""); }} className="h-6 w-6 p-0"><X className="w-3 h-3" /></Button></div>}
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, ChevronRight } from 'lucide-react';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { LinkPreviewService } from '@/services/linkPreviewService';
+import type { LinkableDocument } from '@/lib/linkIndex';
+import type { SectionPreview } from '@/lib/linkPreview';
+import { getStampColors } from '@/lib/rubricConfig';
+
+const OPEN_DELAY = 300;
+const CLOSE_DELAY = 150;
+
+interface InternalLinkPreviewProps {
+  // The document the links are on; same-document links resolve against it
+  document: LinkableDocument;
+  // Previews are loaded again when it changes, e.g. the document's version after a save
+  refreshKey?: number;
+  onOpen: (target: string) => void;
+  children: React.ReactNode;
+}
+
+type PreviewState =
+  | { status: 'loading' }
+  | { status: 'loaded'; preview: SectionPreview }
+  // The linked page does not exist
+  | { status: 'missing' };
+
+const linkFrom = (target: EventTarget | null): HTMLElement | null =>
+  target instanceof Element ? target.closest<HTMLElement>('a[data-internal-link]') : null;
+
+/**
+ * Shows what an internal link in the wrapped content leads to when it is
+ * hovered or focused: the target section's breadcrumb, rubric and text, with
+ * an action to open it.
+ */
+export const InternalLinkPreview: React.FC<InternalLinkPreviewProps> = ({ document, refreshKey, onOpen, children }) => {
+  const [link, setLink] = useState<HTMLElement | null>(null);
+  const [state, setState] = useState<PreviewState>({ status: 'loading' });
+  // The card is positioned against the link itself, which React does not render
+  const anchorRef = useRef<HTMLElement | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cacheRef = useRef(new Map<string, SectionPreview | null>());
+
+  useEffect(() => {
+    cacheRef.current.clear();
+  }, [document.id, refreshKey]);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  const schedule = useCallback((action: () => void, delay: number) => {
+    cancel();
+    timerRef.current = setTimeout(action, delay);
+  }, [cancel]);
+
+  const hide = useCallback(() => {
+    cancel();
+    anchorRef.current = null;
+    setLink(null);
+  }, [cancel]);
+
+  const show = useCallback((element: HTMLElement) => {
+    const target = element.getAttribute('data-internal-link');
+    if (!target) return;
+
+    anchorRef.current = element;
+    setLink(element);
+
+    const cached = cacheRef.current.get(target);
+    if (cached !== undefined) {
+      setState(cached ? { status: 'loaded', preview: cached } : { status: 'missing' });
+      return;
+    }
+
+    setState({ status: 'loading' });
+    LinkPreviewService.getSectionPreview(target, document).then(preview => {
+      cacheRef.current.set(target, preview);
+      // The pointer may have moved on to another link meanwhile
+      if (anchorRef.current === element) {
+        setState(preview ? { status: 'loaded', preview } : { status: 'missing' });
+      }
+    });
+  }, [document]);
+
+  const handleMouseOver = (e: React.MouseEvent) => {
+    const element = linkFrom(e.target);
+    if (!element) return;
+    if (element === link) cancel();
+    else schedule(() => show(element), OPEN_DELAY);
+  };
+
+  const handleMouseOut = (e: React.MouseEvent) => {
+    const element = linkFrom(e.target);
+    if (element && !element.contains(e.relatedTarget as Node | null)) schedule(hide, CLOSE_DELAY);
+  };
+
+  const handleFocus = (e: React.FocusEvent) => {
+    const element = linkFrom(e.target);
+    if (!element) return;
+    cancel();
+    show(element);
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (linkFrom(e.target)) schedule(hide, CLOSE_DELAY);
+  };
+
+  const openPreview = (preview: SectionPreview) => {
+    hide();
+    onOpen(preview.target);
+  };
+
+  return (
+    <div onMouseOver={handleMouseOver} onMouseOut={handleMouseOut} onFocus={handleFocus} onBlur={handleBlur}>
+      {children}
+
+      <Popover open={link !== null} onOpenChange={open => !open && hide()}>
+        <PopoverAnchor virtualRef={anchorRef} />
+        <PopoverContent
+          side="top"
+          align="start"
+          className="w-80 p-3"
+          // Focus stays on the link being read
+          onOpenAutoFocus={e => e.preventDefault()}
+          onCloseAutoFocus={e => e.preventDefault()}
+          onMouseEnter={cancel}
+          onMouseLeave={() => schedule(hide, CLOSE_DELAY)}
+          onFocus={cancel}
+          onBlur={() => schedule(hide, CLOSE_DELAY)}
+        >
+          {state.status === 'loading' && <p className="text-sm text-muted-foreground">Loading preview…</p>}
+          {state.status === 'missing' && <p className="text-sm text-muted-foreground">This page does not exist.</p>}
+          {state.status === 'loaded' && <SectionPreviewCard preview={state.preview} onOpen={openPreview} />}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+const SectionPreviewCard: React.FC<{ preview: SectionPreview; onOpen: (preview: SectionPreview) => void }> = ({ preview, onOpen }) => {
+  const colors = preview.rubric ? getStampColors(preview.rubric) : null;
+
+  return (
+    <div className="space-y-2">
+      {preview.breadcrumb.length > 0 && (
+        <div className="flex items-center gap-1 text-[11px] text-muted-foreground min-w-0">
+          {preview.breadcrumb.map((crumb, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+              <span className="truncate">{crumb}</span>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {preview.rubric && colors && (
+          <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider ${colors.bg} ${colors.text}`}>
+            {preview.rubric}
+          </span>
+        )}
+        <h4 className="text-sm font-semibold text-foreground">{preview.title}</h4>
+      </div>
+
+      {preview.missingSection ? (
+        <p className="text-sm text-muted-foreground">No section with this name in {preview.documentTitle}.</p>
+      ) : preview.excerpt ? (
+        <p className="text-sm text-muted-foreground line-clamp-5">{preview.excerpt}</p>
+      ) : (
+        <p className="text-sm text-muted-foreground italic">No content yet.</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 pt-1 border-t">
+        <span className="text-xs text-muted-foreground truncate">{preview.documentPath}</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onOpen(preview)}>
+          <ArrowUpRight className="w-3.5 h-3.5 mr-1" />
+          Open
+        </Button>
+      </div>
+    </div>
+  );
+};
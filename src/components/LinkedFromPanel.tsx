@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { CornerDownRight } from 'lucide-react';
+import { LinkService } from '@/services/linkService';
+import { LinkEdge } from '@/lib/linkIndex';
+import { parseRubric } from '@/lib/rubricConfig';
+
+interface LinkedFromPanelProps {
+  itemId: string;
+  // Links to this section only; links to any part of the document otherwise
+  sectionId?: string;
+  currentDocumentPath: string;
+  // Reloads the links when it changes, e.g. the document's version after a save
+  refreshKey?: number;
+  onNavigate: (documentPath: string, sectionId: string, sectionTitle: string) => void;
+}
+
+/**
+ * Sections whose [[wiki links]] point here ("What links here"). Hidden when
+ * there are none.
+ */
+export const LinkedFromPanel: React.FC<LinkedFromPanelProps> = ({ itemId, sectionId, currentDocumentPath, refreshKey, onNavigate }) => {
+  const [links, setLinks] = useState<LinkEdge[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLinks([]);
+    LinkService.getInboundLinks(itemId, sectionId).then(result => {
+      if (!cancelled) setLinks(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, sectionId, refreshKey]);
+
+  if (links.length === 0) return null;
+
+  // One entry per linking section, however often it links here
+  const sources = [...new Map(links.map(link => [`${link.sourceDocumentId}/${link.sourceSectionId}`, link])).values()];
+
+  return (
+    <aside className="rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center gap-1.5 mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+        <CornerDownRight className="w-3.5 h-3.5" />
+        Linked from
+      </div>
+      <ul className="space-y-1">
+        {sources.map(link => (
+          <li key={`${link.sourceDocumentId}-${link.sourceSectionId}`}>
+            <button
+              onClick={() => onNavigate(link.sourcePath, link.sourceSectionId, link.sourceSectionTitle)}
+              className="w-full text-left flex items-baseline gap-2 rounded px-2 py-1 text-sm hover:bg-accent/50 transition-colors"
+            >
+              <span className="font-medium">{parseRubric(link.sourceSectionTitle).text}</span>
+              <span className="text-xs text-muted-foreground truncate">
+                {link.sourcePath === currentDocumentPath ? 'this page' : link.sourceDocumentTitle}
+              </span>
+              {!sectionId && link.targetSectionTitle && (
+                <span className="ml-auto text-xs text-muted-foreground truncate" title="Linked section">
+                  → {parseRubric(link.targetSectionTitle).text}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { FolderOpen, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { FileSystemSnapshotStore } from '@/services/storage';
+
+interface LocalFolderPromptProps {
+  files: FileSystemSnapshotStore;
+  onReady: () => void;
+}
+
+/**
+ * Asks for the wiki folder when the filesystem storage backend is configured.
+ * Browsers require a click before granting folder access, including after a reload.
+ */
+export const LocalFolderPrompt: React.FC<LocalFolderPromptProps> = ({ files, onReady }) => {
+  const [isChoosing, setIsChoosing] = useState(false);
+
+  const handleChoose = async () => {
+    setIsChoosing(true);
+    try {
+      await files.chooseDirectory();
+      onReady();
+    } catch (error) {
+      // Closing the picker rejects with AbortError - nothing to report
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error choosing wiki folder:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not open folder');
+      }
+    } finally {
+      setIsChoosing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="max-w-sm text-center space-y-4">
+        <FolderOpen className="w-10 h-10 mx-auto text-muted-foreground" />
+        <h1 className="text-xl font-semibold">Open your wiki folder</h1>
+        <p className="text-sm text-muted-foreground">
+          This wiki is stored on your computer. Choose the folder that holds <code>wiki-content.json</code>,
+          or an empty folder to start a new wiki.
+        </p>
+        {!FileSystemSnapshotStore.isSupported() && (
+          <p className="text-sm text-destructive">This browser cannot open local folders.</p>
+        )}
+        <Button onClick={handleChoose} disabled={isChoosing}>
+          {isChoosing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Choose folder
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,17 @@
-import React, { useState, useEffect, createContext, useContext, useCallback } from 'react';
+import React, { useState, useEffect, createContext, useContext, useCallback, useMemo } from 'react';
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { WikiLayout } from './WikiLayout';
+import { LocalFolderPrompt } from './LocalFolderPrompt';
 import { NavigationNode, WikiDocument, ContentService } from '@/services/contentService';
 import { useNavigationState, NavigationContextValue, SectionViewData } from '@/hooks/useNavigationState';
+import { useContentChanges } from '@/hooks/useContentChanges';
+import { useTagTaxonomy } from '@/hooks/useTagTaxonomy';
+import { TagCategory } from '@/services/tagTaxonomyService';
+import { createTagFilter, normalizeTag, TagFilter } from '@/lib/tagFilters';
+import { getStorageAdapter, FileSystemStorageAdapter } from '@/services/storage';
+
+// Batches bursts of realtime events (e.g. a drag-and-drop reorder) into one reload
+const REALTIME_RELOAD_DELAY = 500;
 
 /**
  * Layout Context - provides shared state between layout and content pages
@@ -34,6 +43,7 @@ interface LayoutContextType {
   // Expand/collapse state for content display
   expandDepth: number;
   expandMode: 'depth' | 'mixed';
+  // Keyed by section anchor (see sectionAnchors), so they survive edits
   manualOverrides: Record<string, boolean>;
   setExpandDepth: (depth: number) => void;
   setManualOverride: (sectionId: string, isExpanded: boolean) => void;
@@ -43,6 +53,10 @@ interface LayoutContextType {
   descriptionOverrides: Record<string, boolean>;
   setShowDescriptions: (mode: 'on' | 'off') => void;
   setDescriptionOverride: (sectionId: string, isVisible: boolean) => void;
+
+  // Tag taxonomy and the Filters pane selection; tagFilter is null when nothing is filtered out
+  tagTaxonomy: TagCategory[];
+  tagFilter: TagFilter | null;
 }
 
 const LayoutContext = createContext<LayoutContextType | null>(null);
@@ -67,6 +81,7 @@ export const PersistentLayout: React.FC = () => {
   const [contentNodes, setContentNodes] = useState<WikiDocument[]>([]);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [hasInitialNavigation, setHasInitialNavigation] = useState(false);
+  const [needsLocalFolder, setNeedsLocalFolder] = useState(false);
   
   // UI state
   const [showEditor, setShowEditor] = useState(false);
@@ -81,6 +96,11 @@ export const PersistentLayout: React.FC = () => {
   const [showDescriptions, setShowDescriptionsState] = useState<'on' | 'off' | 'mixed'>('off');
   const [descriptionOverrides, setDescriptionOverrides] = useState<Record<string, boolean>>({});
   
+  // Tag values unchecked in the Filters pane
+  const tagTaxonomy = useTagTaxonomy();
+  const [excludedTags, setExcludedTags] = useState<string[]>([]);
+  const tagFilter = useMemo(() => createTagFilter(tagTaxonomy, excludedTags), [tagTaxonomy, excludedTags]);
+
   // Sidebar collapse trigger
   const [sidebarCollapseKey, setSidebarCollapseKey] = useState(0);
   
@@ -119,10 +139,22 @@ export const PersistentLayout: React.FC = () => {
     }
   };
 
-  useEffect(() => {
-    loadNavigationData(true);
+  // The filesystem backend can only load once the user has granted folder access
+  const initializeStorage = useCallback(async () => {
+    const adapter = getStorageAdapter();
+    if (adapter instanceof FileSystemStorageAdapter && !(await adapter.files.hasDirectory())) {
+      setNeedsLocalFolder(true);
+      setIsInitialLoading(false);
+      return;
+    }
+    setNeedsLocalFolder(false);
+    await loadNavigationData(true);
   }, []);
 
+  useEffect(() => {
+    initializeStorage();
+  }, [initializeStorage]);
+
   // Navigate to first root folder on initial load
   useEffect(() => {
     if (!hasInitialNavigation && navigationStructure.length > 0 && location.pathname === '/') {
@@ -138,6 +170,40 @@ export const PersistentLayout: React.FC = () => {
     loadNavigationData();
   }, []);
 
+  // Section lists and tags follow content edits made elsewhere
+  const loadDocuments = async () => {
+    try {
+      setContentNodes(await ContentService.getAllDocuments());
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    }
+  };
+
+  // Keep the sidebar current when content changes elsewhere; the tree is only
+  // reloaded when a change touched it (see ContentChangeEvent.structural)
+  const realtimeReloadTimerRef = React.useRef<NodeJS.Timeout | null>(null);
+  const pendingStructuralChangeRef = React.useRef(false);
+  useContentChanges(event => {
+    pendingStructuralChangeRef.current = pendingStructuralChangeRef.current || event.structural;
+    if (realtimeReloadTimerRef.current) {
+      clearTimeout(realtimeReloadTimerRef.current);
+    }
+    realtimeReloadTimerRef.current = setTimeout(() => {
+      const structural = pendingStructuralChangeRef.current;
+      pendingStructuralChangeRef.current = false;
+      if (structural) loadNavigationData();
+      else loadDocuments();
+    }, REALTIME_RELOAD_DELAY);
+  });
+
+  useEffect(() => {
+    return () => {
+      if (realtimeReloadTimerRef.current) {
+        clearTimeout(realtimeReloadTimerRef.current);
+      }
+    };
+  }, []);
+
   // Expand depth handlers
   const handleSetManualOverride = useCallback((sectionId: string, isExpanded: boolean) => {
     setManualOverrides(prev => ({ ...prev, [sectionId]: isExpanded }));
@@ -161,6 +227,13 @@ export const PersistentLayout: React.FC = () => {
     setDescriptionOverrides({});
   }, []);
 
+  const handleTagToggle = useCallback((tag: string, included: boolean) => {
+    const normalized = normalizeTag(tag);
+    setExcludedTags(prev => included ? prev.filter(existing => existing !== normalized) : [...prev, normalized]);
+  }, []);
+
+  const handleTagFiltersReset = useCallback(() => setExcludedTags([]), []);
+
   // Collapse all handler
   const handleCollapseAll = useCallback(() => {
     setExpandDepth(0);
@@ -169,6 +242,11 @@ export const PersistentLayout: React.FC = () => {
     setSidebarCollapseKey(prev => prev + 1);
   }, []);
 
+  const storageAdapter = getStorageAdapter();
+  if (needsLocalFolder && storageAdapter instanceof FileSystemStorageAdapter) {
+    return <LocalFolderPrompt files={storageAdapter.files} onReady={initializeStorage} />;
+  }
+
   if (isInitialLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -196,7 +274,9 @@ export const PersistentLayout: React.FC = () => {
       showDescriptions,
       descriptionOverrides,
       setShowDescriptions: handleShowDescriptionsChange,
-      setDescriptionOverride: handleSetDescriptionOverride
+      setDescriptionOverride: handleSetDescriptionOverride,
+      tagTaxonomy,
+      tagFilter
     }}>
       <WikiLayout
         navigationStructure={navigationStructure}
@@ -213,6 +293,11 @@ export const PersistentLayout: React.FC = () => {
         onShowDescriptionsChange={handleShowDescriptionsChange}
         onCollapseAll={handleCollapseAll}
         sidebarCollapseKey={sidebarCollapseKey}
+        tagTaxonomy={tagTaxonomy}
+        excludedTags={excludedTags}
+        tagFilter={tagFilter}
+        onTagToggle={handleTagToggle}
+        onTagFiltersReset={handleTagFiltersReset}
       >
         <Outlet />
       </WikiLayout>
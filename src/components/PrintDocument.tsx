@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { renderMarkdown } from '@/lib/markdownRenderer';
+import { getStampColors } from '@/lib/rubricConfig';
+import { paginate, PrintOutline, PrintSection } from '@/lib/printLayout';
+
+interface PrintDocumentProps {
+  outline: PrintOutline;
+  // The printed section an internal link points at, if it is in this printout
+  resolveLink: (target: string) => PrintSection | null;
+  subtitle?: string;
+}
+
+interface PageLayout {
+  // Start page of the title/contents blocks and of each section
+  front: number[];
+  content: number[];
+  // Blocks taller than a page, which spill over onto the following sheets
+  oversized: Set<string>;
+}
+
+// Space taken by the rule above a page's footnotes
+const NOTES_SEPARATOR_PX = 24;
+// Stands in for page numbers while measuring
+const PAGE_PLACEHOLDER = '00';
+
+const PAGE_CLASS = 'print-page w-[210mm] bg-white text-black px-[20mm] pt-[18mm] pb-[12mm] flex flex-col mx-auto my-6 shadow-lg print:m-0 print:shadow-none';
+
+const headingClass = (depth: number) => {
+  if (depth === 0) return 'text-3xl font-bold';
+  if (depth === 1) return 'text-xl font-semibold';
+  if (depth === 2) return 'text-lg font-semibold';
+  return 'text-base font-semibold';
+};
+
+/**
+ * Paginated, fully expanded rendering of a document for printing and "Save as
+ * PDF". Blocks are first rendered off-screen at page width to measure them, then
+ * laid out on A4 pages so the contents and internal links can cite page numbers.
+ */
+export const PrintDocument: React.FC<PrintDocumentProps> = ({ outline, resolveLink, subtitle }) => {
+  const [layout, setLayout] = useState<PageLayout | null>(null);
+  const measureRef = useRef<HTMLDivElement | null>(null);
+
+  const titleSection = outline.sections[0]?.depth === 0 ? outline.sections[0] : null;
+  const bodySections = titleSection ? outline.sections.slice(1) : outline.sections;
+
+  useEffect(() => {
+    setLayout(null);
+  }, [outline]);
+
+  useEffect(() => {
+    if (layout) return;
+    let cancelled = false;
+
+    // Web fonts change line breaks, so wait for them before measuring
+    document.fonts.ready.then(() => {
+      const container = measureRef.current;
+      if (cancelled || !container) return;
+
+      const heightOf = (element: Element | null) => element ? element.getBoundingClientRect().height : 0;
+      const blocks = (kind: string) => Array.from(container.querySelectorAll(`[data-measure="${kind}"]`)).map(block => ({
+        key: block.getAttribute('data-key') || '',
+        height: heightOf(block),
+        notesHeight: heightOf(container.querySelector(`[data-measure-notes="${block.getAttribute('data-key')}"]`))
+      }));
+
+      const pageHeight = heightOf(container.querySelector('[data-page-body]'));
+      const front = blocks('front');
+      const content = blocks('content');
+      const frontPages = paginate(front, pageHeight, NOTES_SEPARATOR_PX);
+      const firstContentPage = (frontPages[frontPages.length - 1] || 0) + 1;
+
+      setLayout({
+        front: frontPages,
+        content: paginate(content, pageHeight, NOTES_SEPARATOR_PX, firstContentPage),
+        oversized: new Set([...front, ...content]
+          .filter(block => block.height + block.notesHeight > pageHeight)
+          .map(block => block.key))
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [layout, outline]);
+
+  const pageOf = (sectionId: string): string => {
+    if (!layout) return PAGE_PLACEHOLDER;
+    if (sectionId === titleSection?.id) return String(layout.front[0]);
+    const index = bodySections.findIndex(section => section.id === sectionId);
+    return index === -1 ? PAGE_PLACEHOLDER : String(layout.content[index]);
+  };
+
+  // Internal links become page references; links outside the printout say where they lead
+  const renderContent = (markdown: string): string => {
+    const html = renderMarkdown(markdown);
+    if (!html.includes('data-internal-link')) return html;
+
+    const page = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+    page.querySelectorAll('a[data-internal-link]').forEach(link => {
+      const target = link.getAttribute('data-internal-link') || '';
+      const section = resolveLink(target);
+      const reference = page.createElement('span');
+      reference.className = 'text-gray-500 text-[0.85em]';
+
+      if (section) {
+        link.setAttribute('href', `#print-${section.id}`);
+        link.removeAttribute('data-internal-link');
+        reference.textContent = ` (${section.number ? `§${section.number}, ` : ''}p. ${pageOf(section.id)})`;
+        link.after(reference);
+      } else {
+        // Nothing to jump to in the PDF, so keep the text and name the target
+        const text = page.createElement('span');
+        text.textContent = link.textContent;
+        reference.textContent = ` (see ${target})`;
+        link.replaceWith(text, reference);
+      }
+    });
+    return page.body.firstElementChild!.innerHTML;
+  };
+
+  // Section text followed by its footnote numbers
+  const renderSectionContent = (section: PrintSection): string => {
+    const markers = section.footnotes.map(note => note.number).join(', ');
+    return renderContent(section.content) + (markers ? `<sup class="ml-0.5 text-gray-500">${markers}</sup>` : '');
+  };
+
+  const renderTitleBlock = () => (
+    <div className="flow-root pb-6">
+      <h1 id={titleSection ? `print-${titleSection.id}` : undefined} className={headingClass(0)}>{outline.title}</h1>
+      {subtitle && <p className="mt-1 text-sm text-gray-500">{subtitle}</p>}
+      {titleSection && (titleSection.content || titleSection.footnotes.length > 0) && (
+        <div
+          className="prose prose-slate max-w-none mt-4 italic text-gray-600 [&>p:last-of-type]:inline"
+          dangerouslySetInnerHTML={{ __html: renderSectionContent(titleSection) }}
+        />
+      )}
+      {bodySections.length > 0 && <h2 className="mt-8 mb-2 text-sm font-semibold uppercase tracking-wider text-gray-500">Contents</h2>}
+    </div>
+  );
+
+  const renderTocRow = (section: PrintSection) => (
+    <a href={`#print-${section.id}`} className="flex items-baseline gap-2 py-0.5 text-sm text-black no-underline" style={{ paddingLeft: (section.depth - 1) * 16 }}>
+      <span className="tabular-nums text-gray-500">{section.number}</span>
+      <span className={section.depth === 1 ? 'font-medium' : ''}>{section.title}</span>
+      <span className="flex-1 border-b border-dotted border-gray-400" />
+      <span className="tabular-nums">{pageOf(section.id)}</span>
+    </a>
+  );
+
+  const renderSectionBlock = (section: PrintSection) => {
+    const colors = section.rubric ? getStampColors(section.rubric) : null;
+    return (
+      <div id={`print-${section.id}`} className="flow-root pb-4">
+        {colors && (
+          <div className={`inline-flex px-1.5 py-0.5 mb-1 rounded-md border text-[10px] font-semibold uppercase tracking-wider ${colors.bg} ${colors.text} ${colors.border}`}>
+            {section.rubric}
+          </div>
+        )}
+        <h2 className={headingClass(section.depth)}>
+          {section.number && <span className="mr-2 tabular-nums text-gray-500">{section.number}</span>}
+          {section.title}
+        </h2>
+        {(section.content || section.footnotes.length > 0) && (
+          <div
+            className="prose prose-slate prose-sm max-w-none mt-1 [&>p:last-of-type]:inline"
+            dangerouslySetInnerHTML={{ __html: renderSectionContent(section) }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const footer = (page: string) => (
+    <footer className="pt-3 flex justify-between text-[10px] text-gray-500">
+      <span>{outline.title}</span>
+      <span className="tabular-nums">{page}</span>
+    </footer>
+  );
+
+  const renderFootnotes = (section: PrintSection) => (
+    <ol className="text-[10px] leading-snug text-gray-600">
+      {section.footnotes.map(note => (
+        <li key={note.number} className="break-all">
+          <sup className="mr-1">{note.number}</sup>{note.url}
+        </li>
+      ))}
+    </ol>
+  );
+
+  if (!layout) {
+    return (
+      <>
+        <p className="py-8 text-center text-muted-foreground print:hidden">Laying out pages…</p>
+        {/* Off-screen page used for measuring; its body has the height of a printed page's text area */}
+        <div ref={measureRef} aria-hidden className="fixed top-0 left-[-10000px] invisible">
+          <div className={`${PAGE_CLASS} h-[297mm]`}>
+            <div data-page-body className="flex-1 min-h-0">
+              <div data-measure="front" data-key="title">{renderTitleBlock()}</div>
+              {titleSection && titleSection.footnotes.length > 0 && <div data-measure-notes="title">{renderFootnotes(titleSection)}</div>}
+              {bodySections.map(section => (
+                <div key={section.id} data-measure="front" data-key={`toc-${section.id}`}>{renderTocRow(section)}</div>
+              ))}
+              {bodySections.map(section => (
+                <React.Fragment key={section.id}>
+                  <div data-measure="content" data-key={section.id}>{renderSectionBlock(section)}</div>
+                  {section.footnotes.length > 0 && <div data-measure-notes={section.id}>{renderFootnotes(section)}</div>}
+                </React.Fragment>
+              ))}
+            </div>
+            {footer(PAGE_PLACEHOLDER)}
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  // Group blocks by the page they start on
+  const pages = new Map<number, { blocks: React.ReactNode[]; notes: PrintSection[]; oversized: boolean }>();
+  const place = (page: number, key: string, block: React.ReactNode, notes?: PrintSection) => {
+    const entry = pages.get(page) || { blocks: [], notes: [], oversized: false };
+    entry.blocks.push(<React.Fragment key={key}>{block}</React.Fragment>);
+    if (notes) entry.notes.push(notes);
+    entry.oversized = entry.oversized || layout.oversized.has(key);
+    pages.set(page, entry);
+  };
+
+  const withNotes = (section: PrintSection | null) => section && section.footnotes.length > 0 ? section : undefined;
+  place(layout.front[0], 'title', renderTitleBlock(), withNotes(titleSection));
+  bodySections.forEach((section, index) => place(layout.front[index + 1], `toc-${section.id}`, renderTocRow(section)));
+  bodySections.forEach((section, index) =>
+    place(layout.content[index], section.id, renderSectionBlock(section), withNotes(section))
+  );
+
+  return (
+    <div>
+      {Array.from(pages.entries()).map(([page, { blocks, notes, oversized }]) => (
+        <section key={page} className={`${PAGE_CLASS} ${oversized ? 'min-h-[297mm]' : 'h-[297mm]'} break-after-page`}>
+          <div className="flex-1 min-h-0">{blocks}</div>
+          {notes.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-gray-300 space-y-0.5">
+              {notes.map(section => <React.Fragment key={section.id}>{renderFootnotes(section)}</React.Fragment>)}
+            </div>
+          )}
+          {!oversized && footer(String(page))}
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { EmbeddingService } from '@/services/embeddingService';
+import { RelatedSection } from '@/lib/sectionEmbeddings';
+import { parseRubric } from '@/lib/rubricConfig';
+
+interface RelatedSectionsProps {
+  itemId: string;
+  sectionId: string;
+  currentDocumentPath: string;
+  onNavigate: (documentPath: string, sectionId: string, sectionTitle: string) => void;
+}
+
+/**
+ * Sections elsewhere in the wiki that cover similar ground, so overlapping
+ * guidance can be found and consolidated. Hidden when there are none.
+ */
+export const RelatedSections: React.FC<RelatedSectionsProps> = ({ itemId, sectionId, currentDocumentPath, onNavigate }) => {
+  const [related, setRelated] = useState<RelatedSection[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRelated([]);
+    EmbeddingService.getRelatedSections(itemId, sectionId).then(result => {
+      if (!cancelled) setRelated(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, sectionId]);
+
+  if (related.length === 0) return null;
+
+  return (
+    <aside className="rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center gap-1.5 mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+        <Sparkles className="w-3.5 h-3.5" />
+        Related sections
+      </div>
+      <ul className="space-y-1">
+        {related.map(({ section, score }) => (
+          <li key={`${section.itemId}-${section.sectionId}`}>
+            <button
+              onClick={() => onNavigate(section.documentPath, section.sectionId, section.sectionTitle)}
+              className="w-full text-left flex items-baseline gap-2 rounded px-2 py-1 text-sm hover:bg-accent/50 transition-colors"
+            >
+              <span className="font-medium">{parseRubric(section.sectionTitle).text}</span>
+              <span className="text-xs text-muted-foreground truncate">
+                {section.documentPath === currentDocumentPath ? 'this page' : section.documentTitle}
+              </span>
+              <span className="ml-auto text-xs tabular-nums text-muted-foreground" title="Similarity">
+                {Math.round(score * 100)}%
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
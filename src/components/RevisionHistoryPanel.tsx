@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { History, Loader2, RotateCcw, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { HierarchicalContentDisplay } from './HierarchicalContentDisplay';
+import { SectionDiffView, SectionDiffMode } from './SectionDiffView';
+import { RevisionService, DocumentRevision, DocumentRevisionSummary } from '@/services/revisionService';
+import { convertSectionsToMarkdown } from '@/lib/sectionUtils';
+import { diffSections } from '@/lib/sectionDiff';
+
+interface RevisionHistoryPanelProps {
+  documentId: string;
+  documentTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+/**
+ * Side panel listing saved revisions of a document.
+ * Selecting a revision previews it read-only or shows what changed since the
+ * revision before it; restoring writes it back as a new save.
+ */
+export const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({
+  documentId,
+  documentTitle,
+  open,
+  onOpenChange,
+  onRestored
+}) => {
+  const [revisions, setRevisions] = useState<DocumentRevisionSummary[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(false);
+  const [selectedRevision, setSelectedRevision] = useState<DocumentRevision | null>(null);
+  const [previousRevision, setPreviousRevision] = useState<DocumentRevision | null>(null);
+  const [view, setView] = useState<'preview' | 'changes'>('preview');
+  const [diffMode, setDiffMode] = useState<SectionDiffMode>('inline');
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Reload the list each time the panel opens so new autosaves show up
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadRevisions = async () => {
+      setIsLoadingList(true);
+      setSelectedRevision(null);
+      setPreviousRevision(null);
+      const list = await RevisionService.listRevisions(documentId);
+      if (!cancelled) {
+        setRevisions(list);
+        setIsLoadingList(false);
+      }
+    };
+
+    loadRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId]);
+
+  const handleSelect = async (revisionId: string) => {
+    setIsLoadingPreview(true);
+    // The list is newest first, so the revision being compared against is the next one down
+    const index = revisions.findIndex(revision => revision.id === revisionId);
+    const previousId = index >= 0 && index < revisions.length - 1 ? revisions[index + 1].id : null;
+    const [revision, previous] = await Promise.all([
+      RevisionService.getRevision(revisionId),
+      previousId ? RevisionService.getRevision(previousId) : Promise.resolve(null)
+    ]);
+    setSelectedRevision(revision);
+    setPreviousRevision(previous);
+    setIsLoadingPreview(false);
+  };
+
+  const diff = useMemo(
+    () => selectedRevision ? diffSections(previousRevision?.content_json || [], selectedRevision.content_json || []) : null,
+    [selectedRevision, previousRevision]
+  );
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+
+    const timestamp = format(new Date(selectedRevision.created_at), 'PPpp');
+    if (!confirm(`Restore "${documentTitle}" to the version saved ${timestamp}?`)) return;
+
+    setIsRestoring(true);
+    const success = await RevisionService.restoreRevision(selectedRevision.id);
+    setIsRestoring(false);
+
+    if (success) {
+      toast.success("Revision restored");
+      onOpenChange(false);
+      onRestored?.();
+    } else {
+      toast.error("Failed to restore revision");
+    }
+  };
+
+  const isCurrent = (revisionId: string) => revisions.length > 0 && revisions[0].id === revisionId;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col p-0">
+        <SheetHeader className="px-6 pt-6">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Revision history
+          </SheetTitle>
+          <SheetDescription>{documentTitle}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 flex min-h-0 border-t">
+          {/* Revision list */}
+          <ScrollArea className="w-64 shrink-0 border-r">
+            <div className="p-2 space-y-1">
+              {isLoadingList && (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {!isLoadingList && revisions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">No revisions recorded yet</p>
+              )}
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => handleSelect(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                    selectedRevision?.id === revision.id ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+                  }`}
+                >
+                  <div className="text-sm font-medium" title={format(new Date(revision.created_at), 'PPpp')}>
+                    {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                    {isCurrent(revision.id) && (
+                      <span className="ml-2 text-[10px] uppercase tracking-wide text-primary">Current</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                    <User className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{revision.author_email || 'Unknown author'}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Preview */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selectedRevision && (
+              <div className="flex items-center justify-between gap-2 px-6 py-3 border-b">
+                <span className="text-xs text-muted-foreground truncate">
+                  Saved {format(new Date(selectedRevision.created_at), 'PPpp')}
+                  {selectedRevision.author_email && ` by ${selectedRevision.author_email}`}
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  {view === 'changes' && (
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={diffMode}
+                      onValueChange={(value) => value && setDiffMode(value as SectionDiffMode)}
+                    >
+                      <ToggleGroupItem value="inline" className="h-7 px-2 text-xs">Inline</ToggleGroupItem>
+                      <ToggleGroupItem value="side-by-side" className="h-7 px-2 text-xs">Side by side</ToggleGroupItem>
+                    </ToggleGroup>
+                  )}
+                  <Tabs value={view} onValueChange={(value) => setView(value as 'preview' | 'changes')}>
+                    <TabsList className="h-8">
+                      <TabsTrigger value="preview" className="text-xs px-2 py-1">Preview</TabsTrigger>
+                      <TabsTrigger value="changes" className="text-xs px-2 py-1">Changes</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  <Button
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={isRestoring || isCurrent(selectedRevision.id)}
+                    className="h-7 px-2 text-xs shrink-0"
+                  >
+                    {isRestoring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                    Restore this version
+                  </Button>
+                </div>
+              </div>
+            )}
+            <ScrollArea className="flex-1">
+              <div className="px-6 py-6">
+                {isLoadingPreview ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : selectedRevision && view === 'changes' && diff ? (
+                  <>
+                    {!previousRevision && (
+                      <p className="text-xs text-muted-foreground mb-3">First recorded revision - everything is shown as added</p>
+                    )}
+                    <SectionDiffView diff={diff} mode={diffMode} />
+                  </>
+                ) : selectedRevision ? (
+                  <HierarchicalContentDisplay
+                    content={convertSectionsToMarkdown(selectedRevision.content_json || [])}
+                    documentTitle={selectedRevision.title}
+                    showDescriptions="on"
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-12">
+                    Select a revision to preview it
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { WordDiffText } from './SectionDiffView';
+import { DocumentSection } from '@/services/contentService';
+import { SectionDiffEntry } from '@/lib/sectionDiff';
+import { SectionMerge, MergeChoice, applyMergeChoices } from '@/lib/sectionMerge';
+
+interface SaveConflictDialogProps {
+  merge: SectionMerge | null;
+  onResolve: (sections: DocumentSection[]) => void;
+  onDiscardLocal: () => void;
+}
+
+const describeEntry = (entry: SectionDiffEntry) => {
+  if (entry.type === 'added') return 'Only in your version';
+  if (entry.type === 'removed') return 'Only in the saved version';
+  return 'Changed on both sides';
+};
+
+interface VersionPaneProps {
+  label: string;
+  section?: DocumentSection;
+  entry: SectionDiffEntry;
+  side: 'base' | 'target';
+  selected: boolean;
+  onSelect: () => void;
+}
+
+const VersionPane: React.FC<VersionPaneProps> = ({ label, section, entry, side, selected, onSelect }) => (
+  <button
+    type="button"
+    onClick={onSelect}
+    className={`text-left rounded-md border p-3 min-w-0 transition-colors ${
+      selected ? 'border-primary bg-primary/5 ring-1 ring-primary' : 'border-border hover:bg-muted'
+    }`}
+  >
+    <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-1">{label}</div>
+    {section ? (
+      <>
+        <div className="font-semibold text-sm">
+          {entry.retitled && entry.titleDiff ? <WordDiffText ops={entry.titleDiff} side={side} /> : section.title}
+          {entry.releveled && <span className="ml-2 text-xs text-muted-foreground">level {section.level}</span>}
+        </div>
+        {section.content?.trim() && (
+          <div className="mt-1 text-xs text-muted-foreground whitespace-pre-wrap break-words line-clamp-6">
+            {entry.contentChanged && entry.contentDiff ? <WordDiffText ops={entry.contentDiff} side={side} /> : section.content.trim()}
+          </div>
+        )}
+      </>
+    ) : (
+      <div className="text-sm italic text-muted-foreground">Section not present</div>
+    )}
+  </button>
+);
+
+/**
+ * Shown when a save is rejected because the document was saved elsewhere.
+ * Lists every section that differs and lets the user pick their version or the
+ * saved one, then saves the merged result on top of the saved version.
+ */
+export const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({ merge, onResolve, onDiscardLocal }) => {
+  const [choices, setChoices] = useState<MergeChoice[]>([]);
+
+  useEffect(() => {
+    setChoices(merge ? merge.defaultChoices : []);
+  }, [merge]);
+
+  const conflicts = useMemo(
+    () => merge ? merge.diff.entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.type !== 'unchanged') : [],
+    [merge]
+  );
+
+  const setChoice = (index: number, choice: MergeChoice) => {
+    setChoices(prev => prev.map((value, i) => i === index ? choice : value));
+  };
+
+  const setAll = (choice: MergeChoice) => {
+    setChoices(prev => prev.map(() => choice));
+  };
+
+  const handleSaveMerge = () => {
+    if (!merge) return;
+    onResolve(applyMergeChoices(merge.diff, choices));
+  };
+
+  return (
+    <Dialog open={!!merge}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            This document was changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved a newer version while you were editing. Choose which version to keep for each section
+            below; nothing has been overwritten yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => setAll('local')}>
+            Use all mine
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => setAll('remote')}>
+            Use all saved
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0 -mx-6 px-6">
+          <div className="space-y-4 pb-2">
+            {conflicts.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Both versions have the same sections - saving will keep your version.
+              </p>
+            )}
+            {conflicts.map(({ entry, index }) => (
+              <div key={index} className="space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{(entry.target || entry.base)?.title}</span>
+                  {' · '}
+                  {describeEntry(entry)}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <VersionPane
+                    label="Yours"
+                    section={entry.target}
+                    entry={entry}
+                    side="target"
+                    selected={choices[index] === 'local'}
+                    onSelect={() => setChoice(index, 'local')}
+                  />
+                  <VersionPane
+                    label="Saved"
+                    section={entry.base}
+                    entry={entry}
+                    side="base"
+                    selected={choices[index] === 'remote'}
+                    onSelect={() => setChoice(index, 'remote')}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={onDiscardLocal}>
+            Discard my changes
+          </Button>
+          <Button onClick={handleSaveMerge}>
+            Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
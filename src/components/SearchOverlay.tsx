@@ -1,28 +1,133 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { X, FileText, Hash, Type, Loader2, ChevronRight } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { X, FileText, Hash, Type, Loader2, ChevronRight, Bookmark, Clock, Pin, PinOff, Trash2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { SearchService, SearchResult } from '@/services/searchService';
+import { SearchAnalyticsService } from '@/services/searchAnalyticsService';
+import { resultKey, SavedSearch, SavedSearchService } from '@/services/savedSearchService';
+import {
+  applyFacetFilters,
+  computeFacets,
+  FACET_FIELDS,
+  FacetField,
+  FacetFilters,
+  folderOf,
+  groupResultsByDocument,
+  SearchScope,
+  toggleFacetValue
+} from '@/lib/searchFacets';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 
 interface SearchOverlayProps {
   onClose: () => void;
+  // Saved search to run as soon as the overlay opens, e.g. one pinned in the sidebar
+  savedSearch?: SavedSearch | null;
+  // Document being viewed, for searching within it or its folder
+  documentPath?: string | null;
 }
 
-export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
+interface OpenedSearch {
+  search: SavedSearch;
+  // When it had been opened before this run; null the first time
+  previouslyOpenedAt: string | null;
+  newResultKeys: Set<string>;
+}
+
+type ScopeKind = 'all' | SearchScope['kind'];
+
+// Section hits shown per document until it is expanded
+const SECTIONS_PER_GROUP = 3;
+// Values listed per facet
+const FACET_VALUES_SHOWN = 6;
+
+const FACET_LABELS: Record<FacetField, string> = {
+  tag: 'Tags',
+  folder: 'Folder',
+  rubric: 'Rubric',
+  matchType: 'Match'
+};
+
+const MATCH_TYPE_LABELS: Record<SearchResult['matchType'], string> = {
+  'title': 'Document title',
+  'section-title': 'Section title',
+  'content': 'Content'
+};
+
+export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose, savedSearch, documentPath }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
+  // The results are only the best matches, so facet counts do not cover every match
+  const [truncated, setTruncated] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [queryError, setQueryError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [openedSearch, setOpenedSearch] = useState<OpenedSearch | null>(null);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [scopeKind, setScopeKind] = useState<ScopeKind>('all');
+  const [facetFilters, setFacetFilters] = useState<FacetFilters>({});
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const inputRef = useRef<HTMLInputElement>(null);
+  // Query whose results were loaded by opening a saved search, so the debounced search skips it
+  const loadedQueryRef = useRef<string | null>(null);
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const savedSearches = useSavedSearches();
+
+  const currentSavedSearch = savedSearches.find(search => search.query === searchTerm.trim());
+
+  const scope = useMemo<SearchScope | null>(() => {
+    if (!documentPath || scopeKind === 'all') return null;
+    return { kind: scopeKind, path: scopeKind === 'document' ? documentPath : folderOf(documentPath) };
+  }, [documentPath, scopeKind]);
+
+  const facets = useMemo(() => computeFacets(results, facetFilters), [results, facetFilters]);
+  const groups = useMemo(() => groupResultsByDocument(applyFacetFilters(results, facetFilters)), [results, facetFilters]);
+  // The results on screen, in order, for arrow-key selection
+  const visibleResults = useMemo(() => groups.flatMap(group => [
+    ...(group.document ? [group.document] : []),
+    ...(expandedGroups.has(group.documentId) ? group.sections : group.sections.slice(0, SECTIONS_PER_GROUP))
+  ]), [groups, expandedGroups]);
 
   // Auto-focus input when overlay opens
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
 
+  useEffect(() => {
+    setRecentSearches(user ? SavedSearchService.getRecentSearches(user.id) : []);
+  }, [user]);
+
+  // Each new set of results starts unfiltered and collapsed
+  useEffect(() => {
+    setFacetFilters({});
+    setExpandedGroups(new Set());
+  }, [results]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [facetFilters]);
+
+  // Saved searches always cover the whole wiki
+  const openSavedSearch = useCallback(async (search: SavedSearch) => {
+    loadedQueryRef.current = search.query;
+    setScopeKind('all');
+    setSearchTerm(search.query);
+    setQueryError(null);
+    setSaveName(null);
+    setIsLoading(true);
+    const opened = await SavedSearchService.openSavedSearch(search);
+    setResults(opened.results);
+    setTruncated(opened.truncated);
+    setSelectedIndex(0);
+    setOpenedSearch({ search: opened.search, previouslyOpenedAt: search.last_opened_at, newResultKeys: opened.newResultKeys });
+    setIsLoading(false);
+  }, []);
+
   // Close on Escape key, navigate with arrows
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -30,26 +135,35 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
         onClose();
       } else if (e.key === 'ArrowDown') {
         e.preventDefault();
-        setSelectedIndex(i => Math.min(i + 1, results.length - 1));
+        setSelectedIndex(i => Math.min(i + 1, visibleResults.length - 1));
       } else if (e.key === 'ArrowUp') {
         e.preventDefault();
         setSelectedIndex(i => Math.max(i - 1, 0));
-      } else if (e.key === 'Enter' && results.length > 0) {
+      } else if (e.key === 'Enter' && visibleResults.length > 0) {
         e.preventDefault();
-        handleResultClick(results[selectedIndex]);
+        handleResultClick(visibleResults[selectedIndex]);
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onClose, results, selectedIndex]);
+  }, [onClose, visibleResults, selectedIndex]);
 
   // Debounced search
   useEffect(() => {
+    if (searchTerm === loadedQueryRef.current) return;
+    loadedQueryRef.current = null;
+    setOpenedSearch(null);
+
     const timer = setTimeout(async () => {
-      if (searchTerm.trim().length >= 2) {
+      const error = SearchService.validateQuery(searchTerm);
+      setQueryError(error);
+      if (error) {
+        setResults([]);
+      } else if (searchTerm.trim().length >= 2) {
         setIsLoading(true);
-        const searchResults = await SearchService.search(searchTerm);
-        setResults(searchResults);
+        const page = await SearchService.searchPage(searchTerm, { scope, source: 'overlay' });
+        setResults(page.results);
+        setTruncated(page.truncated);
         setSelectedIndex(0);
         setIsLoading(false);
       } else {
@@ -58,15 +172,63 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
     }, 200);
     
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, scope]);
+
+  // Runs after the debounced search effect so the query it loads is not searched twice
+  useEffect(() => {
+    if (savedSearch) openSavedSearch(savedSearch);
+  }, [savedSearch, openSavedSearch]);
+
+  const openPath = useCallback((path: string) => {
+    if (user) SavedSearchService.addRecentSearch(user.id, searchTerm);
+    navigate(path);
+    onClose();
+  }, [navigate, onClose, user, searchTerm]);
 
   const handleResultClick = useCallback((result: SearchResult) => {
     const path = result.sectionId 
       ? `${result.documentPath}#${result.sectionId}`
       : result.documentPath;
-    navigate(path);
-    onClose();
-  }, [navigate, onClose]);
+    SearchAnalyticsService.recordClick('overlay', searchTerm, result, results.indexOf(result));
+    openPath(path);
+  }, [openPath, results, searchTerm]);
+
+  const handleScopeChange = (kind: ScopeKind) => {
+    // A saved search's results are for the whole wiki, so search again
+    loadedQueryRef.current = null;
+    setScopeKind(kind);
+  };
+
+  const toggleGroup = (documentId: string) => {
+    setExpandedGroups(expanded => {
+      const next = new Set(expanded);
+      if (next.has(documentId)) next.delete(documentId);
+      else next.add(documentId);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!saveName?.trim()) return;
+    const saved = await SavedSearchService.createSavedSearch(saveName, searchTerm);
+    if (saved) setSaveName(null);
+  };
+
+  // Keys typed into the name field must not reach the overlay's shortcuts
+  const handleSaveKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Enter') handleSave();
+      else setSaveName(null);
+    }
+  };
+
+  const handleClearRecent = () => {
+    if (!user) return;
+    SavedSearchService.clearRecentSearches(user.id);
+    setRecentSearches([]);
+  };
 
   const getMatchTypeIcon = (type: SearchResult['matchType']) => {
     switch (type) {
@@ -85,6 +247,59 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
     );
   };
 
+  // Within a group the document title is already shown, so section breadcrumbs leave it out
+  const renderResult = (result: SearchResult, inGroup: boolean) => {
+    const index = visibleResults.indexOf(result);
+    const breadcrumb = inGroup ? result.breadcrumbPath.slice(1) : result.breadcrumbPath;
+    return (
+      <button
+        key={result.id}
+        onClick={() => handleResultClick(result)}
+        className={`w-full text-left px-3 py-3 rounded-md flex items-start gap-3 transition-colors ${
+          index === selectedIndex 
+            ? 'bg-accent text-accent-foreground' 
+            : 'hover:bg-muted'
+        }`}
+      >
+        <div className="mt-0.5 shrink-0">
+          {getMatchTypeIcon(result.matchType)}
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          {/* Breadcrumb path - full names */}
+          {(!inGroup || breadcrumb.length > 1) && (
+            <div className="flex items-center gap-1 text-[10px] text-muted-foreground flex-wrap">
+              {breadcrumb.map((segment, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <ChevronRight className="h-2.5 w-2.5 shrink-0" />}
+                  <span>{segment}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+          {/* Title */}
+          <div className="font-medium text-sm">
+            {renderHighlightedText(result.sectionTitle || result.documentTitle)}
+            {openedSearch?.previouslyOpenedAt && openedSearch.newResultKeys.has(resultKey(result)) && (
+              <span className="ml-2 rounded bg-primary px-1.5 py-0.5 text-[10px] font-semibold uppercase text-primary-foreground align-middle">New</span>
+            )}
+          </div>
+          {/* Typo variants the words were matched as */}
+          {result.matchedVariants && (
+            <div className="text-[10px] italic text-muted-foreground">
+              {result.matchedVariants.map(({ term, variant }) => `"${variant}" for "${term}"`).join(', ')}
+            </div>
+          )}
+          {/* Full content preview; the highlighted snippet for content matches */}
+          <p className="text-xs text-muted-foreground line-clamp-3 leading-relaxed">
+            {renderHighlightedText(result.fullContent.length > 300 || result.matchType === 'content'
+              ? result.matchedText 
+              : result.fullContent)}
+          </p>
+        </div>
+      </button>
+    );
+  };
+
   return (
     <div className="absolute inset-x-0 top-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col items-center pt-16 pb-8" style={{ height: 'auto', maxHeight: '70%' }}>
       {/* Close button */}
@@ -103,7 +318,7 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
           <Input
             ref={inputRef}
             type="text"
-            placeholder="Search documents..."
+            placeholder='Search documents... e.g. tag:research "open questions" -draft'
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="h-12 px-4 text-base rounded-lg border-2 focus-visible:ring-2 pr-10"
@@ -112,52 +327,149 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
             <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 animate-spin text-muted-foreground" />
           )}
         </div>
+
+        {/* Where to search, relative to the document being viewed */}
+        {documentPath && (
+          <div className="flex items-center gap-1 text-xs">
+            <span className="mr-1 text-muted-foreground">Search in</span>
+            {([
+              ['all', 'Everywhere'],
+              ['folder', `This folder (${folderOf(documentPath)})`],
+              ['document', 'This document']
+            ] as [ScopeKind, string][]).map(([kind, label]) => (
+              <Button
+                key={kind}
+                variant={scopeKind === kind ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => handleScopeChange(kind)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Saving the current query */}
+        {searchTerm.trim().length >= 2 && !queryError && (
+          saveName !== null ? (
+            <div className="flex items-center gap-2">
+              <Input
+                autoFocus
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={handleSaveKeyDown}
+                placeholder="Name this search..."
+                className="h-8 text-sm"
+              />
+              <Button size="sm" className="h-8" onClick={handleSave} disabled={!saveName.trim()}>Save</Button>
+              <Button size="sm" variant="ghost" className="h-8" onClick={() => setSaveName(null)}>Cancel</Button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>
+                {openedSearch && (
+                  <>
+                    Saved search <span className="font-medium text-foreground">{openedSearch.search.name}</span>
+                    {openedSearch.previouslyOpenedAt && (
+                      <> · {openedSearch.newResultKeys.size} new since {formatDistanceToNow(new Date(openedSearch.previouslyOpenedAt), { addSuffix: true })}</>
+                    )}
+                  </>
+                )}
+              </span>
+              {currentSavedSearch ? (
+                <span className="flex items-center gap-1"><Bookmark className="h-3 w-3 fill-current" />Saved as {currentSavedSearch.name}</span>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSaveName('')}>
+                  <Bookmark className="h-3 w-3 mr-1" />
+                  Save search
+                </Button>
+              )}
+            </div>
+          )
+        )}
         
-        {/* Results */}
-        {results.length > 0 && (
+        {/* Facets, counted over the current results */}
+        {results.length > 1 && (
+          <div className="space-y-1 text-xs">
+            {truncated && (
+              <p className="text-[10px] text-muted-foreground">
+                Counts cover the {results.length} best matches shown, not every match
+              </p>
+            )}
+            {FACET_FIELDS.filter(field => facets[field].length > 0).map(field => (
+              <div key={field} className="flex items-baseline gap-2">
+                <span className="w-12 shrink-0 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{FACET_LABELS[field]}</span>
+                <div className="flex flex-wrap gap-1">
+                  {facets[field].slice(0, FACET_VALUES_SHOWN).map(({ value, count }) => {
+                    const isActive = facetFilters[field]?.includes(value);
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => setFacetFilters(filters => toggleFacetValue(filters, field, value))}
+                        className={`rounded-full border px-2 py-0.5 transition-colors ${
+                          isActive ? 'border-primary bg-primary text-primary-foreground' : 'bg-card hover:bg-muted'
+                        }`}
+                      >
+                        {field === 'matchType' ? MATCH_TYPE_LABELS[value as SearchResult['matchType']] : value}
+                        <span className={`ml-1 tabular-nums ${isActive ? '' : 'text-muted-foreground'}`}>{count}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Results, grouped by document */}
+        {groups.length > 0 && (
           <div className="max-h-[60vh] overflow-y-auto rounded-lg border bg-card shadow-lg">
-            <div className="p-2 space-y-1">
-              {results.map((result, index) => (
-                <button
-                  key={result.id}
-                  onClick={() => handleResultClick(result)}
-                  className={`w-full text-left px-3 py-3 rounded-md flex items-start gap-3 transition-colors ${
-                    index === selectedIndex 
-                      ? 'bg-accent text-accent-foreground' 
-                      : 'hover:bg-muted'
-                  }`}
-                >
-                  <div className="mt-0.5 shrink-0">
-                    {getMatchTypeIcon(result.matchType)}
-                  </div>
-                  <div className="flex-1 min-w-0 space-y-1">
-                    {/* Breadcrumb path - full names */}
-                    <div className="flex items-center gap-1 text-[10px] text-muted-foreground flex-wrap">
-                      {result.breadcrumbPath.map((segment, i) => (
-                        <React.Fragment key={i}>
-                          {i > 0 && <ChevronRight className="h-2.5 w-2.5 shrink-0" />}
-                          <span>{segment}</span>
-                        </React.Fragment>
-                      ))}
-                    </div>
-                    {/* Title */}
-                    <div className="font-medium text-sm">
-                      {renderHighlightedText(result.sectionTitle || result.documentTitle)}
-                    </div>
-                    {/* Full content preview */}
-                    <p className="text-xs text-muted-foreground line-clamp-3 leading-relaxed">
-                      {renderHighlightedText(result.fullContent.length > 300 
-                        ? result.matchedText 
-                        : result.fullContent)}
-                    </p>
+            <div className="p-2 space-y-2">
+              {groups.map(group => {
+                const isExpanded = expandedGroups.has(group.documentId);
+                const hiddenCount = group.sections.length - SECTIONS_PER_GROUP;
+                return (
+                  <div key={group.documentId}>
+                    {group.document ? renderResult(group.document, false) : (
+                      <button
+                        onClick={() => openPath(group.documentPath)}
+                        className="w-full text-left px-3 py-1.5 rounded-md flex items-center gap-2 text-sm font-medium hover:bg-muted"
+                      >
+                        <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{group.documentTitle}</span>
+                        <span className="text-xs font-normal text-muted-foreground">
+                          {group.sections.length} {group.sections.length === 1 ? 'section' : 'sections'}
+                        </span>
+                      </button>
+                    )}
+                    {group.sections.length > 0 && (
+                      <div className="ml-5 border-l pl-2 space-y-1">
+                        {(isExpanded ? group.sections : group.sections.slice(0, SECTIONS_PER_GROUP)).map(result => renderResult(result, true))}
+                        {hiddenCount > 0 && (
+                          <button
+                            onClick={() => toggleGroup(group.documentId)}
+                            className="px-3 py-1 text-xs text-muted-foreground hover:text-foreground"
+                          >
+                            {isExpanded ? 'Show fewer' : `Show ${hiddenCount} more in ${group.documentTitle}`}
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
-                </button>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
         
-        {searchTerm.length >= 2 && !isLoading && results.length === 0 && (
+        {queryError && (
+          <div className="text-center py-4 text-destructive text-xs">
+            {queryError}
+          </div>
+        )}
+        
+        {!queryError && searchTerm.length >= 2 && !isLoading && results.length === 0 && (
           <div className="text-center py-6 text-muted-foreground text-sm">
             No results found for "{searchTerm}"
           </div>
@@ -168,6 +480,62 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({ onClose }) => {
             Type at least 2 characters to search
           </div>
         )}
+
+        {/* Saved and recent searches before anything is typed */}
+        {searchTerm.length === 0 && (savedSearches.length > 0 || recentSearches.length > 0) && (
+          <div className="max-h-[60vh] overflow-y-auto rounded-lg border bg-card shadow-lg p-2 space-y-3">
+            {savedSearches.length > 0 && (
+              <div>
+                <div className="px-2 py-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Saved searches</div>
+                {savedSearches.map(search => (
+                  <div key={search.id} className="group flex items-center gap-2 rounded-md px-2 hover:bg-muted">
+                    <button onClick={() => openSavedSearch(search)} className="flex-1 min-w-0 flex items-baseline gap-2 py-1.5 text-left">
+                      <Bookmark className="h-3.5 w-3.5 shrink-0 self-center text-muted-foreground" />
+                      <span className="text-sm font-medium">{search.name}</span>
+                      <span className="text-xs text-muted-foreground font-mono truncate">{search.query}</span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      title={search.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                      onClick={() => SavedSearchService.updateSavedSearch(search.id, { pinned: !search.pinned })}
+                    >
+                      {search.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                      title="Delete saved search"
+                      onClick={() => SavedSearchService.deleteSavedSearch(search.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {recentSearches.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between px-2 py-1">
+                  <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Recent searches</span>
+                  <button onClick={handleClearRecent} className="text-[10px] text-muted-foreground hover:text-foreground">Clear</button>
+                </div>
+                {recentSearches.map(query => (
+                  <button
+                    key={query}
+                    onClick={() => setSearchTerm(query)}
+                    className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                  >
+                    <Clock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{query}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
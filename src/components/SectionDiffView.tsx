@@ -0,0 +1,184 @@
+import React from 'react';
+import { ArrowRight, MoveVertical } from 'lucide-react';
+import { SectionDiff, SectionDiffEntry, WordDiffOp } from '@/lib/sectionDiff';
+
+export type SectionDiffMode = 'inline' | 'side-by-side';
+
+interface SectionDiffViewProps {
+  diff: SectionDiff;
+  mode: SectionDiffMode;
+  showUnchanged?: boolean;
+}
+
+// Same indentation step as HierarchicalContentDisplay (16px chevron + 1px gap)
+const INDENT_STEP_PX = 17;
+
+const INSERT_CLASS = 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400 rounded-sm';
+const DELETE_CLASS = 'bg-red-500/15 text-red-700 dark:text-red-400 line-through rounded-sm';
+
+const getIndentPx = (level: number | undefined) => Math.max((level || 1) - 1, 0) * INDENT_STEP_PX;
+
+const ChangeBadge: React.FC<{ className: string; children: React.ReactNode }> = ({ className, children }) => (
+  <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md border text-[10px] font-semibold uppercase tracking-wider flex-shrink-0 ${className}`}>
+    {children}
+  </span>
+);
+
+const EntryBadges: React.FC<{ entry: SectionDiffEntry }> = ({ entry }) => (
+  <>
+    {entry.type === 'added' && (
+      <ChangeBadge className="bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/30">Added</ChangeBadge>
+    )}
+    {entry.type === 'removed' && (
+      <ChangeBadge className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/30">Removed</ChangeBadge>
+    )}
+    {entry.moved && (
+      <ChangeBadge className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/30">
+        <MoveVertical className="w-3 h-3" />
+        Moved
+      </ChangeBadge>
+    )}
+    {entry.releveled && (
+      <ChangeBadge className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30">
+        Level {entry.base?.level}
+        <ArrowRight className="w-3 h-3" />
+        {entry.target?.level}
+      </ChangeBadge>
+    )}
+    {entry.retitled && (
+      <ChangeBadge className="bg-purple-500/10 text-purple-700 dark:text-purple-400 border-purple-500/30">Retitled</ChangeBadge>
+    )}
+    {entry.tagsChanged && (
+      <ChangeBadge className="bg-muted text-muted-foreground border-border">Tags</ChangeBadge>
+    )}
+  </>
+);
+
+/**
+ * Renders word diff ops. `side` limits output to one version for side-by-side mode.
+ */
+export const WordDiffText: React.FC<{ ops: WordDiffOp[]; side?: 'base' | 'target' }> = ({ ops, side }) => (
+  <>
+    {ops.map((op, index) => {
+      if (op.type === 'insert') {
+        return side === 'base' ? null : <ins key={index} className={`no-underline ${INSERT_CLASS}`}>{op.text}</ins>;
+      }
+      if (op.type === 'delete') {
+        return side === 'target' ? null : <del key={index} className={DELETE_CLASS}>{op.text}</del>;
+      }
+      return <span key={index}>{op.text}</span>;
+    })}
+  </>
+);
+
+const getRowClass = (entry: SectionDiffEntry) => {
+  switch (entry.type) {
+    case 'added':
+      return 'border-l-2 border-emerald-500/60 bg-emerald-500/5';
+    case 'removed':
+      return 'border-l-2 border-red-500/60 bg-red-500/5';
+    case 'modified':
+      return 'border-l-2 border-amber-500/60';
+    default:
+      return 'border-l-2 border-transparent';
+  }
+};
+
+const InlineEntry: React.FC<{ entry: SectionDiffEntry }> = ({ entry }) => {
+  const section = entry.target || entry.base;
+  const content = section?.content?.trim();
+
+  return (
+    <div className={`py-2 pr-2 rounded-sm ${getRowClass(entry)}`}>
+      <div className="flex items-center flex-wrap gap-2" style={{ marginLeft: `${getIndentPx(section?.level) + 8}px` }}>
+        <span className={`font-semibold text-hierarchy-hover ${entry.type === 'removed' ? 'line-through opacity-70' : ''}`}>
+          {entry.retitled && entry.titleDiff ? <WordDiffText ops={entry.titleDiff} /> : section?.title}
+        </span>
+        <EntryBadges entry={entry} />
+      </div>
+      {entry.type !== 'unchanged' && (entry.contentChanged || (entry.type !== 'modified' && content)) && (
+        <div
+          className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap break-words"
+          style={{ marginLeft: `${getIndentPx(section?.level) + INDENT_STEP_PX + 8}px` }}
+        >
+          {entry.contentChanged && entry.contentDiff ? <WordDiffText ops={entry.contentDiff} /> : content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SideBySideCell: React.FC<{ entry: SectionDiffEntry; side: 'base' | 'target' }> = ({ entry, side }) => {
+  const section = side === 'base' ? entry.base : entry.target;
+  if (!section) {
+    return <div className="bg-muted/30 rounded-sm" />;
+  }
+
+  const content = section.content?.trim();
+  const showContent = entry.type === 'added' || entry.type === 'removed' || entry.contentChanged;
+
+  return (
+    <div className={`py-2 pr-2 rounded-sm min-w-0 ${getRowClass(entry)}`}>
+      <div className="flex items-center flex-wrap gap-2" style={{ marginLeft: `${getIndentPx(section.level) + 8}px` }}>
+        <span className="font-semibold text-hierarchy-hover">
+          {entry.retitled && entry.titleDiff ? <WordDiffText ops={entry.titleDiff} side={side} /> : section.title}
+        </span>
+        {side === 'target' && <EntryBadges entry={entry} />}
+        {side === 'base' && entry.type === 'removed' && <EntryBadges entry={entry} />}
+      </div>
+      {showContent && content && (
+        <div
+          className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap break-words"
+          style={{ marginLeft: `${getIndentPx(section.level) + INDENT_STEP_PX + 8}px` }}
+        >
+          {entry.contentChanged && entry.contentDiff ? <WordDiffText ops={entry.contentDiff} side={side} /> : content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Shows a section diff in the document's hierarchy layout, either inline
+ * (one column with insertions and deletions interleaved) or side by side.
+ */
+export const SectionDiffView: React.FC<SectionDiffViewProps> = ({ diff, mode, showUnchanged = true }) => {
+  const { stats } = diff;
+  const entries = showUnchanged ? diff.entries : diff.entries.filter(entry => entry.type !== 'unchanged');
+
+  const summary = [
+    stats.added > 0 && `${stats.added} added`,
+    stats.removed > 0 && `${stats.removed} removed`,
+    stats.moved > 0 && `${stats.moved} moved`,
+    stats.releveled > 0 && `${stats.releveled} re-leveled`,
+    stats.retitled > 0 && `${stats.retitled} retitled`,
+    stats.contentChanged > 0 && `${stats.contentChanged} edited`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">{summary || 'No changes'}</p>
+
+      {mode === 'inline' ? (
+        <div className="space-y-1">
+          {entries.map((entry, index) => (
+            <InlineEntry key={index} entry={entry} />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <div className="grid grid-cols-2 gap-3 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+            <span>Before</span>
+            <span>After</span>
+          </div>
+          {entries.map((entry, index) => (
+            <div key={index} className="grid grid-cols-2 gap-3">
+              <SideBySideCell entry={entry} side="base" />
+              <SideBySideCell entry={entry} side="target" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
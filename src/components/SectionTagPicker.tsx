@@ -0,0 +1,69 @@
+import React from 'react';
+import { Tags } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TagCategory } from '@/services/tagTaxonomyService';
+import { normalizeTag } from '@/lib/tagFilters';
+
+interface SectionTagPickerProps {
+  tags: string[];
+  taxonomy: TagCategory[];
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * Tag a section with values from the tag taxonomy. Tags outside the taxonomy
+ * are listed under "Other" so they can be removed.
+ */
+export const SectionTagPicker: React.FC<SectionTagPickerProps> = ({ tags, taxonomy, onChange }) => {
+  const carried = new Set(tags.map(normalizeTag));
+  const known = new Set(taxonomy.flatMap(category => category.values.map(value => normalizeTag(value.value))));
+  const otherTags = tags.filter(tag => !known.has(normalizeTag(tag)));
+
+  const setTag = (tag: string, checked: boolean) => {
+    const normalized = normalizeTag(tag);
+    const remaining = tags.filter(existing => normalizeTag(existing) !== normalized);
+    onChange(checked ? [...remaining, tag] : remaining);
+  };
+
+  const renderOption = (id: string, tag: string, label: string) => (
+    <div key={id} className="flex items-center gap-2 py-0.5">
+      <Checkbox id={id} checked={carried.has(normalizeTag(tag))} onCheckedChange={(checked) => setTag(tag, checked === true)} className="h-4 w-4" />
+      <label htmlFor={id} className="text-sm cursor-pointer truncate">{label}</label>
+    </div>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+          title="Tag this section"
+        >
+          <Tags className="w-3.5 h-3.5 mr-1" />
+          Tags{tags.length > 0 && ` (${tags.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 max-h-96 overflow-y-auto space-y-3">
+        {taxonomy.length === 0 && otherTags.length === 0 && (
+          <p className="text-xs text-muted-foreground">No tag categories defined</p>
+        )}
+        {taxonomy.map(category => (
+          <div key={category.id}>
+            <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-1">{category.name}</div>
+            {category.values.map(value => renderOption(`section-tag-${value.id}`, value.value, value.label))}
+          </div>
+        ))}
+        {otherTags.length > 0 && (
+          <div>
+            <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-1">Other</div>
+            {otherTags.map(tag => renderOption(`section-tag-other-${tag}`, tag, tag))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
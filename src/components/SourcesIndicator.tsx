@@ -1,17 +1,29 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link2, ExternalLink } from 'lucide-react';
 import {
   HoverCard,
   HoverCardContent,
   HoverCardTrigger,
 } from '@/components/ui/hover-card';
+import { useStaticRender } from '@/hooks/useStaticRender';
+import { LinkPreviewService } from '@/services/linkPreviewService';
+import type { SourceMetadata } from '@/lib/linkPreview';
 
 interface SourcesIndicatorProps {
   sources: string[];
 }
 
 export const SourcesIndicator: React.FC<SourcesIndicatorProps> = ({ sources }) => {
+  const isStatic = useStaticRender();
+  // Stored page titles and excerpts, loaded when the card first opens
+  const [metadata, setMetadata] = useState<Record<string, SourceMetadata> | null>(null);
   if (!sources || sources.length === 0) return null;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || metadata) return;
+    setMetadata({});
+    LinkPreviewService.getSourceMetadata(sources).then(setMetadata);
+  };
   
   // Extract domain for display
   const getDomain = (url: string): string => {
@@ -23,8 +35,29 @@ export const SourcesIndicator: React.FC<SourcesIndicatorProps> = ({ sources }) =
     }
   };
   
+  // Exported pages have no hover card, so the list opens with a native disclosure
+  if (isStatic) {
+    return (
+      <details className="inline-block ml-2 align-middle">
+        <summary className="inline-flex items-center px-1.5 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-medium cursor-pointer list-none">
+          <Link2 className="w-3 h-3 mr-1" />
+          {sources.length}
+        </summary>
+        <ul className="mt-1 space-y-1">
+          {sources.map((url, index) => (
+            <li key={index} className="text-sm">
+              <a href={url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-primary">
+                {index + 1}. {getDomain(url)}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </details>
+    );
+  }
+
   return (
-    <HoverCard openDelay={200} closeDelay={100}>
+    <HoverCard openDelay={200} closeDelay={100} onOpenChange={handleOpenChange}>
       <HoverCardTrigger asChild>
         <button className="inline-flex items-center justify-center ml-2 px-1.5 py-0.5 rounded-full bg-primary/10 hover:bg-primary/20 text-primary text-xs font-medium transition-colors flex-shrink-0">
           <Link2 className="w-3 h-3 mr-1" />
@@ -38,22 +71,31 @@ export const SourcesIndicator: React.FC<SourcesIndicatorProps> = ({ sources }) =
             Sources ({sources.length})
           </h4>
           <ul className="space-y-1.5">
-            {sources.map((url, index) => (
-              <li key={index}>
-                <a
-                  href={url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors group"
-                >
-                  <span className="flex-shrink-0 w-5 h-5 rounded bg-muted flex items-center justify-center text-[10px] font-medium">
-                    {index + 1}
-                  </span>
-                  <span className="truncate flex-1">{getDomain(url)}</span>
-                  <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
-                </a>
-              </li>
-            ))}
+            {sources.map((url, index) => {
+              const page = metadata?.[url];
+              return (
+                <li key={index}>
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-start gap-2 text-sm text-muted-foreground hover:text-primary transition-colors group"
+                  >
+                    <span className="flex-shrink-0 w-5 h-5 rounded bg-muted flex items-center justify-center text-[10px] font-medium">
+                      {index + 1}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className={`block truncate ${page?.title ? 'text-foreground group-hover:text-primary' : ''}`}>
+                        {page?.title || getDomain(url)}
+                      </span>
+                      {page?.title && <span className="block truncate text-xs">{page.siteName || getDomain(url)}</span>}
+                      {page?.excerpt && <span className="block text-xs line-clamp-2 mt-0.5">{page.excerpt}</span>}
+                    </span>
+                    <ExternalLink className="w-3 h-3 mt-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
+                  </a>
+                </li>
+              );
+            })}
           </ul>
         </div>
       </HoverCardContent>
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { getOfflineAdapter, SyncConflict } from '@/services/storage';
+
+const describeOperation = (conflict: SyncConflict) => {
+  const { operation } = conflict;
+  switch (operation.kind) {
+    case 'insert':
+      return `New page "${operation.item.title}"`;
+    case 'update':
+      return operation.updates.title ? `Edit to "${operation.updates.title}"` : 'Edit to a page';
+    case 'delete':
+      return 'Page deletion';
+    case 'move':
+      return 'Page move';
+  }
+};
+
+const describeReason = (conflict: SyncConflict) => {
+  switch (conflict.reason) {
+    case 'changed-remotely':
+      return 'Someone else saved this page while you were offline.';
+    case 'deleted-remotely':
+      return 'This page was deleted while you were offline.';
+    default:
+      return conflict.message || 'The server rejected this change.';
+  }
+};
+
+/**
+ * Connection and sync state for the offline cache: offline/online, how many
+ * edits are waiting, and any that could not be applied on reconnect.
+ * Renders nothing when the storage backend has no offline cache.
+ */
+export const SyncStatusIndicator: React.FC = () => {
+  const status = useSyncStatus();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  if (!status) return null;
+
+  const { state, pendingCount, conflicts, lastSyncedAt } = status;
+  const isUpToDate = state === 'online' && pendingCount === 0 && conflicts.length === 0;
+
+  const handleSyncNow = () => {
+    getOfflineAdapter()?.syncPendingChanges();
+  };
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    setResolvingId(conflict.operation.id);
+    try {
+      await getOfflineAdapter()?.resolveConflict(conflict.operation.id, keep);
+      toast.success(keep === 'local' ? 'Your change was saved' : 'Kept the saved version');
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      toast.error('Could not resolve the conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const icon = conflicts.length > 0
+    ? <AlertTriangle className="h-4 w-4 text-amber-500" />
+    : state === 'syncing'
+      ? <Loader2 className="h-4 w-4 animate-spin" />
+      : state === 'offline'
+        ? <CloudOff className="h-4 w-4 text-amber-500" />
+        : <Cloud className="h-4 w-4" />;
+
+  const label = state === 'offline'
+    ? 'Offline'
+    : state === 'syncing'
+      ? 'Syncing'
+      : isUpToDate ? 'All changes synced' : 'Online';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 px-2 text-muted-foreground hover:text-foreground"
+          title={label}
+        >
+          {icon}
+          {(pendingCount > 0 || conflicts.length > 0) && (
+            <span className="text-xs tabular-nums">{pendingCount + conflicts.length}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <div className="text-sm font-medium">{label}</div>
+          <div className="text-xs text-muted-foreground">
+            {pendingCount > 0
+              ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`
+              : 'No changes waiting to sync'}
+            {lastSyncedAt && ` · last synced ${new Date(lastSyncedAt).toLocaleTimeString()}`}
+          </div>
+        </div>
+
+        {state === 'offline' && (
+          <p className="text-xs text-muted-foreground">
+            You can keep reading and editing. Changes are saved on this device and sent when you reconnect.
+          </p>
+        )}
+
+        {pendingCount > 0 && state !== 'syncing' && (
+          <Button variant="outline" size="sm" className="w-full" onClick={handleSyncNow}>
+            <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+            Sync now
+          </Button>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-amber-600 dark:text-amber-400">
+              {conflicts.length} change{conflicts.length === 1 ? '' : 's'} could not be synced
+            </div>
+            {conflicts.map(conflict => (
+              <div key={conflict.operation.id} className="rounded-md border p-2 space-y-2">
+                <div>
+                  <div className="text-xs font-medium">{describeOperation(conflict)}</div>
+                  <div className="text-xs text-muted-foreground">{describeReason(conflict)}</div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 flex-1 text-xs"
+                    disabled={resolvingId === conflict.operation.id}
+                    onClick={() => handleResolve(conflict, 'remote')}
+                  >
+                    Keep saved
+                  </Button>
+                  {(conflict.operation.kind === 'update' || conflict.operation.kind === 'insert') && (
+                    <Button
+                      size="sm"
+                      className="h-7 flex-1 text-xs"
+                      disabled={resolvingId === conflict.operation.id}
+                      onClick={() => handleResolve(conflict, 'local')}
+                    >
+                      Keep mine
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
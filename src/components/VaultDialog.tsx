@@ -0,0 +1,266 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, FolderInput, FolderOutput, FolderSync, Globe, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { VaultService } from '@/services/vaultService';
+import { StaticExportService } from '@/services/staticExportService';
+import { FileSystemSnapshotStore, pickDirectory } from '@/services/storage';
+import { VaultImportPlan, VaultProblem } from '@/lib/markdownVault';
+
+interface VaultDialogProps {
+  onImported: () => void;
+}
+
+const ProblemList: React.FC<{ problems: VaultProblem[] }> = ({ problems }) => (
+  <ul className="space-y-1">
+    {problems.map((problem, index) => (
+      <li key={index} className="text-xs flex gap-1.5">
+        <AlertTriangle className={`w-3 h-3 mt-0.5 shrink-0 ${problem.severity === 'error' ? 'text-destructive' : 'text-amber-500'}`} />
+        <span><span className="font-mono">{problem.file}</span>: {problem.message}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Export the content tree to a folder of markdown files, or import one back
+ * after reviewing a dry-run report of what would change. Also publishes the
+ * static HTML site.
+ */
+export const VaultDialog: React.FC<VaultDialogProps> = ({ onImported }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<'export' | 'site' | 'read' | 'import' | null>(null);
+  const [exportProblems, setExportProblems] = useState<VaultProblem[]>([]);
+  const [plan, setPlan] = useState<VaultImportPlan | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const canExport = FileSystemSnapshotStore.isSupported();
+  const blockingProblems = plan?.problems.filter(problem => problem.severity === 'error') || [];
+  const hasChanges = !!plan && (plan.creates.length > 0 || plan.updates.length > 0);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setPlan(null);
+      setExportProblems([]);
+    }
+  };
+
+  const chooseExportFolder = async (pickerId: string): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+      return await pickDirectory('readwrite', pickerId);
+    } catch (error) {
+      // Closing the picker rejects with AbortError - nothing to report
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error choosing export folder:', error);
+        toast.error('Could not open folder');
+      }
+      return null;
+    }
+  };
+
+  const handleExport = async () => {
+    const directory = await chooseExportFolder('deep-dive-wiki-vault');
+    if (!directory) return;
+
+    setBusy('export');
+    try {
+      const result = await VaultService.exportToDirectory(directory);
+      setExportProblems(result.problems);
+      toast.success(`Exported ${result.fileCount} file${result.fileCount === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting vault:', error);
+      toast.error('Export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSiteExport = async () => {
+    const directory = await chooseExportFolder('deep-dive-wiki-site');
+    if (!directory) return;
+
+    setBusy('site');
+    try {
+      const result = await StaticExportService.exportToDirectory(directory);
+      if (result.brokenLinks.length > 0) {
+        toast.warning(`Exported ${result.pageCount} pages; ${result.brokenLinks.length} internal link${result.brokenLinks.length === 1 ? '' : 's'} point to missing pages`, {
+          description: result.brokenLinks.slice(0, 5).map(link => `${link.page} → ${link.target}`).join('\n')
+        });
+      } else {
+        toast.success(`Exported ${result.pageCount} pages. Open index.html in the folder to browse them.`);
+      }
+    } catch (error) {
+      console.error('Error exporting static site:', error);
+      toast.error('Static site export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFilesChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    setBusy('read');
+    try {
+      const files = await VaultService.readFileList(fileList);
+      setPlan(await VaultService.planImport(files));
+    } catch (error) {
+      console.error('Error reading vault:', error);
+      toast.error('Could not read the folder');
+    } finally {
+      setBusy(null);
+      // Allow choosing the same folder again after editing it
+      event.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setBusy('import');
+    try {
+      const result = await VaultService.applyImport(plan);
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} page${result.failed.length === 1 ? '' : 's'} could not be imported`, {
+          description: result.failed.map(failure => `${failure.file}: ${failure.message}`).join('\n')
+        });
+      } else {
+        toast.success(`Imported ${result.created} new and ${result.updated} updated page${result.created + result.updated === 1 ? '' : 's'}`);
+      }
+      onImported();
+      handleOpenChange(false);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" title="Import and export">
+          <FolderSync className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import and export</DialogTitle>
+          <DialogDescription>
+            The markdown folder holds one file per page, with folders for pages that have children;
+            exporting and importing again keeps ids, tags, heading levels and sources. The static site is a
+            read-only copy as HTML pages with navigation and search, for people without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={!canExport || busy !== null}>
+            {busy === 'export' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderOutput className="w-4 h-4 mr-2" />}
+            Export to folder…
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={busy !== null}>
+            {busy === 'read' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderInput className="w-4 h-4 mr-2" />}
+            Import from folder…
+          </Button>
+          <Button variant="outline" onClick={handleSiteExport} disabled={!canExport || busy !== null}>
+            {busy === 'site' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Globe className="w-4 h-4 mr-2" />}
+            Export static site…
+          </Button>
+          <input
+            ref={input => {
+              fileInputRef.current = input;
+              input?.setAttribute('webkitdirectory', '');
+            }}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFilesChosen}
+          />
+        </div>
+        {!canExport && (
+          <p className="text-xs text-muted-foreground">Exporting needs a browser that can write to local folders (Chrome or Edge).</p>
+        )}
+
+        {exportProblems.length > 0 && (
+          <div className="rounded-md border p-3 space-y-2">
+            <div className="text-sm font-medium">Some pages will not import back unchanged</div>
+            <ProblemList problems={exportProblems} />
+          </div>
+        )}
+
+        {plan && (
+          <ScrollArea className="flex-1 min-h-0 rounded-md border">
+            <div className="p-3 space-y-3 text-sm">
+              <div className="font-medium">Dry run</div>
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  { label: 'New', count: plan.creates.length },
+                  { label: 'Updated', count: plan.updates.length },
+                  { label: 'Unchanged', count: plan.unchanged.length },
+                  { label: 'Not in folder', count: plan.notInVault.length }
+                ].map(({ label, count }) => (
+                  <div key={label} className="rounded-md bg-muted p-2">
+                    <div className="text-lg font-semibold tabular-nums">{count}</div>
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {plan.problems.length > 0 && <ProblemList problems={plan.problems} />}
+
+              {plan.creates.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-1">New pages</div>
+                  <ul className="space-y-0.5">
+                    {plan.creates.map(item => (
+                      <li key={item.id} className="text-xs"><span className="font-mono">{item.path}</span> · {item.title}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.updates.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-1">Updated pages</div>
+                  <ul className="space-y-0.5">
+                    {plan.updates.map(({ item, changes }) => (
+                      <li key={item.id} className="text-xs">
+                        <span className="font-mono">{item.path}</span> · {changes.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.notInVault.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Pages missing from the folder are kept; importing never deletes.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        {plan && (
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPlan(null)} disabled={busy !== null}>Cancel</Button>
+            <Button onClick={handleImport} disabled={!hasChanges || blockingProblems.length > 0 || busy !== null}>
+              {busy === 'import' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,8 +2,12 @@ import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { HybridNavigationSidebar } from "./HybridNavigationSidebar";
 import { SearchOverlay } from "./SearchOverlay";
+import { SavedSearch } from "@/services/savedSearchService";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 import { NavigationNode, WikiDocument } from "@/services/contentService";
 import { NavigationContextValue } from "@/hooks/useNavigationState";
+import { TagCategory } from "@/services/tagTaxonomyService";
+import { TagFilter } from "@/lib/tagFilters";
 import CompandioProductLogo from "@/assets/Compandio-Product-logo.png";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -35,6 +39,11 @@ interface WikiLayoutProps {
   onShowDescriptionsChange?: (mode: 'on' | 'off') => void;
   onCollapseAll?: () => void;
   sidebarCollapseKey?: number;
+  tagTaxonomy?: TagCategory[];
+  excludedTags?: string[];
+  tagFilter?: TagFilter | null;
+  onTagToggle?: (tag: string, included: boolean) => void;
+  onTagFiltersReset?: () => void;
 }
 
 export const WikiLayout = ({ 
@@ -55,9 +64,16 @@ export const WikiLayout = ({
   showDescriptions,
   onShowDescriptionsChange,
   onCollapseAll,
-  sidebarCollapseKey
+  sidebarCollapseKey,
+  tagTaxonomy,
+  excludedTags,
+  tagFilter,
+  onTagToggle,
+  onTagFiltersReset
 }: WikiLayoutProps) => {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Pinned search picked in the sidebar, run when the overlay opens
+  const [openedSavedSearch, setOpenedSavedSearch] = useState<SavedSearch | null>(null);
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const isMobile = useIsMobile();
   const navigate = useNavigate();
@@ -80,15 +96,18 @@ export const WikiLayout = ({
                 className="h-[42px] w-auto"
               />
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleSignOut}
-              className="mr-2 text-muted-foreground hover:text-foreground"
-              title="Sign out"
-            >
-              <LogOut className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center mr-2">
+              <SyncStatusIndicator />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleSignOut}
+                className="text-muted-foreground hover:text-foreground"
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -115,9 +134,22 @@ export const WikiLayout = ({
           onExpandDepthChange={onExpandDepthChange}
           showDescriptions={showDescriptions}
           onShowDescriptionsChange={onShowDescriptionsChange}
-          onSearchOpen={() => setIsSearchOpen(true)}
+          onSearchOpen={() => {
+            setOpenedSavedSearch(null);
+            setIsSearchOpen(true);
+          }}
+          onSavedSearchOpen={(search) => {
+            setOpenedSavedSearch(search);
+            setIsSearchOpen(true);
+            if (isMobile) setIsMobileSidebarOpen(false);
+          }}
           onCollapseAll={onCollapseAll}
           sidebarCollapseKey={sidebarCollapseKey}
+          tagTaxonomy={tagTaxonomy}
+          excludedTags={excludedTags}
+          tagFilter={tagFilter}
+          onTagToggle={onTagToggle}
+          onTagFiltersReset={onTagFiltersReset}
         />
       </div>
     </>
@@ -128,7 +160,7 @@ export const WikiLayout = ({
     return (
       <div className="h-screen w-full bg-background">
         {isSearchOpen && (
-          <SearchOverlay onClose={() => setIsSearchOpen(false)} />
+          <SearchOverlay savedSearch={openedSavedSearch} documentPath={navigation.documentPath} onClose={() => setIsSearchOpen(false)} />
         )}
         
         <Sheet open={isMobileSidebarOpen} onOpenChange={setIsMobileSidebarOpen}>
@@ -177,7 +209,7 @@ export const WikiLayout = ({
       <ResizablePanel id="main-panel" defaultSize={80}>
         <div className="h-screen relative">
           {isSearchOpen && (
-            <SearchOverlay onClose={() => setIsSearchOpen(false)} />
+            <SearchOverlay savedSearch={openedSavedSearch} documentPath={navigation.documentPath} onClose={() => setIsSearchOpen(false)} />
           )}
           <ScrollArea className="h-full">
             <main className="px-8 py-8 max-w-4xl mx-auto">
@@ -4,7 +4,7 @@ import {
   SimpleBlock 
 } from "@/lib/blockNoteConversions";
 import { DocumentSection } from "@/services/contentService";
-import { useEffect, useCallback, useRef, useState, lazy, Suspense } from "react";
+import { useEffect, useCallback, useRef, useState, lazy, Suspense, ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Bold, Italic, List, Link2, BookOpen, X, FileSymlink, Search, Check } from "lucide-react";
@@ -22,6 +22,8 @@ interface BlockNoteSectionEditorProps {
   onSave: (sections: DocumentSection[], skipReload?: boolean) => void;
   onClose?: () => void;
   readOnly?: boolean;
+  // Rendered next to the editor title, e.g. who else is in the document
+  headerAccessory?: ReactNode;
 }
 
 /**
@@ -33,6 +35,7 @@ export function BlockNoteSectionEditor({
   onSave,
   onClose,
   readOnly = false,
+  headerAccessory,
 }: BlockNoteSectionEditorProps) {
   const editorRef = useRef<any>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -44,6 +47,8 @@ export function BlockNoteSectionEditor({
   const [showSavedIndicator, setShowSavedIndicator] = useState(false);
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const hasChangesRef = useRef(false);
+  // Last sections read from the editor; new markdown headings keep their anchors across saves
+  const lastSectionsRef = useRef<DocumentSection[]>(sections);
   
   // Convert flat sections to BlockNote blocks for initial content
   const initialBlocks = flatSectionsToBlocks(sections);
@@ -52,6 +57,7 @@ export function BlockNoteSectionEditor({
   useEffect(() => {
     const markdown = sectionsToMarkdown(sections);
     setMarkdownContent(markdown);
+    lastSectionsRef.current = sections;
   }, [sections]);
 
   // Handle editor ready callback
@@ -64,10 +70,11 @@ export function BlockNoteSectionEditor({
     if (editorMode === 'blocknote' && editorRef.current) {
       const currentBlocks = editorRef.current.document;
       const simpleBlocks = convertEditorBlocksToSimpleBlocks(currentBlocks);
-      return blocksToFlatSections(simpleBlocks);
+      lastSectionsRef.current = blocksToFlatSections(simpleBlocks);
     } else {
-      return markdownToSections(markdownContent);
+      lastSectionsRef.current = markdownToSections(markdownContent, lastSectionsRef.current);
     }
+    return lastSectionsRef.current;
   }, [editorMode, markdownContent]);
 
   // Perform save - skipReload=true for auto-save (keep editor open), false for close
@@ -141,6 +148,7 @@ export function BlockNoteSectionEditor({
         const currentBlocks = editorRef.current.document;
         const simpleBlocks = convertEditorBlocksToSimpleBlocks(currentBlocks);
         const flatSections = blocksToFlatSections(simpleBlocks);
+        lastSectionsRef.current = flatSections;
         
         // Save before switching (skipReload=true to keep editor open)
         onSave(flatSections, true);
@@ -152,7 +160,8 @@ export function BlockNoteSectionEditor({
       setEditorMode('markdown');
     } else {
       // Parse markdown to sections and save before switching
-      const flatSections = markdownToSections(markdownContent);
+      const flatSections = markdownToSections(markdownContent, lastSectionsRef.current);
+      lastSectionsRef.current = flatSections;
       onSave(flatSections, true);
       hasChangesRef.current = false;
       
@@ -262,6 +271,7 @@ export function BlockNoteSectionEditor({
               <span className="text-xs text-muted-foreground">
                 ({sections.length})
               </span>
+              {headerAccessory}
             </div>
             <div className="flex items-center gap-1 shrink-0 ml-auto">
               {/* Mode Toggle */}
@@ -481,6 +491,16 @@ More detailed content with \`code\`.`}
                 </div>
               </div>
 
+              <div>
+                <h4 className="font-medium mb-2">Anchors</h4>
+                <p className="text-muted-foreground mb-2">
+                  Each header ends with its anchor. Leave it in place so links keep working; new headers get one when saved:
+                </p>
+                <div className="bg-background p-2 rounded border font-mono text-xs">
+                  # Topic [tag1] {'{#section-…}'}
+                </div>
+              </div>
+
               <div>
                 <h4 className="font-medium mb-2">Content & Markdown</h4>
                 <p className="text-muted-foreground mb-2">
@@ -504,6 +524,7 @@ More detailed content with \`code\`.`}
                   [[Section Title]]<br/>
                   [[#Section Title]]<br/>
                   [[/path#Section]]<br/>
+                  [[text|/path#anchor]]<br/>
                   [text](#section-id)
                 </div>
               </div>
@@ -557,6 +578,7 @@ More detailed content with \`code\`.`}
 function sectionsToMarkdown(sections: DocumentSection[]): string {
   return HierarchyParser.sectionsToMarkup(
     sections.map(s => ({
+      id: s.id,
       title: s.title,
       content: s.content,
       level: s.level,
@@ -566,10 +588,10 @@ function sectionsToMarkdown(sections: DocumentSection[]): string {
 }
 
 /**
- * Parse markdown string to DocumentSection[]
+ * Parse markdown string to DocumentSection[], keeping section anchors
  */
-function markdownToSections(markdown: string): DocumentSection[] {
-  const parsed = HierarchyParser.parseMarkup(markdown);
+function markdownToSections(markdown: string, previousSections: DocumentSection[]): DocumentSection[] {
+  const parsed = HierarchyParser.parseMarkup(markdown, undefined, previousSections);
   return parsed.sections.map(s => ({
     id: s.id,
     title: s.title,
@@ -3,6 +3,7 @@ import { X, FileText, Hash, Loader2, ChevronRight, Link2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { SearchService, SearchResult } from '@/services/searchService';
+import { SearchAnalyticsService } from '@/services/searchAnalyticsService';
 
 interface LinkPickerProps {
   currentDocumentPath?: string;
@@ -46,12 +47,12 @@ export const LinkPicker: React.FC<LinkPickerProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose, results, selectedIndex]);
 
-  // Debounced search
+  // Debounced search; typo-tolerant, so a single character is enough to start
   useEffect(() => {
     const timer = setTimeout(async () => {
-      if (searchTerm.trim().length >= 2) {
+      if (searchTerm.trim().length >= 1) {
         setIsLoading(true);
-        const searchResults = await SearchService.search(searchTerm);
+        const searchResults = await SearchService.search(searchTerm, { source: 'link-picker' });
         setResults(searchResults);
         setSelectedIndex(0);
         setIsLoading(false);
@@ -65,15 +66,17 @@ export const LinkPicker: React.FC<LinkPickerProps> = ({
 
   const generateLinkSyntax = useCallback((result: SearchResult): string => {
     const targetTitle = result.sectionTitle || result.documentTitle;
+    // Sections are linked by anchor, so the link survives renames
+    const sectionRef = result.sectionId || result.sectionTitle;
     const isSameDocument = currentDocumentPath === result.documentPath;
     
     if (isSameDocument) {
-      // Same document: [[display text|#Section Title]]
-      return `[[${targetTitle}|#${targetTitle}]]`;
+      // Same document: [[display text|#section-anchor]]
+      return `[[${targetTitle}|#${sectionRef || targetTitle}]]`;
     } else {
-      // Different document: [[display text|/path#Section Title]] or [[display text|/path]]
+      // Different document: [[display text|/path#section-anchor]] or [[display text|/path]]
       if (result.sectionTitle) {
-        return `[[${result.sectionTitle}|${result.documentPath}#${result.sectionTitle}]]`;
+        return `[[${result.sectionTitle}|${result.documentPath}#${sectionRef}]]`;
       } else {
         return `[[${result.documentTitle}|${result.documentPath}]]`;
       }
@@ -82,8 +85,9 @@ export const LinkPicker: React.FC<LinkPickerProps> = ({
 
   const handleResultSelect = useCallback((result: SearchResult) => {
     const linkSyntax = generateLinkSyntax(result);
+    SearchAnalyticsService.recordClick('link-picker', searchTerm, result, results.indexOf(result));
     onSelect(linkSyntax);
-  }, [generateLinkSyntax, onSelect]);
+  }, [generateLinkSyntax, onSelect, results, searchTerm]);
 
   const getMatchTypeIcon = (type: SearchResult['matchType']) => {
     switch (type) {
@@ -165,8 +169,13 @@ export const LinkPicker: React.FC<LinkPickerProps> = ({
                     </div>
                     {/* Title */}
                     <div className="font-medium text-sm">
-                      {renderHighlightedText(result.sectionTitle || result.documentTitle)}
+                      {renderHighlightedText(result.matchType === 'content' ? result.sectionTitle || result.documentTitle : result.matchedText)}
                     </div>
+                    {result.matchedVariants && (
+                      <div className="text-[10px] italic text-muted-foreground">
+                        {result.matchedVariants.map(({ term, variant }) => `"${variant}" for "${term}"`).join(', ')}
+                      </div>
+                    )}
                     {/* Preview of what link will look like */}
                     <div className="text-[10px] text-muted-foreground/70 font-mono mt-1">
                       {generateLinkSyntax(result)}
@@ -178,18 +187,12 @@ export const LinkPicker: React.FC<LinkPickerProps> = ({
           </div>
         )}
         
-        {searchTerm.length >= 2 && !isLoading && results.length === 0 && (
+        {searchTerm.trim().length >= 1 && !isLoading && results.length === 0 && (
           <div className="text-center py-6 text-muted-foreground text-sm border-t">
             No results found for "{searchTerm}"
           </div>
         )}
         
-        {searchTerm.length > 0 && searchTerm.length < 2 && (
-          <div className="text-center py-4 text-muted-foreground text-xs border-t">
-            Type at least 2 characters to search
-          </div>
-        )}
-
         {searchTerm.length === 0 && (
           <div className="text-center py-6 text-muted-foreground text-xs border-t">
             <p>Search for a document or section to create an internal link</p>
@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+import { RealtimeService, ContentChangeEvent } from '@/services/realtimeService';
+
+/**
+ * Subscribe to realtime changes on content_items for the lifetime of the component.
+ * The latest callback is always used, so it does not need to be memoized.
+ */
+export function useContentChanges(onChange: (event: ContentChangeEvent) => void, enabled = true) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return RealtimeService.subscribeToContentChanges(event => onChangeRef.current(event));
+  }, [enabled]);
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { RealtimeService, PresenceHandle, PresenceState } from '@/services/realtimeService';
+
+interface DocumentPresenceOptions {
+  mode: PresenceState['mode'];
+  sectionId: string | null;
+  sectionTitle: string | null;
+}
+
+/**
+ * Join the presence room for a document and return the other people in it.
+ * Mode and section updates are pushed without leaving the room.
+ */
+export function useDocumentPresence(documentPath: string | null, { mode, sectionId, sectionTitle }: DocumentPresenceOptions) {
+  const { user } = useAuth();
+  const [peers, setPeers] = useState<PresenceState[]>([]);
+  const handleRef = useRef<PresenceHandle | null>(null);
+
+  // Latest values for the join below, without re-joining when they change
+  const currentRef = useRef({ mode, sectionId, sectionTitle });
+  currentRef.current = { mode, sectionId, sectionTitle };
+
+  useEffect(() => {
+    if (!documentPath || !user) return;
+
+    const handle = RealtimeService.joinPresence(
+      documentPath,
+      {
+        userId: user.id,
+        email: user.email ?? null,
+        ...currentRef.current,
+        joinedAt: new Date().toISOString()
+      },
+      setPeers
+    );
+    handleRef.current = handle;
+
+    return () => {
+      handle.leave();
+      handleRef.current = null;
+      setPeers([]);
+    };
+  }, [documentPath, user]);
+
+  useEffect(() => {
+    handleRef.current?.update({ mode, sectionId, sectionTitle });
+  }, [mode, sectionId, sectionTitle]);
+
+  return peers;
+}
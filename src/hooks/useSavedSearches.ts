@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { SavedSearch, SavedSearchService } from '@/services/savedSearchService';
+
+/**
+ * The signed-in user's saved searches, reloaded whenever one is saved,
+ * renamed, pinned or deleted anywhere in the app.
+ */
+export function useSavedSearches(): SavedSearch[] {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      SavedSearchService.listSavedSearches().then(list => {
+        if (!cancelled) setSavedSearches(list);
+      });
+    };
+
+    load();
+    const unsubscribe = SavedSearchService.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return savedSearches;
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * True while components are rendered to static HTML (the static site export).
+ * Components with hover or popover content render it inline instead, since
+ * the exported pages run without React.
+ */
+export const StaticRenderContext = createContext(false);
+
+export function useStaticRender(): boolean {
+  return useContext(StaticRenderContext);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getOfflineAdapter, SyncStatus } from '@/services/storage';
+
+/**
+ * Offline sync status of the active storage adapter, or null when the
+ * configured backend has no offline cache.
+ */
+export function useSyncStatus(): SyncStatus | null {
+  const [status, setStatus] = useState<SyncStatus | null>(() => getOfflineAdapter()?.getStatus() ?? null);
+
+  useEffect(() => {
+    const adapter = getOfflineAdapter();
+    if (!adapter) return;
+    return adapter.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { TagCategory, TagTaxonomyService } from '@/services/tagTaxonomyService';
+
+/**
+ * The tag taxonomy, reloaded whenever it is edited anywhere in the app.
+ */
+export function useTagTaxonomy(): TagCategory[] {
+  const [taxonomy, setTaxonomy] = useState<TagCategory[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      TagTaxonomyService.getTaxonomy().then(categories => {
+        if (!cancelled) setTaxonomy(categories);
+      });
+    };
+
+    load();
+    const unsubscribe = TagTaxonomyService.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return taxonomy;
+}
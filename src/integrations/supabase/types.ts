@@ -14,6 +14,50 @@ export type Database = {
   }
   public: {
     Tables: {
+      content_item_revisions: {
+        Row: {
+          author_email: string | null
+          author_id: string | null
+          content_item_id: string
+          content_json: Json | null
+          created_at: string
+          id: string
+          path: string
+          tags: string[] | null
+          title: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string | null
+          content_item_id: string
+          content_json?: Json | null
+          created_at?: string
+          id?: string
+          path: string
+          tags?: string[] | null
+          title: string
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string | null
+          content_item_id?: string
+          content_json?: Json | null
+          created_at?: string
+          id?: string
+          path?: string
+          tags?: string[] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_item_revisions_content_item_id_fkey"
+            columns: ["content_item_id"]
+            isOneToOne: false
+            referencedRelation: "content_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       content_items: {
         Row: {
           content_json: Json | null
@@ -25,6 +69,7 @@ export type Database = {
           tags: string[] | null
           title: string
           updated_at: string
+          version: number
         }
         Insert: {
           content_json?: Json | null
@@ -36,6 +81,7 @@ export type Database = {
           tags?: string[] | null
           title: string
           updated_at?: string
+          version?: number
         }
         Update: {
           content_json?: Json | null
@@ -47,6 +93,7 @@ export type Database = {
           tags?: string[] | null
           title?: string
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -58,12 +105,356 @@ export type Database = {
           },
         ]
       }
+      content_links: {
+        Row: {
+          content_item_id: string
+          created_at: string
+          id: string
+          item_version: number
+          link_text: string
+          section_id: string
+          target: string
+          target_item_id: string | null
+          target_section_id: string | null
+        }
+        Insert: {
+          content_item_id: string
+          created_at?: string
+          id?: string
+          item_version: number
+          link_text: string
+          section_id: string
+          target: string
+          target_item_id?: string | null
+          target_section_id?: string | null
+        }
+        Update: {
+          content_item_id?: string
+          created_at?: string
+          id?: string
+          item_version?: number
+          link_text?: string
+          section_id?: string
+          target?: string
+          target_item_id?: string | null
+          target_section_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_links_content_item_id_fkey"
+            columns: ["content_item_id"]
+            isOneToOne: false
+            referencedRelation: "content_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_links_target_item_id_fkey"
+            columns: ["target_item_id"]
+            isOneToOne: false
+            referencedRelation: "content_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_search_index: {
+        Row: {
+          breadcrumb: string[]
+          content: string
+          content_item_id: string
+          document_path: string
+          document_title: string
+          id: number
+          search_vector: unknown
+          section_id: string | null
+          section_level: number | null
+          section_title: string | null
+          tags: string[]
+        }
+        Insert: {
+          breadcrumb?: string[]
+          content?: string
+          content_item_id: string
+          document_path: string
+          document_title: string
+          id?: number
+          search_vector: unknown
+          section_id?: string | null
+          section_level?: number | null
+          section_title?: string | null
+          tags?: string[]
+        }
+        Update: {
+          breadcrumb?: string[]
+          content?: string
+          content_item_id?: string
+          document_path?: string
+          document_title?: string
+          id?: number
+          search_vector?: unknown
+          section_id?: string | null
+          section_level?: number | null
+          section_title?: string | null
+          tags?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_search_index_content_item_id_fkey"
+            columns: ["content_item_id"]
+            isOneToOne: false
+            referencedRelation: "content_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          last_opened_at: string | null
+          last_result_keys: string[]
+          name: string
+          pinned: boolean
+          query: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_opened_at?: string | null
+          last_result_keys?: string[]
+          name: string
+          pinned?: boolean
+          query: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_opened_at?: string | null
+          last_result_keys?: string[]
+          name?: string
+          pinned?: boolean
+          query?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      search_events: {
+        Row: {
+          clicked_at: string | null
+          clicked_document_id: string | null
+          clicked_path: string | null
+          clicked_position: number | null
+          clicked_section_id: string | null
+          created_at: string
+          id: string
+          query: string
+          result_count: number
+          source: string
+          user_id: string | null
+        }
+        Insert: {
+          clicked_at?: string | null
+          clicked_document_id?: string | null
+          clicked_path?: string | null
+          clicked_position?: number | null
+          clicked_section_id?: string | null
+          created_at?: string
+          id?: string
+          query: string
+          result_count: number
+          source: string
+          user_id?: string | null
+        }
+        Update: {
+          clicked_at?: string | null
+          clicked_document_id?: string | null
+          clicked_path?: string | null
+          clicked_position?: number | null
+          clicked_section_id?: string | null
+          created_at?: string
+          id?: string
+          query?: string
+          result_count?: number
+          source?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      search_synonyms: {
+        Row: {
+          created_at: string
+          id: string
+          synonym: string
+          term: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          synonym: string
+          term: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          synonym?: string
+          term?: string
+        }
+        Relationships: []
+      }
+      section_embeddings: {
+        Row: {
+          content_hash: string
+          content_item_id: string
+          model: string
+          section_id: string
+          updated_at: string
+          vector: number[]
+        }
+        Insert: {
+          content_hash: string
+          content_item_id: string
+          model: string
+          section_id: string
+          updated_at?: string
+          vector: number[]
+        }
+        Update: {
+          content_hash?: string
+          content_item_id?: string
+          model?: string
+          section_id?: string
+          updated_at?: string
+          vector?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "section_embeddings_content_item_id_fkey"
+            columns: ["content_item_id"]
+            isOneToOne: false
+            referencedRelation: "content_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      source_metadata: {
+        Row: {
+          excerpt: string | null
+          fetched_at: string
+          site_name: string | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          excerpt?: string | null
+          fetched_at?: string
+          site_name?: string | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          excerpt?: string | null
+          fetched_at?: string
+          site_name?: string | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      tag_categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          order_index: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          order_index?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          order_index?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tag_values: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          label: string
+          order_index: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          label: string
+          order_index?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          order_index?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_values_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "tag_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_content: {
+        Args: { max_results?: number; search_query: string }
+        Returns: {
+          breadcrumb: string[]
+          content: string
+          content_item_id: string
+          document_path: string
+          document_title: string
+          match_type: string
+          rank: number
+          section_id: string
+          section_level: number
+          section_title: string
+          snippet: string
+          tags: string[]
+        }[]
+      }
+      update_content_items: {
+        Args: { changes: Json }
+        Returns: {
+          item_id: string
+          item_version: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
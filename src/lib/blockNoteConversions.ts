@@ -1,4 +1,5 @@
 import { DocumentSection } from "@/services/contentService";
+import { createSectionAnchor } from "./sectionAnchors";
 
 /**
  * Simplified BlockNote block type for conversion purposes
@@ -235,10 +236,10 @@ function blocksToMarkdown(blocks: SimpleBlock[]): string {
 }
 
 /**
- * Generates a unique ID for new sections
+ * Generates a unique ID for new sections (a new section anchor, see sectionAnchors)
  */
 export function generateSectionId(): string {
-  return `section-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return createSectionAnchor();
 }
 
 /**
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for bulk document ingestion
+ * Run in browser console: import('/src/lib/bulkIngestion.test.ts').then(m => m.runAllTests())
+ */
+
+import { mergeIngestedSections, planIngestion, setIngestionAction, splitDocuments } from './bulkIngestion';
+import type { ContentItem } from '../services/contentService';
+
+// Test data
+const seedText = `# Market Research
+
+Gather secondary data.
+
+# Review First Principles [basics]
+
+Understand the limits.
+
+---
+
+# Validation: Where To Start
+
+Plan the approach.
+
+---
+
+# Market Research
+
+A second copy.`;
+
+const existing: ContentItem[] = [
+  {
+    id: 'existing-1',
+    title: 'Validation: Where To Start',
+    path: '/validation-where-to-start',
+    parent_id: null,
+    order_index: 4,
+    content_json: [{ id: 'v-1', title: 'Validation: Where To Start', level: 1, content: 'Old intro', tags: [] }],
+    tags: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    version: 3
+  }
+];
+
+// Test functions
+export function testSplitAndPlan(): { passed: boolean; message: string } {
+  if (splitDocuments(seedText).length !== 3) {
+    return { passed: false, message: 'Expected three documents' };
+  }
+
+  const plan = planIngestion(seedText, existing, { kind: 'existing', parentId: null });
+  const [research, validation, copy] = plan.documents;
+
+  if (research.path !== '/market-research' || research.order_index !== 5 || research.sections[1].tags[0] !== 'basics') {
+    return { passed: false, message: `Unexpected first document: ${JSON.stringify(research)}` };
+  }
+  if (validation.duplicate?.id !== 'existing-1' || validation.action !== 'skip' || validation.order_index !== 4) {
+    return { passed: false, message: 'Expected the existing path to be flagged as a duplicate' };
+  }
+  if (copy.path !== '/market-research-2' || copy.duplicate || copy.order_index !== 6) {
+    return { passed: false, message: `Expected a repeated title to get its own path, got ${copy.path}` };
+  }
+
+  // A page created next to a duplicate takes a new slot instead of the duplicate's
+  const created = setIngestionAction(plan, validation.key, 'create');
+  if (created.documents.map(document => document.order_index).join() !== '5,6,7') {
+    return { passed: false, message: `Expected created pages to take new slots, got ${created.documents.map(document => document.order_index).join()}` };
+  }
+
+  return { passed: true, message: 'Documents get paths, order and duplicate flags' };
+}
+
+export function testNewFolderTarget(): { passed: boolean; message: string } {
+  const plan = planIngestion(seedText, existing, { kind: 'new-folder', title: 'Seed Docs' });
+
+  if (plan.newFolder?.path !== '/seed-docs' || plan.documents[1].path !== '/seed-docs/validation-where-to-start' || plan.documents[1].duplicate) {
+    return { passed: false, message: `Unexpected plan: ${JSON.stringify(plan.newFolder)}` };
+  }
+
+  return { passed: true, message: 'A new folder nests the documents under its path' };
+}
+
+export function testMergeSections(): { passed: boolean; message: string } {
+  const merged = mergeIngestedSections(
+    [{ id: 'section-1', title: 'Intro', level: 1, content: 'Old', tags: ['a'] }],
+    [
+      { id: 'section-1', title: 'intro', level: 1, content: 'New', tags: ['b'] },
+      { id: 'section-2', title: 'Details', level: 2, content: 'More', tags: [] }
+    ]
+  );
+
+  if (merged.length !== 2 || merged[0].content !== 'New' || merged[0].tags.join() !== 'a,b' || merged[1].id !== 'section-2') {
+    return { passed: false, message: `Unexpected merge: ${JSON.stringify(merged)}` };
+  }
+
+  return { passed: true, message: 'Matching titles update in place and new sections are appended' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'splitAndPlan', fn: testSplitAndPlan },
+    { name: 'newFolderTarget', fn: testNewFolderTarget },
+    { name: 'mergeSections', fn: testMergeSections },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Bulk Ingestion Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
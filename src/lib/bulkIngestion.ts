@@ -0,0 +1,175 @@
+import type { ContentItem, DocumentSection } from '../services/contentService';
+import { HierarchyParser } from './hierarchyParser';
+import { generateSectionId } from './sectionUtils';
+
+/**
+ * Bulk ingestion of multi-document text files like tmp/SeedDocs.txt: documents
+ * separated by `---` lines, each starting with a `# Title` heading.
+ */
+
+export type IngestionAction = 'create' | 'skip' | 'merge' | 'overwrite';
+
+// Where the documents go: an existing folder (null for the top level) or a new folder
+export type IngestionTarget =
+  | { kind: 'existing'; parentId: string | null }
+  | { kind: 'new-folder'; title: string };
+
+export interface IngestionDocument {
+  // Position in the source text, stable while the preview is edited
+  key: number;
+  title: string;
+  sections: DocumentSection[];
+  tags: string[];
+  path: string;
+  order_index: number;
+  // Existing page with the same path, or the same title in the same folder
+  duplicate: ContentItem | null;
+  action: IngestionAction;
+}
+
+export interface IngestionPlan {
+  target: IngestionTarget;
+  // Path of the target folder ('' for the top level)
+  parentPath: string;
+  // New folder to create first, when the target asks for one
+  newFolder: { title: string; path: string; order_index: number } | null;
+  // order_index of the first new page, after the existing siblings
+  firstOrderIndex: number;
+  documents: IngestionDocument[];
+}
+
+/**
+ * Split text into document chunks on lines that are exactly `---`
+ */
+export function splitDocuments(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split(/^---\s*$/m)
+    .map(chunk => chunk.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse each chunk and propose a path, order and action for it. Nothing is written.
+ */
+export function planIngestion(text: string, existing: ContentItem[], target: IngestionTarget): IngestionPlan {
+  const byPath = new Map(existing.map(item => [item.path, item]));
+
+  let parentId: string | null = null;
+  let parentPath = '';
+  let newFolder: IngestionPlan['newFolder'] = null;
+
+  if (target.kind === 'existing' && target.parentId) {
+    const parent = existing.find(item => item.id === target.parentId);
+    parentId = target.parentId;
+    parentPath = parent?.path || '';
+  } else if (target.kind === 'new-folder') {
+    const path = uniquePath(`/${slugify(target.title)}`, byPath);
+    newFolder = { title: target.title, path, order_index: nextOrderIndex(existing, null) };
+    parentPath = path;
+  }
+
+  // A new folder has no children yet, so its documents start at 0
+  const siblings = newFolder ? [] : existing.filter(item => item.parent_id === parentId);
+  const firstOrderIndex = nextOrderIndex(siblings, parentId);
+  const usedPaths = new Set<string>();
+
+  const documents = splitDocuments(text).map((chunk, key): IngestionDocument => {
+    const { sections } = HierarchyParser.parseMarkup(chunk);
+    const title = sections[0]?.title || `Document ${key + 1}`;
+
+    let path = `${parentPath}/${slugify(title)}`;
+    // Two documents in the same file with the same title: the second gets its own path
+    const repeated = usedPaths.has(path);
+    if (repeated) {
+      path = uniquePath(path, new Map([...byPath, ...Array.from(usedPaths, used => [used, null] as const)]));
+    }
+    usedPaths.add(path);
+
+    const duplicate = byPath.get(path)
+      || (!repeated && siblings.find(item => item.title.trim().toLowerCase() === title.trim().toLowerCase()))
+      || null;
+
+    return {
+      key,
+      title,
+      sections,
+      tags: [...new Set(sections.flatMap(section => section.tags || []))],
+      path,
+      order_index: 0,
+      duplicate,
+      action: duplicate ? 'skip' : 'create'
+    };
+  });
+
+  return { target, parentPath, newFolder, firstOrderIndex, documents: assignOrderIndexes(documents, firstOrderIndex) };
+}
+
+/**
+ * Choose what to do with one document. Positions follow, since only the
+ * pages that will be created take a new slot.
+ */
+export function setIngestionAction(plan: IngestionPlan, key: number, action: IngestionAction): IngestionPlan {
+  const documents = plan.documents.map(document => document.key === key ? { ...document, action } : document);
+  return { ...plan, documents: assignOrderIndexes(documents, plan.firstOrderIndex) };
+}
+
+// Created pages take consecutive slots in source order, even next to a
+// duplicate; merges, overwrites and skips keep the duplicate's position
+function assignOrderIndexes(documents: IngestionDocument[], firstOrderIndex: number): IngestionDocument[] {
+  let orderIndex = firstOrderIndex;
+  return documents.map(document => ({
+    ...document,
+    order_index: document.action === 'create' ? orderIndex++ : document.duplicate?.order_index ?? orderIndex
+  }));
+}
+
+/**
+ * Combine an existing page's sections with ingested ones: sections with the
+ * same title take the new content (keeping their id), new titles are appended
+ * and sections only in the existing page are kept.
+ */
+export function mergeIngestedSections(existing: DocumentSection[], incoming: DocumentSection[]): DocumentSection[] {
+  const normalize = (title: string) => title.trim().toLowerCase();
+  const incomingByTitle = new Map(incoming.map(section => [normalize(section.title), section]));
+  const usedIds = new Set(existing.map(section => section.id));
+
+  const merged = existing.map(section => {
+    const update = incomingByTitle.get(normalize(section.title));
+    if (!update) return section;
+    incomingByTitle.delete(normalize(section.title));
+    return {
+      ...section,
+      content: update.content,
+      tags: [...new Set([...(section.tags || []), ...(update.tags || [])])]
+    };
+  });
+
+  let counter = existing.length;
+  for (const section of incoming) {
+    if (!incomingByTitle.has(normalize(section.title))) continue;
+    let id = section.id;
+    while (usedIds.has(id)) id = `section-${++counter}`;
+    usedIds.add(id);
+    merged.push({ ...section, id });
+  }
+
+  return merged;
+}
+
+function slugify(title: string): string {
+  return generateSectionId(title) || 'untitled';
+}
+
+function uniquePath(path: string, taken: Map<string, unknown>): string {
+  let candidate = path;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${path}-${suffix}`;
+  }
+  return candidate;
+}
+
+function nextOrderIndex(items: ContentItem[], parentId: string | null): number {
+  const siblings = items.filter(item => item.parent_id === parentId);
+  return siblings.length > 0 ? Math.max(...siblings.map(item => item.order_index ?? -1)) + 1 : 0;
+}
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for typo-tolerant matching
+ * Run in browser console: import('/src/lib/fuzzyMatch.test.ts').then(m => m.runAllTests())
+ */
+
+import { DEFAULT_FUZZY_OPTIONS, editDistance, findTermMatches } from './fuzzyMatch';
+
+// Test functions
+export function testEditDistance(): { passed: boolean; message: string } {
+  const cases: Array<[string, string, number]> = [
+    ['prioritise', 'prioritize', 1],
+    ['recieve', 'receive', 1],
+    ['kitten', 'sitting', 3],
+    ['', 'abc', 3]
+  ];
+
+  for (const [a, b, expected] of cases) {
+    const actual = editDistance(a, b);
+    if (actual !== expected) {
+      return { passed: false, message: `editDistance("${a}", "${b}") = ${actual}, expected ${expected}` };
+    }
+  }
+
+  if (editDistance('kitten', 'sitting', 1) !== 2) {
+    return { passed: false, message: 'editDistance should stop at limit + 1' };
+  }
+
+  return { passed: true, message: 'Edits, including swapped letters, are counted' };
+}
+
+export function testFindTermMatches(): { passed: boolean; message: string } {
+  const text = 'We Prioritize interviews. Prioritization comes later.';
+  const describe = (term: string) => findTermMatches(text, term, DEFAULT_FUZZY_OPTIONS)
+    .map(match => `${match.kind}:${match.variant}@${match.start}`).join(' ');
+
+  const cases: Array<[string, string]> = [
+    ['prioritize', 'exact:Prioritize@3'],
+    ['prioritise', 'fuzzy:Prioritize@3 prefix:Prioritization@26'],
+    ['intervews', 'fuzzy:interviews@14'],
+    // Too short to be forgiven a typo
+    ['wa', ''],
+    ['"later"', '']
+  ];
+
+  for (const [term, expected] of cases) {
+    const actual = describe(term);
+    if (actual !== expected) {
+      return { passed: false, message: `"${term}" matched ${actual || 'nothing'}, expected ${expected || 'nothing'}` };
+    }
+  }
+
+  if (findTermMatches(text, 'prioritise', null).length !== 0) {
+    return { passed: false, message: 'Without options only exact matches should count' };
+  }
+
+  return { passed: true, message: 'Exact matches win; otherwise close words and word beginnings match' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'editDistance', fn: testEditDistance },
+    { name: 'findTermMatches', fn: testFindTermMatches },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Fuzzy Match Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
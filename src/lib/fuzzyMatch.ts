@@ -0,0 +1,109 @@
+/**
+ * Typo-tolerant term matching for search. A term matches text exactly (as a
+ * substring), or else a word within a few edits of it ("prioritise" finds
+ * "prioritize"), or a word whose beginning is within a few edits of it, for
+ * terms that are still being typed ("prioritis" finds "prioritize").
+ */
+
+export interface FuzzyOptions {
+  // Edits allowed per character of the term, rounded down
+  editRatio: number;
+  // Upper bound on edits, however long the term is
+  maxEdits: number;
+  // Shorter terms only match exactly
+  minTermLength: number;
+}
+
+export const DEFAULT_FUZZY_OPTIONS: FuzzyOptions = {
+  editRatio: 0.25,
+  maxEdits: 2,
+  minTermLength: 4
+};
+
+export interface TermMatch {
+  term: string;
+  // The text that matched: the term itself, or the word it was taken for
+  variant: string;
+  start: number;
+  end: number;
+  // Edits between term and variant (0 for exact matches)
+  distance: number;
+  kind: 'exact' | 'fuzzy' | 'prefix';
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const SINGLE_WORD = /^[\p{L}\p{N}]+$/u;
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighbouring letters. Stops early and returns limit + 1 once it is exceeded.
+ */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], limit + 1);
+}
+
+export function allowedEdits(term: string, options: FuzzyOptions): number {
+  if (term.length < options.minTermLength) return 0;
+  return Math.min(options.maxEdits, Math.floor(term.length * options.editRatio));
+}
+
+/**
+ * Every place the term matches in the text. Exact occurrences win: words are
+ * only compared by edit distance when the term does not appear as it is.
+ * Pass null as options for exact matching only.
+ */
+export function findTermMatches(text: string, term: string, options: FuzzyOptions | null): TermMatch[] {
+  const lowerText = text.toLowerCase();
+  const lowerTerm = term.toLowerCase();
+  const matches: TermMatch[] = [];
+  if (!lowerTerm) return matches;
+
+  for (let index = lowerText.indexOf(lowerTerm); index !== -1; index = lowerText.indexOf(lowerTerm, index + lowerTerm.length)) {
+    matches.push({ term, variant: text.substring(index, index + term.length), start: index, end: index + term.length, distance: 0, kind: 'exact' });
+  }
+
+  // Phrases and terms with punctuation only match as written
+  const limit = options && SINGLE_WORD.test(lowerTerm) ? allowedEdits(lowerTerm, options) : 0;
+  if (matches.length > 0 || limit === 0) return matches;
+
+  for (const word of lowerText.matchAll(WORD)) {
+    const candidate = word[0];
+    const whole = editDistance(lowerTerm, candidate, limit);
+    const prefix = candidate.length > lowerTerm.length
+      ? editDistance(lowerTerm, candidate.substring(0, lowerTerm.length), limit)
+      : limit + 1;
+    const distance = Math.min(whole, prefix);
+    if (distance > limit) continue;
+
+    matches.push({
+      term,
+      variant: text.substring(word.index, word.index + candidate.length),
+      start: word.index,
+      end: word.index + candidate.length,
+      distance,
+      kind: whole <= prefix ? 'fuzzy' : 'prefix'
+    });
+  }
+  return matches;
+}
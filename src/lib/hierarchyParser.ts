@@ -1,5 +1,6 @@
 // IMPORTANT: This should ONLY be used in DocumentEditor for markdown parsing
 // All other components should work directly with JSON sections from the database
+import { assignSectionAnchors, formatHeadingAnchor, splitHeadingAnchor } from './sectionAnchors';
 
 export interface ParsedContent {
   sections: Array<{
@@ -12,7 +13,15 @@ export interface ParsedContent {
 }
 
 export class HierarchyParser {
-  static parseMarkup(text: string, documentTitle?: string): ParsedContent {
+  /**
+   * Headings keep the anchor written after them ({#anchor}); those without
+   * one reuse the anchor of the same title in previousSections, or get a new one
+   */
+  static parseMarkup(
+    text: string,
+    documentTitle?: string,
+    previousSections: Array<{ id: string; title: string }> = []
+  ): ParsedContent {
     const lines = text.split('\n');
     const sections: Array<{
       id: string;
@@ -23,7 +32,6 @@ export class HierarchyParser {
     }> = [];
 
     let currentSection: any = null;
-    let sectionCounter = 0;
     let preHeaderContent: string[] = [];
     let foundFirstHeader = false;
 
@@ -31,7 +39,8 @@ export class HierarchyParser {
       const line = lines[i];
       const trimmedLine = line.trim();
 
-      const headerMatch = trimmedLine.match(/^(#{1,99})\s+(.+?)(?:\s+\[([^\]]+)\])?$/);
+      const { heading, anchor } = splitHeadingAnchor(trimmedLine);
+      const headerMatch = heading.match(/^(#{1,99})\s+(.+?)(?:\s+\[([^\]]+)\])?$/);
       
       if (headerMatch) {
         foundFirstHeader = true;
@@ -39,7 +48,7 @@ export class HierarchyParser {
         // If we have pre-header content, create a section for it
         if (preHeaderContent.length > 0 && documentTitle) {
           sections.push({
-            id: `section-${++sectionCounter}`,
+            id: '',
             title: documentTitle,
             content: preHeaderContent.join('\n'),
             level: 1,
@@ -60,7 +69,7 @@ export class HierarchyParser {
         const tags = tagString ? tagString.split(',').map(t => t.trim()) : [];
         
         currentSection = {
-          id: `section-${++sectionCounter}`,
+          id: anchor || '',
           title: title.trim(),
           content: '',
           level,
@@ -82,7 +91,7 @@ export class HierarchyParser {
     // Handle remaining pre-header content if no headers were found
     if (preHeaderContent.length > 0 && documentTitle && !foundFirstHeader) {
       sections.push({
-        id: `section-${++sectionCounter}`,
+        id: '',
         title: documentTitle,
         content: preHeaderContent.join('\n'),
         level: 1,
@@ -96,10 +105,11 @@ export class HierarchyParser {
       sections.push(currentSection);
     }
 
-    return { sections };
+    return { sections: assignSectionAnchors(sections, previousSections) };
   }
 
   static sectionsToMarkup(sections: Array<{
+    id?: string;
     title: string;
     content: string;
     level: number;
@@ -114,7 +124,7 @@ export class HierarchyParser {
       
       const indent = '#'.repeat(section.level);
       const tags = section.tags && section.tags.length > 0 ? ` [${section.tags.join(', ')}]` : '';
-      const header = `${indent} ${section.title}${tags}`;
+      const header = formatHeadingAnchor(`${indent} ${section.title}${tags}`, section.id);
       return section.content ? `${header}\n${section.content}` : header;
     }).join('\n\n');
   }
@@ -59,24 +59,24 @@ export function resolveInternalLink(
 }
 
 /**
- * Finds a section by title (case-insensitive) or by ID
+ * Finds a section by its anchor (ID), title (case-insensitive), slug or part of its title
  */
-function findSectionByTitleOrId(
+export function findSectionByTitleOrId(
   sections: DocumentSection[],
   ref: string
 ): DocumentSection | null {
   const normalizedRef = ref.toLowerCase().trim();
 
+  // Try anchor match, which survives renames
+  let found = sections.find(s => s.id === ref);
+  if (found) return found;
+
   // Try exact title match (case-insensitive)
-  let found = sections.find(s =>
+  found = sections.find(s =>
     s.title.toLowerCase().trim() === normalizedRef
   );
   if (found) return found;
 
-  // Try ID match
-  found = sections.find(s => s.id === ref);
-  if (found) return found;
-
   // Try generated slug match
   found = sections.find(s =>
     generateSectionId(s.title) === normalizedRef
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for wiki link checks and repairs
+ * Run in browser console: import('/src/lib/linkCheck.test.ts').then(m => m.runAllTests())
+ */
+
+import { checkLinks, repairLinks, toRepair } from './linkCheck';
+import type { LinkableDocument } from './linkIndex';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const section = (id: string, title: string, content = ''): DocumentSection => ({
+  id, title, level: 1, content, tags: []
+});
+
+const interviews: LinkableDocument = {
+  id: 'interviews',
+  title: 'Interviews',
+  path: '/research/interviews',
+  sections: [
+    section('goal', 'Main Goal', 'See [[follow-ups]], [[Followups]] and [[Goal]].'),
+    section('follow-ups', 'Follow-ups', 'Pricing: [[the tiers|/pricing#Tires]], [[/discovery/interviews]] and [[/pricing#Notes]].')
+  ]
+};
+
+const pricing: LinkableDocument = {
+  id: 'pricing',
+  title: 'Pricing',
+  path: '/pricing',
+  sections: [
+    section('tiers', 'Tiers'),
+    section('notes-1', 'Notes'),
+    section('notes-2', 'Notes')
+  ]
+};
+
+const documents = [interviews, pricing];
+const problems = checkLinks(documents, documents);
+
+// Test functions
+export function testFindProblems(): { passed: boolean; message: string } {
+  const found = problems.map(problem => `${problem.link.target}:${problem.kind}`).join(' ');
+  const expected = '#Followups:broken-section #Goal:ambiguous /pricing#Tires:broken-section /discovery/interviews:broken-document /pricing#Notes:ambiguous';
+  if (found !== expected) {
+    return { passed: false, message: `Unexpected problems: ${found}` };
+  }
+
+  return { passed: true, message: 'Missing pages and sections, partial and duplicate matches are reported' };
+}
+
+export function testSuggestions(): { passed: boolean; message: string } {
+  const suggested = problems.map(problem => problem.suggestions.map(suggestion => suggestion.destination).join('+')).join(', ');
+  const expected = 'Follow-ups, Main Goal, /pricing#Tiers, /research/interviews, /pricing#notes-1+/pricing#notes-2';
+  if (suggested !== expected) {
+    return { passed: false, message: `Unexpected suggestions: ${suggested}` };
+  }
+
+  return { passed: true, message: 'Closest titles, moved pages and section ids are suggested' };
+}
+
+export function testRepairLinks(): { passed: boolean; message: string } {
+  const repairs = problems.map(problem => toRepair(problem, problem.suggestions[0]));
+  const repaired = repairLinks(interviews.sections, repairs.filter(repair => repair.sourceDocumentId === 'interviews'));
+
+  const expected = [
+    'See [[follow-ups]], [[Follow-ups]] and [[Main Goal]].',
+    'Pricing: [[the tiers|/pricing#Tiers]], [[/research/interviews]] and [[Notes|/pricing#notes-1]].'
+  ];
+  for (let i = 0; i < expected.length; i++) {
+    if (repaired[i].content !== expected[i]) {
+      return { passed: false, message: `Expected "${expected[i]}", got "${repaired[i].content}"` };
+    }
+  }
+
+  if (checkLinks([{ ...interviews, sections: repaired }], documents).length > 0) {
+    return { passed: false, message: 'Repaired links should no longer be reported' };
+  }
+
+  return { passed: true, message: 'Repairs keep custom display text and resolve afterwards' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'findProblems', fn: testFindProblems },
+    { name: 'suggestions', fn: testSuggestions },
+    { name: 'repairLinks', fn: testRepairLinks },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Link Check Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
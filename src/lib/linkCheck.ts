@@ -0,0 +1,266 @@
+import type { DocumentSection } from '@/services/contentService';
+import { editDistance } from './fuzzyMatch';
+import { generateSectionId } from './sectionUtils';
+import {
+  extractSectionLinks,
+  indexByPath,
+  LinkableDocument,
+  LinkEdge,
+  parseWikiLink,
+  replaceWikiLinks,
+  resolveSectionLinks
+} from './linkIndex';
+
+/**
+ * Wiki link checks (see the link checker): every [[link]] is matched against
+ * the documents and sections it names, the way findSectionByTitleOrId does
+ * when the link is followed, and flagged when that match is missing or
+ * uncertain. Problems come with suggested repairs, which rewrite the link's
+ * destination and keep its display text.
+ */
+
+export type LinkProblemKind =
+  // No document has the link's path
+  | 'broken-document'
+  // The document exists but none of its sections matches
+  | 'broken-section'
+  // Several sections share the title, or the link only matches part of a title
+  | 'ambiguous';
+
+export interface LinkSuggestion {
+  // The new destination, as written after the "|" of a link
+  destination: string;
+  // Display text for links written without one
+  text: string;
+  label: string;
+  reason: 'moved' | 'closest-path' | 'closest-title' | 'partial-match' | 'duplicate-title';
+}
+
+export interface LinkProblem {
+  link: LinkEdge;
+  kind: LinkProblemKind;
+  message: string;
+  // Most likely first
+  suggestions: LinkSuggestion[];
+}
+
+export interface LinkRepair {
+  sourceDocumentId: string;
+  sourceSectionId: string;
+  // The target being replaced (LinkEdge.target)
+  target: string;
+  destination: string;
+  text: string;
+}
+
+type SectionMatch =
+  | { kind: 'exact'; section: DocumentSection }
+  | { kind: 'duplicate' | 'partial'; sections: DocumentSection[] }
+  | { kind: 'none' };
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Match a section reference in the same order as findSectionByTitleOrId
+ * (anchor, title, slug, then partial title), keeping every candidate
+ */
+export function matchSection(sections: DocumentSection[], ref: string): SectionMatch {
+  const normalizedRef = ref.toLowerCase().trim();
+
+  const byId = sections.find(s => s.id === ref);
+  if (byId) return { kind: 'exact', section: byId };
+
+  const byTitle = sections.filter(s => s.title.toLowerCase().trim() === normalizedRef);
+  if (byTitle.length > 1) return { kind: 'duplicate', sections: byTitle };
+  if (byTitle.length === 1) return { kind: 'exact', section: byTitle[0] };
+
+  const bySlug = sections.filter(s => generateSectionId(s.title) === normalizedRef);
+  if (bySlug.length > 1) return { kind: 'duplicate', sections: bySlug };
+  if (bySlug.length === 1) return { kind: 'exact', section: bySlug[0] };
+
+  const partial = sections.filter(s =>
+    s.title.toLowerCase().includes(normalizedRef) || normalizedRef.includes(s.title.toLowerCase())
+  );
+  return partial.length > 0 ? { kind: 'partial', sections: partial } : { kind: 'none' };
+}
+
+// The section part of a target, decoded the way resolveInternalLink does
+export function sectionReference(target: string): string | null {
+  const hashIndex = target.indexOf('#');
+  if (hashIndex === -1) return null;
+  try {
+    return decodeURIComponent(target.substring(hashIndex + 1));
+  } catch {
+    return null;
+  }
+}
+
+const lastSegment = (path: string) => path.split('/').filter(Boolean).pop()?.toLowerCase() || '';
+
+// The closest candidates by edit distance, allowing about a third of the text to differ
+function closest<T>(value: string, candidates: T[], key: (candidate: T) => string): T[] {
+  const normalized = value.toLowerCase().trim();
+  const limit = Math.max(2, Math.floor(normalized.length / 3));
+
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(normalized, key(candidate).toLowerCase().trim(), limit) }))
+    .filter(({ distance }) => distance <= limit)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * The destination of a link to a section of a document. Same-document links are
+ * written as the bare title (parseWikiLink encodes it); cross-document ones
+ * are encoded so the rendered link stays valid.
+ */
+export function sectionDestination(link: LinkEdge, document: LinkableDocument, ref: string): string {
+  const sameDocument = link.target.startsWith('#') && document.id === link.sourceDocumentId;
+  return sameDocument ? ref : `${document.path}#${encodeURIComponent(ref)}`;
+}
+
+function sectionSuggestion(
+  link: LinkEdge,
+  document: LinkableDocument,
+  ref: string,
+  label: string,
+  reason: LinkSuggestion['reason'],
+  text = ref
+): LinkSuggestion {
+  return { destination: sectionDestination(link, document, ref), text, label, reason };
+}
+
+function documentSuggestion(link: LinkEdge, document: LinkableDocument, reason: LinkSuggestion['reason']): LinkSuggestion {
+  // Keep the section part as written
+  const hashIndex = link.target.indexOf('#');
+  const destination = document.path + (hashIndex !== -1 ? link.target.substring(hashIndex) : '');
+  return { destination, text: parseWikiLink(destination).text, label: `${document.title} (${document.path})`, reason };
+}
+
+/**
+ * Check one resolved link; null when it resolves to exactly one target
+ */
+export function checkLink(
+  link: LinkEdge,
+  documentsById: Map<string, LinkableDocument>,
+  documents: LinkableDocument[]
+): LinkProblem | null {
+  if (!link.targetDocumentId) {
+    const segment = lastSegment(link.targetPath);
+    const moved = documents.filter(document =>
+      segment && (lastSegment(document.path) === segment || generateSectionId(document.title) === segment)
+    );
+    const suggestions = moved.length > 0
+      ? moved.slice(0, MAX_SUGGESTIONS).map(document => documentSuggestion(link, document, 'moved'))
+      : closest(link.targetPath, documents, document => document.path).map(document => documentSuggestion(link, document, 'closest-path'));
+
+    return { link, kind: 'broken-document', message: `No page at ${link.targetPath}`, suggestions };
+  }
+
+  const ref = sectionReference(link.target);
+  const target = documentsById.get(link.targetDocumentId);
+  if (ref === null || !target) return null;
+
+  const match = matchSection(target.sections, ref);
+  switch (match.kind) {
+    case 'exact':
+      return null;
+
+    case 'duplicate':
+      return {
+        link,
+        kind: 'ambiguous',
+        message: `${match.sections.length} sections of ${target.title} match "${ref}"`,
+        // Anchors tell them apart
+        suggestions: match.sections.map(section =>
+          sectionSuggestion(link, target, section.id, `${section.title} (${section.id})`, 'duplicate-title', section.title)
+        )
+      };
+
+    case 'partial':
+      return {
+        link,
+        kind: 'ambiguous',
+        message: `"${ref}" only partly matches ${match.sections.map(section => `"${section.title}"`).join(', ')}`,
+        suggestions: match.sections
+          .slice(0, MAX_SUGGESTIONS)
+          .map(section => sectionSuggestion(link, target, section.title, section.title, 'partial-match'))
+      };
+
+    case 'none': {
+      const renamed = closest(ref, target.sections, section => section.title)
+        .map(section => sectionSuggestion(link, target, section.title, section.title, 'closest-title'));
+      // The same title in another document
+      const moved = documents
+        .filter(document => document.id !== target.id)
+        .flatMap(document => document.sections
+          .filter(section => section.title.toLowerCase().trim() === ref.toLowerCase().trim())
+          .map(section => sectionSuggestion(link, document, section.title, `${section.title} in ${document.title}`, 'moved')))
+        .slice(0, MAX_SUGGESTIONS);
+
+      return {
+        link,
+        kind: 'broken-section',
+        message: `No section "${ref}" in ${target.title}`,
+        suggestions: [...moved, ...renamed]
+      };
+    }
+  }
+}
+
+/**
+ * Check every link made from the source documents against all documents
+ */
+export function checkLinks(sources: LinkableDocument[], documents: LinkableDocument[]): LinkProblem[] {
+  const byPath = indexByPath(documents);
+  const byId = new Map(documents.map(document => [document.id, document]));
+
+  return sources.flatMap(source => {
+    const documentsById = byId.has(source.id) ? byId : new Map(byId).set(source.id, source);
+    return resolveSectionLinks(source, extractSectionLinks(source.sections), byPath)
+      .map(link => checkLink(link, documentsById, documents))
+      .filter((problem): problem is LinkProblem => problem !== null);
+  });
+}
+
+/**
+ * Targets of links that lead nowhere, as rendered (see renderMarkdown's brokenLinks)
+ */
+export function brokenTargets(problems: LinkProblem[]): Set<string> {
+  return new Set(problems.filter(problem => problem.kind !== 'ambiguous').map(problem => problem.link.target));
+}
+
+export function toRepair(problem: LinkProblem, suggestion: LinkSuggestion): LinkRepair {
+  return {
+    sourceDocumentId: problem.link.sourceDocumentId,
+    sourceSectionId: problem.link.sourceSectionId,
+    target: problem.link.target,
+    destination: suggestion.destination,
+    text: suggestion.text
+  };
+}
+
+// A link's new inside: custom display text is kept, derived text follows the new destination
+function repairedLinkText(linkText: string, repair: LinkRepair): string {
+  const pipeIndex = linkText.indexOf('|');
+  if (pipeIndex !== -1) return `${linkText.substring(0, pipeIndex).trim()}|${repair.destination}`;
+  return parseWikiLink(repair.destination).text === repair.text ? repair.destination : `${repair.text}|${repair.destination}`;
+}
+
+/**
+ * Apply one document's repairs to its sections, rewriting every link with a
+ * repaired target in the repaired section. Unchanged sections are returned as is.
+ */
+export function repairLinks(sections: DocumentSection[], repairs: LinkRepair[]): DocumentSection[] {
+  return sections.map(section => {
+    const sectionRepairs = repairs.filter(repair => repair.sourceSectionId === section.id);
+    if (sectionRepairs.length === 0 || !section.content) return section;
+
+    const content = replaceWikiLinks(section.content, (link, linkText) => {
+      const repair = sectionRepairs.find(candidate => candidate.target === link.target);
+      return `[[${repair ? repairedLinkText(linkText, repair) : linkText}]]`;
+    });
+    return content === section.content ? section : { ...section, content };
+  });
+}
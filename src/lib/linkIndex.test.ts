@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the wiki link index
+ * Run in browser console: import('/src/lib/linkIndex.test.ts').then(m => m.runAllTests())
+ */
+
+import { extractSectionLinks, inboundLinks, indexByPath, LinkableDocument, outboundLinks, parseWikiLink, resolveSectionLinks } from './linkIndex';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const section = (id: string, title: string, content = ''): DocumentSection => ({
+  id, title, level: 1, content, tags: []
+});
+
+const interviews: LinkableDocument = {
+  id: 'interviews',
+  title: 'Interviews',
+  path: '/discovery/interviews',
+  sections: [
+    section('goal', 'Main Goal: Ask open questions', 'See [[Follow-ups]] and [[the pricing tiers|/pricing#Tiers]].'),
+    section('follow-ups', 'Follow-ups', 'Back to [[#Main Goal: Ask open questions]], or [[/pricing/]] and [[/missing#Anything]].')
+  ]
+};
+
+const pricing: LinkableDocument = {
+  id: 'pricing',
+  title: 'Pricing',
+  path: '/pricing',
+  sections: [section('tiers', 'Tiers', 'Validate with [[interviews|/discovery/interviews#follow-ups]].')]
+};
+
+const documents = [interviews, pricing];
+const edges = documents.flatMap(document =>
+  resolveSectionLinks(document, extractSectionLinks(document.sections), indexByPath(documents))
+);
+
+// Test functions
+export function testParseWikiLink(): { passed: boolean; message: string } {
+  const checks: Array<[string, string, string]> = [
+    ['Section Title', 'Section Title', '#Section%20Title'],
+    ['text|#Section', 'text', '#Section'],
+    ['/path/to-doc', 'to-doc', '/path/to-doc'],
+    ['text|/path#Section', 'text', '/path#Section'],
+    ['/path#Section', 'Section', '/path#Section']
+  ];
+
+  for (const [linkText, text, target] of checks) {
+    const link = parseWikiLink(linkText);
+    if (link.text !== text || link.target !== target) {
+      return { passed: false, message: `[[${linkText}]]: expected ${text} → ${target}, got ${link.text} → ${link.target}` };
+    }
+  }
+
+  return { passed: true, message: 'Links parse to the targets the renderer uses' };
+}
+
+export function testResolveLinks(): { passed: boolean; message: string } {
+  const describe = (list: typeof edges) =>
+    list.map(edge => `${edge.sourceSectionId}>${edge.targetDocumentId}#${edge.targetSectionId}`).join(' ');
+
+  const expected = 'goal>interviews#follow-ups goal>pricing#tiers follow-ups>interviews#goal follow-ups>pricing#null follow-ups>null#null tiers>interviews#follow-ups';
+  if (describe(edges) !== expected) {
+    return { passed: false, message: `Unexpected edges: ${describe(edges)}` };
+  }
+
+  const missing = edges.find(edge => edge.targetDocumentId === null);
+  if (missing?.targetPath !== '/missing' || missing.targetSectionTitle !== 'Anything') {
+    return { passed: false, message: 'Links to missing documents should keep their target' };
+  }
+
+  return { passed: true, message: 'Same- and cross-document links resolve to documents and sections' };
+}
+
+export function testQueryLinks(): { passed: boolean; message: string } {
+  const intoFollowUps = inboundLinks(edges, 'interviews', 'follow-ups').map(edge => edge.sourceSectionId).join();
+  if (intoFollowUps !== 'goal,tiers') {
+    return { passed: false, message: `Expected links from goal,tiers, got ${intoFollowUps}` };
+  }
+
+  if (inboundLinks(edges, 'pricing').length !== 2 || outboundLinks(edges, 'interviews', 'follow-ups').length !== 3) {
+    return { passed: false, message: 'Document-wide queries should cover every section' };
+  }
+
+  return { passed: true, message: 'Inbound and outbound links by document and section' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'parseWikiLink', fn: testParseWikiLink },
+    { name: 'resolveLinks', fn: testResolveLinks },
+    { name: 'queryLinks', fn: testQueryLinks },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Link Index Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
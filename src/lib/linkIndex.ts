@@ -0,0 +1,164 @@
+import type { DocumentSection } from '@/services/contentService';
+import { findSectionByTitleOrId, resolveInternalLink } from './internalLinkResolver';
+
+/**
+ * Wiki links between sections: `[[...]]` links are parsed out of section
+ * content and resolved to the document and section they point at, giving
+ * source → target edges for backlinks ("Linked from") and link checks.
+ */
+
+export interface WikiLink {
+  // Display text, derived from the destination when none is given
+  text: string;
+  // The internal link target as rendered: "#Section%20Title", "/path" or "/path#Section Title"
+  target: string;
+}
+
+// A link as written in a section, before resolving it
+export interface SectionLink extends WikiLink {
+  sectionId: string;
+}
+
+export interface LinkableDocument {
+  id: string;
+  title: string;
+  path: string;
+  sections: DocumentSection[];
+}
+
+export interface LinkEdge {
+  sourceDocumentId: string;
+  sourceDocumentTitle: string;
+  sourcePath: string;
+  sourceSectionId: string;
+  sourceSectionTitle: string;
+  text: string;
+  target: string;
+  // Null when no document has the target path
+  targetDocumentId: string | null;
+  targetPath: string;
+  // Null for links to a whole document, or to a section that was not found
+  targetSectionId: string | null;
+  // The section as written in the link, or its title once found
+  targetSectionTitle: string | null;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^\]]+)\]\]/g;
+
+/**
+ * Parse the inside of a [[...]] link:
+ * [[Section Title]], [[text|#Section Title]], [[text|/path#Section Title]], [[/path]]
+ */
+export function parseWikiLink(linkText: string): WikiLink {
+  const trimmedText = linkText.trim();
+  const pipeIndex = trimmedText.indexOf('|');
+  let text = pipeIndex !== -1 ? trimmedText.substring(0, pipeIndex).trim() : '';
+  const destination = pipeIndex !== -1 ? trimmedText.substring(pipeIndex + 1).trim() : trimmedText;
+
+  // Cross-document link
+  if (destination.startsWith('/')) {
+    if (!text) {
+      const hashIndex = destination.indexOf('#');
+      if (hashIndex !== -1) {
+        text = destination.substring(hashIndex + 1);
+      } else {
+        const parts = destination.split('/').filter(Boolean);
+        text = parts[parts.length - 1] || destination;
+      }
+    }
+    return { text, target: destination };
+  }
+
+  // Same-document link; "#" is optional
+  const target = destination.startsWith('#') ? destination : `#${encodeURIComponent(destination)}`;
+  return { text: text || destination.replace(/^#/, ''), target };
+}
+
+/**
+ * Replace each [[...]] link in markdown content. The link is also passed as
+ * written, without its brackets.
+ */
+export function replaceWikiLinks(content: string, replace: (link: WikiLink, linkText: string) => string): string {
+  return content.replace(WIKI_LINK_PATTERN, (_match, linkText: string) => replace(parseWikiLink(linkText), linkText));
+}
+
+export function extractWikiLinks(content: string): WikiLink[] {
+  return [...content.matchAll(WIKI_LINK_PATTERN)].map(match => parseWikiLink(match[1]));
+}
+
+/**
+ * Every wiki link in a document's sections, in document order
+ */
+export function extractSectionLinks(sections: DocumentSection[]): SectionLink[] {
+  return sections.flatMap(section =>
+    extractWikiLinks(section.content || '').map(link => ({ ...link, sectionId: section.id }))
+  );
+}
+
+const normalizePath = (path: string) => (path.length > 1 ? path.replace(/\/+$/, '') : path);
+
+/**
+ * Resolve a document's links against the documents they can point at
+ */
+export function resolveSectionLinks(
+  source: LinkableDocument,
+  links: SectionLink[],
+  documentsByPath: Map<string, LinkableDocument>
+): LinkEdge[] {
+  const sectionTitles = new Map(source.sections.map(section => [section.id, section.title]));
+
+  return links.flatMap(link => {
+    let resolved;
+    try {
+      resolved = resolveInternalLink(link.target, source.sections);
+    } catch {
+      // Malformed escapes in a same-document target
+      resolved = null;
+    }
+    if (!resolved) return [];
+
+    const targetPath = resolved.type === 'same-document' ? source.path : normalizePath(resolved.documentPath || '');
+    const targetDocument = resolved.type === 'same-document' ? source : documentsByPath.get(targetPath) || null;
+    const targetSection = resolved.sectionTitle && targetDocument
+      ? resolved.sectionId
+        ? targetDocument.sections.find(section => section.id === resolved.sectionId) || null
+        : findSectionByTitleOrId(targetDocument.sections, resolved.sectionTitle)
+      : null;
+
+    return [{
+      sourceDocumentId: source.id,
+      sourceDocumentTitle: source.title,
+      sourcePath: source.path,
+      sourceSectionId: link.sectionId,
+      sourceSectionTitle: sectionTitles.get(link.sectionId) || '',
+      text: link.text,
+      target: link.target,
+      targetDocumentId: targetDocument?.id || null,
+      targetPath,
+      targetSectionId: targetSection?.id || null,
+      targetSectionTitle: targetSection?.title || resolved.sectionTitle || null
+    }];
+  });
+}
+
+export function indexByPath(documents: LinkableDocument[]): Map<string, LinkableDocument> {
+  return new Map(documents.map(document => [normalizePath(document.path), document]));
+}
+
+/**
+ * Links pointing at a document, or at one of its sections
+ */
+export function inboundLinks(edges: LinkEdge[], documentId: string, sectionId?: string): LinkEdge[] {
+  return edges.filter(edge =>
+    edge.targetDocumentId === documentId && (sectionId === undefined || edge.targetSectionId === sectionId)
+  );
+}
+
+/**
+ * Links made from a document, or from one of its sections
+ */
+export function outboundLinks(edges: LinkEdge[], documentId: string, sectionId?: string): LinkEdge[] {
+  return edges.filter(edge =>
+    edge.sourceDocumentId === documentId && (sectionId === undefined || edge.sourceSectionId === sectionId)
+  );
+}
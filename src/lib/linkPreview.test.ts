@@ -0,0 +1,75 @@
+/**
+ * Unit tests for internal link previews
+ * Run in browser console: import('/src/lib/linkPreview.test.ts').then(m => m.runAllTests())
+ */
+
+import { buildSectionPreview } from './linkPreview';
+import type { LinkableDocument } from './linkIndex';
+
+// Test data
+const interviews: LinkableDocument = {
+  id: 'interviews',
+  title: 'Interviews',
+  path: '/research/interviews',
+  sections: [
+    { id: 'intro', title: 'Interviews', level: 1, content: 'Talk to **people**.', tags: [] },
+    { id: 'method', title: 'Method', level: 2, content: '', tags: [] },
+    {
+      id: 'questions',
+      title: 'Pitfall: Leading questions',
+      level: 3,
+      content: 'Avoid them, see [[the guide|/guides#Asking]]. <!-- sources: https://example.com -->',
+      tags: ['bias']
+    },
+    { id: 'examples', title: 'Examples', level: 4, content: '- "Would you pay for it?"', tags: [] }
+  ]
+};
+
+// Test functions
+export function testSectionPreview(): { passed: boolean; message: string } {
+  const preview = buildSectionPreview('/research/interviews#questions', interviews, 'questions');
+
+  if (preview.title !== 'Leading questions' || preview.rubric !== 'Pitfall' || preview.sectionId !== 'questions') {
+    return { passed: false, message: `Unexpected title or rubric: ${preview.rubric}: ${preview.title}` };
+  }
+  if (preview.breadcrumb.join(' > ') !== 'Interviews > Method') {
+    return { passed: false, message: `Unexpected breadcrumb: ${preview.breadcrumb.join(' > ')}` };
+  }
+  if (preview.excerpt !== 'Avoid them, see the guide. Examples "Would you pay for it?"') {
+    return { passed: false, message: `Unexpected excerpt: ${preview.excerpt}` };
+  }
+
+  return { passed: true, message: 'Section previews have the breadcrumb, rubric and plain text of the section and its subsections' };
+}
+
+export function testDocumentAndMissingPreviews(): { passed: boolean; message: string } {
+  const document = buildSectionPreview('/research/interviews', interviews, null);
+  if (document.title !== 'Interviews' || document.excerpt !== 'Talk to people.' || document.missingSection) {
+    return { passed: false, message: `Unexpected document preview: ${JSON.stringify(document)}` };
+  }
+
+  const missing = buildSectionPreview('#Recruiting', interviews, 'Recruiting');
+  if (!missing.missingSection || missing.sectionId !== null || missing.excerpt !== '') {
+    return { passed: false, message: `Unexpected preview of a missing section: ${JSON.stringify(missing)}` };
+  }
+
+  return { passed: true, message: 'Whole-document links preview the introduction; missing sections are flagged' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'sectionPreview', fn: testSectionPreview },
+    { name: 'documentAndMissingPreviews', fn: testDocumentAndMissingPreviews },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Link Preview Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,115 @@
+import { findSectionByTitleOrId } from './internalLinkResolver';
+import type { LinkableDocument } from './linkIndex';
+import { parseRubric } from './rubricConfig';
+import { splitHeadingAnchor } from './sectionAnchors';
+import { extractSectionFullContent } from './sectionContentExtractor';
+
+/**
+ * Hover previews: what an internal link leads to, shown without leaving the
+ * page, and the stored title and excerpt of a source URL.
+ */
+
+export interface SectionPreview {
+  // The link target as written, passed back when the preview is opened
+  target: string;
+  documentTitle: string;
+  documentPath: string;
+  // null for links to a whole document, or to a section that does not exist
+  sectionId: string | null;
+  title: string;
+  rubric: string | null;
+  // Document title, then the section's ancestors
+  breadcrumb: string[];
+  excerpt: string;
+  // The link names a section the document does not have
+  missingSection: boolean;
+}
+
+export interface SourceMetadata {
+  url: string;
+  title: string | null;
+  excerpt: string | null;
+  siteName: string | null;
+}
+
+const EXCERPT_LENGTH = 280;
+
+/**
+ * Plain text of markdown content, cut at a word boundary
+ */
+export function previewExcerpt(content: string, maxLength = EXCERPT_LENGTH): string {
+  // Subsection headings keep only their title
+  const lines = content.split('\n').map(line => {
+    const { heading } = splitHeadingAnchor(line);
+    return /^#+\s/.test(heading) ? heading.replace(/^#+\s+/, '').replace(/\s*\[[^\]]*\]\s*$/, '') : line;
+  });
+
+  const text = lines.join('\n')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/\[\[([^\]|]+)\|[^\]]*\]\]/g, '$1')
+    .replace(/\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:[-*]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (text.length <= maxLength) return text;
+  const cut = text.substring(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut).replace(/[\s,.;:]+$/, '')}…`;
+}
+
+/**
+ * Preview of a section of a document (or of the whole document when sectionRef
+ * is null), matched the way the link is followed (findSectionByTitleOrId)
+ */
+export function buildSectionPreview(target: string, document: LinkableDocument, sectionRef: string | null): SectionPreview {
+  const preview = {
+    target,
+    documentTitle: document.title,
+    documentPath: document.path
+  };
+
+  if (sectionRef === null) {
+    const introduction = document.sections.find(section => section.content?.trim());
+    return {
+      ...preview,
+      sectionId: null,
+      title: document.title,
+      rubric: null,
+      breadcrumb: [],
+      excerpt: introduction ? previewExcerpt(introduction.content) : '',
+      missingSection: false
+    };
+  }
+
+  const section = findSectionByTitleOrId(document.sections, sectionRef);
+  if (!section) {
+    return {
+      ...preview,
+      sectionId: null,
+      title: sectionRef,
+      rubric: null,
+      breadcrumb: [document.title],
+      excerpt: '',
+      missingSection: true
+    };
+  }
+
+  // The section's text and its subsections', as in the section view
+  const { content, sectionHierarchy } = extractSectionFullContent(section, document.sections);
+  const { rubric, text } = parseRubric(section.title, section.level);
+  const ancestors = sectionHierarchy.map(ancestor => parseRubric(ancestor.title, ancestor.level).text);
+  // The first section usually carries the document's title
+  if (ancestors[0] === document.title) ancestors.shift();
+  return {
+    ...preview,
+    sectionId: section.id,
+    title: text,
+    rubric,
+    breadcrumb: [document.title, ...ancestors],
+    excerpt: previewExcerpt(content),
+    missingSection: false
+  };
+}
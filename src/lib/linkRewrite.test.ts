@@ -0,0 +1,101 @@
+/**
+ * Unit tests for rewriting links after renames and moves
+ * Run in browser console: import('/src/lib/linkRewrite.test.ts').then(m => m.runAllTests())
+ */
+
+import { findSectionRenames, planLinkRewrite } from './linkRewrite';
+import type { LinkableDocument } from './linkIndex';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const section = (id: string, title: string, content = ''): DocumentSection => ({
+  id, title, level: 1, content, tags: []
+});
+
+// Pricing with "Tiers" already renamed to "Plans"
+const pricing: LinkableDocument = {
+  id: 'pricing',
+  title: 'Pricing',
+  path: '/pricing',
+  sections: [
+    section('tiers', 'Plans', 'Compare the plans.'),
+    section('faq', 'FAQ', 'See [[Tiers]] and [[the tiers|#Tiers]].')
+  ]
+};
+
+const interviews: LinkableDocument = {
+  id: 'interviews',
+  title: 'Interviews',
+  path: '/research/interviews',
+  sections: [
+    section('goal', 'Goal', 'Ask about [[pricing|/pricing#Tiers]], [[/pricing#tiers]] and [[/pricing#Tiers]].')
+  ]
+};
+
+// Test functions
+export function testFindSectionRenames(): { passed: boolean; message: string } {
+  const before = [section('1', 'Intro'), section('2', 'Tiers'), section('3', 'FAQ')];
+
+  const renamed = findSectionRenames('pricing', before, [section('1', 'Intro'), section('2', 'Plans'), section('3', 'FAQ')]);
+  if (renamed.map(rename => `${rename.from}>${rename.to}`).join() !== 'Tiers>Plans') {
+    return { passed: false, message: `Expected Tiers>Plans, got ${JSON.stringify(renamed)}` };
+  }
+
+  // A section inserted above shifts numbered ids rather than renaming anything
+  const shifted = findSectionRenames('pricing', before, [section('1', 'Intro'), section('2', 'New'), section('3', 'Tiers'), section('4', 'FAQ')]);
+  if (shifted.length !== 0) {
+    return { passed: false, message: `Shifted ids are not renames, got ${JSON.stringify(shifted)}` };
+  }
+
+  return { passed: true, message: 'Renames are found by section id' };
+}
+
+export function testRenameRewritesLinks(): { passed: boolean; message: string } {
+  const plan = planLinkRewrite([pricing, interviews], [{ documentId: 'pricing', sectionId: 'tiers', from: 'Tiers', to: 'Plans' }]);
+
+  const contents = plan.documents.flatMap(change => change.sections.map(s => s.content)).join('\n');
+  const expected = [
+    'Compare the plans.',
+    'See [[Plans]] and [[the tiers|Plans]].',
+    'Ask about [[pricing|/pricing#Plans]], [[/pricing#tiers]] and [[/pricing#Plans]].'
+  ].join('\n');
+  if (contents !== expected) {
+    return { passed: false, message: `Unexpected rewrite:\n${contents}` };
+  }
+
+  if (plan.linkCount !== 4 || plan.sectionCount !== 2) {
+    return { passed: false, message: `Expected 4 links in 2 sections, got ${plan.linkCount} in ${plan.sectionCount}` };
+  }
+
+  return { passed: true, message: 'Links by title follow the rename, links by id are left alone' };
+}
+
+export function testMoveRewritesLinks(): { passed: boolean; message: string } {
+  const plan = planLinkRewrite([pricing, interviews], [], [{ from: '/pricing', to: '/product/pricing' }]);
+
+  const contents = plan.documents.map(change => change.sections[0].content).join();
+  if (contents !== 'Ask about [[pricing|/product/pricing#Tiers]], [[/product/pricing#tiers]] and [[/product/pricing#Tiers]].') {
+    return { passed: false, message: `Unexpected rewrite: ${contents}` };
+  }
+
+  return { passed: true, message: 'Links to a moved page get its new path; same-page links are unchanged' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'findSectionRenames', fn: testFindSectionRenames },
+    { name: 'renameRewritesLinks', fn: testRenameRewritesLinks },
+    { name: 'moveRewritesLinks', fn: testMoveRewritesLinks },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Link Rewrite Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,135 @@
+import type { DocumentSection } from '@/services/contentService';
+import { LinkRepair, repairLinks, sectionDestination, sectionReference } from './linkCheck';
+import { extractSectionLinks, indexByPath, LinkableDocument, parseWikiLink, resolveSectionLinks } from './linkIndex';
+
+/**
+ * Keeping links pointed at renamed sections and moved pages. Links are
+ * resolved against the wiki as it was before the change, and those leading
+ * to a renamed section or moved page get the new title or path; custom
+ * display text is kept (see repairLinks).
+ */
+
+export interface SectionRename {
+  documentId: string;
+  sectionId: string;
+  from: string;
+  to: string;
+}
+
+// A page moving to another path; its subpages move with it
+export interface PathMove {
+  from: string;
+  to: string;
+}
+
+export interface LinkRewriteDocumentChange<T extends LinkableDocument> {
+  document: T;
+  // The document's sections with their links rewritten
+  sections: DocumentSection[];
+  changedSectionIds: string[];
+  linkCount: number;
+}
+
+export interface LinkRewritePlan<T extends LinkableDocument> {
+  documents: LinkRewriteDocumentChange<T>[];
+  sectionCount: number;
+  linkCount: number;
+}
+
+const normalizeTitle = (title: string) => title.toLowerCase().trim();
+
+/**
+ * Sections whose title changed between two saves of a document. Ids that
+ * ended up on another section (in documents saved before sections kept their
+ * anchors, whose ids were numbered by position) are not renames: the old
+ * title is still there, or the new one already was.
+ */
+export function findSectionRenames(documentId: string, before: DocumentSection[], after: DocumentSection[]): SectionRename[] {
+  const beforeTitles = new Set(before.map(section => normalizeTitle(section.title)));
+  const afterTitles = new Set(after.map(section => normalizeTitle(section.title)));
+
+  return after.flatMap(section => {
+    const previous = before.find(candidate => candidate.id === section.id);
+    if (!previous || normalizeTitle(previous.title) === normalizeTitle(section.title)) return [];
+    if (afterTitles.has(normalizeTitle(previous.title)) || beforeTitles.has(normalizeTitle(section.title))) return [];
+    return [{ documentId, sectionId: section.id, from: previous.title, to: section.title }];
+  });
+}
+
+/**
+ * Where a path ends up after the moves, or null when it does not move
+ */
+export function movedPath(path: string, moves: PathMove[]): string | null {
+  for (const move of moves) {
+    if (path === move.from) return move.to;
+    if (path.startsWith(`${move.from}/`)) return move.to + path.substring(move.from.length);
+  }
+  return null;
+}
+
+/**
+ * Rewrite every link to a renamed section or moved page. Documents are given
+ * with the renamed titles already saved and at their paths before the moves.
+ * Links by section id keep working and are left alone.
+ */
+export function planLinkRewrite<T extends LinkableDocument>(
+  documents: T[],
+  renames: SectionRename[],
+  moves: PathMove[] = []
+): LinkRewritePlan<T> {
+  // The wiki before the renames, which the links were written against
+  const before: LinkableDocument[] = documents.map(document => {
+    if (!renames.some(rename => rename.documentId === document.id)) return document;
+    return {
+      ...document,
+      sections: document.sections.map(section => {
+        const rename = renames.find(candidate => candidate.documentId === document.id && candidate.sectionId === section.id);
+        return rename ? { ...section, title: rename.from } : section;
+      })
+    };
+  });
+  const byPath = indexByPath(before);
+  const byId = new Map(documents.map(document => [document.id, document]));
+  const plan: LinkRewritePlan<T> = { documents: [], sectionCount: 0, linkCount: 0 };
+
+  documents.forEach((document, i) => {
+    const repairs: LinkRepair[] = [];
+
+    for (const link of resolveSectionLinks(before[i], extractSectionLinks(before[i].sections), byPath)) {
+      const target = link.targetDocumentId ? byId.get(link.targetDocumentId) : undefined;
+      if (!target) continue;
+
+      const ref = sectionReference(link.target);
+      const rename = renames.find(candidate =>
+        candidate.documentId === target.id && candidate.sectionId === link.targetSectionId && ref !== candidate.sectionId
+      );
+      // Same-document links never name the path
+      const newPath = link.target.startsWith('#') ? null : movedPath(link.targetPath, moves);
+      if (!rename && !newPath) continue;
+
+      const movedTarget = { ...target, path: newPath ?? target.path };
+      const hashIndex = link.target.indexOf('#');
+      const destination = rename
+        ? sectionDestination(link, movedTarget, rename.to)
+        : movedTarget.path + (hashIndex !== -1 ? link.target.substring(hashIndex) : '');
+
+      repairs.push({
+        sourceDocumentId: document.id,
+        sourceSectionId: link.sourceSectionId,
+        target: link.target,
+        destination,
+        text: rename ? rename.to : parseWikiLink(destination).text
+      });
+    }
+
+    if (repairs.length === 0) return;
+
+    const sections = repairLinks(document.sections, repairs);
+    const changedSectionIds = sections.filter((section, j) => section !== document.sections[j]).map(section => section.id);
+    plan.documents.push({ document, sections, changedSectionIds, linkCount: repairs.length });
+    plan.sectionCount += changedSectionIds.length;
+    plan.linkCount += repairs.length;
+  });
+
+  return plan;
+}
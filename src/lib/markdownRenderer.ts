@@ -1,5 +1,6 @@
 import { marked, Renderer } from 'marked';
 import DOMPurify from 'dompurify';
+import { replaceWikiLinks } from './linkIndex';
 
 /**
  * Preprocesses content to convert wiki-style [[links]] to markdown links
@@ -10,50 +11,16 @@ import DOMPurify from 'dompurify';
  * - [[display text|/document-path#Section Title]] - cross-document link with custom display text
  * - [[/document-path]] - document link without section
  */
-const preprocessWikiLinks = (content: string): string => {
-  return content.replace(/\[\[([^\]]+)\]\]/g, (match, linkText) => {
-    const trimmedText = linkText.trim();
-    
-    // Check for pipe-separated format: [[display text|destination]]
-    const pipeIndex = trimmedText.indexOf('|');
-    let displayText: string;
-    let destination: string;
-    
-    if (pipeIndex !== -1) {
-      displayText = trimmedText.substring(0, pipeIndex).trim();
-      destination = trimmedText.substring(pipeIndex + 1).trim();
-    } else {
-      destination = trimmedText;
-      displayText = ''; // Will be derived from destination
-    }
-    
-    // Cross-document link (starts with /)
-    if (destination.startsWith('/')) {
-      // If no custom display text, derive from destination
-      if (!displayText) {
-        const hashIndex = destination.indexOf('#');
-        if (hashIndex !== -1) {
-          displayText = destination.substring(hashIndex + 1);
-        } else {
-          const parts = destination.split('/').filter(Boolean);
-          displayText = parts[parts.length - 1] || destination;
-        }
-      }
-      return `[${displayText}](internal:${destination})`;
-    }
-    
-    // Same-document link - use # prefix
-    // If destination starts with #, it's explicit; otherwise add #
-    const target = destination.startsWith('#') ? destination : `#${encodeURIComponent(destination)}`;
-    if (!displayText) {
-      displayText = destination.startsWith('#') ? destination.substring(1) : destination;
-    }
-    return `[${displayText}](internal:${target})`;
-  });
-};
+const preprocessWikiLinks = (content: string): string =>
+  replaceWikiLinks(content, ({ text, target }) => `[${text}](internal:${target})`);
+
+export interface RenderOptions {
+  // Internal link targets that lead nowhere (see linkCheck.ts), styled as broken
+  brokenLinks?: ReadonlySet<string>;
+}
 
 // Create custom renderer for internal links
-const createRenderer = (): Renderer => {
+const createRenderer = (options: RenderOptions = {}): Renderer => {
   const renderer = new Renderer();
   
   const originalLink = renderer.link.bind(renderer);
@@ -62,6 +29,9 @@ const createRenderer = (): Renderer => {
     // Handle internal links
     if (href?.startsWith('internal:')) {
       const target = href.replace('internal:', '');
+      if (options.brokenLinks?.has(target)) {
+        return `<a href="${target}" class="internal-link internal-link-broken" title="Broken link: nothing matches this target" data-internal-link="${target}">${text}</a>`;
+      }
       const titleAttr = title ? ` title="${title}"` : '';
       return `<a href="${target}" class="internal-link"${titleAttr} data-internal-link="${target}">${text}</a>`;
     }
@@ -80,13 +50,13 @@ marked.setOptions({
   gfm: true
 });
 
-export const renderMarkdown = (content: string): string => {
+export const renderMarkdown = (content: string, options?: RenderOptions): string => {
   try {
     // Preprocess wiki-style links
     const preprocessed = preprocessWikiLinks(content);
     
     // Parse markdown to HTML with custom renderer
-    const rawHtml = marked.parse(preprocessed, { renderer: createRenderer() });
+    const rawHtml = marked.parse(preprocessed, { renderer: createRenderer(options) });
     const htmlString = typeof rawHtml === 'string' ? rawHtml : content;
     
     // Sanitize HTML to remove malicious content (XSS protection)
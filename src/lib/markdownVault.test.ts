@@ -0,0 +1,131 @@
+/**
+ * Unit tests for markdown vault export and import
+ * Run in browser console: import('/src/lib/markdownVault.test.ts').then(m => m.runAllTests())
+ */
+
+import { exportVault, findRoundTripLosses, parseSections, planVaultImport, readVault, serializeSections } from './markdownVault';
+import type { ContentItem } from '../services/contentService';
+
+// Test data
+const item = (overrides: Partial<ContentItem>): ContentItem => ({
+  id: 'id',
+  title: 'Title',
+  path: '/title',
+  parent_id: null,
+  order_index: 0,
+  content_json: [],
+  tags: [],
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  version: 1,
+  ...overrides
+});
+
+const tree: ContentItem[] = [
+  item({ id: 'folder', title: 'Product: Discovery', path: '/discovery', content_json: null, tags: ['phase'] }),
+  item({
+    id: 'doc',
+    title: 'Interviews',
+    path: '/discovery/interviews',
+    parent_id: 'folder',
+    order_index: 1,
+    content_json: [
+      { id: 'int-1', title: 'Overview', level: 1, content: 'Talk to customers.\n\n# not a heading\n', tags: ['research', 'b2b'] },
+      { id: 'int-2', title: 'Checklist [draft]', level: 3, content: '', tags: [], sources: ['https://example.com/a', 'https://example.com/b'] },
+      { id: 'int-3', title: 'Notes', level: 2, content: '<!-- sources: https://inline.example -->\nKeep raw notes.', tags: [] }
+    ]
+  }),
+  item({ id: 'intro', title: 'Index', path: '/discovery/index', parent_id: 'folder', order_index: 0 })
+];
+
+// Test functions
+export function testRoundTrip(): { passed: boolean; message: string } {
+  const losses = findRoundTripLosses(tree);
+  if (losses.length > 0) {
+    return { passed: false, message: `Unexpected losses: ${JSON.stringify(losses)}` };
+  }
+
+  const paths = exportVault(tree).map(file => file.path).sort();
+  const expected = ['discovery/index-page.md', 'discovery/index.md', 'discovery/interviews.md'];
+  if (JSON.stringify(paths) !== JSON.stringify(expected)) {
+    return { passed: false, message: `Unexpected files: ${paths.join(', ')}` };
+  }
+
+  return { passed: true, message: 'Ids, levels, tags, sources and nesting survive export and import' };
+}
+
+export function testHandWrittenFiles(): { passed: boolean; message: string } {
+  const vault = readVault([
+    { path: 'guides/index.md', content: '# Guides\nAll the guides.' },
+    { path: 'guides/pricing-basics.md', content: 'Intro text\n\n# Pricing [money, b2b]\nCharge more.' }
+  ]);
+  let counter = 0;
+  const plan = planVaultImport(vault, [], () => `new-${++counter}`);
+  const pricing = plan.creates.find(planned => planned.file === 'guides/pricing-basics.md');
+
+  if (plan.creates.length !== 2 || plan.creates[0].file !== 'guides/index.md' || pricing?.parent_id !== plan.creates[0].id) {
+    return { passed: false, message: `Expected parent first, got ${plan.creates.map(c => c.file).join(', ')}` };
+  }
+  if (pricing.path !== '/guides/pricing-basics' || pricing.content_json?.length !== 2 || pricing.content_json[1].tags.join() !== 'money,b2b') {
+    return { passed: false, message: `Unexpected item: ${JSON.stringify(pricing)}` };
+  }
+
+  return { passed: true, message: 'Files without frontmatter get ids, paths and parents' };
+}
+
+export function testDryRunReport(): { passed: boolean; message: string } {
+  const files = exportVault(tree);
+  const edited = files.map(file => file.path === 'discovery/interviews.md'
+    ? { ...file, content: file.content.replace('## Notes', '## Field notes') }
+    : file);
+  const plan = planVaultImport(readVault(edited), [...tree, item({ id: 'other', path: '/other' })]);
+
+  const update = plan.updates[0];
+  if (plan.updates.length !== 1 || update.changes.join() !== 'sections' || plan.unchanged.length !== 2 || plan.notInVault[0]?.id !== 'other') {
+    return { passed: false, message: `Unexpected plan: ${JSON.stringify({ updates: plan.updates.length, unchanged: plan.unchanged.length })}` };
+  }
+
+  const sections = parseSections('## Only heading', 'Doc');
+  if (sections[0].id !== 'section-1' || sections[0].level !== 2) {
+    return { passed: false, message: 'Expected positional ids for sections without an id comment' };
+  }
+
+  return { passed: true, message: 'Dry run lists updates, unchanged pages and pages missing from the vault' };
+}
+
+export function testSourcesWithCommas(): { passed: boolean; message: string } {
+  const sources = ['https://example.com/search?q=a,b', 'https://example.com/?next=-->'];
+  const markdown = serializeSections([{ id: 's', title: 'Sources', level: 1, content: 'Text', tags: [], sources }]);
+  const parsed = parseSections(markdown, 'Doc')[0];
+
+  if (JSON.stringify(parsed.sources) !== JSON.stringify(sources) || parsed.content !== 'Text') {
+    return { passed: false, message: `Unexpected sources: ${JSON.stringify(parsed.sources)}` };
+  }
+
+  const handWritten = parseSections('# Sources\n<!-- sources: https://a.example, https://b.example -->', 'Doc')[0];
+  if (handWritten.sources?.join(' ') !== 'https://a.example https://b.example') {
+    return { passed: false, message: `Comma-separated sources should still be read, got ${JSON.stringify(handWritten.sources)}` };
+  }
+
+  return { passed: true, message: 'Source URLs containing commas survive export and import' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'roundTrip', fn: testRoundTrip },
+    { name: 'handWrittenFiles', fn: testHandWrittenFiles },
+    { name: 'dryRunReport', fn: testDryRunReport },
+    { name: 'sourcesWithCommas', fn: testSourcesWithCommas },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Markdown Vault Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
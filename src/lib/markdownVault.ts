@@ -0,0 +1,509 @@
+import type { ContentItem, DocumentSection } from '../services/contentService';
+
+/**
+ * Markdown vault format: the content tree as a folder of markdown files.
+ *
+ * - An item without children is `<slug>.md`; an item with children is a
+ *   `<slug>/` folder holding its own `index.md` plus the children
+ * - Each file starts with frontmatter (id, title, path, order, tags) whose
+ *   values are JSON, so it is also valid YAML
+ * - Sections use the `# Title [tag, tag]` headings HierarchyParser reads, each
+ *   followed by `<!-- id: ... -->` and, when set, `<!-- sources: ... -->`
+ *
+ * Exporting and importing again restores ids, titles, levels, tags, sources,
+ * paths, order and nesting exactly. Hand-written files without frontmatter or
+ * id comments also import; they get ids and paths like the editor assigns.
+ */
+
+export interface VaultFile {
+  // Relative to the vault root, '/'-separated
+  path: string;
+  content: string;
+}
+
+export interface VaultItem {
+  // Null for hand-written files without an id
+  id: string | null;
+  title: string;
+  path: string | null;
+  order_index: number | null;
+  tags: string[];
+  content_json: DocumentSection[] | null;
+  file: string;
+  // Vault file of the parent item, null at the root
+  parentFile: string | null;
+}
+
+export interface VaultProblem {
+  file: string;
+  message: string;
+  // Errors block the import; warnings are reported only
+  severity: 'error' | 'warning';
+}
+
+export interface VaultReadResult {
+  items: VaultItem[];
+  problems: VaultProblem[];
+}
+
+const INDEX_FILE = 'index.md';
+const HEADING_PATTERN = /^(#{1,99})\s+(.+?)(?:\s+\[([^\]]*)\])?$/;
+const ID_COMMENT_PATTERN = /^<!--\s*id:\s*(.+?)\s*-->$/;
+const SOURCES_COMMENT_PATTERN = /^<!--\s*sources:\s*(.*?)\s*-->$/;
+const TRAILING_BRACKETS_PATTERN = /\s\[[^\]]*\]$/;
+
+// Export
+
+/**
+ * Writes the tree as vault files. Items are raw rows; nesting comes from parent_id.
+ */
+export function exportVault(items: ContentItem[]): VaultFile[] {
+  const childrenOf = new Map<string | null, ContentItem[]>();
+  const ids = new Set(items.map(item => item.id));
+  for (const item of items) {
+    // Orphans (parent missing) are exported at the root rather than dropped
+    const parentId = item.parent_id && ids.has(item.parent_id) ? item.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), item]);
+  }
+
+  const files: VaultFile[] = [];
+  const writeLevel = (parentId: string | null, directory: string) => {
+    const siblings = (childrenOf.get(parentId) || []).sort((a, b) => a.order_index - b.order_index);
+    const usedNames = new Set<string>();
+
+    for (const item of siblings) {
+      const name = uniqueName(fileSlug(item), usedNames);
+      const hasChildren = (childrenOf.get(item.id) || []).length > 0;
+
+      if (hasChildren) {
+        const folder = `${directory}${name}/`;
+        files.push({ path: `${folder}${INDEX_FILE}`, content: serializeItem(item) });
+        writeLevel(item.id, folder);
+      } else {
+        files.push({ path: `${directory}${name}.md`, content: serializeItem(item) });
+      }
+    }
+  };
+
+  writeLevel(null, '');
+  return files;
+}
+
+export function serializeItem(item: ContentItem): string {
+  const frontmatter = [
+    '---',
+    `id: ${JSON.stringify(item.id)}`,
+    `title: ${JSON.stringify(item.title)}`,
+    `path: ${JSON.stringify(item.path)}`,
+    `order: ${item.order_index}`,
+    `tags: ${JSON.stringify(item.tags || [])}`,
+    ...(item.content_json === null ? ['content: null'] : []),
+    '---'
+  ].join('\n');
+
+  const body = serializeSections(item.content_json || []);
+  return body ? `${frontmatter}\n\n${body}\n` : `${frontmatter}\n`;
+}
+
+export function serializeSections(sections: DocumentSection[]): string {
+  return sections.map(section => {
+    const lines = [formatHeading(section), `<!-- id: ${section.id} -->`];
+    if (section.sources) {
+      lines.push(`<!-- sources: ${formatSources(section.sources)} -->`);
+    }
+    const meta = lines.join('\n');
+    return section.content ? `${meta}\n\n${escapeContent(section.content)}` : meta;
+  }).join('\n\n');
+}
+
+// A JSON list, so URLs may contain commas; ">" is escaped so no URL can end the comment
+function formatSources(sources: string[]): string {
+  return JSON.stringify(sources).replace(/>/g, '\\u003e');
+}
+
+// Exported lists are JSON; hand-written ones may separate URLs with commas
+function parseSources(value: string): string[] {
+  if (value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return value ? value.split(',').map(url => url.trim()).filter(Boolean) : [];
+}
+
+function formatHeading(section: DocumentSection): string {
+  const hashes = '#'.repeat(Math.max(1, section.level));
+  const tags = section.tags || [];
+  // An explicit empty list stops a title ending in "[...]" being read as tags
+  const tagSuffix = tags.length > 0
+    ? ` [${tags.join(', ')}]`
+    : TRAILING_BRACKETS_PATTERN.test(section.title) ? ' []' : '';
+  return `${hashes} ${section.title}${tagSuffix}`;
+}
+
+// Content lines that look like headings are escaped with a backslash
+function escapeContent(content: string): string {
+  return content.split('\n').map(line => /^\\*#/.test(line) ? `\\${line}` : line).join('\n');
+}
+
+function unescapeContentLine(line: string): string {
+  return /^\\+#/.test(line) ? line.slice(1) : line;
+}
+
+// Import
+
+/**
+ * Reads vault files back into items. Non-markdown files are ignored.
+ */
+export function readVault(files: VaultFile[]): VaultReadResult {
+  const problems: VaultProblem[] = [];
+  const markdownFiles = files
+    .map(file => ({ ...file, path: normalizePath(file.path) }))
+    .filter(file => file.path.toLowerCase().endsWith('.md'))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const byPath = new Set(markdownFiles.map(file => file.path));
+
+  const items = markdownFiles.map((file, index) => {
+    const item = parseVaultFile(file, problems);
+    item.parentFile = findParentFile(file.path, byPath, problems);
+    // Hand-written files keep the order they sort in
+    if (item.order_index === null) item.order_index = index;
+    return item;
+  });
+
+  const seenIds = new Map<string, string>();
+  for (const item of items) {
+    if (!item.id) continue;
+    const other = seenIds.get(item.id);
+    if (other) {
+      problems.push({ file: item.file, message: `Duplicate id ${item.id} (also in ${other})`, severity: 'error' });
+    } else {
+      seenIds.set(item.id, item.file);
+    }
+  }
+
+  return { items, problems };
+}
+
+export function parseVaultFile(file: VaultFile, problems: VaultProblem[] = []): VaultItem {
+  const text = file.content.replace(/\r\n/g, '\n');
+  const { fields, body } = splitFrontmatter(text, file.path, problems);
+  const fallbackTitle = titleFromFileName(file.path);
+
+  const title = typeof fields.title === 'string' ? fields.title : null;
+  const sections = fields.content === null ? null : parseSections(body, title || fallbackTitle);
+
+  return {
+    id: typeof fields.id === 'string' && fields.id ? fields.id : null,
+    title: title || sections?.[0]?.title || fallbackTitle,
+    path: typeof fields.path === 'string' && fields.path ? fields.path : null,
+    order_index: typeof fields.order === 'number' ? fields.order : null,
+    tags: Array.isArray(fields.tags) ? fields.tags.map(String) : [],
+    content_json: sections,
+    file: normalizePath(file.path),
+    parentFile: null
+  };
+}
+
+/**
+ * Parses headings into sections. Text before the first heading becomes a
+ * section titled after the document, as in HierarchyParser.
+ */
+export function parseSections(body: string, documentTitle: string): DocumentSection[] {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  const sections: DocumentSection[] = [];
+  const preHeader: string[] = [];
+  let current: { section: DocumentSection; lines: string[]; inMeta: boolean } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const content = [...current.lines];
+    // One blank line separates the metadata from the content, and sections from each other
+    if (content[0] === '') content.shift();
+    if (content[content.length - 1] === '') content.pop();
+    current.section.content = content.map(unescapeContentLine).join('\n');
+    sections.push(current.section);
+  };
+
+  for (const line of lines) {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      finish();
+      const [, hashes, title, tagString] = heading;
+      current = {
+        section: {
+          id: '',
+          title: title.trim(),
+          level: hashes.length,
+          content: '',
+          tags: tagString ? tagString.split(',').map(tag => tag.trim()).filter(Boolean) : []
+        },
+        lines: [],
+        inMeta: true
+      };
+      continue;
+    }
+
+    if (!current) {
+      preHeader.push(line);
+      continue;
+    }
+
+    if (current.inMeta) {
+      const id = line.match(ID_COMMENT_PATTERN);
+      const sources = line.match(SOURCES_COMMENT_PATTERN);
+      if (id) {
+        current.section.id = id[1];
+        continue;
+      }
+      if (sources) {
+        current.section.sources = parseSources(sources[1]);
+        continue;
+      }
+      current.inMeta = false;
+    }
+    current.lines.push(line);
+  }
+  finish();
+
+  const introduction = preHeader.join('\n').trim();
+  if (introduction) {
+    sections.unshift({ id: '', title: documentTitle, level: 1, content: introduction, tags: [] });
+  }
+
+  // Sections without an id comment get positional ids, like markdown-mode saves
+  return sections.map((section, index) => section.id ? section : { ...section, id: `section-${index + 1}` });
+}
+
+function splitFrontmatter(text: string, file: string, problems: VaultProblem[]): { fields: Record<string, unknown>; body: string } {
+  if (!text.startsWith('---\n')) return { fields: {}, body: text };
+
+  const end = text.indexOf('\n---', 4);
+  if (end === -1) {
+    problems.push({ file, message: 'Frontmatter is not closed with ---', severity: 'error' });
+    return { fields: {}, body: text };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const line of text.slice(4, end).split('\n')) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      problems.push({ file, message: `Unreadable frontmatter line "${line}"`, severity: 'warning' });
+      continue;
+    }
+    fields[line.slice(0, separator).trim()] = parseFrontmatterValue(line.slice(separator + 1).trim());
+  }
+
+  // Skip the closing --- and the blank line after it
+  const body = text.slice(end + 4).replace(/^\n\n?/, '');
+  return { fields, body };
+}
+
+// Values are JSON when exported; hand-written ones may be bare strings or [a, b] lists
+function parseFrontmatterValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    if (value.startsWith('[') && value.endsWith(']')) {
+      return value.slice(1, -1).split(',').map(entry => entry.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+    }
+    return value.replace(/^["']|["']$/g, '');
+  }
+}
+
+function findParentFile(path: string, files: Set<string>, problems: VaultProblem[]): string | null {
+  const segments = path.split('/');
+  // index.md belongs to its folder, so its parent lives one folder further up
+  const folderDepth = segments[segments.length - 1] === INDEX_FILE ? segments.length - 2 : segments.length - 1;
+
+  for (let depth = folderDepth; depth > 0; depth--) {
+    const candidate = [...segments.slice(0, depth), INDEX_FILE].join('/');
+    if (files.has(candidate)) {
+      if (depth < folderDepth) {
+        problems.push({ file: path, message: `Folder ${segments.slice(0, folderDepth).join('/')} has no ${INDEX_FILE}; attached to ${candidate}`, severity: 'warning' });
+      }
+      return candidate;
+    }
+  }
+
+  if (folderDepth > 0) {
+    problems.push({ file: path, message: `No ${INDEX_FILE} in any parent folder; imported at the top level`, severity: 'warning' });
+  }
+  return null;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\//, '');
+}
+
+function titleFromFileName(path: string): string {
+  const segments = normalizePath(path).split('/');
+  const name = segments[segments.length - 1] === INDEX_FILE && segments.length > 1
+    ? segments[segments.length - 2]
+    : segments[segments.length - 1].replace(/\.md$/i, '');
+  return name.replace(/[-_]+/g, ' ').trim() || 'Untitled';
+}
+
+function fileSlug(item: ContentItem): string {
+  const lastSegment = item.path.split('/').filter(Boolean).pop() || item.title;
+  const slug = lastSegment.toLowerCase().replace(/[^a-z0-9-_]+/g, '-').replace(/^-+|-+$/g, '');
+  // index.md is reserved for folder items
+  return !slug || slug === 'index' ? `${slug || 'untitled'}-page` : slug;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name}-${suffix}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// Import planning
+
+export interface PlannedItem {
+  id: string;
+  title: string;
+  path: string;
+  parent_id: string | null;
+  order_index: number;
+  tags: string[];
+  content_json: DocumentSection[] | null;
+  file: string;
+}
+
+export type PlannedChange = 'title' | 'path' | 'parent' | 'order' | 'tags' | 'sections';
+
+/**
+ * What an import would do, computed without writing anything (the dry run)
+ */
+export interface VaultImportPlan {
+  // Parents come before their children
+  creates: PlannedItem[];
+  updates: Array<{ item: PlannedItem; changes: PlannedChange[] }>;
+  unchanged: PlannedItem[];
+  // Existing items the vault does not mention; imports never delete them
+  notInVault: ContentItem[];
+  problems: VaultProblem[];
+}
+
+/**
+ * Matches vault items to existing ones by id. Files without an id become new
+ * items, with a path built from their parent's path and their title.
+ */
+export function planVaultImport(
+  vault: VaultReadResult,
+  existing: ContentItem[],
+  createId: () => string = () => crypto.randomUUID()
+): VaultImportPlan {
+  const problems = [...vault.problems];
+  const existingById = new Map(existing.map(item => [item.id, item]));
+  const idByFile = new Map(vault.items.map(item => [item.file, item.id || createId()]));
+  const vaultByFile = new Map(vault.items.map(item => [item.file, item]));
+
+  const planned = new Map<string, PlannedItem>();
+  const resolve = (item: VaultItem): PlannedItem => {
+    const cached = planned.get(item.file);
+    if (cached) return cached;
+
+    const parent = item.parentFile ? vaultByFile.get(item.parentFile) : undefined;
+    const parentPlan = parent ? resolve(parent) : null;
+    const plan: PlannedItem = {
+      id: idByFile.get(item.file)!,
+      title: item.title,
+      path: item.path || `${parentPlan ? parentPlan.path : ''}/${slugify(item.title)}`,
+      parent_id: parentPlan ? parentPlan.id : null,
+      order_index: item.order_index ?? 0,
+      tags: item.tags,
+      content_json: item.content_json,
+      file: item.file
+    };
+    planned.set(item.file, plan);
+    return plan;
+  };
+  vault.items.forEach(resolve);
+
+  // Paths are unique in content_items
+  const pathOwners = new Map(existing.map(item => [item.path, item.id]));
+  const vaultIds = new Set(Array.from(planned.values()).map(item => item.id));
+  const seenPaths = new Map<string, string>();
+  for (const item of planned.values()) {
+    const owner = pathOwners.get(item.path);
+    if (owner && owner !== item.id && !vaultIds.has(owner)) {
+      problems.push({ file: item.file, message: `Path ${item.path} already belongs to another page`, severity: 'error' });
+    }
+    const other = seenPaths.get(item.path);
+    if (other) {
+      problems.push({ file: item.file, message: `Path ${item.path} is also used by ${other}`, severity: 'error' });
+    }
+    seenPaths.set(item.path, item.file);
+  }
+
+  const plan: VaultImportPlan = { creates: [], updates: [], unchanged: [], notInVault: [], problems };
+  const depth = (item: PlannedItem): number => {
+    let level = 0;
+    for (let file = vaultByFile.get(item.file)?.parentFile; file; file = vaultByFile.get(file)?.parentFile) level++;
+    return level;
+  };
+
+  for (const item of Array.from(planned.values()).sort((a, b) => depth(a) - depth(b))) {
+    const current = existingById.get(item.id);
+    if (!current) {
+      plan.creates.push(item);
+      continue;
+    }
+    const changes = describeChanges(current, item);
+    if (changes.length > 0) {
+      plan.updates.push({ item, changes });
+    } else {
+      plan.unchanged.push(item);
+    }
+  }
+
+  plan.notInVault = existing.filter(item => !vaultIds.has(item.id));
+  return plan;
+}
+
+function describeChanges(current: ContentItem, item: PlannedItem): PlannedChange[] {
+  const changes: PlannedChange[] = [];
+  if (current.title !== item.title) changes.push('title');
+  if (current.path !== item.path) changes.push('path');
+  if (current.parent_id !== item.parent_id) changes.push('parent');
+  if (current.order_index !== item.order_index) changes.push('order');
+  if (JSON.stringify(current.tags || []) !== JSON.stringify(item.tags)) changes.push('tags');
+  if (JSON.stringify(comparableSections(current.content_json)) !== JSON.stringify(comparableSections(item.content_json))) {
+    changes.push('sections');
+  }
+  return changes;
+}
+
+// Only the fields the vault carries, in a fixed key order
+function comparableSections(sections: DocumentSection[] | null) {
+  return sections?.map(({ id, title, level, content, tags, sources }) => ({ id, title, level, content, tags: tags || [], sources })) ?? null;
+}
+
+/**
+ * Fields that would not survive an export followed by an import, for example
+ * a title with a line break. Empty when the round trip is lossless.
+ */
+export function findRoundTripLosses(items: ContentItem[]): VaultProblem[] {
+  const files = exportVault(items);
+  const reread = readVault(files);
+  const plan = planVaultImport(reread, items);
+
+  return [
+    ...plan.problems,
+    ...plan.creates.map(item => ({ file: item.file, message: 'Would be imported as a new page', severity: 'warning' as const })),
+    ...plan.updates.map(({ item, changes }) => ({ file: item.file, message: `Would not round-trip: ${changes.join(', ')}`, severity: 'warning' as const }))
+  ];
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, '-').replace(/[^\w-]/g, '') || 'untitled';
+}
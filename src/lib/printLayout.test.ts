@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the print layout
+ * Run in browser console: import('/src/lib/printLayout.test.ts').then(m => m.runAllTests())
+ */
+
+import { buildPrintOutline, paginate, resolvePrintTarget } from './printLayout';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const sections: DocumentSection[] = [
+  { id: 's-1', title: 'Interviews', level: 1, content: 'Talk to people. <!-- sources: https://a.example, https://b.example -->', tags: [] },
+  { id: 's-2', title: 'Planning', level: 2, content: 'See [[Question Bank]].', tags: [] },
+  { id: 's-3', title: 'Question Bank', level: 3, content: 'Ask open questions.', tags: [] },
+  { id: 's-4', title: 'Important: Listen', level: 2, content: 'More than you talk. <!-- sources: https://c.example -->', tags: [] }
+];
+
+// Test functions
+export function testOutline(): { passed: boolean; message: string } {
+  const outline = buildPrintOutline(sections, 'Interviews');
+  const summary = outline.sections.map(section => `${section.number}|${section.title}|${section.rubric || ''}`).join(' ');
+
+  // Rubric groups come before unlabelled sections, as on screen
+  if (summary !== '|Interviews| 1|Listen|Important 2|Planning| 2.1|Question Bank|') {
+    return { passed: false, message: `Unexpected outline: ${summary}` };
+  }
+
+  const notes = outline.sections.flatMap(section => section.footnotes.map(note => `${note.number}:${note.url}`));
+  if (notes.join() !== '1:https://a.example,2:https://b.example,3:https://c.example' || outline.sections[0].content !== 'Talk to people.') {
+    return { passed: false, message: `Unexpected footnotes: ${notes.join()}` };
+  }
+
+  return { passed: true, message: 'Sections are numbered in display order with sources as footnotes' };
+}
+
+export function testSubtreeAndLinks(): { passed: boolean; message: string } {
+  const outline = buildPrintOutline(sections, 'Interviews', 's-2');
+
+  if (outline.title !== 'Planning' || outline.sections.length !== 2 || outline.sections[1].number !== '1') {
+    return { passed: false, message: `Unexpected subtree: ${JSON.stringify(outline.sections)}` };
+  }
+
+  const inside = resolvePrintTarget('#Question%20Bank', outline, '/interviews', sections);
+  const outside = resolvePrintTarget('/interviews#Listen', outline, '/interviews', sections);
+  const otherDocument = resolvePrintTarget('/other#Question Bank', outline, '/interviews', sections);
+
+  if (inside?.id !== 's-3' || outside !== null || otherDocument !== null) {
+    return { passed: false, message: 'Expected only sections in the printed subtree to resolve' };
+  }
+
+  return { passed: true, message: 'A subtree prints on its own and links outside it do not resolve' };
+}
+
+export function testPaginate(): { passed: boolean; message: string } {
+  const pages = paginate([
+    { height: 600, notesHeight: 0 },
+    { height: 300, notesHeight: 81 },
+    { height: 200, notesHeight: 0 },
+    { height: 2500, notesHeight: 0 },
+    { height: 100, notesHeight: 0 }
+  ], 1000, 20, 3);
+
+  if (pages.join() !== '3,4,4,5,8') {
+    return { passed: false, message: `Unexpected pages: ${pages.join()}` };
+  }
+
+  return { passed: true, message: 'Blocks move to the next page when they and their notes do not fit' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'outline', fn: testOutline },
+    { name: 'subtreeAndLinks', fn: testSubtreeAndLinks },
+    { name: 'paginate', fn: testPaginate },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Print Layout Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
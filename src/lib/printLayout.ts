@@ -0,0 +1,166 @@
+import type { DocumentSection } from '../services/contentService';
+import { getRubricOrderIndex, parseRubric } from './rubricConfig';
+import { findSectionByTitleOrId } from './internalLinkResolver';
+
+/**
+ * Print layout: turns a document (or one section's subtree) into a numbered,
+ * fully expanded outline with footnoted sources, and splits measured blocks
+ * into pages. PrintDocument does the measuring and rendering.
+ */
+
+export interface PrintFootnote {
+  number: number;
+  url: string;
+}
+
+export interface PrintSection {
+  id: string;
+  // Outline number such as "2.1"; empty for the title section
+  number: string;
+  title: string;
+  rubric: string | null;
+  // 0 for the title, 1 for its children, ...
+  depth: number;
+  // Markdown with the sources comments taken out
+  content: string;
+  footnotes: PrintFootnote[];
+}
+
+export interface PrintOutline {
+  title: string;
+  sections: PrintSection[];
+}
+
+interface OutlineNode {
+  section: DocumentSection;
+  children: OutlineNode[];
+}
+
+const SOURCES_COMMENT = /<!--\s*sources:\s*(.+?)\s*-->/gi;
+
+const buildTree = (sections: DocumentSection[]): OutlineNode[] => {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  for (const section of sections) {
+    const node: OutlineNode = { section, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].section.level >= section.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+  return roots;
+};
+
+// Children appear grouped by rubric in the app, so print them in that order too
+const orderByRubric = (nodes: OutlineNode[]): OutlineNode[] => {
+  const groups = new Map<string | null, OutlineNode[]>();
+  for (const node of nodes) {
+    const rubric = parseRubric(node.section.title, node.section.level).rubric?.toLowerCase().trim() || null;
+    groups.set(rubric, [...(groups.get(rubric) || []), node]);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => getRubricOrderIndex(a) - getRubricOrderIndex(b))
+    .flatMap(([, group]) => group);
+};
+
+/**
+ * Flattened outline of the document, or of the subtree under rootSectionId.
+ * A single top-level section named like the document (or the chosen subtree
+ * root) becomes the unnumbered title.
+ */
+export function buildPrintOutline(sections: DocumentSection[], documentTitle: string, rootSectionId?: string): PrintOutline {
+  let selected = sections;
+  if (rootSectionId) {
+    const start = sections.findIndex(section => section.id === rootSectionId);
+    if (start !== -1) {
+      const end = sections.findIndex((section, index) => index > start && section.level <= sections[start].level);
+      selected = sections.slice(start, end === -1 ? undefined : end);
+    }
+  }
+
+  const roots = buildTree(selected);
+  const titleNode = roots.length === 1 && (rootSectionId || roots[0].section.title === documentTitle) ? roots[0] : null;
+  const outline: PrintOutline = { title: titleNode ? parseRubric(titleNode.section.title, 1).text : documentTitle, sections: [] };
+  let footnoteCount = 0;
+
+  const add = (node: OutlineNode, number: string, depth: number) => {
+    const footnotes: PrintFootnote[] = [];
+    const content = (node.section.content || '').replace(SOURCES_COMMENT, (_match, list: string) => {
+      list.split(',').map(url => url.trim()).filter(Boolean)
+        .forEach(url => footnotes.push({ number: ++footnoteCount, url }));
+      return '';
+    }).trim();
+    const { rubric, text } = parseRubric(node.section.title, depth === 0 ? 0 : node.section.level);
+
+    outline.sections.push({ id: node.section.id, number, title: text, rubric, depth, content, footnotes });
+    orderByRubric(node.children).forEach((child, index) => add(child, number ? `${number}.${index + 1}` : `${index + 1}`, depth + 1));
+  };
+
+  if (titleNode) {
+    add(titleNode, '', 0);
+  } else {
+    orderByRubric(roots).forEach((root, index) => add(root, `${index + 1}`, 1));
+  }
+  return outline;
+}
+
+/**
+ * The printed section an internal link points at, or null when it is not part
+ * of this printout (another document, or outside the printed subtree)
+ */
+export function resolvePrintTarget(
+  target: string,
+  outline: PrintOutline,
+  documentPath: string,
+  documentSections: DocumentSection[]
+): PrintSection | null {
+  const hashIndex = target.indexOf('#');
+  const path = hashIndex === -1 ? target : target.substring(0, hashIndex);
+  if (path && path !== documentPath) return null;
+
+  const sectionRef = hashIndex === -1 ? '' : decodeURIComponent(target.substring(hashIndex + 1));
+  if (!sectionRef) return outline.sections[0] || null;
+
+  const section = findSectionByTitleOrId(documentSections, sectionRef);
+  return (section && outline.sections.find(printed => printed.id === section.id)) || null;
+}
+
+export interface PrintBlock {
+  height: number;
+  // Height of the block's footnotes, which go at the bottom of its page
+  notesHeight: number;
+}
+
+/**
+ * Page number each block starts on. Blocks never split: one that does not fit
+ * starts a new page, and one taller than a page gets pages to itself.
+ */
+export function paginate(blocks: PrintBlock[], pageHeight: number, notesSeparator: number, firstPage = 1): number[] {
+  const pages: number[] = [];
+  let page = firstPage;
+  let used = 0;
+  let hasNotes = false;
+
+  for (const block of blocks) {
+    const cost = () => block.height + block.notesHeight + (block.notesHeight > 0 && !hasNotes ? notesSeparator : 0);
+    if (used > 0 && used + cost() > pageHeight) {
+      page++;
+      used = 0;
+      hasNotes = false;
+    }
+
+    pages.push(page);
+
+    const needed = cost();
+    if (needed > pageHeight) {
+      page += Math.ceil(needed / pageHeight);
+      used = 0;
+      hasNotes = false;
+    } else {
+      used += needed;
+      hasNotes = hasNotes || block.notesHeight > 0;
+    }
+  }
+  return pages;
+}
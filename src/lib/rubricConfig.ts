@@ -100,3 +100,21 @@ export function getStampColors(rubric: string): (typeof stampColorTreatments)[ke
   const treatment = rubricColorMap[normalizedRubric] || "muted";
   return stampColorTreatments[treatment];
 }
+
+// Split a "Rubric: Title" heading into its rubric and the remaining text
+// Skip rubric extraction for root (level 0) and first level (level 1) sections
+export function parseRubric(title: string, absoluteLevel?: number): { rubric: string | null; text: string } {
+  // Don't extract rubrics for level 0 and level 1 sections
+  if (absoluteLevel !== undefined && absoluteLevel <= 1) {
+    return { rubric: null, text: title };
+  }
+
+  const colonIndex = title.indexOf(':');
+  if (colonIndex === -1 || colonIndex > 20) {
+    return { rubric: null, text: title };
+  }
+  return {
+    rubric: title.substring(0, colonIndex),
+    text: title.substring(colonIndex + 1).trim()
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the search analytics report
+ * Run in browser console: import('/src/lib/searchAnalytics.test.ts').then(m => m.runAllTests())
+ */
+
+import { buildSearchReport } from './searchAnalytics';
+import type { SearchEvent } from '../services/searchAnalyticsService';
+
+// Test data
+let minute = 0;
+const event = (query: string, resultCount: number, clickedPath: string | null = null): SearchEvent => ({
+  id: String(minute),
+  source: 'overlay',
+  query,
+  result_count: resultCount,
+  clicked_path: clickedPath,
+  clicked_position: clickedPath ? 0 : null,
+  created_at: new Date(Date.UTC(2026, 9, 1, 0, minute++)).toISOString()
+});
+
+const events = [
+  event('Onboarding', 0),
+  event('onboarding ', 0),
+  event('pricing', 4, '/pricing'),
+  event('pricing', 4),
+  event('Pricing', 4, '/pricing#tiers'),
+  event('churn', 0),
+  event('churn', 2),
+  event('interviews', 5),
+  event('interviews', 5),
+  event('Interviews', 5, '/discovery')
+];
+
+// Test functions
+export function testReportTotals(): { passed: boolean; message: string } {
+  const report = buildSearchReport(events);
+
+  if (report.totalSearches !== 10 || report.zeroResultSearches !== 3 || report.clickThroughRate !== 0.3) {
+    return { passed: false, message: `Unexpected totals: ${report.totalSearches}, ${report.zeroResultSearches}, ${report.clickThroughRate}` };
+  }
+
+  const top = report.topQueries.map(stats => `${stats.query}:${stats.searches}`).join();
+  if (top !== 'Interviews:3,Pricing:3,churn:2,onboarding:2') {
+    return { passed: false, message: `Unexpected top queries: ${top}` };
+  }
+
+  return { passed: true, message: 'Queries group case-insensitively, most searched and most recent first' };
+}
+
+export function testZeroResultsAndAbandonment(): { passed: boolean; message: string } {
+  const report = buildSearchReport(events);
+
+  const zero = report.zeroResultQueries.map(stats => stats.query).join();
+  if (zero !== 'onboarding') {
+    return { passed: false, message: `Only queries still finding nothing should be listed, got ${zero}` };
+  }
+
+  const abandoned = report.abandonedQueries.map(stats => `${stats.query}:${stats.abandonmentRate.toFixed(2)}`).join();
+  if (abandoned !== 'Interviews:0.67') {
+    return { passed: false, message: `Unexpected abandoned queries: ${abandoned}` };
+  }
+
+  return { passed: true, message: 'Zero-result and high-abandonment queries are reported' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'reportTotals', fn: testReportTotals },
+    { name: 'zeroResultsAndAbandonment', fn: testZeroResultsAndAbandonment },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Search Analytics Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,95 @@
+/**
+ * Search analytics report (see the search analytics page): which queries are
+ * searched most, which find nothing, and which find results nobody opens.
+ *
+ * Queries are grouped case- and whitespace-insensitively. A search is
+ * abandoned when it found results and none was opened from it.
+ */
+
+import type { SearchEvent } from '@/services/searchAnalyticsService';
+
+export interface QueryStats {
+  // As most recently typed
+  query: string;
+  searches: number;
+  clicks: number;
+  zeroResults: number;
+  // Searches that found results but had none opened
+  abandoned: number;
+  // Results found by the latest search
+  lastResultCount: number;
+  lastSearchedAt: string;
+  clickThroughRate: number;
+  abandonmentRate: number;
+}
+
+export interface SearchReport {
+  totalSearches: number;
+  zeroResultSearches: number;
+  clickThroughRate: number;
+  topQueries: QueryStats[];
+  // Queries whose latest search still found nothing
+  zeroResultQueries: QueryStats[];
+  // Queries searched at least `minSearches` times whose results are mostly left unopened
+  abandonedQueries: QueryStats[];
+}
+
+export interface SearchReportOptions {
+  limit?: number;
+  minSearches?: number;
+  minAbandonmentRate?: number;
+}
+
+export const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+/**
+ * Summarise search events, given oldest first
+ */
+export function buildSearchReport(events: SearchEvent[], options: SearchReportOptions = {}): SearchReport {
+  const { limit = 20, minSearches = 3, minAbandonmentRate = 0.5 } = options;
+  const byQuery = new Map<string, QueryStats>();
+
+  for (const event of events) {
+    const key = normalizeQuery(event.query);
+    if (!key) continue;
+
+    const stats = byQuery.get(key) || {
+      query: event.query, searches: 0, clicks: 0, zeroResults: 0, abandoned: 0,
+      lastResultCount: 0, lastSearchedAt: event.created_at, clickThroughRate: 0, abandonmentRate: 0
+    };
+    const clicked = event.clicked_path !== null;
+
+    stats.query = event.query.trim();
+    stats.searches++;
+    if (clicked) stats.clicks++;
+    if (event.result_count === 0) stats.zeroResults++;
+    else if (!clicked) stats.abandoned++;
+    stats.lastResultCount = event.result_count;
+    stats.lastSearchedAt = event.created_at;
+    byQuery.set(key, stats);
+  }
+
+  const queries = [...byQuery.values()].map(stats => ({
+    ...stats,
+    clickThroughRate: rate(stats.clicks, stats.searches),
+    abandonmentRate: rate(stats.abandoned, stats.searches - stats.zeroResults)
+  }));
+  const top = (list: QueryStats[], by: (stats: QueryStats) => number) =>
+    list.sort((a, b) => by(b) - by(a) || b.lastSearchedAt.localeCompare(a.lastSearchedAt)).slice(0, limit);
+
+  const totalSearches = queries.reduce((sum, stats) => sum + stats.searches, 0);
+  return {
+    totalSearches,
+    zeroResultSearches: queries.reduce((sum, stats) => sum + stats.zeroResults, 0),
+    clickThroughRate: rate(queries.reduce((sum, stats) => sum + stats.clicks, 0), totalSearches),
+    topQueries: top([...queries], stats => stats.searches),
+    zeroResultQueries: top(queries.filter(stats => stats.lastResultCount === 0), stats => stats.zeroResults),
+    abandonedQueries: top(
+      queries.filter(stats =>
+        stats.searches - stats.zeroResults >= minSearches && stats.abandonmentRate >= minAbandonmentRate),
+      stats => stats.abandoned
+    )
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for search result grouping, facets and scopes
+ * Run in browser console: import('/src/lib/searchFacets.test.ts').then(m => m.runAllTests())
+ */
+
+import {
+  applyFacetFilters,
+  computeFacets,
+  folderOf,
+  groupResultsByDocument,
+  isInScope,
+  toggleFacetValue
+} from './searchFacets';
+import type { SearchResult } from '../services/searchService';
+
+// Test data
+const result = (documentId: string, documentPath: string, sectionId: string | undefined, matchType: SearchResult['matchType'], tags: string[], rubric?: string): SearchResult => ({
+  id: `${matchType}-${documentId}-${sectionId || ''}`,
+  documentId,
+  documentTitle: documentId,
+  documentPath,
+  sectionId,
+  sectionTitle: sectionId,
+  matchedText: '',
+  fullContent: '',
+  breadcrumbPath: [documentId],
+  matchType,
+  relevanceScore: 0,
+  tags,
+  rubric
+});
+
+const results: SearchResult[] = [
+  result('interviews', '/discovery/interviews', 's-1', 'section-title', ['Research'], 'prep'),
+  result('release', '/delivery/release', undefined, 'title', ['ops']),
+  result('interviews', '/discovery/interviews', undefined, 'title', ['research']),
+  result('interviews', '/discovery/interviews', 's-2', 'content', ['research', 'people'], 'main goal'),
+  result('release', '/delivery/release', 's-3', 'content', [])
+];
+
+// Test functions
+export function testGrouping(): { passed: boolean; message: string } {
+  const groups = groupResultsByDocument(results);
+  const described = groups.map(group => `${group.documentId}:${group.document ? 'doc+' : ''}${group.sections.map(s => s.sectionId).join('+')}`).join(' ');
+
+  if (described !== 'interviews:doc+s-1+s-2 release:doc+s-3') {
+    return { passed: false, message: `Unexpected groups: ${described}` };
+  }
+
+  return { passed: true, message: 'Results are grouped by document in ranking order' };
+}
+
+export function testFacets(): { passed: boolean; message: string } {
+  const facets = computeFacets(results);
+  const tags = facets.tag.map(({ value, count }) => `${value}=${count}`).join();
+  const folders = facets.folder.map(({ value, count }) => `${value}=${count}`).join();
+
+  if (tags !== 'research=3,ops=1,people=1' || folders !== '/discovery=3,/delivery=2') {
+    return { passed: false, message: `Unexpected counts: tags ${tags}, folders ${folders}` };
+  }
+  if (facets.rubric.length !== 2 || facets.matchType.find(facet => facet.value === 'content')?.count !== 2) {
+    return { passed: false, message: 'Rubric and match type counts are wrong' };
+  }
+
+  const filters = toggleFacetValue(toggleFacetValue({}, 'tag', 'research'), 'matchType', 'content');
+  const narrowed = applyFacetFilters(results, filters);
+  if (narrowed.length !== 1 || narrowed[0].sectionId !== 's-2') {
+    return { passed: false, message: `Filters left ${narrowed.map(r => r.id).join()}` };
+  }
+
+  // Picking a tag still counts the other tags over the other facets' results
+  const withTag = computeFacets(results, { tag: ['ops'] });
+  if (withTag.tag.find(facet => facet.value === 'research')?.count !== 3 || withTag.folder.length !== 1) {
+    return { passed: false, message: 'Facets should be counted over the results of the other facets' };
+  }
+
+  return { passed: true, message: 'Facets count tags, folders, rubrics and match types and narrow the results' };
+}
+
+export function testScopes(): { passed: boolean; message: string } {
+  if (folderOf('/discovery/interviews/questions') !== '/discovery/interviews' || folderOf('/discovery') !== '/discovery') {
+    return { passed: false, message: `Unexpected folders: ${folderOf('/discovery/interviews/questions')}, ${folderOf('/discovery')}` };
+  }
+
+  const folder = { kind: 'folder' as const, path: '/discovery' };
+  const document = { kind: 'document' as const, path: '/discovery/interviews' };
+  const checks: [boolean, boolean][] = [
+    [isInScope('/discovery/interviews', folder), true],
+    [isInScope('/discovery-old/notes', folder), false],
+    [isInScope('/discovery/interviews', document), true],
+    [isInScope('/discovery/interviews/questions', document), false],
+    [isInScope('/delivery', null), true]
+  ];
+  const failed = checks.findIndex(([actual, expected]) => actual !== expected);
+  if (failed !== -1) {
+    return { passed: false, message: `Scope check ${failed + 1} failed` };
+  }
+
+  return { passed: true, message: 'Folder scopes include pages below, document scopes only the document' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'grouping', fn: testGrouping },
+    { name: 'facets', fn: testFacets },
+    { name: 'scopes', fn: testScopes },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Search Facet Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
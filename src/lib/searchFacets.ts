@@ -0,0 +1,146 @@
+/**
+ * Grouping, facets and scopes for search results.
+ *
+ * Results are grouped by document, keeping the ranking: a group sits where its
+ * best result ranked. Facets count results by tag, top-level folder, rubric
+ * and match type; picking values narrows the results (values of one facet are
+ * alternatives, different facets all have to match).
+ */
+
+import type { SearchResult } from '@/services/searchService';
+
+export type FacetField = 'tag' | 'folder' | 'rubric' | 'matchType';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Record<FacetField, FacetCount[]>;
+
+// Picked values per facet; a missing or empty list does not narrow
+export type FacetFilters = Partial<Record<FacetField, string[]>>;
+
+export const FACET_FIELDS: FacetField[] = ['tag', 'folder', 'rubric', 'matchType'];
+
+/**
+ * Search within one document, or within the folder around it
+ */
+export interface SearchScope {
+  kind: 'document' | 'folder';
+  path: string;
+}
+
+export interface ResultGroup {
+  documentId: string;
+  documentTitle: string;
+  documentPath: string;
+  // The document's own entry, when its title or tags matched
+  document: SearchResult | null;
+  sections: SearchResult[];
+}
+
+const trimPath = (path: string) => `/${path.trim().replace(/^\/+|\/+$/g, '')}`;
+
+/**
+ * The first segment of a document path, e.g. "/discovery" for
+ * "/discovery/interviews/questions"
+ */
+export function topLevelFolder(documentPath: string): string {
+  return `/${trimPath(documentPath).split('/')[1] || ''}`;
+}
+
+/**
+ * The folder a document sits in: its parent's path, or its own path for a
+ * top-level document, so that it and its pages are searched
+ */
+export function folderOf(documentPath: string): string {
+  const path = trimPath(documentPath);
+  const parent = path.slice(0, path.lastIndexOf('/'));
+  return parent || path;
+}
+
+export function isInScope(documentPath: string, scope: SearchScope | null | undefined): boolean {
+  if (!scope) return true;
+  const path = trimPath(documentPath).toLowerCase();
+  const scopePath = trimPath(scope.path).toLowerCase();
+  if (scope.kind === 'document') return path === scopePath;
+  return scopePath === '/' || path === scopePath || path.startsWith(`${scopePath}/`);
+}
+
+function facetValues(result: SearchResult, field: FacetField): string[] {
+  switch (field) {
+    case 'tag': return [...new Set(result.tags.map(tag => tag.toLowerCase()))];
+    case 'folder': return [topLevelFolder(result.documentPath)];
+    case 'rubric': return result.rubric ? [result.rubric] : [];
+    case 'matchType': return [result.matchType];
+  }
+}
+
+function matchesFilters(result: SearchResult, filters: FacetFilters, except?: FacetField): boolean {
+  return FACET_FIELDS.every(field => {
+    const picked = filters[field];
+    if (field === except || !picked || picked.length === 0) return true;
+    return facetValues(result, field).some(value => picked.includes(value));
+  });
+}
+
+export function applyFacetFilters(results: SearchResult[], filters: FacetFilters): SearchResult[] {
+  return results.filter(result => matchesFilters(result, filters));
+}
+
+/**
+ * Result counts for every facet value, most common first. Each facet is
+ * counted over the results the other facets leave, so picking a tag still
+ * shows how many results the other tags would add.
+ */
+export function computeFacets(results: SearchResult[], filters: FacetFilters = {}): SearchFacets {
+  const facets = {} as SearchFacets;
+  for (const field of FACET_FIELDS) {
+    const counts = new Map<string, number>();
+    for (const result of results) {
+      if (!matchesFilters(result, filters, field)) continue;
+      for (const value of facetValues(result, field)) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+    facets[field] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return facets;
+}
+
+/**
+ * Add or remove one value of a facet
+ */
+export function toggleFacetValue(filters: FacetFilters, field: FacetField, value: string): FacetFilters {
+  const picked = filters[field] || [];
+  return {
+    ...filters,
+    [field]: picked.includes(value) ? picked.filter(existing => existing !== value) : [...picked, value]
+  };
+}
+
+/**
+ * Group ranked results by document, in the order each document first appears
+ */
+export function groupResultsByDocument(results: SearchResult[]): ResultGroup[] {
+  const groups = new Map<string, ResultGroup>();
+  for (const result of results) {
+    let group = groups.get(result.documentId);
+    if (!group) {
+      group = {
+        documentId: result.documentId,
+        documentTitle: result.documentTitle,
+        documentPath: result.documentPath,
+        document: null,
+        sections: []
+      };
+      groups.set(result.documentId, group);
+    }
+    if (result.sectionId) group.sections.push(result);
+    else group.document = result;
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the search query language
+ * Run in browser console: import('/src/lib/searchQuery.test.ts').then(m => m.runAllTests())
+ */
+
+import { collectSearchTerms, expandSynonyms, matchesQuery, parseSearchQuery, QueryNode, QuerySyntaxError, QueryTarget } from './searchQuery';
+
+// Test data
+const section: QueryTarget = {
+  documentTitle: 'Interviews',
+  documentPath: '/discovery/interviews',
+  sectionTitle: 'Main Goal: Ask open questions',
+  content: 'Prefer "why" over yes/no questions.',
+  tags: ['research'],
+  level: 2,
+  updatedAt: '2026-03-15T10:00:00Z'
+};
+
+const describeNode = (node: QueryNode): string => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `${node.type}(${node.children.map(describeNode).join(' ')})`;
+    case 'not':
+      return `not(${describeNode(node.child)})`;
+    case 'level':
+      return `level(${node.min}-${node.max})`;
+    case 'updated':
+      return `updated(${node.operator}${node.value.replace(/^[<>=]+/, '')})`;
+    default:
+      return `${node.type}(${node.value})`;
+  }
+};
+
+// Test functions
+export function testParse(): { passed: boolean; message: string } {
+  const cases: Array<[string, string]> = [
+    ['open questions', 'and(term(open) term(questions))'],
+    ['a OR b c', 'or(term(a) and(term(b) term(c)))'],
+    ['(a OR b) NOT "yes or no" -draft', 'and(or(term(a) term(b)) not(phrase(yes or no)) not(term(draft)))'],
+    ['tag:"main goal" path:/discovery rubric:goal', 'and(tag(main goal) path(/discovery) rubric(goal))'],
+    ['level:>=2 updated:>2026-01 note:x', 'and(level(2-Infinity) updated(>2026-01) term(note:x))']
+  ];
+
+  for (const [query, expected] of cases) {
+    const actual = describeNode(parseSearchQuery(query));
+    if (actual !== expected) {
+      return { passed: false, message: `"${query}" parsed as ${actual}, expected ${expected}` };
+    }
+  }
+
+  return { passed: true, message: 'Phrases, operators, precedence and fields parse into the expected tree' };
+}
+
+export function testErrors(): { passed: boolean; message: string } {
+  const cases: Array<[string, string]> = [
+    ['"open questions', 'Missing closing quote for the phrase starting at column 1'],
+    ['(a OR b', 'Missing ")" for the "(" at column 1'],
+    ['a b)', 'Unexpected ")" at column 4 without a matching "("'],
+    ['a OR', '"OR" at column 3 needs a search term after it'],
+    ['tag: research', 'tag: needs a value, e.g. tag:research (column 1)'],
+    ['level:two', 'level: expects a number or a range like level:2, level:2-4 or level:>=3 (column 1)'],
+    ['a level:<1', 'level:<1 matches no section; levels start at 1 (column 3)'],
+    ['level:0-0', 'level:0-0 matches no section; levels start at 1 (column 1)'],
+    ['updated:>2026-02-30', 'updated: expects a date like updated:>2026-01-31 (YYYY, YYYY-MM or YYYY-MM-DD, after =, >, >=, < or <=) (column 1)']
+  ];
+
+  for (const [query, expected] of cases) {
+    try {
+      parseSearchQuery(query);
+      return { passed: false, message: `"${query}" should not parse` };
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError) || error.message !== expected) {
+        return { passed: false, message: `"${query}" failed with "${(error as Error).message}"` };
+      }
+    }
+  }
+
+  return { passed: true, message: 'Invalid queries report what is wrong and where' };
+}
+
+export function testEvaluate(): { passed: boolean; message: string } {
+  const cases: Array<[string, boolean]> = [
+    ['open "yes/no questions"', true],
+    ['interviews why', true],
+    ['open -why', false],
+    ['tag:research rubric:"main goal" level:2-3', true],
+    ['rubric:goal OR tag:planning', false],
+    ['path:discovery/ path:/discovery/interviews', true],
+    ['path:/disc', false],
+    ['updated:2026-03 updated:>2026-02-28 updated:<=2026', true],
+    ['updated:>2026-03', false]
+  ];
+
+  for (const [query, expected] of cases) {
+    if (matchesQuery(parseSearchQuery(query), section) !== expected) {
+      return { passed: false, message: `"${query}" should ${expected ? '' : 'not '}match` };
+    }
+  }
+
+  const documentEntry: QueryTarget = { ...section, sectionTitle: undefined, content: '', level: null };
+  if (matchesQuery(parseSearchQuery('level:1-9'), documentEntry)) {
+    return { passed: false, message: 'level: should not match a document entry' };
+  }
+
+  const terms = collectSearchTerms(parseSearchQuery('open OR "yes/no" NOT (why -ask) tag:x'));
+  if (terms.join('|') !== 'open|yes/no|ask') {
+    return { passed: false, message: `Unexpected highlight terms: ${terms.join('|')}` };
+  }
+
+  return { passed: true, message: 'Queries evaluate against sections and collect positive terms' };
+}
+
+export function testExpandSynonyms(): { passed: boolean; message: string } {
+  const synonyms = new Map([['onboarding', ['activation']], ['customer churn', ['user retention']]]);
+  const cases: Array<[string, string]> = [
+    ['onboarding -draft', 'and(or(term(onboarding) term(activation)) not(term(draft)))'],
+    ['customer churn', 'or(and(term(customer) term(churn)) phrase(user retention))'],
+    ['"Onboarding" tag:onboarding', 'and(or(phrase(Onboarding) term(activation)) tag(onboarding))']
+  ];
+
+  for (const [query, expected] of cases) {
+    const actual = describeNode(expandSynonyms(parseSearchQuery(query), synonyms));
+    if (actual !== expected) {
+      return { passed: false, message: `"${query}": expected ${expected}, got ${actual}` };
+    }
+  }
+
+  return { passed: true, message: 'Words, phrases and word sequences also match their synonyms' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'parse', fn: testParse },
+    { name: 'errors', fn: testErrors },
+    { name: 'evaluate', fn: testEvaluate },
+    { name: 'expandSynonyms', fn: testExpandSynonyms },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Search Query Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
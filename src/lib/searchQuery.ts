@@ -0,0 +1,383 @@
+import { parseRubric } from './rubricConfig';
+import { FuzzyOptions, findTermMatches } from './fuzzyMatch';
+
+/**
+ * Search query language:
+ *
+ *   interview "open questions"        words and phrases (all must match)
+ *   planning OR prep, NOT draft, -draft, ( ... )
+ *   tag:research  path:/discovery  rubric:"main goal"
+ *   level:2  level:2-4  level:>=3
+ *   updated:>2026-01-31  updated:<=2026-05  updated:2026
+ *
+ * AND binds tighter than OR; words next to each other are ANDed. Operators
+ * are only recognised in capitals, so "and" stays an ordinary word.
+ */
+
+export type QueryNode =
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'tag' | 'path' | 'rubric'; value: string }
+  | { type: 'level'; min: number; max: number }
+  | { type: 'updated'; operator: DateOperator; from: number; to: number; value: string }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+// The updated: period covers [from, to) in UTC milliseconds
+export type DateOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export class QuerySyntaxError extends Error {
+  // Zero-based offset of the offending text in the query
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'word' | 'phrase'; value: string; position: number }
+  | { kind: 'field'; field: string; value: string; position: number }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close'; position: number };
+
+const FIELDS = ['tag', 'path', 'rubric', 'level', 'updated'];
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+const column = (position: number) => `column ${position + 1}`;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { value: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QuerySyntaxError(`Missing closing quote for the phrase starting at ${column(start)}`, start);
+    }
+    return { value: input.substring(start + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({ kind: 'phrase', value, position: i });
+      i = end;
+    } else if (char === '-' && i + 1 < input.length && !/[\s()-]/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const word = input.substring(start, i);
+      const fieldMatch = word.match(/^([a-z]+):(.*)$/i);
+
+      if (OPERATORS[word]) {
+        tokens.push({ kind: OPERATORS[word], position: start });
+      } else if (fieldMatch && FIELDS.includes(fieldMatch[1].toLowerCase())) {
+        let value = fieldMatch[2];
+        // tag:"main goal"
+        if (!value && input[i] === '"') {
+          const quoted = readQuoted(i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        tokens.push({ kind: 'field', field: fieldMatch[1].toLowerCase(), value, position: start });
+      } else {
+        tokens.push({ kind: 'word', value: word, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Headings start at level 1, so level:<1 or level:0 could never match
+const levelRange = (value: string, min: number, max: number, position: number): QueryNode => {
+  if (max < 1) {
+    throw new QuerySyntaxError(`level:${value} matches no section; levels start at 1 (${column(position)})`, position);
+  }
+  return { type: 'level', min: Math.max(min, 1), max };
+};
+
+const parseLevel = (value: string, position: number): QueryNode => {
+  const range = value.match(/^(\d+)-(\d+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    if (min > max) throw new QuerySyntaxError(`level:${value} is an empty range; write the smaller level first`, position);
+    return levelRange(value, min, max, position);
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<|=)?(\d+)$/);
+  if (!comparison) {
+    throw new QuerySyntaxError(`level: expects a number or a range like level:2, level:2-4 or level:>=3 (${column(position)})`, position);
+  }
+  const level = Number(comparison[2]);
+  switch (comparison[1]) {
+    case '>': return levelRange(value, level + 1, Infinity, position);
+    case '>=': return levelRange(value, level, Infinity, position);
+    case '<': return levelRange(value, 1, level - 1, position);
+    case '<=': return levelRange(value, 1, level, position);
+    default: return levelRange(value, level, level, position);
+  }
+};
+
+const parseUpdated = (value: string, position: number): QueryNode => {
+  const match = value.match(/^(>=|<=|>|<|=)?(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  const [year, month, day] = match ? [Number(match[2]), Number(match[3] || 1), Number(match[4] || 1)] : [0, 0, 0];
+  const from = Date.UTC(year, month - 1, day);
+  const date = new Date(from);
+
+  // Date.UTC rolls 2026-02-30 over into March; reject it instead
+  if (!match || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new QuerySyntaxError(
+      `updated: expects a date like updated:>2026-01-31 (YYYY, YYYY-MM or YYYY-MM-DD, after =, >, >=, < or <=) (${column(position)})`,
+      position
+    );
+  }
+
+  const to = match[4] ? Date.UTC(year, month - 1, day + 1) : match[3] ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1);
+  return { type: 'updated', operator: (match[1] || '=') as DateOperator, from, to, value };
+};
+
+/**
+ * Parse a query into an AST. Throws QuerySyntaxError with a message meant for
+ * the person typing it.
+ */
+export function parseSearchQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token) => token.kind === 'and' || token.kind === 'or' || token.kind === 'not'
+    ? `"${token.kind.toUpperCase()}"`
+    : `"${token.kind === 'open' ? '(' : ')'}"`;
+  const endsOperand = (token: Token | undefined) => !token || token.kind === 'close' || token.kind === 'or' || token.kind === 'and';
+
+  const needsTermAfter = (operator: Token) => {
+    if (endsOperand(peek())) {
+      throw new QuerySyntaxError(`${describe(operator)} at ${column(operator.position)} needs a search term after it`, operator.position);
+    }
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[index++];
+      needsTermAfter(operator);
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'close') {
+      if (peek().kind === 'and') {
+        const operator = tokens[index++];
+        needsTermAfter(operator);
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      const operator = tokens[index++];
+      needsTermAfter(operator);
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+
+    switch (token.kind) {
+      case 'open': {
+        if (peek()?.kind === 'close') {
+          throw new QuerySyntaxError(`Empty parentheses at ${column(token.position)}`, token.position);
+        }
+        if (!peek()) {
+          throw new QuerySyntaxError(`Missing ")" for the "(" at ${column(token.position)}`, token.position);
+        }
+        const node = parseOr();
+        if (peek()?.kind !== 'close') {
+          throw new QuerySyntaxError(`Missing ")" for the "(" at ${column(token.position)}`, token.position);
+        }
+        index++;
+        return node;
+      }
+      case 'close':
+        throw new QuerySyntaxError(`Unexpected ")" at ${column(token.position)} without a matching "("`, token.position);
+      case 'and':
+      case 'or':
+        throw new QuerySyntaxError(`${describe(token)} at ${column(token.position)} needs a search term before it`, token.position);
+      case 'phrase':
+        if (!token.value.trim()) throw new QuerySyntaxError(`Empty phrase at ${column(token.position)}`, token.position);
+        return { type: 'phrase', value: token.value.trim() };
+      case 'word':
+        return { type: 'term', value: token.value };
+      case 'field': {
+        if (!token.value.trim()) {
+          const example = { tag: 'tag:research', path: 'path:/discovery', rubric: 'rubric:prep', level: 'level:2', updated: 'updated:>2026-01-31' }[token.field];
+          throw new QuerySyntaxError(`${token.field}: needs a value, e.g. ${example} (${column(token.position)})`, token.position);
+        }
+        if (token.field === 'level') return parseLevel(token.value, token.position);
+        if (token.field === 'updated') return parseUpdated(token.value, token.position);
+        return { type: token.field as 'tag' | 'path' | 'rubric', value: token.value.trim() };
+      }
+      default:
+        // 'not' is consumed by parseUnary
+        throw new QuerySyntaxError(`Unexpected ${describe(token)} at ${column(token.position)}`, token.position);
+    }
+  };
+
+  if (tokens.length === 0) {
+    throw new QuerySyntaxError('Type something to search for', 0);
+  }
+
+  const ast = parseOr();
+  if (index < tokens.length) {
+    // Only a stray ")" stops parseOr early
+    const token = tokens[index];
+    throw new QuerySyntaxError(`Unexpected ")" at ${column(token.position)} without a matching "("`, token.position);
+  }
+  return ast;
+}
+
+/**
+ * One searchable thing: a document's own entry (no section) or a section
+ */
+export interface QueryTarget {
+  documentTitle: string;
+  documentPath: string;
+  sectionTitle?: string;
+  content: string;
+  tags: string[];
+  // Heading level; null for the document's own entry
+  level: number | null;
+  updatedAt: string;
+}
+
+const normalizePath = (path: string) => `/${path.trim().toLowerCase().replace(/^\/+|\/+$/g, '')}`;
+
+/**
+ * Whether the target satisfies the query. With fuzzy options, words also match
+ * close variants (see fuzzyMatch); phrases always match exactly.
+ */
+export function matchesQuery(node: QueryNode, target: QueryTarget, fuzzy: FuzzyOptions | null = null): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      const options = node.type === 'term' ? fuzzy : null;
+      return [target.documentTitle, target.sectionTitle || '', target.content]
+        .some(text => findTermMatches(text, node.value, options).length > 0);
+    }
+    case 'tag':
+      return target.tags.some(tag => tag.toLowerCase() === node.value.toLowerCase());
+    case 'path': {
+      const prefix = normalizePath(node.value);
+      const path = normalizePath(target.documentPath);
+      return prefix === '/' || path === prefix || path.startsWith(`${prefix}/`);
+    }
+    case 'rubric': {
+      if (target.level === null || !target.sectionTitle) return false;
+      const { rubric } = parseRubric(target.sectionTitle, target.level);
+      return rubric?.toLowerCase().trim() === node.value.toLowerCase();
+    }
+    case 'level':
+      return target.level !== null && target.level >= node.min && target.level <= node.max;
+    case 'updated': {
+      const updated = new Date(target.updatedAt).getTime();
+      switch (node.operator) {
+        case '>': return updated >= node.to;
+        case '>=': return updated >= node.from;
+        case '<': return updated < node.from;
+        case '<=': return updated < node.to;
+        default: return updated >= node.from && updated < node.to;
+      }
+    }
+    case 'and':
+      return node.children.every(child => matchesQuery(child, target, fuzzy));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, target, fuzzy));
+    case 'not':
+      return !matchesQuery(node.child, target, fuzzy);
+  }
+}
+
+/**
+ * Words and phrases that count towards a match (not the negated ones), for
+ * highlighting and ranking
+ */
+export function collectSearchTerms(node: QueryNode, negated = false): string[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return negated ? [] : [node.value];
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(child => collectSearchTerms(child, negated)))];
+    case 'not':
+      return collectSearchTerms(node.child, !negated);
+    default:
+      return [];
+  }
+}
+
+/**
+ * True for a plain list of words, which the server-side full-text index can answer
+ */
+export function isPlainTextQuery(node: QueryNode): boolean {
+  if (node.type === 'term') return true;
+  return node.type === 'and' && node.children.every(child => child.type === 'term');
+}
+
+/**
+ * Let words, phrases and plain word sequences also match their synonyms,
+ * keyed by lowercase term (see SearchSynonymService). "onboarding" with the
+ * synonym "user activation" becomes onboarding OR "user activation".
+ */
+export function expandSynonyms(node: QueryNode, synonyms: Map<string, string[]>): QueryNode {
+  if (synonyms.size === 0) return node;
+
+  const withSynonyms = (original: QueryNode, text: string): QueryNode => {
+    const alternatives = synonyms.get(text.toLowerCase());
+    if (!alternatives || alternatives.length === 0) return original;
+    return {
+      type: 'or',
+      children: [
+        original,
+        ...alternatives.map((synonym): QueryNode => /\s/.test(synonym)
+          ? { type: 'phrase', value: synonym }
+          : { type: 'term', value: synonym })
+      ]
+    };
+  };
+
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return withSynonyms(node, node.value);
+    case 'and': {
+      const expanded: QueryNode = { type: 'and', children: node.children.map(child => expandSynonyms(child, synonyms)) };
+      // "customer churn" as a whole can have a synonym too
+      return node.children.every(child => child.type === 'term')
+        ? withSynonyms(expanded, node.children.map(child => (child as { value: string }).value).join(' '))
+        : expanded;
+    }
+    case 'or':
+      return { type: 'or', children: node.children.map(child => expandSynonyms(child, synonyms)) };
+    case 'not':
+      return { type: 'not', child: expandSynonyms(node.child, synonyms) };
+    default:
+      return node;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for persistent section anchors
+ * Run in browser console: import('/src/lib/sectionAnchors.test.ts').then(m => m.runAllTests())
+ */
+
+import { HierarchyParser } from './hierarchyParser';
+import { blocksToFlatSections, flatSectionsToBlocks } from './blockNoteConversions';
+import { findSectionByTitleOrId } from './internalLinkResolver';
+import { splitHeadingAnchor } from './sectionAnchors';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const sections: DocumentSection[] = [
+  { id: 'section-1', title: 'Goals', level: 1, content: 'Why we ask.', tags: ['research'] },
+  { id: 'section-1760000000000-abc123', title: 'Questions', level: 2, content: 'What we ask.', tags: [] }
+];
+
+// Test functions
+export function testMarkdownRoundTrip(): { passed: boolean; message: string } {
+  const markup = HierarchyParser.sectionsToMarkup(sections);
+  if (!markup.startsWith('# Goals [research] {#section-1}')) {
+    return { passed: false, message: `Expected the anchor after the heading, got "${markup.split('\n')[0]}"` };
+  }
+
+  // Reordered, re-leveled and renamed in the markdown editor
+  const [goals, questions] = markup.split('\n\n');
+  const edited = `${questions.replace('## Questions', '# Interview questions')}\n\n${goals.replace('# Goals', '## Goals')}`;
+  const parsed = HierarchyParser.parseMarkup(edited).sections;
+
+  if (parsed.map(s => `${s.id}:${s.title}:${s.level}`).join() !== 'section-1760000000000-abc123:Interview questions:1,section-1:Goals:2') {
+    return { passed: false, message: `Anchors should follow their sections, got ${JSON.stringify(parsed)}` };
+  }
+
+  // Switching to the visual editor keeps them too
+  const visual = blocksToFlatSections(flatSectionsToBlocks(parsed));
+  if (visual.map(s => s.id).join() !== parsed.map(s => s.id).join()) {
+    return { passed: false, message: 'Anchors should survive the BlockNote round trip' };
+  }
+
+  return { passed: true, message: 'Anchors survive reordering, re-leveling, renames and mode switches' };
+}
+
+export function testNewHeadings(): { passed: boolean; message: string } {
+  const markup = `${HierarchyParser.sectionsToMarkup(sections)}\n\n# Follow-ups\nLater.\n\n# Notes {#section-1}`;
+
+  const first = HierarchyParser.parseMarkup(markup, undefined, sections).sections;
+  const ids = new Set(first.map(s => s.id));
+  if (ids.size !== 4 || first[0].id !== 'section-1') {
+    return { passed: false, message: `Expected unique anchors, got ${first.map(s => s.id).join()}` };
+  }
+
+  // The markup still has no anchor for the new headings on the next autosave
+  const second = HierarchyParser.parseMarkup(markup, undefined, first).sections;
+  if (second.map(s => s.id).join() !== first.map(s => s.id).join()) {
+    return { passed: false, message: 'New headings should keep the anchor they were given' };
+  }
+
+  return { passed: true, message: 'New and copied headings get a unique anchor that repeated saves keep' };
+}
+
+export function testLinksByAnchor(): { passed: boolean; message: string } {
+  const renamed = sections.map(s => s.id === 'section-1' ? { ...s, title: 'Aims' } : s);
+
+  if (findSectionByTitleOrId(renamed, 'section-1')?.title !== 'Aims') {
+    return { passed: false, message: 'Links by anchor should find the renamed section' };
+  }
+
+  const { heading, anchor } = splitHeadingAnchor('## Notes [a, b] {#notes-2}');
+  if (heading !== '## Notes [a, b]' || anchor !== 'notes-2' || splitHeadingAnchor('## Plain').anchor !== null) {
+    return { passed: false, message: `Unexpected split: ${heading}, ${anchor}` };
+  }
+
+  return { passed: true, message: 'Links by anchor keep working after a rename' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'markdownRoundTrip', fn: testMarkdownRoundTrip },
+    { name: 'newHeadings', fn: testNewHeadings },
+    { name: 'linksByAnchor', fn: testLinksByAnchor },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Section Anchor Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,64 @@
+/**
+ * Persistent section anchors. A section's id is its anchor: it is made once,
+ * when the section is created, and kept through edits in either editor mode,
+ * reordering and level changes. URLs (`/path#anchor`), wiki links and
+ * expand state all key off it. In markup the anchor follows the heading as
+ * `# Title [tags] {#anchor}`.
+ */
+
+const ANCHOR_PATTERN = /\s*\{#([\w.:-]+)\}\s*$/;
+
+const normalizeTitle = (title: string) => title.toLowerCase().trim();
+
+/**
+ * A new, unique anchor for a section (or block) that has none yet
+ */
+export function createSectionAnchor(): string {
+  return `section-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * A heading line with its anchor written after it
+ */
+export function formatHeadingAnchor(heading: string, anchor?: string): string {
+  return anchor ? `${heading} {#${anchor}}` : heading;
+}
+
+/**
+ * Splits the `{#anchor}` off a heading line; anchor is null when there is none
+ */
+export function splitHeadingAnchor(line: string): { heading: string; anchor: string | null } {
+  const match = line.match(ANCHOR_PATTERN);
+  if (!match || match.index === undefined) return { heading: line, anchor: null };
+  return { heading: line.substring(0, match.index), anchor: match[1] };
+}
+
+/**
+ * Give every section a unique anchor. Anchors already there are kept (the
+ * first of any duplicates). A section without one, e.g. a heading typed into
+ * the markdown editor since the markup was written, takes the unused anchor of
+ * the previous section with the same title, so repeated saves agree, and
+ * otherwise gets a new one.
+ */
+export function assignSectionAnchors<T extends { id: string; title: string }>(
+  sections: T[],
+  previous: Array<{ id: string; title: string }> = []
+): T[] {
+  const used = new Set<string>();
+  const kept = sections.map(section => {
+    if (!section.id || used.has(section.id)) return false;
+    used.add(section.id);
+    return true;
+  });
+
+  return sections.map((section, index) => {
+    if (kept[index]) return section;
+
+    const match = previous.find(candidate =>
+      candidate.id && !used.has(candidate.id) && normalizeTitle(candidate.title) === normalizeTitle(section.title)
+    );
+    const id = match ? match.id : createSectionAnchor();
+    used.add(id);
+    return { ...section, id };
+  });
+}
@@ -1,4 +1,5 @@
 import { DocumentSection } from '../services/contentService';
+import { formatHeadingAnchor } from './sectionAnchors';
 
 /**
  * Extracts the full content for a section including all its nested content
@@ -93,7 +94,7 @@ function extractNestedContent(
     
     // This section is nested under our parent, include it
     const headerLevel = '#'.repeat(Math.max(1, sectionLevel));
-    content += `${headerLevel} ${section.title}\n\n`;
+    content += `${formatHeadingAnchor(`${headerLevel} ${section.title}`, section.id)}\n\n`;
     
     if (section.content && section.content.trim()) {
       content += section.content.trim() + '\n\n';
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the section diff engine
+ * Run in browser console: import('/src/lib/sectionDiff.test.ts').then(m => m.runAllTests())
+ */
+
+import { diffSections, diffWords, titleSimilarity } from './sectionDiff';
+import { DocumentSection } from '@/services/contentService';
+
+// Test data
+const baseSections: DocumentSection[] = [
+  { id: 'a', title: 'Introduction', level: 1, content: 'Welcome to the guide.', tags: [] },
+  { id: 'b', title: 'Setup', level: 2, content: 'Install the tools.', tags: [] },
+  { id: 'c', title: 'Usage', level: 2, content: 'Run the command.', tags: [] },
+  { id: 'd', title: 'Appendix', level: 1, content: 'Extra notes.', tags: [] },
+];
+
+// Test functions
+export function testIdenticalSections(): { passed: boolean; message: string } {
+  try {
+    const diff = diffSections(baseSections, baseSections);
+
+    if (diff.stats.unchanged !== baseSections.length) {
+      return { passed: false, message: `Expected ${baseSections.length} unchanged, got ${diff.stats.unchanged}` };
+    }
+
+    return { passed: true, message: 'Identical sections produce no changes' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testAddedAndRemoved(): { passed: boolean; message: string } {
+  try {
+    const target: DocumentSection[] = [
+      baseSections[0],
+      baseSections[1],
+      { id: 'e', title: 'Troubleshooting', level: 2, content: 'Check the logs.', tags: [] },
+      baseSections[3],
+    ];
+    const diff = diffSections(baseSections, target);
+
+    if (diff.stats.added !== 1 || diff.stats.removed !== 1) {
+      return { passed: false, message: `Expected 1 added and 1 removed, got ${diff.stats.added}/${diff.stats.removed}` };
+    }
+
+    // Removed section stays where it used to be
+    const types = diff.entries.map(e => e.type).join(',');
+    if (types !== 'unchanged,unchanged,removed,added,unchanged') {
+      return { passed: false, message: `Unexpected entry order: ${types}` };
+    }
+
+    return { passed: true, message: 'Added and removed sections detected' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testMovedAndReleveled(): { passed: boolean; message: string } {
+  try {
+    const target: DocumentSection[] = [
+      baseSections[0],
+      { ...baseSections[2], level: 3 },
+      baseSections[1],
+      baseSections[3],
+    ];
+    const diff = diffSections(baseSections, target);
+
+    if (diff.stats.moved !== 1) {
+      return { passed: false, message: `Expected 1 moved section, got ${diff.stats.moved}` };
+    }
+    if (diff.stats.releveled !== 1) {
+      return { passed: false, message: `Expected 1 re-leveled section, got ${diff.stats.releveled}` };
+    }
+
+    return { passed: true, message: 'Moved and re-leveled sections detected' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testTitleFallbackMatching(): { passed: boolean; message: string } {
+  try {
+    const target: DocumentSection[] = baseSections.map(s =>
+      s.id === 'b' ? { ...s, id: 'section-99', title: 'Setup steps' } : s
+    );
+    const diff = diffSections(baseSections, target);
+    const entry = diff.entries.find(e => e.target?.id === 'section-99');
+
+    if (!entry || entry.matchedBy !== 'title' || !entry.retitled) {
+      return { passed: false, message: 'Expected retitled section matched by title similarity' };
+    }
+
+    return { passed: true, message: 'Title similarity fallback works' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testShiftedPositionalIds(): { passed: boolean; message: string } {
+  try {
+    // Markdown saves renumber ids, so inserting a section shifts every id after it
+    const base: DocumentSection[] = [
+      { id: 'section-1', title: 'One', level: 1, content: '', tags: [] },
+      { id: 'section-2', title: 'Two', level: 1, content: '', tags: [] },
+    ];
+    const target: DocumentSection[] = [
+      { id: 'section-1', title: 'One', level: 1, content: '', tags: [] },
+      { id: 'section-2', title: 'New', level: 1, content: '', tags: [] },
+      { id: 'section-3', title: 'Two', level: 1, content: '', tags: [] },
+    ];
+    const diff = diffSections(base, target);
+
+    if (diff.stats.added !== 1 || diff.stats.retitled !== 0) {
+      return { passed: false, message: `Expected 1 added and no retitles, got ${diff.stats.added}/${diff.stats.retitled}` };
+    }
+
+    return { passed: true, message: 'Shifted positional ids are not paired' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testWordDiff(): { passed: boolean; message: string } {
+  try {
+    const ops = diffWords('Run the command now.', 'Run the new command.');
+    const before = ops.filter(op => op.type !== 'insert').map(op => op.text).join('');
+    const after = ops.filter(op => op.type !== 'delete').map(op => op.text).join('');
+
+    if (before !== 'Run the command now.' || after !== 'Run the new command.') {
+      return { passed: false, message: `Word diff does not reproduce inputs: "${before}" / "${after}"` };
+    }
+    if (!ops.some(op => op.type === 'insert' && op.text.includes('new'))) {
+      return { passed: false, message: 'Expected an insert containing "new"' };
+    }
+
+    return { passed: true, message: 'Word diff works' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testTitleSimilarity(): { passed: boolean; message: string } {
+  try {
+    if (titleSimilarity('Setup', 'setup') !== 1) {
+      return { passed: false, message: 'Case-only difference should be identical' };
+    }
+    if (titleSimilarity('Setup', 'Appendix') > 0.3) {
+      return { passed: false, message: 'Unrelated titles should score low' };
+    }
+    return { passed: true, message: 'Title similarity works' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'identicalSections', fn: testIdenticalSections },
+    { name: 'addedAndRemoved', fn: testAddedAndRemoved },
+    { name: 'movedAndReleveled', fn: testMovedAndReleveled },
+    { name: 'titleFallbackMatching', fn: testTitleFallbackMatching },
+    { name: 'shiftedPositionalIds', fn: testShiftedPositionalIds },
+    { name: 'wordDiff', fn: testWordDiff },
+    { name: 'titleSimilarity', fn: testTitleSimilarity },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Section Diff Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
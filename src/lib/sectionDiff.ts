@@ -0,0 +1,386 @@
+import { DocumentSection } from "@/services/contentService";
+
+/**
+ * A single run of words in a word-level diff
+ */
+export interface WordDiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type SectionChangeType = 'unchanged' | 'added' | 'removed' | 'modified';
+
+/**
+ * One row of a section diff. `base` is the older side, `target` the newer side.
+ */
+export interface SectionDiffEntry {
+  type: SectionChangeType;
+  base?: DocumentSection;
+  target?: DocumentSection;
+  matchedBy?: 'id' | 'title';
+  moved: boolean;
+  releveled: boolean;
+  retitled: boolean;
+  contentChanged: boolean;
+  tagsChanged: boolean;
+  titleDiff?: WordDiffOp[];
+  contentDiff?: WordDiffOp[];
+}
+
+export interface SectionDiffStats {
+  added: number;
+  removed: number;
+  moved: number;
+  releveled: number;
+  retitled: number;
+  contentChanged: number;
+  unchanged: number;
+}
+
+export interface SectionDiff {
+  entries: SectionDiffEntry[];
+  stats: SectionDiffStats;
+}
+
+// Minimum title similarity (0-1) for pairing sections whose ids differ
+const TITLE_MATCH_THRESHOLD = 0.5;
+
+// Above this many token comparisons the word diff falls back to replace-all
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+/**
+ * Computes a structural diff between two versions of a document's sections.
+ * Sections are paired by id first, then by title similarity; entries are
+ * returned in target order with removed sections placed where they used to be.
+ */
+export function diffSections(baseSections: DocumentSection[] | null, targetSections: DocumentSection[] | null): SectionDiff {
+  const base = baseSections || [];
+  const target = targetSections || [];
+  const pairs = matchSections(base, target);
+  const movedTargets = findMovedTargets(pairs);
+
+  const baseToTarget = new Map<number, { targetIndex: number; matchedBy: 'id' | 'title' }>();
+  const targetToBase = new Map<number, { baseIndex: number; matchedBy: 'id' | 'title' }>();
+  for (const pair of pairs) {
+    baseToTarget.set(pair.baseIndex, { targetIndex: pair.targetIndex, matchedBy: pair.matchedBy });
+    targetToBase.set(pair.targetIndex, { baseIndex: pair.baseIndex, matchedBy: pair.matchedBy });
+  }
+
+  const entries: SectionDiffEntry[] = [];
+  let basePointer = 0;
+
+  const flushRemovedBefore = (limit: number) => {
+    while (basePointer < limit) {
+      if (!baseToTarget.has(basePointer)) {
+        entries.push(createRemovedEntry(base[basePointer]));
+      }
+      basePointer++;
+    }
+  };
+
+  // Base index of the next section that kept its place, used to show removals before additions
+  const nextAnchorBaseIndex = (fromTargetIndex: number): number => {
+    for (let i = fromTargetIndex + 1; i < target.length; i++) {
+      const match = targetToBase.get(i);
+      if (match && !movedTargets.has(i)) return match.baseIndex;
+    }
+    return base.length;
+  };
+
+  target.forEach((targetSection, targetIndex) => {
+    const match = targetToBase.get(targetIndex);
+    if (!match) {
+      flushRemovedBefore(nextAnchorBaseIndex(targetIndex));
+      entries.push(createAddedEntry(targetSection));
+      return;
+    }
+
+    // Emit removed sections that sat before this one in the base, unless it moved
+    if (!movedTargets.has(targetIndex)) {
+      flushRemovedBefore(match.baseIndex + 1);
+    }
+
+    entries.push(createMatchedEntry(base[match.baseIndex], targetSection, match.matchedBy, movedTargets.has(targetIndex)));
+  });
+
+  flushRemovedBefore(base.length);
+
+  return { entries, stats: computeStats(entries) };
+}
+
+/**
+ * Word-level diff of two strings. Whitespace is kept so joining all op texts
+ * of one side reproduces that side exactly.
+ */
+export function diffWords(before: string, after: string): WordDiffOp[] {
+  const a = tokenize(before || '');
+  const b = tokenize(after || '');
+
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return mergeOps([
+      ...(before ? [{ type: 'delete' as const, text: before }] : []),
+      ...(after ? [{ type: 'insert' as const, text: after }] : []),
+    ]);
+  }
+
+  // Classic LCS table, filled from the end so the walk below goes forwards
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: WordDiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'delete', text: a[i++] });
+    } else {
+      ops.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', text: b[j++] });
+
+  return mergeOps(ops);
+}
+
+/**
+ * Similarity of two titles between 0 and 1 (Dice coefficient over character bigrams)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+/**
+ * True when the diff contains any change at all
+ */
+export function hasChanges(diff: SectionDiff): boolean {
+  return diff.entries.some(entry => entry.type !== 'unchanged');
+}
+
+interface SectionPair {
+  baseIndex: number;
+  targetIndex: number;
+  matchedBy: 'id' | 'title';
+}
+
+function matchSections(base: DocumentSection[], target: DocumentSection[]): SectionPair[] {
+  const pairs: SectionPair[] = [];
+  const matchedBase = new Set<number>();
+  const matchedTarget = new Set<number>();
+
+  // Pass 1: identical ids (first occurrence wins if ids are duplicated).
+  // Markdown-mode saves number ids by position, so an id pair with different titles
+  // is ignored when either title still exists on the other side - the id merely shifted.
+  const baseIdIndex = new Map<string, number>();
+  const baseTitles = new Set(base.map(section => normalizeTitle(section.title)));
+  const targetTitles = new Set(target.map(section => normalizeTitle(section.title)));
+  base.forEach((section, index) => {
+    if (section.id && !baseIdIndex.has(section.id)) baseIdIndex.set(section.id, index);
+  });
+  target.forEach((section, targetIndex) => {
+    const baseIndex = section.id ? baseIdIndex.get(section.id) : undefined;
+    if (baseIndex === undefined || matchedBase.has(baseIndex)) return;
+
+    const baseTitle = normalizeTitle(base[baseIndex].title);
+    const targetTitle = normalizeTitle(section.title);
+    const idShifted = baseTitle !== targetTitle && (baseTitles.has(targetTitle) || targetTitles.has(baseTitle));
+    if (!idShifted) {
+      pairs.push({ baseIndex, targetIndex, matchedBy: 'id' });
+      matchedBase.add(baseIndex);
+      matchedTarget.add(targetIndex);
+    }
+  });
+
+  // Pass 2: greedy best title similarity among what is left
+  const candidates: Array<{ baseIndex: number; targetIndex: number; score: number }> = [];
+  base.forEach((baseSection, baseIndex) => {
+    if (matchedBase.has(baseIndex)) return;
+    target.forEach((targetSection, targetIndex) => {
+      if (matchedTarget.has(targetIndex)) return;
+      const score = titleSimilarity(baseSection.title, targetSection.title);
+      if (score >= TITLE_MATCH_THRESHOLD) {
+        candidates.push({ baseIndex, targetIndex, score });
+      }
+    });
+  });
+
+  candidates
+    .sort((x, y) => y.score - x.score || Math.abs(x.baseIndex - x.targetIndex) - Math.abs(y.baseIndex - y.targetIndex))
+    .forEach(candidate => {
+      if (matchedBase.has(candidate.baseIndex) || matchedTarget.has(candidate.targetIndex)) return;
+      pairs.push({ baseIndex: candidate.baseIndex, targetIndex: candidate.targetIndex, matchedBy: 'title' });
+      matchedBase.add(candidate.baseIndex);
+      matchedTarget.add(candidate.targetIndex);
+    });
+
+  return pairs.sort((x, y) => x.targetIndex - y.targetIndex);
+}
+
+/**
+ * A matched section counts as moved when it is not part of the longest run of
+ * pairs that kept their relative order (longest increasing subsequence of base indices).
+ */
+function findMovedTargets(pairs: SectionPair[]): Set<number> {
+  const sequence = pairs.map(pair => pair.baseIndex);
+  const tails: number[] = [];
+  const tailIndices: number[] = [];
+  const previous: number[] = new Array(sequence.length).fill(-1);
+
+  sequence.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    tails[low] = value;
+    tailIndices[low] = index;
+    previous[index] = low > 0 ? tailIndices[low - 1] : -1;
+  });
+
+  const stable = new Set<number>();
+  let cursor = tailIndices.length > 0 ? tailIndices[tailIndices.length - 1] : -1;
+  while (cursor !== -1) {
+    stable.add(cursor);
+    cursor = previous[cursor];
+  }
+
+  const moved = new Set<number>();
+  pairs.forEach((pair, index) => {
+    if (!stable.has(index)) moved.add(pair.targetIndex);
+  });
+  return moved;
+}
+
+function createAddedEntry(section: DocumentSection): SectionDiffEntry {
+  return {
+    type: 'added',
+    target: section,
+    moved: false,
+    releveled: false,
+    retitled: false,
+    contentChanged: false,
+    tagsChanged: false,
+  };
+}
+
+function createRemovedEntry(section: DocumentSection): SectionDiffEntry {
+  return {
+    type: 'removed',
+    base: section,
+    moved: false,
+    releveled: false,
+    retitled: false,
+    contentChanged: false,
+    tagsChanged: false,
+  };
+}
+
+function createMatchedEntry(
+  base: DocumentSection,
+  target: DocumentSection,
+  matchedBy: 'id' | 'title',
+  moved: boolean
+): SectionDiffEntry {
+  const retitled = base.title !== target.title;
+  const releveled = base.level !== target.level;
+  const contentChanged = (base.content || '').trim() !== (target.content || '').trim()
+    || !sameList(base.sources, target.sources);
+  const tagsChanged = !sameList(base.tags, target.tags);
+  const changed = moved || retitled || releveled || contentChanged || tagsChanged;
+
+  return {
+    type: changed ? 'modified' : 'unchanged',
+    base,
+    target,
+    matchedBy,
+    moved,
+    releveled,
+    retitled,
+    contentChanged,
+    tagsChanged,
+    titleDiff: retitled ? diffWords(base.title, target.title) : undefined,
+    contentDiff: contentChanged ? diffWords((base.content || '').trim(), (target.content || '').trim()) : undefined,
+  };
+}
+
+function computeStats(entries: SectionDiffEntry[]): SectionDiffStats {
+  const stats: SectionDiffStats = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    releveled: 0,
+    retitled: 0,
+    contentChanged: 0,
+    unchanged: 0,
+  };
+
+  for (const entry of entries) {
+    if (entry.type === 'added') stats.added++;
+    else if (entry.type === 'removed') stats.removed++;
+    else if (entry.type === 'unchanged') stats.unchanged++;
+    if (entry.moved) stats.moved++;
+    if (entry.releveled) stats.releveled++;
+    if (entry.retitled) stats.retitled++;
+    if (entry.contentChanged) stats.contentChanged++;
+  }
+
+  return stats;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function mergeOps(ops: WordDiffOp[]): WordDiffOp[] {
+  const merged: WordDiffOp[] = [];
+  for (const op of ops) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      merged.push({ ...op });
+    }
+  }
+  return merged;
+}
+
+function normalizeTitle(title: string): string {
+  return (title || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function sameList(a: string[] | undefined, b: string[] | undefined): boolean {
+  const left = a || [];
+  const right = b || [];
+  return left.length === right.length && left.every((value, index) => value === right[index]);
+}
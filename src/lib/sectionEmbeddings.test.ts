@@ -0,0 +1,100 @@
+/**
+ * Unit tests for section embeddings
+ * Run in browser console: import('/src/lib/sectionEmbeddings.test.ts').then(m => m.runAllTests())
+ */
+
+import {
+  cosineSimilarity,
+  embeddingHash,
+  embedText,
+  EMBEDDING_DIMENSIONS,
+  findNearDuplicates,
+  findRelatedSections,
+  sectionEmbeddingText,
+  SectionVector
+} from './sectionEmbeddings';
+import type { DocumentSection } from '../services/contentService';
+
+// Test data
+const section = (itemId: string, id: string, title: string, content: string): SectionVector => {
+  const text = sectionEmbeddingText({ id, title, level: 2, content, tags: [] });
+  return { itemId, documentTitle: itemId, documentPath: `/${itemId}`, sectionId: id, sectionTitle: title, vector: embedText(text) };
+};
+
+const sections: SectionVector[] = [
+  section('discovery', 'd-1', 'Review First Principles', 'Before starting, review the first principles: talk to users early and write down assumptions.'),
+  section('delivery', 'v-1', 'Review First Principles', 'Before starting, review our first principles: talk to users early and write assumptions down.'),
+  section('discovery', 'd-2', 'Interview Questions', 'Prefer open questions. Ask why, and avoid leading questions.'),
+  section('delivery', 'v-2', 'Release Checklist', 'Tag the build, update the changelog and notify support before deploying.')
+];
+
+// Test functions
+export function testEmbedText(): { passed: boolean; message: string } {
+  const vector = embedText('Ask open questions during interviews');
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+  if (vector.length !== EMBEDDING_DIMENSIONS || Math.abs(norm - 1) > 0.01) {
+    return { passed: false, message: `Expected a unit vector of ${EMBEDDING_DIMENSIONS}, got length ${vector.length}, norm ${norm}` };
+  }
+  if (embedText('the and of').some(value => value !== 0)) {
+    return { passed: false, message: 'Stop words alone should give an empty vector' };
+  }
+
+  const similar = cosineSimilarity(embedText('prioritise interviews'), embedText('prioritizing the interview'));
+  const unrelated = cosineSimilarity(embedText('prioritise interviews'), embedText('deploy release build'));
+  if (similar < 0.5 || unrelated > 0.2) {
+    return { passed: false, message: `Variants scored ${similar.toFixed(2)}, unrelated text ${unrelated.toFixed(2)}` };
+  }
+
+  return { passed: true, message: 'Embeddings are normalized and tolerate spelling and word-form variants' };
+}
+
+export function testRelatedAndDuplicates(): { passed: boolean; message: string } {
+  const related = findRelatedSections(sections[0], sections);
+  if (related[0]?.section.sectionId !== 'v-1' || related.some(entry => entry.section.sectionId === 'd-1')) {
+    return { passed: false, message: `Unexpected related sections: ${related.map(entry => entry.section.sectionId).join()}` };
+  }
+
+  const pairs = findNearDuplicates(sections, 0.8);
+  const described = pairs.map(pair => `${pair.a.sectionId}~${pair.b.sectionId}`).join();
+  if (described !== 'd-1~v-1') {
+    return { passed: false, message: `Unexpected near-duplicates: ${described}` };
+  }
+
+  return { passed: true, message: 'Reworded copies are related and reported as near-duplicates' };
+}
+
+export function testEmbeddingText(): { passed: boolean; message: string } {
+  const withSources: DocumentSection = {
+    id: 's', title: 'Main Goal: Listen', level: 2, content: 'Talk **less**. <!-- sources: https://a.example -->', tags: []
+  };
+  const text = sectionEmbeddingText(withSources);
+
+  if (text !== 'Listen\nListen\nTalk less.') {
+    return { passed: false, message: `Unexpected embedding text: ${JSON.stringify(text)}` };
+  }
+  if (embeddingHash(text) === embeddingHash(`${text} `)) {
+    return { passed: false, message: 'Changed text should change the hash' };
+  }
+
+  return { passed: true, message: 'Rubrics, markdown and sources comments are left out of the embedded text' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'embedText', fn: testEmbedText },
+    { name: 'relatedAndDuplicates', fn: testRelatedAndDuplicates },
+    { name: 'embeddingText', fn: testEmbeddingText },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Section Embedding Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
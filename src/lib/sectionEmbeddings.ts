@@ -0,0 +1,162 @@
+import type { DocumentSection } from '../services/contentService';
+import { stripMarkdown } from './markdownRenderer';
+import { parseRubric } from './rubricConfig';
+
+/**
+ * Section embeddings for "related sections" and the near-duplicate report.
+ *
+ * Everything runs in the browser without a model download or network call:
+ * words (lightly stemmed, stop words dropped), word pairs and letter trigrams
+ * are hashed into a fixed-size vector, so sections that share vocabulary and
+ * phrasing end up close together by cosine similarity. Letter trigrams make
+ * "prioritise"/"prioritize" or "interview"/"interviewing" overlap.
+ */
+
+// Stored with every vector; bump it whenever the features below change so
+// stored embeddings are recomputed
+export const EMBEDDING_MODEL = 'hashed-ngrams-v1';
+export const EMBEDDING_DIMENSIONS = 256;
+
+export interface SectionVector {
+  itemId: string;
+  documentTitle: string;
+  documentPath: string;
+  sectionId: string;
+  sectionTitle: string;
+  vector: number[];
+}
+
+export interface RelatedSection {
+  section: SectionVector;
+  // Cosine similarity, 0..1
+  score: number;
+}
+
+export interface NearDuplicatePair {
+  a: SectionVector;
+  b: SectionVector;
+  score: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'being',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'each', 'for', 'from', 'had', 'has', 'have', 'how', 'if',
+  'in', 'into', 'is', 'it', 'its', 'just', 'more', 'most', 'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our',
+  'out', 'over', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'while',
+  'who', 'will', 'with', 'would', 'you', 'your'
+]);
+
+const SOURCES_COMMENT = /<!--[\s\S]*?-->/g;
+
+// Good enough to fold "questions"/"question" and "asking"/"asked"/"ask" together
+const stem = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+// FNV-1a; the top bit of a second hash decides the sign so collisions cancel out on average
+const hash = (text: string, seed = 0x811c9dc5): number => {
+  let value = seed;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const addFeature = (vector: number[], feature: string, weight: number) => {
+  const index = hash(feature) % vector.length;
+  const sign = hash(feature, 0x12345678) & 1 ? 1 : -1;
+  vector[index] += sign * weight;
+};
+
+/**
+ * Unit-length embedding of a piece of text (all zeros for text without words)
+ */
+export function embedText(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(stem);
+
+  // Sublinear term frequency, so one word repeated many times does not dominate
+  const counts = new Map<string, number>();
+  const count = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+  words.forEach((word, index) => {
+    count(`w:${word}`, 1);
+    if (index > 0) count(`b:${words[index - 1]} ${word}`, 0.5);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) count(`t:${padded.substring(i, i + 3)}`, 0.25);
+  });
+  counts.forEach((weight, feature) => addFeature(vector, feature, 1 + Math.log(weight)));
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  // Four decimals keep stored vectors small without changing the rankings
+  return norm === 0 ? vector : vector.map(value => Math.round((value / norm) * 10000) / 10000);
+}
+
+/**
+ * What gets embedded for a section: its title (twice, as the best summary of
+ * what it is about) and its text without markdown or sources comments.
+ */
+export function sectionEmbeddingText(section: DocumentSection): string {
+  const { text: title } = parseRubric(section.title || '', section.level);
+  const content = stripMarkdown((section.content || '').replace(SOURCES_COMMENT, ''));
+  return `${title}\n${title}\n${content}`;
+}
+
+/**
+ * Short fingerprint of the embedded text and model, used to tell whether a
+ * stored embedding is still current
+ */
+export function embeddingHash(text: string): string {
+  return `${hash(`${EMBEDDING_MODEL}\n${text}`).toString(16)}-${text.length.toString(16)}`;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Sections most similar to the given one, best first, leaving out the section itself
+ */
+export function findRelatedSections(
+  target: SectionVector,
+  candidates: SectionVector[],
+  limit = 5,
+  minScore = 0.35
+): RelatedSection[] {
+  return candidates
+    .filter(candidate => !(candidate.itemId === target.itemId && candidate.sectionId === target.sectionId))
+    .map(candidate => ({ section: candidate, score: cosineSimilarity(target.vector, candidate.vector) }))
+    .filter(related => related.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Every pair of sections at least `threshold` similar, most similar first
+ */
+export function findNearDuplicates(sections: SectionVector[], threshold = 0.8): NearDuplicatePair[] {
+  const pairs: NearDuplicatePair[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    for (let j = i + 1; j < sections.length; j++) {
+      const score = cosineSimilarity(sections[i].vector, sections[j].vector);
+      if (score >= threshold) pairs.push({ a: sections[i], b: sections[j], score });
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for section-by-section conflict merging
+ * Run in browser console: import('/src/lib/sectionMerge.test.ts').then(m => m.runAllTests())
+ */
+
+import { buildSectionMerge, applyMergeChoices } from './sectionMerge';
+import { DocumentSection } from '@/services/contentService';
+
+// Test data
+const ancestor: DocumentSection[] = [
+  { id: 'a', title: 'Introduction', level: 1, content: 'Welcome.', tags: [] },
+  { id: 'b', title: 'Setup', level: 2, content: 'Install the tools.', tags: [] },
+  { id: 'c', title: 'Usage', level: 2, content: 'Run the command.', tags: [] },
+];
+
+// Test functions
+export function testNonOverlappingEdits(): { passed: boolean; message: string } {
+  try {
+    const local = ancestor.map(s => s.id === 'b' ? { ...s, content: 'Install the tools first.' } : s);
+    const remote = ancestor.map(s => s.id === 'c' ? { ...s, content: 'Run the command twice.' } : s);
+
+    const { diff, defaultChoices } = buildSectionMerge(ancestor, local, remote);
+    const merged = applyMergeChoices(diff, defaultChoices);
+
+    const setup = merged.find(s => s.id === 'b');
+    const usage = merged.find(s => s.id === 'c');
+    if (setup?.content !== 'Install the tools first.' || usage?.content !== 'Run the command twice.') {
+      return { passed: false, message: `Expected both edits kept, got "${setup?.content}" / "${usage?.content}"` };
+    }
+
+    return { passed: true, message: 'Edits to different sections merge by default' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testAddedOnBothSides(): { passed: boolean; message: string } {
+  try {
+    const local = [...ancestor, { id: 'd', title: 'Local notes', level: 2, content: '', tags: [] }];
+    const remote = [...ancestor, { id: 'e', title: 'Remote FAQ', level: 2, content: '', tags: [] }];
+
+    const { diff, defaultChoices } = buildSectionMerge(ancestor, local, remote);
+    const titles = applyMergeChoices(diff, defaultChoices).map(s => s.title);
+
+    if (!titles.includes('Local notes') || !titles.includes('Remote FAQ')) {
+      return { passed: false, message: `Expected both new sections, got ${titles.join(', ')}` };
+    }
+
+    return { passed: true, message: 'Sections added on either side are kept' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testLocalDeletion(): { passed: boolean; message: string } {
+  try {
+    const local = ancestor.filter(s => s.id !== 'c');
+    const remote = ancestor.map(s => s.id === 'a' ? { ...s, content: 'Hello.' } : s);
+
+    const { diff, defaultChoices } = buildSectionMerge(ancestor, local, remote);
+    const merged = applyMergeChoices(diff, defaultChoices);
+
+    if (merged.some(s => s.id === 'c') || merged.find(s => s.id === 'a')?.content !== 'Hello.') {
+      return { passed: false, message: 'Expected local deletion and remote edit to both apply' };
+    }
+
+    return { passed: true, message: 'Local deletions survive the merge' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testUniqueIds(): { passed: boolean; message: string } {
+  try {
+    const local = [...ancestor, { id: 'section-4', title: 'Mine', level: 2, content: '', tags: [] }];
+    const remote = [...ancestor, { id: 'section-4', title: 'Theirs', level: 2, content: '', tags: [] }];
+
+    const { diff } = buildSectionMerge(ancestor, local, remote);
+    // Keep everything from both sides
+    const choices = diff.entries.map(entry => entry.type === 'removed' ? 'remote' as const : 'local' as const);
+    const ids = applyMergeChoices(diff, choices).map(s => s.id);
+
+    if (new Set(ids).size !== ids.length) {
+      return { passed: false, message: `Duplicate ids in merge: ${ids.join(', ')}` };
+    }
+
+    return { passed: true, message: 'Merged sections have unique ids' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'nonOverlappingEdits', fn: testNonOverlappingEdits },
+    { name: 'addedOnBothSides', fn: testAddedOnBothSides },
+    { name: 'localDeletion', fn: testLocalDeletion },
+    { name: 'uniqueIds', fn: testUniqueIds },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Section Merge Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,115 @@
+import { DocumentSection } from "@/services/contentService";
+import { diffSections, SectionDiff, SectionDiffEntry } from "./sectionDiff";
+
+/**
+ * Which side wins for one row of a merge: the user's unsaved sections or the saved remote ones
+ */
+export type MergeChoice = 'local' | 'remote';
+
+export interface SectionMerge {
+  // Diff from remote (base side) to local (target side)
+  diff: SectionDiff;
+  // Suggested choice per diff entry, same order as diff.entries
+  defaultChoices: MergeChoice[];
+}
+
+/**
+ * Prepares a section-by-section merge after a save conflict.
+ * `ancestor` is the version both sides started from; it is used to suggest
+ * whichever side actually changed a section, so non-overlapping edits merge cleanly.
+ */
+export function buildSectionMerge(
+  ancestor: DocumentSection[],
+  local: DocumentSection[],
+  remote: DocumentSection[]
+): SectionMerge {
+  const diff = diffSections(remote, local);
+  const defaultChoices = diff.entries.map(entry => suggestChoice(entry, ancestor));
+  return { diff, defaultChoices };
+}
+
+/**
+ * Builds the merged section list from the user's choices. Sections are kept in
+ * local order, with remote-only sections kept where they sat in the remote version.
+ */
+export function applyMergeChoices(diff: SectionDiff, choices: MergeChoice[]): DocumentSection[] {
+  const merged: DocumentSection[] = [];
+
+  diff.entries.forEach((entry, index) => {
+    const choice = choices[index] || 'local';
+    switch (entry.type) {
+      case 'unchanged':
+        merged.push(entry.target!);
+        break;
+      case 'modified':
+        merged.push(choice === 'local' ? entry.target! : entry.base!);
+        break;
+      case 'added':
+        if (choice === 'local') merged.push(entry.target!);
+        break;
+      case 'removed':
+        if (choice === 'remote') merged.push(entry.base!);
+        break;
+    }
+  });
+
+  return ensureUniqueIds(merged);
+}
+
+/**
+ * True when two sections carry the same content (ids are ignored)
+ */
+export function sameSectionContent(a: DocumentSection | undefined, b: DocumentSection | undefined): boolean {
+  if (!a || !b) return false;
+  return a.title === b.title &&
+    a.level === b.level &&
+    (a.content || '') === (b.content || '') &&
+    sameList(a.tags || [], b.tags || []) &&
+    sameList(a.sources || [], b.sources || []);
+}
+
+function suggestChoice(entry: SectionDiffEntry, ancestor: DocumentSection[]): MergeChoice {
+  switch (entry.type) {
+    case 'modified': {
+      // Only the remote side touched it since the common version
+      const original = findAncestorSection(ancestor, entry.target!);
+      return sameSectionContent(entry.target, original) ? 'remote' : 'local';
+    }
+    case 'added': {
+      // Present locally but not remotely: either added here, or deleted remotely and left untouched here
+      const original = findAncestorSection(ancestor, entry.target!);
+      return original && sameSectionContent(entry.target, original) ? 'remote' : 'local';
+    }
+    case 'removed': {
+      // Present remotely but not locally: either deleted here, or added/edited remotely
+      const original = findAncestorSection(ancestor, entry.base!);
+      return original && sameSectionContent(entry.base, original) ? 'local' : 'remote';
+    }
+    default:
+      return 'local';
+  }
+}
+
+function findAncestorSection(ancestor: DocumentSection[], section: DocumentSection): DocumentSection | undefined {
+  const title = section.title.trim().toLowerCase();
+  return ancestor.find(s => s.id === section.id && s.title.trim().toLowerCase() === title) ||
+    ancestor.find(s => s.title.trim().toLowerCase() === title);
+}
+
+// Keeping sections from both sides can repeat an id; BlockNote needs them unique
+function ensureUniqueIds(sections: DocumentSection[]): DocumentSection[] {
+  const seen = new Set<string>();
+  return sections.map(section => {
+    let id = section.id;
+    let suffix = 1;
+    while (seen.has(id)) {
+      id = `${section.id}-${suffix++}`;
+    }
+    seen.add(id);
+    return id === section.id ? section : { ...section, id };
+  });
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
@@ -1,4 +1,5 @@
 import { DocumentSection } from '../services/contentService';
+import { formatHeadingAnchor } from './sectionAnchors';
 
 /**
  * Finds a section by its ID in a flat array of document sections
@@ -37,4 +38,22 @@ export function findSectionByHash(sections: DocumentSection[], hash: string): Do
   // Last resort: try to find by partial title match
   const searchTerm = hash.replace(/-/g, ' ').toLowerCase();
   return sections.find(s => s.title.toLowerCase().includes(searchTerm)) || null;
-}
\ No newline at end of file
+}
+
+/**
+ * Converts flat document sections to the heading markup rendered by HierarchicalContentDisplay,
+ * with each heading's anchor
+ */
+export function convertSectionsToMarkdown(sections: DocumentSection[]): string {
+  if (!sections || sections.length === 0) return '';
+
+  return sections
+    .map(section => {
+      const headerLevel = '#'.repeat(Math.max(1, section.level));
+      const tags = section.tags?.length > 0 ? ` [${section.tags.join(', ')}]` : '';
+      const heading = formatHeadingAnchor(`${headerLevel} ${section.title}${tags}`, section.id);
+      return `${heading}\n\n${section.content || ''}\n\n`;
+    })
+    .join('')
+    .trim();
+}
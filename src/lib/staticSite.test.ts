@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the static site export helpers
+ * Run in browser console: import('/src/lib/staticSite.test.ts').then(m => m.runAllTests())
+ */
+
+import { buildSearchIndex, buildStaticSite, renderNavigationTree, resolveStaticLink, staticFileFor } from './staticSite';
+import type { ContentItem } from '../services/contentService';
+
+// Test data
+const item = (id: string, path: string, parent_id: string | null, order_index: number, sections: ContentItem['content_json']): ContentItem => ({
+  id,
+  title: id,
+  path,
+  parent_id,
+  order_index,
+  content_json: sections,
+  tags: [],
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  version: 1
+});
+
+const items: ContentItem[] = [
+  item('Discovery', '/discovery', null, 0, [
+    { id: 'd-1', title: 'Discovery', level: 1, content: 'Find out what matters.', tags: [] }
+  ]),
+  item('Interviews', '/discovery/interviews', 'Discovery', 0, [
+    { id: 'i-1', title: 'Interviews', level: 1, content: 'Talk to people.', tags: [] },
+    { id: 'i-2', title: 'Question Bank', level: 2, content: 'Ask **open** questions. <!-- sources: https://example.com -->', tags: [] }
+  ]),
+  item('Home', '/index', null, 1, [])
+];
+
+// Test functions
+export function testStaticFiles(): { passed: boolean; message: string } {
+  const files = ['/discovery/interviews', '/index', '/a b/c'].map(staticFileFor);
+
+  if (files.join() !== 'discovery/interviews.html,index-page.html,a-b/c.html') {
+    return { passed: false, message: `Unexpected files: ${files.join()}` };
+  }
+
+  // Paths that sanitize to the same file each get their own
+  const site = buildStaticSite([item('A', '/a-b', null, 0, []), item('B', '/a b', null, 1, []), item('C', '/A-B', null, 2, []), item('D', '/a-b-2', null, 3, [])]);
+  const assigned = ['/a-b', '/a b', '/A-B', '/a-b-2'].map(path => site.files.get(path));
+  if (assigned.join() !== 'a-b-4.html,a-b-3.html,A-B.html,a-b-2.html') {
+    return { passed: false, message: `Colliding paths should get numbered files, got ${assigned.join()}` };
+  }
+
+  return { passed: true, message: 'Paths map to nested html files without clobbering index.html or each other' };
+}
+
+export function testResolveLinks(): { passed: boolean; message: string } {
+  const site = buildStaticSite(items);
+  const [discovery, interviews] = items;
+
+  const cross = resolveStaticLink('/discovery/interviews#Question%20Bank', discovery, site);
+  const up = resolveStaticLink('/discovery', interviews, site);
+  const local = resolveStaticLink('#question bank', interviews, site);
+  const missing = resolveStaticLink('/nowhere', interviews, site);
+
+  if (cross !== 'discovery/interviews.html#i-2') {
+    return { passed: false, message: `Unexpected cross-document link: ${cross}` };
+  }
+  if (up !== '../discovery.html' || local !== '#i-2' || missing !== null) {
+    return { passed: false, message: `Unexpected links: ${up}, ${local}, ${missing}` };
+  }
+
+  return { passed: true, message: 'Links become relative hrefs with section anchors' };
+}
+
+export function testNavigationAndSearch(): { passed: boolean; message: string } {
+  const site = buildStaticSite(items);
+  const navigation = renderNavigationTree(site, 'discovery/interviews.html');
+
+  if (!navigation.includes('<details open>') || !navigation.includes('href="../discovery/interviews.html" aria-current="page"')) {
+    return { passed: false, message: `Unexpected navigation: ${navigation}` };
+  }
+
+  const index = buildSearchIndex(site);
+  const question = index.find(entry => entry.s === 'Question Bank');
+  if (index.length !== 4 || question?.h !== 'discovery/interviews.html#i-2' || question.t !== 'Ask open questions.') {
+    return { passed: false, message: `Unexpected search index: ${JSON.stringify(index)}` };
+  }
+
+  return { passed: true, message: 'Navigation opens the current branch and search has one entry per section' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'staticFiles', fn: testStaticFiles },
+    { name: 'resolveLinks', fn: testResolveLinks },
+    { name: 'navigationAndSearch', fn: testNavigationAndSearch },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Static Site Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
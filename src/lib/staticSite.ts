@@ -0,0 +1,318 @@
+import type { ContentItem, DocumentSection } from '../services/contentService';
+import { findSectionByTitleOrId } from './internalLinkResolver';
+import { stripMarkdown } from './markdownRenderer';
+
+/**
+ * Static site export: file layout, link resolution, navigation tree, search
+ * index and page template. Rendering the documents themselves happens in
+ * StaticExportService, which reuses HierarchicalContentDisplay.
+ */
+
+export interface StaticSearchEntry {
+  // Document title, section title, root-relative href and plain text
+  d: string;
+  s: string;
+  h: string;
+  t: string;
+}
+
+export interface StaticSite {
+  items: ContentItem[];
+  byPath: Map<string, ContentItem>;
+  childrenOf: Map<string | null, ContentItem[]>;
+  // Output file of each content path (see assignStaticFiles)
+  files: Map<string, string>;
+}
+
+export const STATIC_ASSETS = {
+  appStyles: 'assets/app.css',
+  siteStyles: 'assets/site.css',
+  searchIndex: 'assets/search-index.js',
+  script: 'assets/site.js'
+} as const;
+
+export function buildStaticSite(items: ContentItem[]): StaticSite {
+  const ids = new Set(items.map(item => item.id));
+  const childrenOf = new Map<string | null, ContentItem[]>();
+  for (const item of items) {
+    const parentId = item.parent_id && ids.has(item.parent_id) ? item.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), item]);
+  }
+  childrenOf.forEach(children => children.sort((a, b) => a.order_index - b.order_index));
+
+  return { items, byPath: new Map(items.map(item => [item.path, item])), childrenOf, files: assignStaticFiles(items) };
+}
+
+/**
+ * Output files for every item. Paths that map to the same file (see
+ * staticFileFor; "/a b" and "/a-b", or "/A" and "/a" on case-insensitive
+ * disks) would overwrite each other: the first path in sort order keeps the
+ * file, the others get a numbered one ("a-b-2.html").
+ */
+function assignStaticFiles(items: ContentItem[]): Map<string, string> {
+  const paths = [...new Set(items.map(item => item.path))].sort();
+  const natural = new Map(paths.map(path => [path, staticFileFor(path)]));
+  // Files nobody else wants are kept first, so suffixes never take them
+  const taken = new Set(Array.from(natural.values(), file => file.toLowerCase()));
+  const claimed = new Set<string>();
+
+  const files = new Map<string, string>();
+  for (const path of paths) {
+    let file = natural.get(path)!;
+    if (claimed.has(file.toLowerCase())) {
+      const base = file.replace(/\.html$/, '');
+      let counter = 2;
+      while (taken.has(`${base}-${counter}.html`.toLowerCase())) counter++;
+      file = `${base}-${counter}.html`;
+      taken.add(file.toLowerCase());
+    }
+    claimed.add(file.toLowerCase());
+    files.set(path, file);
+  }
+  return files;
+}
+
+/**
+ * Output file of an item in the site
+ */
+export function staticFileOf(site: StaticSite, path: string): string {
+  return site.files.get(path) ?? staticFileFor(path);
+}
+
+/**
+ * Output file for a content path: /discovery/interviews → discovery/interviews.html
+ */
+export function staticFileFor(path: string): string {
+  const segments = path.split('/').filter(Boolean).map(segment => segment.replace(/[^\w.-]+/g, '-'));
+  // index.html is the site's home page
+  if (segments.length === 0) return 'index-page.html';
+  if (segments.length === 1 && segments[0] === 'index') segments[0] = 'index-page';
+  return `${segments.join('/')}.html`;
+}
+
+/**
+ * Prefix that leads from a file back to the site root, e.g. "../" for a/b.html
+ */
+export function rootPrefixFor(file: string): string {
+  return '../'.repeat(file.split('/').length - 1);
+}
+
+/**
+ * Anchor HierarchicalContentDisplay gives a section: its own (see sectionAnchors),
+ * or its position for sections saved without an id
+ */
+export function sectionAnchor(sections: DocumentSection[], section: DocumentSection): string {
+  return section.id || `section-${sections.indexOf(section) + 1}`;
+}
+
+/**
+ * Turns an internal link target (`#Section`, `/path`, `/path#Section`) into an
+ * href relative to the page being written. Null when the target page is not
+ * part of the export.
+ */
+export function resolveStaticLink(target: string, current: ContentItem, site: StaticSite): string | null {
+  const currentFile = staticFileOf(site, current.path);
+  const hashIndex = target.indexOf('#');
+  const path = hashIndex === -1 ? target : target.substring(0, hashIndex);
+  const sectionRef = hashIndex === -1 ? '' : decodeURIComponent(target.substring(hashIndex + 1));
+
+  const document = path ? site.byPath.get(path) : current;
+  if (!document) return null;
+
+  const sections = document.content_json || [];
+  const section = sectionRef ? findSectionByTitleOrId(sections, sectionRef) : null;
+  const anchor = section ? `#${sectionAnchor(sections, section)}` : '';
+
+  if (document === current) return anchor || '#';
+  return `${rootPrefixFor(currentFile)}${staticFileOf(site, document.path)}${anchor}`;
+}
+
+/**
+ * Nested navigation list with links relative to the current page
+ */
+export function renderNavigationTree(site: StaticSite, currentFile: string): string {
+  const prefix = rootPrefixFor(currentFile);
+  const currentPath = Array.from(site.files).find(([, file]) => file === currentFile)?.[0];
+
+  const renderLevel = (parentId: string | null): string => {
+    const children = site.childrenOf.get(parentId) || [];
+    if (children.length === 0) return '';
+
+    return `<ul>${children.map(item => {
+      const file = staticFileOf(site, item.path);
+      const current = file === currentFile ? ' aria-current="page"' : '';
+      const link = `<a href="${prefix}${file}"${current}>${escapeHtml(item.title)}</a>`;
+      const nested = renderLevel(item.id);
+      if (!nested) return `<li>${link}</li>`;
+      // Keep the branch holding the current page open
+      const open = currentPath && (currentPath === item.path || currentPath.startsWith(`${item.path}/`)) ? ' open' : '';
+      return `<li><details${open}><summary>${link}</summary>${nested}</details></li>`;
+    }).join('')}</ul>`;
+  };
+
+  return renderLevel(null);
+}
+
+/**
+ * One entry per section so results can jump straight to it
+ */
+export function buildSearchIndex(site: StaticSite): StaticSearchEntry[] {
+  return site.items.flatMap(item => {
+    const sections = item.content_json || [];
+    const file = staticFileOf(site, item.path);
+    if (sections.length === 0) {
+      return [{ d: item.title, s: '', h: file, t: '' }];
+    }
+    return sections.map(section => ({
+      d: item.title,
+      s: section.title,
+      h: `${file}#${sectionAnchor(sections, section)}`,
+      t: stripMarkdown(section.content.replace(/<!--[\s\S]*?-->/g, ''))
+    }));
+  });
+}
+
+export function renderSearchIndexScript(entries: StaticSearchEntry[]): string {
+  // Escaping < keeps a </script> inside the text from ending the script early
+  const json = JSON.stringify(entries).replace(/</g, '\\u003c');
+  return `window.WIKI_SEARCH_INDEX = ${json};\n`;
+}
+
+export interface StaticPageOptions {
+  file: string;
+  title: string;
+  siteTitle: string;
+  navigation: string;
+  body: string;
+}
+
+export function renderStaticPage({ file, title, siteTitle, navigation, body }: StaticPageOptions): string {
+  const prefix = rootPrefixFor(file);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · ${escapeHtml(siteTitle)}</title>
+<link rel="stylesheet" href="${prefix}${STATIC_ASSETS.appStyles}">
+<link rel="stylesheet" href="${prefix}${STATIC_ASSETS.siteStyles}">
+</head>
+<body data-root="${prefix}">
+<div class="wiki-shell">
+<aside class="wiki-sidebar">
+<a class="wiki-home" href="${prefix}index.html">${escapeHtml(siteTitle)}</a>
+<div class="wiki-search">
+<input id="wiki-search" type="search" placeholder="Search..." autocomplete="off">
+<ol id="wiki-search-results" hidden></ol>
+</div>
+<nav>${navigation}</nav>
+</aside>
+<main class="wiki-main">
+${body}
+</main>
+</div>
+<script src="${prefix}${STATIC_ASSETS.searchIndex}"></script>
+<script src="${prefix}${STATIC_ASSETS.script}"></script>
+</body>
+</html>
+`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Layout for the exported shell; document content uses the app's own stylesheet
+export const STATIC_SITE_CSS = `body { margin: 0; }
+.wiki-shell { display: flex; min-height: 100vh; }
+.wiki-sidebar { width: 280px; flex-shrink: 0; border-right: 1px solid hsl(var(--border)); padding: 16px; box-sizing: border-box; position: sticky; top: 0; height: 100vh; overflow-y: auto; background: hsl(var(--sidebar-background, var(--background))); }
+.wiki-main { flex: 1; min-width: 0; max-width: 960px; padding: 32px 48px; }
+.wiki-home { display: block; font-weight: 600; margin-bottom: 12px; color: inherit; text-decoration: none; }
+.wiki-sidebar nav ul { list-style: none; margin: 0; padding-left: 12px; }
+.wiki-sidebar nav > ul { padding-left: 0; }
+.wiki-sidebar nav li { margin: 2px 0; font-size: 14px; }
+.wiki-sidebar nav a { color: inherit; text-decoration: none; }
+.wiki-sidebar nav a:hover { text-decoration: underline; }
+.wiki-sidebar nav a[aria-current="page"] { font-weight: 600; color: hsl(var(--hierarchy-hover)); }
+.wiki-sidebar summary { cursor: pointer; }
+.wiki-search { position: relative; margin-bottom: 12px; }
+.wiki-search input { width: 100%; box-sizing: border-box; padding: 6px 8px; border: 1px solid hsl(var(--border)); border-radius: 6px; background: transparent; color: inherit; }
+#wiki-search-results { list-style: none; margin: 4px 0 0; padding: 0; border: 1px solid hsl(var(--border)); border-radius: 6px; max-height: 60vh; overflow-y: auto; background: hsl(var(--background)); }
+#wiki-search-results li a { display: block; padding: 6px 8px; color: inherit; text-decoration: none; font-size: 13px; }
+#wiki-search-results li a:hover { background: hsl(var(--muted)); }
+#wiki-search-results small { display: block; color: hsl(var(--muted-foreground)); }
+.wiki-children { margin-top: 24px; }
+.wiki-children a { color: hsl(var(--hierarchy-hover)); }
+.static-link-missing { text-decoration: line-through; cursor: not-allowed; }
+@media (max-width: 768px) { .wiki-shell { flex-direction: column; } .wiki-sidebar { width: auto; height: auto; position: static; } .wiki-main { padding: 16px; } }
+`;
+
+// Search and section folding for the exported pages; plain ES5 so it runs from file://
+export const STATIC_SITE_SCRIPT = `(function () {
+  var root = document.body.getAttribute('data-root') || '';
+  var index = window.WIKI_SEARCH_INDEX || [];
+  var input = document.getElementById('wiki-search');
+  var results = document.getElementById('wiki-search-results');
+
+  function score(entry, terms) {
+    var total = 0;
+    var section = entry.s.toLowerCase();
+    var documentTitle = entry.d.toLowerCase();
+    var text = entry.t.toLowerCase();
+    for (var i = 0; i < terms.length; i++) {
+      var term = terms[i];
+      var hit = 0;
+      if (section.indexOf(term) !== -1) hit += 5;
+      if (documentTitle.indexOf(term) !== -1) hit += 3;
+      if (text.indexOf(term) !== -1) hit += 1;
+      if (!hit) return 0;
+      total += hit;
+    }
+    return total;
+  }
+
+  function escape(text) {
+    return text.replace(/[&<>"]/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c];
+    });
+  }
+
+  if (input && results) {
+    input.addEventListener('input', function () {
+      var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+      if (!terms.length) {
+        results.hidden = true;
+        results.innerHTML = '';
+        return;
+      }
+      var matches = [];
+      for (var i = 0; i < index.length; i++) {
+        var value = score(index[i], terms);
+        if (value) matches.push({ entry: index[i], score: value });
+      }
+      matches.sort(function (a, b) { return b.score - a.score; });
+      results.innerHTML = matches.slice(0, 20).map(function (match) {
+        var entry = match.entry;
+        return '<li><a href="' + root + entry.h + '">' + escape(entry.s || entry.d) + '<small>' + escape(entry.d) + '</small></a></li>';
+      }).join('') || '<li><a>No results</a></li>';
+      results.hidden = false;
+    });
+  }
+
+  // Chevrons fold a section's content and children, as in the app
+  document.addEventListener('click', function (event) {
+    var button = event.target.closest && event.target.closest('button[aria-label$="section"]');
+    if (!button) return;
+    var section = button.closest('[id]');
+    var body = section && section.children[1];
+    if (!body) return;
+    var collapsed = !body.hidden;
+    body.hidden = collapsed;
+    button.style.transform = collapsed ? 'rotate(-90deg)' : '';
+  });
+})();
+`;
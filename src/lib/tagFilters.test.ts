@@ -0,0 +1,81 @@
+/**
+ * Unit tests for tag taxonomy filtering
+ * Run in browser console: import('/src/lib/tagFilters.test.ts').then(m => m.runAllTests())
+ */
+
+import { countTags, createTagFilter, filterSectionsByTags } from './tagFilters';
+import type { TagCategory } from '../services/tagTaxonomyService';
+
+// Test data
+const category = (id: string, values: string[]): TagCategory => ({
+  id,
+  name: id,
+  order_index: 0,
+  values: values.map((value, index) => ({ id: `${id}-${value}`, category_id: id, value, label: value, order_index: index }))
+});
+
+const taxonomy = [category('market', ['b2b', 'b2c', 'saas']), category('stage', ['early', 'pmf'])];
+
+const sections = [
+  { id: '1', level: 1, tags: [] },
+  { id: '2', level: 2, tags: ['B2C'] },
+  { id: '3', level: 3, tags: ['early'] },
+  { id: '4', level: 2, tags: ['b2b', 'b2c'] },
+  { id: '5', level: 2, tags: ['pmf', 'unlisted'] }
+];
+
+// Test functions
+export function testCreateTagFilter(): { passed: boolean; message: string } {
+  if (createTagFilter(taxonomy, []) !== null || createTagFilter(taxonomy, ['unlisted']) !== null) {
+    return { passed: false, message: 'Nothing should be filtered when no taxonomy value is unchecked' };
+  }
+
+  const filter = createTagFilter(taxonomy, ['b2c', 'pmf'])!;
+  const checks: [string[], boolean][] = [
+    [[], true],
+    [['b2c'], false],
+    [['b2b', 'b2c'], true],
+    [['saas', 'pmf'], false],
+    [['early', 'unlisted'], true]
+  ];
+  const failed = checks.find(([tags, expected]) => filter(tags) !== expected);
+  if (failed) {
+    return { passed: false, message: `Tags [${failed[0].join(', ')}] should be ${failed[1] ? 'shown' : 'hidden'}` };
+  }
+
+  return { passed: true, message: 'Hidden only when every value carried in a category is unchecked' };
+}
+
+export function testFilterSections(): { passed: boolean; message: string } {
+  const filter = createTagFilter(taxonomy, ['b2c', 'pmf'])!;
+  const visible = filterSectionsByTags(sections, filter).map(section => section.id).join();
+
+  if (visible !== '1,4') {
+    return { passed: false, message: `Expected sections 1,4, got ${visible}` };
+  }
+
+  const counts = countTags([sections, [{ tags: ['b2c', 'b2c'] }]]);
+  if (counts.get('b2c') !== 3 || counts.get('b2b') !== 1 || counts.has('B2C')) {
+    return { passed: false, message: `Unexpected counts: ${JSON.stringify([...counts])}` };
+  }
+
+  return { passed: true, message: 'Hidden sections take their subsections with them; counts are per section' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'createTagFilter', fn: testCreateTagFilter },
+    { name: 'filterSections', fn: testFilterSections },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Tag Filter Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,73 @@
+/**
+ * Filtering documents and sections by the tag taxonomy (see the sidebar's
+ * Filters pane).
+ *
+ * Every value starts out checked. Unchecking values hides what is tagged with
+ * them: a section is hidden when, in some category, it carries values of that
+ * category and all of them are unchecked. Sections without any value of a
+ * category are not affected by it, so untagged content always stays visible.
+ * Hiding a section hides its subsections too.
+ */
+
+import type { TagCategory } from '@/services/tagTaxonomyService';
+
+export type TagFilter = (tags: string[]) => boolean;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+/**
+ * A predicate telling whether something with these tags is shown, or null
+ * when no value is unchecked and everything is shown
+ */
+export function createTagFilter(taxonomy: TagCategory[], excludedTags: string[]): TagFilter | null {
+  const excluded = new Set(excludedTags.map(normalizeTag));
+  const categories = taxonomy
+    .map(category => category.values.map(value => normalizeTag(value.value)))
+    .filter(values => values.some(value => excluded.has(value)));
+  if (categories.length === 0) return null;
+
+  return (tags: string[]) => {
+    const normalized = new Set(tags.map(normalizeTag));
+    return categories.every(values => {
+      const carried = values.filter(value => normalized.has(value));
+      return carried.length === 0 || carried.some(value => !excluded.has(value));
+    });
+  };
+}
+
+/**
+ * Drop the sections the filter hides, with their subsections, from a flat
+ * list of sections ordered as in the document
+ */
+export function filterSectionsByTags<T extends { level: number; tags?: string[] }>(sections: T[], filter: TagFilter): T[] {
+  const visible: T[] = [];
+  let hiddenLevel: number | null = null;
+
+  for (const section of sections) {
+    const level = section.level || 1;
+    if (hiddenLevel !== null && level > hiddenLevel) continue;
+    hiddenLevel = null;
+
+    if (filter(section.tags || [])) {
+      visible.push(section);
+    } else {
+      hiddenLevel = level;
+    }
+  }
+  return visible;
+}
+
+/**
+ * How many sections carry each tag, by normalized tag
+ */
+export function countTags(sectionLists: { tags?: string[] }[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const sections of sectionLists) {
+    for (const section of sections) {
+      for (const tag of new Set((section.tags || []).map(normalizeTag))) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for section tag inheritance and tag queries
+ * Run in browser console: import('/src/lib/tagManager.test.ts').then(m => m.runAllTests())
+ */
+
+import { TagManager } from './tagManager';
+import type { DocumentSection, WikiDocument } from '../services/contentService';
+
+// Test data
+const section = (id: string, level: number, tags: string[]): DocumentSection => ({
+  id, title: `Section ${id}`, level, content: '', tags
+});
+
+const document = (id: string, tags: string[], sections: DocumentSection[]) => ({
+  id, title: `Doc ${id}`, path: `/doc-${id}`, tags, content_json: sections
+}) as WikiDocument;
+
+const sections = [
+  section('1', 1, ['Pitfalls']),
+  section('2', 2, ['b2b', 'pitfalls']),
+  section('3', 3, ['!b2b']),
+  section('4', 2, ['!*', 'saas']),
+  section('5', 3, []),
+  section('6', 1, [])
+];
+
+const documents = [
+  document('a', ['Pitfalls', 'b2b', 'saas'], sections),
+  document('b', ['b2b'], [section('1', 1, ['B2B'])]),
+  document('c', ['saas'], [])
+];
+
+// Test functions
+export function testSectionTags(): { passed: boolean; message: string } {
+  const tags = TagManager.getSectionTags(sections);
+  const expected = [
+    ['Pitfalls'],
+    ['b2b', 'pitfalls'],
+    ['pitfalls'],
+    ['saas'],
+    ['saas'],
+    []
+  ];
+
+  const failed = tags.findIndex((entry, i) => entry.effective.join() !== expected[i].join());
+  if (failed !== -1) {
+    return { passed: false, message: `Section ${tags[failed].sectionId}: expected [${expected[failed].join(', ')}], got [${tags[failed].effective.join(', ')}]` };
+  }
+
+  if (tags[1].inherited.length !== 0 || tags[2].own.length !== 0 || tags[2].inherited.join() !== 'pitfalls') {
+    return { passed: false, message: 'Own tags should win over inherited ones and opt-out markers are not tags' };
+  }
+
+  return { passed: true, message: 'Tags inherit by heading level, "!tag" and "!*" opt out' };
+}
+
+export function testQuerySections(): { passed: boolean; message: string } {
+  const ids = (result: { documentId: string; sectionId: string }[]) =>
+    result.map(entry => `${entry.documentId}${entry.sectionId}`).join();
+
+  const b2b = ids(TagManager.querySections(documents, { includeTags: ['b2b'], excludeTags: [] }));
+  if (b2b !== 'a2,b1') {
+    return { passed: false, message: `Expected a2,b1 for b2b, got ${b2b}` };
+  }
+
+  const both = ids(TagManager.querySections(documents, { includeTags: ['pitfalls', 'b2b'], excludeTags: [], matchAll: true }));
+  if (both !== 'a2') {
+    return { passed: false, message: `Expected a2 for pitfalls and b2b, got ${both}` };
+  }
+
+  const index = TagManager.buildSectionTagIndex(documents);
+  if (index.get('pitfalls')?.length !== 3 || index.has('!b2b') || index.has('!*')) {
+    return { passed: false, message: `Unexpected index keys: ${[...index.keys()].join(', ')}` };
+  }
+
+  return { passed: true, message: 'Queries and the tag index use effective section tags' };
+}
+
+export function testFilterNodes(): { passed: boolean; message: string } {
+  const matched = TagManager.filterNodes(documents, { includeTags: ['saas'], excludeTags: [] }).map(doc => doc.id).join();
+  if (matched !== 'a,c') {
+    return { passed: false, message: `Expected a,c for saas, got ${matched}` };
+  }
+
+  const excluded = TagManager.filterNodes(documents, { includeTags: [], excludeTags: ['b2b'] }).map(doc => doc.id).join();
+  if (excluded !== 'a,c') {
+    return { passed: false, message: `Expected a,c without b2b, got ${excluded}` };
+  }
+
+  return { passed: true, message: 'Documents match when one of their sections does' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'sectionTags', fn: testSectionTags },
+    { name: 'querySections', fn: testQuerySections },
+    { name: 'filterNodes', fn: testFilterNodes },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Tag Manager Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -1,8 +1,44 @@
-import { ContentService, WikiDocument } from "@/services/contentService";
+import { ContentService, DocumentSection, WikiDocument } from "@/services/contentService";
 
 export interface TagFilter {
   includeTags: string[];
   excludeTags: string[];
+  // Require every include tag instead of any of them
+  matchAll?: boolean;
+}
+
+/**
+ * Sections inherit the tags of the sections above them. Written among a
+ * section's own tags, "!tag" stops one tag from being inherited and "!*"
+ * stops all of them; subsections inherit what is left.
+ */
+export const INHERIT_NONE = '!*';
+
+const isOptOut = (tag: string) => tag.startsWith('!');
+const normalize = (tag: string) => tag.trim().toLowerCase();
+
+export interface SectionTags {
+  sectionId: string;
+  // As written on the section, without opt-out markers
+  own: string[];
+  inherited: string[];
+  // own and inherited
+  effective: string[];
+}
+
+/**
+ * A section with its effective tags, as returned by tag queries
+ */
+export interface TaggedSection {
+  documentId: string;
+  documentTitle: string;
+  documentPath: string;
+  sectionId: string;
+  sectionTitle: string;
+  level: number;
+  ownTags: string[];
+  inheritedTags: string[];
+  tags: string[];
 }
 
 export class TagManager {
@@ -10,12 +46,113 @@ export class TagManager {
     const tags = new Set<string>();
     
     nodes.forEach(doc => {
-      doc.tags?.forEach(tag => tags.add(tag));
+      this.ownTags(doc.tags || []).forEach(tag => tags.add(tag));
     });
     
     return Array.from(tags).sort();
   }
 
+  /**
+   * Tags without the opt-out markers
+   */
+  static ownTags(tags: string[]): string[] {
+    return tags.filter(tag => !isOptOut(tag));
+  }
+
+  /**
+   * Own, inherited and effective tags of each section of a document, in
+   * document order. Tags are compared case-insensitively and keep the
+   * spelling they were first written with.
+   */
+  static getSectionTags(sections: DocumentSection[]): SectionTags[] {
+    const result: SectionTags[] = [];
+    const stack: { level: number; effective: string[] }[] = [];
+
+    for (const section of sections) {
+      const level = section.level || 1;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+
+      const written = section.tags || [];
+      const optedOut = new Set(written.filter(isOptOut).map(tag => normalize(tag.slice(1))));
+      const own = this.dedupe(this.ownTags(written));
+      const ownKeys = new Set(own.map(normalize));
+      const parent = stack[stack.length - 1];
+      const inherited = !parent || optedOut.has('*')
+        ? []
+        : parent.effective.filter(tag => !optedOut.has(normalize(tag)) && !ownKeys.has(normalize(tag)));
+      const effective = [...own, ...inherited];
+
+      result.push({ sectionId: section.id, own, inherited, effective });
+      stack.push({ level, effective });
+    }
+    return result;
+  }
+
+  /**
+   * Sections across all documents whose effective tags pass the filter
+   */
+  static querySections(nodes: WikiDocument[], filter: TagFilter): TaggedSection[] {
+    return this.listTaggedSections(nodes).filter(section => this.matchesFilter(section.tags, filter));
+  }
+
+  /**
+   * Every tag in use, by lowercase tag, with the sections carrying it
+   * directly or by inheritance
+   */
+  static buildSectionTagIndex(nodes: WikiDocument[]): Map<string, TaggedSection[]> {
+    const index = new Map<string, TaggedSection[]>();
+    for (const section of this.listTaggedSections(nodes)) {
+      for (const tag of section.tags) {
+        const key = normalize(tag);
+        if (!index.has(key)) index.set(key, []);
+        index.get(key)!.push(section);
+      }
+    }
+    return index;
+  }
+
+  private static listTaggedSections(nodes: WikiDocument[]): TaggedSection[] {
+    return nodes.flatMap(doc => {
+      const sections = doc.content_json || [];
+      const tagsById = new Map(this.getSectionTags(sections).map(tags => [tags.sectionId, tags]));
+      return sections.map(section => {
+        const tags = tagsById.get(section.id)!;
+        return {
+          documentId: doc.id,
+          documentTitle: doc.title,
+          documentPath: doc.path,
+          sectionId: section.id,
+          sectionTitle: section.title,
+          level: section.level || 1,
+          ownTags: tags.own,
+          inheritedTags: tags.inherited,
+          tags: tags.effective
+        };
+      });
+    });
+  }
+
+  private static matchesFilter(tags: string[], filter: TagFilter): boolean {
+    const carried = new Set(tags.map(normalize));
+    if (filter.excludeTags.some(tag => carried.has(normalize(tag)))) return false;
+    if (filter.includeTags.length === 0) return true;
+    return filter.matchAll
+      ? filter.includeTags.every(tag => carried.has(normalize(tag)))
+      : filter.includeTags.some(tag => carried.has(normalize(tag)));
+  }
+
+  private static dedupe(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags.filter(tag => {
+      const key = normalize(tag);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
   static buildTagIndex(nodes: WikiDocument[]): Map<string, string[]> {
     const tagIndex = new Map<string, string[]>();
     
@@ -60,17 +197,12 @@ export class TagManager {
       return nodes;
     }
 
+    // A document matches when one of its sections does; documents without
+    // sections are matched on their own tags
     return nodes.filter(doc => {
-      const docTags = doc.tags || [];
-      
-      // Check if document should be excluded
-      const shouldExclude = excludeTags.some(tag => docTags.includes(tag));
-      if (shouldExclude) return false;
-      
-      // Check if document matches include filter (if any include tags are specified)
-      const matchesInclude = includeTags.length === 0 || includeTags.some(tag => docTags.includes(tag));
-      
-      return matchesInclude;
+      const sections = doc.content_json || [];
+      if (sections.length === 0) return this.matchesFilter(this.ownTags(doc.tags || []), filter);
+      return this.getSectionTags(sections).some(tags => this.matchesFilter(tags.effective, filter));
     });
   }
 
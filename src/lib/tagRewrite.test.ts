@@ -0,0 +1,74 @@
+/**
+ * Unit tests for bulk tag edits
+ * Run in browser console: import('/src/lib/tagRewrite.test.ts').then(m => m.runAllTests())
+ */
+
+import { planTagRewrite, rewriteTags } from './tagRewrite';
+import type { DocumentSection, WikiDocument } from '../services/contentService';
+
+// Test data
+const section = (id: string, tags: string[]): DocumentSection => ({
+  id, title: `Section ${id}`, level: 1, content: '', tags
+});
+
+const documents = [
+  { id: 'a', title: 'Doc a', path: '/a', tags: ['tips', 'Tips', 'b2b'], content_json: [section('1', ['tips']), section('2', ['Tips', 'b2b']), section('3', ['!tips'])] },
+  { id: 'b', title: 'Doc b', path: '/b', tags: ['b2b'], content_json: [section('1', ['b2b'])] },
+  { id: 'c', title: 'Doc c', path: '/c', tags: ['Tips'], content_json: [] }
+] as WikiDocument[];
+
+// Test functions
+export function testRewriteTags(): { passed: boolean; message: string } {
+  const checks: [string, string[], string][] = [
+    ['rename', rewriteTags(['tips', 'b2b'], { kind: 'rename', tag: 'tips', to: 'hints' }), 'hints,b2b'],
+    ['rename is exact', rewriteTags(['Tips'], { kind: 'rename', tag: 'tips', to: 'hints' }), 'Tips'],
+    ['merge', rewriteTags(['Tips', 'b2b', 'tips'], { kind: 'merge', tags: ['tips', 'Tips'], into: 'tips' }), 'tips,b2b'],
+    ['split', rewriteTags(['minor tips'], { kind: 'split', tag: 'minor tips', into: ['minor', 'tips'] }), 'minor,tips'],
+    ['delete', rewriteTags(['tips', 'b2b'], { kind: 'delete', tags: ['tips'] }), 'b2b'],
+    ['opt-outs follow', rewriteTags(['!tips', '!*'], { kind: 'rename', tag: 'tips', to: 'hints' }), '!hints,!*']
+  ];
+
+  const failed = checks.find(([, actual, expected]) => actual.join() !== expected);
+  if (failed) {
+    return { passed: false, message: `${failed[0]}: expected ${failed[2]}, got ${failed[1].join()}` };
+  }
+
+  return { passed: true, message: 'Rename, merge, split and delete rewrite tags as written' };
+}
+
+export function testPlanTagRewrite(): { passed: boolean; message: string } {
+  const plan = planTagRewrite(documents, { kind: 'merge', tags: ['tips', 'Tips'], into: 'tips' });
+
+  const ids = plan.documents.map(change => change.document.id).join();
+  if (ids !== 'a,c' || plan.sectionCount !== 1) {
+    return { passed: false, message: `Expected a and c with 1 section, got ${ids} with ${plan.sectionCount}` };
+  }
+
+  const [a, c] = plan.documents;
+  if (a.tags.join() !== 'tips,b2b' || a.sections[1].tags.join() !== 'tips,b2b' || a.sections[0] !== documents[0].content_json[0]) {
+    return { passed: false, message: 'Only the changed sections should be rewritten' };
+  }
+  if (c.tags.join() !== 'tips' || c.changedSections.length !== 0) {
+    return { passed: false, message: 'Document tags should be rewritten without sections' };
+  }
+
+  return { passed: true, message: 'The plan lists each changed document and section' };
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'rewriteTags', fn: testRewriteTags },
+    { name: 'planTagRewrite', fn: testPlanTagRewrite },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Tag Rewrite Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
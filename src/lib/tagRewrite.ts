@@ -0,0 +1,101 @@
+import type { DocumentSection, WikiDocument } from "@/services/contentService";
+
+/**
+ * Bulk tag edits across the wiki (see the tag management console): renaming,
+ * merging, splitting and deleting tags in every section and document that
+ * carries them.
+ *
+ * Tags are matched exactly as written, so "tips" and "Tips" can be merged into
+ * one. Inheritance opt-outs follow their tag: renaming "tips" turns "!tips"
+ * into "!hints", and deleting it removes "!tips" too.
+ */
+
+export type TagOperation =
+  | { kind: 'rename'; tag: string; to: string }
+  | { kind: 'merge'; tags: string[]; into: string }
+  | { kind: 'split'; tag: string; into: string[] }
+  | { kind: 'delete'; tags: string[] };
+
+export interface SectionTagChange {
+  sectionId: string;
+  sectionTitle: string;
+  before: string[];
+  after: string[];
+}
+
+export interface DocumentTagChange {
+  document: WikiDocument;
+  // The document's tags and sections once rewritten
+  tags: string[];
+  sections: DocumentSection[];
+  changedSections: SectionTagChange[];
+}
+
+export interface TagRewritePlan {
+  operation: TagOperation;
+  documents: DocumentTagChange[];
+  sectionCount: number;
+}
+
+/**
+ * The tags an operation replaces, each with what it becomes (nothing for deletes)
+ */
+function replacements(operation: TagOperation): Map<string, string[]> {
+  switch (operation.kind) {
+    case 'rename':
+      return new Map([[operation.tag, [operation.to]]]);
+    case 'merge':
+      return new Map(operation.tags.map(tag => [tag, [operation.into]]));
+    case 'split':
+      return new Map([[operation.tag, operation.into]]);
+    case 'delete':
+      return new Map(operation.tags.map(tag => [tag, []]));
+  }
+}
+
+/**
+ * Apply an operation to one list of tags, keeping the order and dropping
+ * duplicates it creates
+ */
+export function rewriteTags(tags: string[], operation: TagOperation): string[] {
+  const replaced = replacements(operation);
+  const rewritten = tags.flatMap(tag => {
+    const optOut = tag.startsWith('!') && tag !== '!*';
+    const name = optOut ? tag.slice(1) : tag;
+    const replacement = replaced.get(name);
+    if (!replacement) return [tag];
+    return replacement.map(value => (optOut ? `!${value}` : value));
+  });
+  return [...new Set(rewritten.map(tag => tag.trim()).filter(Boolean))];
+}
+
+/**
+ * Work out which documents and sections an operation changes. Nothing is written.
+ */
+export function planTagRewrite(documents: WikiDocument[], operation: TagOperation): TagRewritePlan {
+  const changes: DocumentTagChange[] = [];
+
+  for (const document of documents) {
+    const changedSections: SectionTagChange[] = [];
+    const sections = (document.content_json || []).map(section => {
+      const before = section.tags || [];
+      const after = rewriteTags(before, operation);
+      if (after.join('\n') === before.join('\n')) return section;
+
+      changedSections.push({ sectionId: section.id, sectionTitle: section.title, before, after });
+      return { ...section, tags: after };
+    });
+
+    const tags = rewriteTags(document.tags || [], operation);
+    if (changedSections.length > 0 || tags.join('\n') !== (document.tags || []).join('\n')) {
+      changes.push({ document, tags, sections, changedSections });
+    }
+  }
+
+  return {
+    operation,
+    documents: changes,
+    sectionCount: changes.reduce((count, change) => count + change.changedSections.length, 0)
+  };
+}
+
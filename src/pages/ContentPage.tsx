@@ -1,15 +1,33 @@
-import React, { useEffect, useReducer, useCallback } from "react";
+import React, { useEffect, useReducer, useCallback, useState, useRef } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { PageBreadcrumb } from "@/components/PageBreadcrumb";
 import { SimpleFilterPanel } from "@/components/SimpleFilterPanel";
 import { BlockNoteSectionEditor } from "@/components/editor";
 import { HierarchicalContentDisplay } from "@/components/HierarchicalContentDisplay";
 import { FolderLandingPage } from "@/components/FolderLandingPage";
+import { RevisionHistoryPanel } from "@/components/RevisionHistoryPanel";
+import { RelatedSections } from "@/components/RelatedSections";
+import { LinkedFromPanel } from "@/components/LinkedFromPanel";
+import { InternalLinkPreview } from "@/components/InternalLinkPreview";
+import { LinkCheckService } from "@/services/linkCheckService";
+import { LinkRewriteResult, LinkRewriteService } from "@/services/linkRewriteService";
+import { ItemUpdate } from "@/services/storage";
+import { SectionTagPicker } from "@/components/SectionTagPicker";
+import { SaveConflictDialog } from "@/components/SaveConflictDialog";
+import { DocumentPresence } from "@/components/DocumentPresence";
+import { Button } from "@/components/ui/button";
 import { useLayoutContext } from "@/components/PersistentLayout";
-import { NavigationNode, WikiDocument, ContentService, DocumentSection } from "@/services/contentService";
+import { NavigationNode, WikiDocument, ContentService, DocumentSection, ContentItem } from "@/services/contentService";
 import { extractSectionFullContent } from "@/lib/sectionContentExtractor";
 import { resolveInternalLink } from "@/lib/internalLinkResolver";
+import { convertSectionsToMarkdown } from "@/lib/sectionUtils";
+import { buildSectionMerge, SectionMerge } from "@/lib/sectionMerge";
+import { diffSections, hasChanges } from "@/lib/sectionDiff";
 import { SectionViewData } from "@/hooks/useNavigationState";
+import { useContentChanges } from "@/hooks/useContentChanges";
+import { useDocumentPresence } from "@/hooks/useDocumentPresence";
+import { History, Printer } from "lucide-react";
+import { toast } from "sonner";
 
 /**
  * ContentPage - Main content display component
@@ -78,22 +96,23 @@ const contentPageReducer = (state: ContentPageState, action: ContentPageAction):
   }
 };
 
-// Helper: Convert sections to markdown
-const convertSectionsToMarkdown = (sections: DocumentSection[]): string => {
-  if (!sections || sections.length === 0) return "";
-
-  return sections
-    .map((section) => {
-      const headerLevel = "#".repeat(Math.max(1, section.level));
-      const tags = section.tags?.length > 0 ? ` [${section.tags.join(", ")}]` : "";
-      return `${headerLevel} ${section.title}${tags}\n\n${section.content || ""}\n\n`;
-    })
-    .join("")
-    .trim();
-};
-
 const ContentPage: React.FC = () => {
   const [state, dispatch] = useReducer(contentPageReducer, initialState);
+  const [showHistory, setShowHistory] = useState(false);
+  const [saveConflict, setSaveConflict] = useState<SectionMerge | null>(null);
+  const [brokenLinks, setBrokenLinks] = useState<Set<string>>(new Set());
+  // Bumped once a conflict is settled, so the open editor starts over from the reloaded sections
+  const [editorGeneration, setEditorGeneration] = useState(0);
+
+  // Optimistic concurrency: the version and sections the editor's changes are based on.
+  // Saves are queued so an autosave never races the previous one with a stale version.
+  const baseVersionRef = useRef<number | null>(null);
+  const baseSectionsRef = useRef<DocumentSection[]>([]);
+  const remoteVersionRef = useRef<number | null>(null);
+  const remoteSectionsRef = useRef<DocumentSection[]>([]);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // The sections before the first save since the editor opened, whose titles the editor's own links may still use
+  const editStartRef = useRef<{ documentId: string; sections: DocumentSection[] } | null>(null);
   const {
     showEditor,
     showFilters,
@@ -110,6 +129,8 @@ const ContentPage: React.FC = () => {
     showDescriptions,
     descriptionOverrides,
     setDescriptionOverride,
+    tagTaxonomy,
+    tagFilter,
   } = useLayoutContext();
 
   const location = useLocation();
@@ -282,6 +303,79 @@ const ContentPage: React.FC = () => {
     [state.pageData, navigateToSectionByTitle, navigate],
   );
 
+  /**
+   * Open a section suggested by the related sections panel
+   */
+  const handleRelatedSectionClick = useCallback(
+    (documentPath: string, sectionId: string, sectionTitle: string) => {
+      if (state.pageData?.type === "document" && state.pageData.document.path === documentPath) {
+        navigateToSectionByTitle(sectionTitle);
+      } else {
+        navigate(`${documentPath}#${sectionId}`);
+      }
+    },
+    [state.pageData, navigateToSectionByTitle, navigate],
+  );
+
+  // Each load from the database resets what the next save is based on
+  useEffect(() => {
+    if (state.pageData?.type === "document") {
+      baseVersionRef.current = state.pageData.document.version;
+      baseSectionsRef.current = state.pageData.sections;
+    }
+  }, [state.pageData]);
+
+  // Links on the page that lead nowhere, checked again after every save
+  const openDocument = state.pageData?.type === "document" ? state.pageData.document : null;
+  useEffect(() => {
+    setBrokenLinks(new Set());
+    if (!openDocument) return;
+
+    let cancelled = false;
+    LinkCheckService.getBrokenTargets(openDocument).then((targets) => {
+      if (!cancelled) setBrokenLinks(targets);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [openDocument]);
+
+  /**
+   * Realtime updates for the open document.
+   * Waits for queued saves so our own saves (already reflected in baseVersionRef) are ignored.
+   */
+  useContentChanges((event) => {
+    if (!state.pageData || state.pageData.type !== "document") return;
+    const { id, path } = state.pageData.document;
+    if (event.id !== id) return;
+
+    saveQueueRef.current.then(() => {
+      if (event.type === "DELETE") {
+        toast.warning("This document was deleted elsewhere");
+        loadCurrentPageData(path);
+        return;
+      }
+
+      if (event.version === null || event.version <= (baseVersionRef.current ?? 0)) return;
+
+      if (showEditor) {
+        // Don't replace the editor content; the next save detects the conflict and offers a merge
+        toast.info("Someone else just saved this document");
+      } else {
+        loadCurrentPageData(path);
+      }
+    });
+  });
+
+  const presencePeers = useDocumentPresence(
+    state.pageData?.type === "document" ? state.pageData.document.path : null,
+    {
+      mode: showEditor ? "editing" : "viewing",
+      sectionId: navigation.sectionId,
+      sectionTitle: navigation.sectionTitle,
+    },
+  );
+
   // Register section navigation handler with layout context
   useEffect(() => {
     setSectionNavigateHandler(navigateToSectionByTitle);
@@ -409,9 +503,10 @@ const ContentPage: React.FC = () => {
         filtered = filtered.filter(
           (doc) =>
             doc.title.toLowerCase().includes(term) ||
-            convertSectionsToMarkdown(doc.content_json || [])
-              .toLowerCase()
-              .includes(term),
+            // Section text without the heading markup, whose anchors would match too
+            (doc.content_json || []).some((section) =>
+              [section.title, section.content, ...(section.tags || [])].some((text) => text?.toLowerCase().includes(term)),
+            ),
         );
       }
 
@@ -425,20 +520,159 @@ const ContentPage: React.FC = () => {
     }
   };
 
+  // Open the merge dialog for a rejected save, unless the saved version already matches ours
+  const handleSaveConflict = (localSections: DocumentSection[], remote: ContentItem) => {
+    const remoteSections = remote.content_json || [];
+
+    if (!hasChanges(diffSections(remoteSections, localSections))) {
+      remoteVersionRef.current = null;
+      baseVersionRef.current = remote.version;
+      baseSectionsRef.current = remoteSections;
+      setSaveConflict(null);
+      return;
+    }
+
+    remoteVersionRef.current = remote.version;
+    remoteSectionsRef.current = remoteSections;
+    setSaveConflict(buildSectionMerge(baseSectionsRef.current, localSections, remoteSections));
+  };
+
   // Editor save handler
-  const handleEditorSave = async (sections: DocumentSection[], skipReload = false) => {
+  const handleEditorSave = (sections: DocumentSection[], skipReload = false) => {
     if (!state.pageData || state.pageData.type !== "document") return;
+    const documentPath = state.pageData.document.path;
+    const documentId = state.pageData.document.id;
 
-    try {
-      await ContentService.saveDocumentContent(state.pageData.document.path, sections);
-      onStructureUpdate();
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      if (editStartRef.current?.documentId !== documentId) {
+        editStartRef.current = { documentId, sections: baseSectionsRef.current };
+      }
+
+      // Hold autosaves while a conflict is being resolved; the merge is saved explicitly
+      if (remoteVersionRef.current !== null) return;
+
+      try {
+        const result = await ContentService.saveDocumentContent(
+          documentPath,
+          sections,
+          baseVersionRef.current ?? undefined,
+          editStartRef.current.sections,
+        );
+
+        if (result.status === "conflict" && result.remote) {
+          handleSaveConflict(sections, result.remote);
+          return;
+        }
+
+        if (result.status === "saved") {
+          baseVersionRef.current = result.version ?? baseVersionRef.current;
+          baseSectionsRef.current = sections;
+          if (result.linkRewrite && result.linkRewrite.linkCount > 0) {
+            showLinkRewrite(result.linkRewrite, documentId, documentPath);
+          }
+        } else {
+          toast.error("Failed to save document");
+        }
+
+        onStructureUpdate();
 
-      if (!skipReload) {
-        await loadCurrentPageData(state.pageData.document.path);
+        if (!skipReload) {
+          await loadCurrentPageData(documentPath);
+        }
+      } catch (error) {
+        console.error("Error saving document:", error);
       }
-    } catch (error) {
-      console.error("Error saving document:", error);
+    });
+  };
+
+  const handleEditorClose = () => {
+    setShowEditor(false);
+    // After the editor's last save
+    saveQueueRef.current = saveQueueRef.current.then(() => {
+      editStartRef.current = null;
+    });
+  };
+
+  // One toast per document, replaced by later saves that rename sections again
+  const showLinkRewrite = (result: LinkRewriteResult, documentId: string, path: string) => {
+    toast.success(
+      `Updated ${result.linkCount} link${result.linkCount === 1 ? "" : "s"} in ${result.sectionCount} section${result.sectionCount === 1 ? "" : "s"}`,
+      {
+        id: `link-rewrite-${documentId}`,
+        description: "Links to the renamed sections follow the new titles",
+        action: { label: "Undo", onClick: () => handleUndoLinkRewrite(result.undo, documentId, path) },
+      },
+    );
+  };
+
+  const handleUndoLinkRewrite = (undo: ItemUpdate[], documentId: string, path: string) => {
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      if (!(await LinkRewriteService.undo(undo))) {
+        toast.error("The links were edited since and were not restored");
+        return;
+      }
+
+      // Later saves from an open editor leave the restored links alone
+      const restored = undo.find((change) => change.id === documentId)?.updates.content_json;
+      if (restored && editStartRef.current?.documentId === documentId) {
+        editStartRef.current = { documentId, sections: restored };
+      }
+      toast.success("Links restored");
+      await loadCurrentPageData(path);
+      onStructureUpdate();
+    });
+  };
+
+  // Tags picked for the section being viewed are saved like any other edit
+  const handleSectionTagsChange = (sectionId: string, tags: string[]) => {
+    if (!state.pageData || state.pageData.type !== "document") return;
+    handleEditorSave(state.pageData.sections.map((section) => (section.id === sectionId ? { ...section, tags } : section)));
+  };
+
+  // Save the merged sections on top of the version that caused the conflict
+  const handleConflictResolve = async (sections: DocumentSection[]) => {
+    if (!state.pageData || state.pageData.type !== "document") return;
+    const documentPath = state.pageData.document.path;
+
+    const result = await ContentService.saveDocumentContent(documentPath, sections, remoteVersionRef.current ?? undefined);
+
+    if (result.status === "conflict" && result.remote) {
+      // Saved again in the meantime - merge against the newest version
+      baseSectionsRef.current = remoteSectionsRef.current;
+      handleSaveConflict(sections, result.remote);
+      toast.warning("The document changed again, please review the new version");
+      return;
+    }
+
+    if (result.status !== "saved") {
+      toast.error("Failed to save merged document");
+      return;
     }
+
+    remoteVersionRef.current = null;
+    setSaveConflict(null);
+    toast.success("Merged version saved");
+    onStructureUpdate();
+    await loadCurrentPageData(documentPath);
+    setEditorGeneration((generation) => generation + 1);
+  };
+
+  // Drop local edits and continue from the saved version
+  const handleConflictDiscard = async () => {
+    if (!state.pageData || state.pageData.type !== "document") return;
+
+    remoteVersionRef.current = null;
+    setSaveConflict(null);
+    await loadCurrentPageData(state.pageData.document.path);
+    setEditorGeneration((generation) => generation + 1);
+  };
+
+  // Reload after a revision restore so the view and sidebar reflect the restored content
+  const handleRevisionRestored = async () => {
+    if (!state.pageData || state.pageData.type !== "document") return;
+
+    onStructureUpdate();
+    await loadCurrentPageData(state.pageData.document.path);
   };
 
   // Create document handler
@@ -464,9 +698,9 @@ const ContentPage: React.FC = () => {
         },
       ];
 
-      const success = await ContentService.saveDocumentContent(documentPath, initialSections);
+      const result = await ContentService.saveDocumentContent(documentPath, initialSections);
 
-      if (success) {
+      if (result.status === "saved") {
         navigate(documentPath);
         setShowEditor(true);
       }
@@ -502,6 +736,11 @@ const ContentPage: React.FC = () => {
 
     // Document page
     const { document, sections } = state.pageData;
+    const viewedSection = navigation.sectionView && navigation.sectionId
+      ? sections.find((section) => section.id === navigation.sectionId)
+      : undefined;
+    // Links in the section view still resolve against the whole document
+    const linkableDocument = { id: document.id, title: document.title, path: document.path, sections };
 
     return (
       <div className="space-y-6">
@@ -516,8 +755,64 @@ const ContentPage: React.FC = () => {
           onSectionNavigate={navigateToSectionByTitle}
         />
 
+        {/* Document actions */}
+        {!showEditor && (
+          <div className="flex items-center justify-end gap-2 -mb-4">
+            <DocumentPresence peers={presencePeers} />
+            {viewedSection && (
+              <SectionTagPicker
+                tags={viewedSection.tags || []}
+                taxonomy={tagTaxonomy}
+                onChange={(tags) => handleSectionTagsChange(viewedSection.id, tags)}
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(true)}
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+              title="Revision history"
+            >
+              <History className="w-3.5 h-3.5 mr-1" />
+              History
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                navigate(`/_/print${document.path}${navigation.sectionView && navigation.sectionId ? `?section=${encodeURIComponent(navigation.sectionId)}` : ""}`)
+              }
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+              title={navigation.sectionView ? "Print this section or save it as PDF" : "Print or save as PDF"}
+            >
+              <Printer className="w-3.5 h-3.5 mr-1" />
+              Print
+            </Button>
+          </div>
+        )}
+
+        <RevisionHistoryPanel
+          documentId={document.id}
+          documentTitle={document.title}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestored={handleRevisionRestored}
+        />
+
+        <SaveConflictDialog
+          merge={saveConflict}
+          onResolve={handleConflictResolve}
+          onDiscardLocal={handleConflictDiscard}
+        />
+
         {showEditor ? (
-          <BlockNoteSectionEditor sections={sections} onSave={handleEditorSave} onClose={() => setShowEditor(false)} />
+          <BlockNoteSectionEditor
+            key={editorGeneration}
+            sections={sections}
+            onSave={handleEditorSave}
+            onClose={handleEditorClose}
+            headerAccessory={<DocumentPresence peers={presencePeers} />}
+          />
         ) : navigation.sectionView ? (
           // Showing a specific section
           <div className="space-y-4">
@@ -532,35 +827,66 @@ const ContentPage: React.FC = () => {
                 return title;
               })()}
             </h1>
-            <HierarchicalContentDisplay
-              content={navigation.sectionView.content}
-              onSectionClick={navigateToSectionByTitle}
-              onInternalLinkClick={handleInternalLinkClick}
-              activeNodeId={navigation.sectionId || undefined}
-              documentTitle={navigation.sectionView.title}
-              expandedSections={expandMode === "mixed" ? manualOverrides : undefined}
-              defaultExpandDepth={expandMode === "depth" ? expandDepth : undefined}
-              onToggleSection={handleSectionToggle}
-              showDescriptions={showDescriptions}
-              descriptionOverrides={descriptionOverrides}
-              onToggleDescription={handleDescriptionToggle}
-            />
+            <InternalLinkPreview document={linkableDocument} refreshKey={document.version} onOpen={handleInternalLinkClick}>
+              <HierarchicalContentDisplay
+                content={navigation.sectionView.content}
+                onSectionClick={navigateToSectionByTitle}
+                onInternalLinkClick={handleInternalLinkClick}
+                activeNodeId={navigation.sectionId || undefined}
+                documentTitle={navigation.sectionView.title}
+                expandedSections={expandMode === "mixed" ? manualOverrides : undefined}
+                defaultExpandDepth={expandMode === "depth" ? expandDepth : undefined}
+                onToggleSection={handleSectionToggle}
+                showDescriptions={showDescriptions}
+                descriptionOverrides={descriptionOverrides}
+                onToggleDescription={handleDescriptionToggle}
+                sectionFilter={tagFilter}
+                brokenLinks={brokenLinks}
+              />
+            </InternalLinkPreview>
+            {navigation.sectionId && (
+              <LinkedFromPanel
+                itemId={document.id}
+                sectionId={navigation.sectionId}
+                currentDocumentPath={document.path}
+                refreshKey={document.version}
+                onNavigate={handleRelatedSectionClick}
+              />
+            )}
+            {navigation.sectionId && (
+              <RelatedSections
+                itemId={document.id}
+                sectionId={navigation.sectionId}
+                currentDocumentPath={document.path}
+                onNavigate={handleRelatedSectionClick}
+              />
+            )}
           </div>
         ) : (
           // Showing full document
           <div className="space-y-6">
-            <HierarchicalContentDisplay
-              content={convertSectionsToMarkdown(sections)}
-              onSectionClick={navigateToSectionByTitle}
-              onInternalLinkClick={handleInternalLinkClick}
-              activeNodeId={navigation.sectionId || undefined}
-              documentTitle={document.title}
-              expandedSections={expandMode === "mixed" ? manualOverrides : undefined}
-              defaultExpandDepth={expandMode === "depth" ? expandDepth : undefined}
-              onToggleSection={handleSectionToggle}
-              showDescriptions={showDescriptions}
-              descriptionOverrides={descriptionOverrides}
-              onToggleDescription={handleDescriptionToggle}
+            <InternalLinkPreview document={linkableDocument} refreshKey={document.version} onOpen={handleInternalLinkClick}>
+              <HierarchicalContentDisplay
+                content={convertSectionsToMarkdown(sections)}
+                onSectionClick={navigateToSectionByTitle}
+                onInternalLinkClick={handleInternalLinkClick}
+                activeNodeId={navigation.sectionId || undefined}
+                documentTitle={document.title}
+                expandedSections={expandMode === "mixed" ? manualOverrides : undefined}
+                defaultExpandDepth={expandMode === "depth" ? expandDepth : undefined}
+                onToggleSection={handleSectionToggle}
+                showDescriptions={showDescriptions}
+                descriptionOverrides={descriptionOverrides}
+                onToggleDescription={handleDescriptionToggle}
+                sectionFilter={tagFilter}
+                brokenLinks={brokenLinks}
+              />
+            </InternalLinkPreview>
+            <LinkedFromPanel
+              itemId={document.id}
+              currentDocumentPath={document.path}
+              refreshKey={document.version}
+              onNavigate={handleRelatedSectionClick}
             />
           </div>
         )}
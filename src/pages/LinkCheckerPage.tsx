@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLayoutContext } from "@/components/PersistentLayout";
+import { LinkCheckService } from "@/services/linkCheckService";
+import { LinkProblem, LinkProblemKind, toRepair } from "@/lib/linkCheck";
+import { parseRubric } from "@/lib/rubricConfig";
+
+const KIND_LABELS: Record<LinkProblemKind, string> = {
+  "broken-document": "Missing page",
+  "broken-section": "Missing section",
+  ambiguous: "Ambiguous",
+};
+
+// Links with the same target in the same section are repaired together
+const problemKey = (problem: LinkProblem) =>
+  `${problem.link.sourceDocumentId}/${problem.link.sourceSectionId}/${problem.link.target}`;
+
+/**
+ * LinkCheckerPage - /_/links
+ *
+ * Every wiki link that leads nowhere or could mean more than one section,
+ * grouped by the page it is on. Problems with a suggested repair can be fixed
+ * in bulk.
+ */
+const LinkCheckerPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { onStructureUpdate } = useLayoutContext();
+  const [problems, setProblems] = useState<LinkProblem[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Chosen suggestion per problem; the first one otherwise
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const [fixing, setFixing] = useState(false);
+
+  const loadProblems = useCallback(async () => {
+    setProblems(null);
+    const result = await LinkCheckService.checkAllLinks();
+    setProblems([...new Map(result.map((problem) => [problemKey(problem), problem])).values()]);
+    setSelected(new Set());
+    setChoices({});
+  }, []);
+
+  useEffect(() => {
+    loadProblems();
+  }, [loadProblems]);
+
+  const byDocument = useMemo(() => {
+    const groups = new Map<string, LinkProblem[]>();
+    for (const problem of problems || []) {
+      const key = problem.link.sourceDocumentId;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(problem);
+    }
+    return [...groups.values()].sort((a, b) => a[0].link.sourcePath.localeCompare(b[0].link.sourcePath));
+  }, [problems]);
+
+  const repairable = (problems || []).filter((problem) => problem.suggestions.length > 0);
+  const brokenCount = (problems || []).filter((problem) => problem.kind !== "ambiguous").length;
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleFix = async () => {
+    if (!problems) return;
+    const repairs = problems
+      .filter((problem) => selected.has(problemKey(problem)))
+      .map((problem) => toRepair(problem, problem.suggestions[choices[problemKey(problem)] ?? 0]));
+
+    setFixing(true);
+    try {
+      const result = await LinkCheckService.applyRepairs(problems, repairs);
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} page${result.failed.length === 1 ? "" : "s"} not updated`, {
+          description: result.failed.map((failure) => `${failure.title}: ${failure.message}`).join("\n"),
+        });
+      } else {
+        toast.success(`Repaired links in ${result.updated} page${result.updated === 1 ? "" : "s"}`);
+      }
+      onStructureUpdate();
+      await loadProblems();
+    } finally {
+      setFixing(false);
+    }
+  };
+
+  if (problems === null) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Checking links...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Link checker</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {problems.length === 0
+            ? "Every wiki link leads to exactly one page or section."
+            : `${brokenCount} broken and ${problems.length - brokenCount} ambiguous link${problems.length - brokenCount === 1 ? "" : "s"}. Ambiguous links match part of a section title, or several sections.`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={loadProblems} disabled={fixing}>
+          <RefreshCw className="w-4 h-4 mr-1" />
+          Check again
+        </Button>
+        {repairable.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setSelected(new Set(repairable.map(problemKey)))} disabled={fixing}>
+            Select all with a suggestion
+          </Button>
+        )}
+        {selected.size > 0 && (
+          <Button size="sm" onClick={handleFix} disabled={fixing}>
+            {fixing && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Fix {selected.size} link{selected.size === 1 ? "" : "s"}
+          </Button>
+        )}
+      </div>
+
+      {byDocument.map((group) => (
+        <section key={group[0].link.sourceDocumentId} className="space-y-2">
+          <h2 className="text-lg font-semibold">
+            {group[0].link.sourceDocumentTitle}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">{group[0].link.sourcePath}</span>
+          </h2>
+          <div className="border rounded-md divide-y">
+            {group.map((problem) => {
+              const key = problemKey(problem);
+              return (
+                <div key={key} className="flex items-start gap-3 p-3">
+                  <Checkbox
+                    checked={selected.has(key)}
+                    onCheckedChange={(checked) => toggle(key, checked === true)}
+                    disabled={problem.suggestions.length === 0 || fixing}
+                    className="h-4 w-4 mt-1"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-baseline gap-2 text-sm">
+                      <span className={problem.kind === "ambiguous" ? "text-amber-600 dark:text-amber-400" : "text-destructive"}>
+                        {KIND_LABELS[problem.kind]}
+                      </span>
+                      <code className="bg-muted px-1 py-0.5 rounded text-xs break-all">[[{problem.link.text}]] → {problem.link.target}</code>
+                      <button
+                        onClick={() => navigate(`${problem.link.sourcePath}#${problem.link.sourceSectionId}`)}
+                        className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                      >
+                        in {parseRubric(problem.link.sourceSectionTitle).text}
+                      </button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{problem.message}</p>
+                  </div>
+                  {problem.suggestions.length > 0 ? (
+                    <Select
+                      value={String(choices[key] ?? 0)}
+                      onValueChange={(value) => setChoices((current) => ({ ...current, [key]: Number(value) }))}
+                    >
+                      <SelectTrigger className="w-64 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {problem.suggestions.map((suggestion, i) => (
+                          <SelectItem key={suggestion.destination} value={String(i)} className="text-xs">
+                            {suggestion.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="w-64 text-xs text-muted-foreground italic">No suggestion</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default LinkCheckerPage;
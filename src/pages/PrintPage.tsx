@@ -0,0 +1,99 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PrintDocument } from "@/components/PrintDocument";
+import { ContentService, WikiDocument } from "@/services/contentService";
+import { buildPrintOutline, resolvePrintTarget } from "@/lib/printLayout";
+
+/**
+ * PrintPage - /_/print/<document path>[?section=<section id>]
+ *
+ * Print-ready rendering of a document or one section's subtree, outside the
+ * wiki layout. "Save as PDF" uses the browser's print dialog, so producing a
+ * PDF needs no network access once the document is loaded.
+ */
+const PrintPage: React.FC = () => {
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const documentPath = location.pathname.replace(/^\/_\/print/, "") || "/";
+  const sectionId = searchParams.get("section") || undefined;
+
+  const [document, setDocument] = useState<WikiDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    ContentService.getDocumentByPath(documentPath).then((result) => {
+      if (cancelled) return;
+      setDocument(result);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentPath]);
+
+  const outline = useMemo(
+    () => (document ? buildPrintOutline(document.content_json, document.title, sectionId) : null),
+    [document, sectionId],
+  );
+
+  const resolveLink = useCallback(
+    (target: string) => (document && outline ? resolvePrintTarget(target, outline, document.path, document.content_json) : null),
+    [document, outline],
+  );
+
+  // The browser suggests the page title as the PDF's file name
+  useEffect(() => {
+    if (!outline) return;
+    const previousTitle = window.document.title;
+    window.document.title = outline.title;
+    return () => {
+      window.document.title = previousTitle;
+    };
+  }, [outline]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!document || !outline) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Page not found</p>
+      </div>
+    );
+  }
+
+  const backLink = sectionId ? `${document.path}#${sectionId}` : document.path;
+  const subtitle = sectionId && outline.title !== document.title ? `From ${document.title}` : undefined;
+
+  return (
+    <div className="min-h-screen bg-muted print:bg-white">
+      <div className="sticky top-0 z-10 flex items-center justify-between gap-4 border-b bg-background px-4 py-2 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={backLink}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to document
+          </Link>
+        </Button>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground">Choose "Save as PDF" as the printer to download a PDF</span>
+          <Button size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save as PDF
+          </Button>
+        </div>
+      </div>
+      <PrintDocument outline={outline} resolveLink={resolveLink} subtitle={subtitle} />
+    </div>
+  );
+};
+
+export default PrintPage;
@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { BarChart3, FilePlus, Link2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useLayoutContext } from "@/components/PersistentLayout";
+import { ContentService } from "@/services/contentService";
+import { getSearchAnalyticsMode, SearchAnalyticsService, SearchEvent, SearchSource } from "@/services/searchAnalyticsService";
+import { SearchSynonym, SearchSynonymService } from "@/services/searchSynonymService";
+import { buildSearchReport, QueryStats } from "@/lib/searchAnalytics";
+
+const PERIODS = [7, 30, 90];
+const SOURCES: { value: SearchSource | "all"; label: string }[] = [
+  { value: "all", label: "All searches" },
+  { value: "overlay", label: "Search" },
+  { value: "link-picker", label: "Link picker" },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const titleCase = (query: string) => query.trim().replace(/^\w/, (c) => c.toUpperCase());
+
+/**
+ * SearchAnalyticsPage - /_/search-analytics
+ *
+ * What people search for, what they fail to find and which results they
+ * leave unopened. Zero-result queries can be turned into a new document or a
+ * synonym of an existing word.
+ */
+const SearchAnalyticsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { onStructureUpdate } = useLayoutContext();
+  const [days, setDays] = useState(30);
+  const [source, setSource] = useState<SearchSource | "all">("all");
+  const [events, setEvents] = useState<SearchEvent[] | null>(null);
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  // Zero-result query a synonym is being added for
+  const [synonymFor, setSynonymFor] = useState<string | null>(null);
+  const [synonymInput, setSynonymInput] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    SearchAnalyticsService.listEvents(new Date(Date.now() - days * 24 * 60 * 60 * 1000)).then((result) => {
+      if (!cancelled) setEvents(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const loadSynonyms = useCallback(async () => {
+    setSynonyms(await SearchSynonymService.listSynonyms());
+  }, []);
+
+  useEffect(() => {
+    loadSynonyms();
+  }, [loadSynonyms]);
+
+  const report = useMemo(
+    () => buildSearchReport((events || []).filter((event) => source === "all" || event.source === source)),
+    [events, source],
+  );
+
+  const handleCreateDocument = async (query: string) => {
+    const document = await ContentService.createFolder(titleCase(query));
+    if (!document) {
+      toast.error("Could not create the document");
+      return;
+    }
+    onStructureUpdate();
+    navigate(document.path);
+  };
+
+  const handleAddSynonym = async () => {
+    if (!synonymFor || !synonymInput.trim()) return;
+    if (await SearchSynonymService.addSynonym(synonymFor, synonymInput)) {
+      toast.success(`Searches for "${synonymFor}" now also find "${synonymInput.trim()}"`);
+      setSynonymFor(null);
+      setSynonymInput("");
+      loadSynonyms();
+    } else {
+      toast.error("Could not add the synonym");
+    }
+  };
+
+  const handleDeleteSynonym = async (id: string) => {
+    if (await SearchSynonymService.deleteSynonym(id)) loadSynonyms();
+    else toast.error("Could not remove the synonym");
+  };
+
+  const renderTable = (
+    title: string,
+    description: string,
+    rows: QueryStats[],
+    columns: { label: string; value: (stats: QueryStats) => string }[],
+    actions?: (stats: QueryStats) => React.ReactNode,
+  ) => (
+    <section className="space-y-2">
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None in this period.</p>
+      ) : (
+        <div className="border rounded-md divide-y">
+          <div className="flex items-center gap-3 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+            <span className="flex-1">Query</span>
+            {columns.map((column) => (
+              <span key={column.label} className="w-20 text-right">{column.label}</span>
+            ))}
+            {actions && <span className="w-48" />}
+          </div>
+          {rows.map((stats) => (
+            <div key={stats.query} className="px-3 py-1.5">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="flex-1 truncate">{stats.query}</span>
+                {columns.map((column) => (
+                  <span key={column.label} className="w-20 text-right tabular-nums">{column.value(stats)}</span>
+                ))}
+                {actions && <span className="w-48 flex justify-end gap-1">{actions(stats)}</span>}
+              </div>
+              {synonymFor === stats.query && (
+                <div className="flex items-center gap-2 mt-1.5">
+                  <Input
+                    value={synonymInput}
+                    onChange={(e) => setSynonymInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAddSynonym()}
+                    placeholder={`A word the wiki uses for "${stats.query}"`}
+                    className="h-8 text-sm"
+                    autoFocus
+                  />
+                  <Button size="sm" className="h-8" onClick={handleAddSynonym} disabled={!synonymInput.trim()}>Add</Button>
+                  <Button size="sm" variant="ghost" className="h-8" onClick={() => setSynonymFor(null)}>Cancel</Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-6 h-6 text-muted-foreground" />
+          <h1 className="text-3xl font-bold">Search analytics</h1>
+        </div>
+        {getSearchAnalyticsMode() === "off" && (
+          <p className="text-sm text-muted-foreground">
+            Searches are not being logged (VITE_SEARCH_ANALYTICS is "off"); earlier searches are still shown.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {PERIODS.map((period) => (
+            <Button key={period} size="sm" variant={days === period ? "default" : "outline"} onClick={() => setDays(period)}>
+              {period} days
+            </Button>
+          ))}
+          <span className="w-px bg-border mx-1" />
+          {SOURCES.map((entry) => (
+            <Button key={entry.value} size="sm" variant={source === entry.value ? "default" : "outline"} onClick={() => setSource(entry.value)}>
+              {entry.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {events === null ? (
+        <div className="text-muted-foreground">Loading...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: "Searches", value: String(report.totalSearches) },
+              { label: "Found nothing", value: percent(report.totalSearches ? report.zeroResultSearches / report.totalSearches : 0) },
+              { label: "Click-through", value: percent(report.clickThroughRate) },
+            ].map((card) => (
+              <div key={card.label} className="border rounded-md p-3">
+                <div className="text-xs text-muted-foreground">{card.label}</div>
+                <div className="text-2xl font-semibold tabular-nums">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {renderTable(
+            "Zero-result queries",
+            "Queries whose latest search found nothing. Add a document for them, or a synonym pointing them at a word the wiki uses.",
+            report.zeroResultQueries,
+            [{ label: "Searches", value: (stats) => String(stats.searches) }],
+            (stats) => (
+              <>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleCreateDocument(stats.query)}>
+                  <FilePlus className="w-3.5 h-3.5 mr-1" />
+                  Create
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setSynonymFor(stats.query);
+                    setSynonymInput("");
+                  }}
+                >
+                  <Link2 className="w-3.5 h-3.5 mr-1" />
+                  Synonym
+                </Button>
+              </>
+            ),
+          )}
+
+          {renderTable("Top queries", "The most frequent searches.", report.topQueries, [
+            { label: "Searches", value: (stats) => String(stats.searches) },
+            { label: "Click-through", value: (stats) => percent(stats.clickThroughRate) },
+            { label: "No results", value: (stats) => String(stats.zeroResults) },
+          ])}
+
+          {renderTable(
+            "High abandonment",
+            "Queries that find results which are mostly left unopened: the results may not be what people look for.",
+            report.abandonedQueries,
+            [
+              { label: "Searches", value: (stats) => String(stats.searches) },
+              { label: "Abandoned", value: (stats) => percent(stats.abandonmentRate) },
+            ],
+          )}
+        </>
+      )}
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Synonyms</h2>
+        {synonyms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No synonyms yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {synonyms.map((synonym) => (
+              <span key={synonym.id} className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-sm">
+                {synonym.term} ↔ {synonym.synonym}
+                <button onClick={() => handleDeleteSynonym(synonym.id)} className="text-muted-foreground hover:text-foreground" title="Remove synonym">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SearchAnalyticsPage;
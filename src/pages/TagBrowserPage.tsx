@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ContentService, WikiDocument } from "@/services/contentService";
+import { TagManager, TaggedSection } from "@/lib/tagManager";
+
+/**
+ * TagBrowserPage - /_/tags[?tag=<tag>]
+ *
+ * Every tag in use with the sections carrying it, directly or inherited from
+ * a section above them.
+ */
+const TagBrowserPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedTag = searchParams.get("tag")?.toLowerCase() || null;
+
+  const [documents, setDocuments] = useState<WikiDocument[] | null>(null);
+  const [tagFilter, setTagFilter] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    ContentService.getAllDocuments().then((result) => {
+      if (!cancelled) setDocuments(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const index = useMemo(() => TagManager.buildSectionTagIndex(documents || []), [documents]);
+
+  // Shown with the spelling of the first section carrying them
+  const tags = useMemo(
+    () =>
+      [...index.entries()]
+        .map(([key, sections]) => ({
+          key,
+          label: sections[0].tags.find((tag) => tag.toLowerCase() === key) || key,
+          count: sections.length,
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key)),
+    [index],
+  );
+
+  const visibleTags = tags.filter((tag) => tag.key.includes(tagFilter.trim().toLowerCase()));
+  const selectedSections = useMemo(() => (selectedTag ? index.get(selectedTag) || [] : []), [index, selectedTag]);
+
+  // Sections of the selected tag, by document
+  const byDocument = useMemo(() => {
+    const groups = new Map<string, TaggedSection[]>();
+    for (const section of selectedSections) {
+      if (!groups.has(section.documentId)) groups.set(section.documentId, []);
+      groups.get(section.documentId)!.push(section);
+    }
+    return [...groups.values()];
+  }, [selectedSections]);
+
+  if (documents === null) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Tags className="w-6 h-6 text-muted-foreground" />
+        <h1 className="text-3xl font-bold">Tags</h1>
+        <Button variant="outline" size="sm" onClick={() => navigate("/_/tags/manage")} className="ml-auto">
+          Manage tags
+        </Button>
+      </div>
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No sections are tagged yet. Add tags in square brackets after a heading, e.g. "# Topic [pitfalls]".
+        </p>
+      ) : (
+        <>
+          <Input
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            placeholder="Filter tags..."
+            className="max-w-xs"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {visibleTags.map((tag) => (
+              <button
+                key={tag.key}
+                onClick={() => setSearchParams(tag.key === selectedTag ? {} : { tag: tag.key })}
+                className={`rounded-full border px-2.5 py-0.5 text-sm transition-colors ${
+                  tag.key === selectedTag ? "border-primary bg-primary text-primary-foreground" : "hover:bg-muted"
+                }`}
+              >
+                {tag.label}
+                <span className={`ml-1.5 text-xs tabular-nums ${tag.key === selectedTag ? "" : "text-muted-foreground"}`}>{tag.count}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {selectedTag && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">
+            {selectedSections.length} {selectedSections.length === 1 ? "section" : "sections"} tagged "{selectedTag}"
+          </h2>
+          {byDocument.map((sections) => (
+            <div key={sections[0].documentId}>
+              <button
+                onClick={() => navigate(sections[0].documentPath)}
+                className="text-sm font-medium text-muted-foreground hover:text-foreground hover:underline"
+              >
+                {sections[0].documentTitle}
+              </button>
+              <ul className="mt-1 border-l pl-3 space-y-0.5">
+                {sections.map((section) => {
+                  const isInherited = !section.ownTags.some((tag) => tag.toLowerCase() === selectedTag);
+                  return (
+                    <li key={section.sectionId} style={{ marginLeft: `${(section.level - 1) * 12}px` }}>
+                      <button
+                        onClick={() => navigate(`${section.documentPath}#${section.sectionId}`)}
+                        className="text-sm text-left hover:underline"
+                      >
+                        {section.sectionTitle}
+                      </button>
+                      {isInherited && <span className="ml-2 text-xs text-muted-foreground italic">inherited</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagBrowserPage;
@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useLayoutContext } from "@/components/PersistentLayout";
+import { ContentService, WikiDocument } from "@/services/contentService";
+import { TagRewriteService } from "@/services/tagRewriteService";
+import { TagManager } from "@/lib/tagManager";
+import { TagOperation, TagRewritePlan } from "@/lib/tagRewrite";
+
+type OperationKind = TagOperation["kind"];
+
+const OPERATIONS: { kind: OperationKind; label: string; enabled: (selected: number) => boolean }[] = [
+  { kind: "rename", label: "Rename", enabled: (selected) => selected === 1 },
+  { kind: "merge", label: "Merge", enabled: (selected) => selected >= 2 },
+  { kind: "split", label: "Split", enabled: (selected) => selected === 1 },
+  { kind: "delete", label: "Delete", enabled: (selected) => selected >= 1 },
+];
+
+const INPUT_PLACEHOLDERS: Partial<Record<OperationKind, string>> = {
+  rename: "New name",
+  merge: "Merge into",
+  split: "Split into, comma-separated",
+};
+
+const buildOperation = (kind: OperationKind | null, selected: string[], input: string): TagOperation | null => {
+  const value = input.trim();
+  switch (kind) {
+    case "rename":
+      return value && value !== selected[0] ? { kind, tag: selected[0], to: value } : null;
+    case "merge":
+      return value ? { kind, tags: selected, into: value } : null;
+    case "split": {
+      const into = value.split(",").map((tag) => tag.trim()).filter(Boolean);
+      return into.length > 0 ? { kind, tag: selected[0], into } : null;
+    }
+    case "delete":
+      return { kind, tags: selected };
+    default:
+      return null;
+  }
+};
+
+/**
+ * TagManagementPage - /_/tags/manage
+ *
+ * Rename, merge, split and delete tags as written, across every section and
+ * document, after previewing what changes.
+ */
+const TagManagementPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { onStructureUpdate } = useLayoutContext();
+  const [documents, setDocuments] = useState<WikiDocument[] | null>(null);
+  const [tagFilter, setTagFilter] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [kind, setKind] = useState<OperationKind | null>(null);
+  const [input, setInput] = useState("");
+  const [plan, setPlan] = useState<TagRewritePlan | null>(null);
+  const [busy, setBusy] = useState<"preview" | "commit" | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    setDocuments(await ContentService.getAllDocuments());
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // Tags exactly as written, so spellings that drifted apart sort next to each other
+  const tags = useMemo(
+    () =>
+      [...TagManager.buildTagIndex(documents || []).entries()]
+        .map(([tag, documentIds]) => ({ tag, count: documentIds.length }))
+        .sort((a, b) => a.tag.toLowerCase().localeCompare(b.tag.toLowerCase()) || a.tag.localeCompare(b.tag)),
+    [documents],
+  );
+
+  const visibleTags = tags.filter((entry) => entry.tag.toLowerCase().includes(tagFilter.trim().toLowerCase()));
+  const operation = buildOperation(kind, selected, input);
+
+  const resetOperation = () => {
+    setKind(null);
+    setInput("");
+    setPlan(null);
+  };
+
+  const toggleTag = (tag: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, tag] : current.filter((existing) => existing !== tag)));
+    resetOperation();
+  };
+
+  const chooseOperation = (next: OperationKind) => {
+    setKind(next);
+    setInput(next === "merge" ? selected[0] : "");
+    setPlan(null);
+  };
+
+  const handlePreview = async () => {
+    if (!operation) return;
+    setBusy("preview");
+    try {
+      setPlan(await TagRewriteService.planRewrite(operation));
+    } catch (error) {
+      console.error("Error previewing tag changes:", error);
+      toast.error("Could not build the preview");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+    setBusy("commit");
+    try {
+      const result = await TagRewriteService.commitRewrite(plan);
+      toast.success(`Updated tags in ${result.updated} document${result.updated === 1 ? "" : "s"}`);
+      if (!result.taxonomyUpdated) {
+        toast.error("The tag taxonomy could not be updated to match");
+      }
+      setSelected([]);
+      resetOperation();
+      onStructureUpdate();
+    } catch (error) {
+      console.error("Error rewriting tags:", error);
+      toast.error("No tags were changed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await loadDocuments();
+      setBusy(null);
+    }
+  };
+
+  if (documents === null) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" onClick={() => navigate("/_/tags")} className="-ml-2 text-muted-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Tags
+        </Button>
+        <h1 className="text-3xl font-bold">Manage tags</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Tags exactly as written, with the number of documents using them. Changes apply to every section and
+          document carrying the selected tags.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)]">
+        <div className="space-y-2">
+          <Input value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} placeholder="Filter tags..." />
+          <div className="border rounded-md divide-y max-h-[60vh] overflow-y-auto">
+            {visibleTags.length === 0 && <p className="p-3 text-sm text-muted-foreground">No tags</p>}
+            {visibleTags.map(({ tag, count }) => (
+              <label key={tag} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-muted/50">
+                <Checkbox
+                  checked={selected.includes(tag)}
+                  onCheckedChange={(checked) => toggleTag(tag, checked === true)}
+                  className="h-4 w-4"
+                />
+                <span className="flex-1 truncate">{tag}</span>
+                <span className="text-xs text-muted-foreground tabular-nums">{count}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {selected.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Select tags to rename, merge, split or delete them.</p>
+          ) : (
+            <>
+              <div className="text-sm">
+                Selected: <span className="font-medium">{selected.join(", ")}</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {OPERATIONS.map((entry) => (
+                  <Button
+                    key={entry.kind}
+                    variant={kind === entry.kind ? "default" : "outline"}
+                    size="sm"
+                    disabled={!entry.enabled(selected.length)}
+                    onClick={() => chooseOperation(entry.kind)}
+                  >
+                    {entry.label}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {kind && (
+            <div className="flex gap-2">
+              {INPUT_PLACEHOLDERS[kind] && (
+                <Input
+                  value={input}
+                  onChange={(e) => {
+                    setInput(e.target.value);
+                    setPlan(null);
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && handlePreview()}
+                  placeholder={INPUT_PLACEHOLDERS[kind]}
+                  autoFocus
+                />
+              )}
+              <Button onClick={handlePreview} disabled={!operation || busy !== null}>
+                {busy === "preview" && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm">
+                  {plan.documents.length === 0
+                    ? "Nothing to change."
+                    : `${plan.sectionCount} section${plan.sectionCount === 1 ? "" : "s"} in ${plan.documents.length} document${plan.documents.length === 1 ? "" : "s"} will change.`}
+                </p>
+                {plan.documents.length > 0 && (
+                  <Button onClick={handleCommit} disabled={busy !== null} variant={plan.operation.kind === "delete" ? "destructive" : "default"}>
+                    {busy === "commit" && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Apply
+                  </Button>
+                )}
+              </div>
+              <div className="border rounded-md divide-y max-h-[50vh] overflow-y-auto">
+                {plan.documents.map((change) => (
+                  <div key={change.document.id} className="p-3 space-y-1">
+                    <div className="text-sm font-medium">{change.document.title}</div>
+                    {change.changedSections.map((section) => (
+                      <div key={section.sectionId} className="text-xs">
+                        <span className="text-muted-foreground">{section.sectionTitle}: </span>
+                        <span className="line-through text-muted-foreground">{section.before.join(", ")}</span>
+                        {" → "}
+                        <span>{section.after.join(", ") || "no tags"}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManagementPage;
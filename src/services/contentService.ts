@@ -1,4 +1,7 @@
-import { supabase } from "@/integrations/supabase/client";
+import { getStorageAdapter, ContentItemUpdates } from "./storage";
+import { LinkService } from "./linkService";
+import { LinkRewriteResult, LinkRewriteService } from "./linkRewriteService";
+import { findSectionRenames, SectionRename } from "@/lib/linkRewrite";
 
 export interface DocumentSection {
   id: string;
@@ -19,9 +22,22 @@ export interface ContentItem {
   tags: string[];
   created_at: string;
   updated_at: string;
+  version: number;
   children?: ContentItem[];
 }
 
+/**
+ * Outcome of a versioned save. `conflict` means the row changed since the
+ * version the save was based on; `remote` then holds the current row.
+ */
+export interface SaveResult {
+  status: 'saved' | 'conflict' | 'error';
+  version?: number;
+  remote?: ContentItem;
+  // Links to sections the save renamed, rewritten in the same update
+  linkRewrite?: LinkRewriteResult;
+}
+
 // Type aliases for semantic clarity - these represent the same data as ContentItem
 // but provide clearer intent in different contexts
 export interface WikiDocument extends ContentItem {
@@ -32,7 +48,7 @@ export interface NavigationNode extends ContentItem {}
 
 export class ContentService {
   // Helper method to normalize content_json from database
-  private static normalizeContentJson(contentJson: any): DocumentSection[] | null {
+  static normalizeContentJson(contentJson: any): DocumentSection[] | null {
     if (!contentJson) return null;
     
     if (Array.isArray(contentJson)) {
@@ -46,34 +62,29 @@ export class ContentService {
     return null;
   }
 
-  static async getNavigationStructure(): Promise<ContentItem[]> {
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .order('order_index');
+  // Normalize content_json on everything read from storage
+  private static normalizeItem(item: ContentItem): ContentItem {
+    return {
+      ...item,
+      content_json: this.normalizeContentJson(item.content_json)
+    };
+  }
 
-    if (error) {
+  static async getNavigationStructure(): Promise<ContentItem[]> {
+    try {
+      const items = await getStorageAdapter().listItems();
+      return this.buildHierarchy(items.map(item => this.normalizeItem(item)));
+    } catch (error) {
       console.error('Error fetching navigation structure:', error);
       return [];
     }
-
-    // Cast the data to ensure correct typing and normalize content_json
-    const typedData = (data || []).map(item => ({
-      ...item,
-      content_json: this.normalizeContentJson(item.content_json)
-    }));
-
-    return this.buildHierarchy(typedData);
   }
 
   static async getDocumentByPath(path: string): Promise<WikiDocument | null> {
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('path', path)
-      .maybeSingle();
-
-    if (error) {
+    let data: ContentItem | null;
+    try {
+      data = await getStorageAdapter().getItemByPath(path);
+    } catch (error) {
       console.error('Error fetching document by path:', error);
       return null;
     }
@@ -90,21 +101,23 @@ export class ContentService {
   }
 
   static async getContentItemByPath(path: string): Promise<ContentItem | null> {
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('path', path)
-      .maybeSingle();
-
-    if (error) {
+    try {
+      const data = await getStorageAdapter().getItemByPath(path);
+      return data ? this.normalizeItem(data) : null;
+    } catch (error) {
       console.error('Error fetching content item by path:', error);
       return null;
     }
+  }
 
-    return data ? {
-      ...data,
-      content_json: this.normalizeContentJson(data.content_json)
-    } : null;
+  static async getContentItemById(id: string): Promise<ContentItem | null> {
+    try {
+      const data = await getStorageAdapter().getItemById(id);
+      return data ? this.normalizeItem(data) : null;
+    } catch (error) {
+      console.error('Error fetching content item by id:', error);
+      return null;
+    }
   }
 
   static async getNavigationNodeByPath(path: string): Promise<NavigationNode | null> {
@@ -115,21 +128,13 @@ export class ContentService {
     const parent = await this.getContentItemByPath(parentPath);
     if (!parent) return [];
 
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('parent_id', parent.id)
-      .order('order_index');
-
-    if (error) {
+    try {
+      const children = await getStorageAdapter().listChildren(parent.id);
+      return children.map(item => this.normalizeItem(item));
+    } catch (error) {
       console.error('Error fetching navigation node children:', error);
       return [];
     }
-
-    return (data || []).map(item => ({
-      ...item,
-      content_json: this.normalizeContentJson(item.content_json)
-    }));
   }
 
   static async searchDocuments(query: string): Promise<WikiDocument[]> {
@@ -141,39 +146,14 @@ export class ContentService {
       return [];
     }
 
-    // Use separate .ilike() calls to avoid string interpolation in .or()
-    // This leverages Supabase's built-in parameterization for safer queries
-    const searchPattern = `%${trimmedQuery}%`;
-    
-    // Search in title using parameterized .ilike()
-    const { data: titleMatches, error: titleError } = await supabase
-      .from('content_items')
-      .select('*')
-      .ilike('title', searchPattern);
-
-    if (titleError) {
-      console.error('Error searching documents by title:', titleError);
+    let uniqueMatches: ContentItem[];
+    try {
+      uniqueMatches = await getStorageAdapter().searchItems(trimmedQuery);
+    } catch (error) {
+      console.error('Error searching documents:', error);
       return [];
     }
 
-    // For content search, we need to use textSearch or filter on the JSON
-    // Using a separate query to search content_json as text
-    const { data: contentMatches, error: contentError } = await supabase
-      .from('content_items')
-      .select('*')
-      .filter('content_json::text', 'ilike', searchPattern);
-
-    if (contentError) {
-      // Fallback: if the cast filter fails, just use title matches
-      console.error('Error searching documents by content:', contentError);
-    }
-
-    // Merge and deduplicate results by id
-    const allMatches = [...(titleMatches || []), ...(contentMatches || [])];
-    const uniqueMatches = Array.from(
-      new Map(allMatches.map(item => [item.id, item])).values()
-    );
-
     return uniqueMatches
       .map(doc => ({
         ...doc,
@@ -184,17 +164,15 @@ export class ContentService {
   }
 
   static async getAllDocuments(): Promise<WikiDocument[]> {
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .order('path');
-
-    if (error) {
+    let data: ContentItem[];
+    try {
+      data = (await getStorageAdapter().listItems()).sort((a, b) => a.path.localeCompare(b.path));
+    } catch (error) {
       console.error('Error fetching all documents:', error);
       return [];
     }
 
-    return (data || [])
+    return data
       .map(doc => ({
         ...doc,
         content_json: this.normalizeContentJson(doc.content_json)
@@ -232,18 +210,15 @@ export class ContentService {
 
   // Helper method to get the next available order_index for a given parent
   private static async getNextOrderIndex(parentId: string | null): Promise<number> {
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('order_index')
-      .eq('parent_id', parentId)
-      .order('order_index', { ascending: false })
-      .limit(1);
-
-    if (error || !data || data.length === 0) {
-      return 0; // First item at this level
+    try {
+      const siblings = await getStorageAdapter().listChildren(parentId);
+      if (siblings.length === 0) {
+        return 0; // First item at this level
+      }
+      return Math.max(...siblings.map(item => item.order_index ?? -1)) + 1;
+    } catch {
+      return 0;
     }
-
-    return (data[0].order_index ?? -1) + 1;
   }
 
   // Content management methods
@@ -251,28 +226,24 @@ export class ContentService {
     const path = `/${title.toLowerCase().replace(/\s+/g, '-')}`;
     const nextOrderIndex = await this.getNextOrderIndex(null);
     
-    const { data, error } = await supabase
-      .from('content_items')
-      .insert({
+    try {
+      const data = await getStorageAdapter().insertItem({
         title,
         path,
         parent_id: null,
         order_index: nextOrderIndex,
         tags: [],
         content_json: []
-      })
-      .select()
-      .single();
+      });
 
-    if (error) {
+      return {
+        ...data,
+        content_json: []
+      };
+    } catch (error) {
       console.error('Error creating folder:', error);
       return null;
     }
-
-    return data ? {
-      ...data,
-      content_json: []
-    } : null;
   }
 
   static async createDocument(
@@ -284,74 +255,94 @@ export class ContentService {
   ): Promise<WikiDocument | null> {
     const nextOrderIndex = await this.getNextOrderIndex(parentId);
     
-    const { data, error } = await supabase
-      .from('content_items')
-      .insert({
+    try {
+      const data = await getStorageAdapter().insertItem({
         title,
-        content_json: content_json as any,
+        content_json,
         path,
         tags: tags.length > 0 ? tags : [],
         order_index: nextOrderIndex,
         parent_id: parentId
-      })
-      .select()
-      .single();
+      });
 
-    if (error) {
+      return {
+        ...data,
+        content_json: data.content_json || []
+      };
+    } catch (error) {
       console.error('Error creating document:', error);
       return null;
     }
-
-    return {
-      ...data,
-      content_json: data.content_json as unknown as DocumentSection[]
-    };
   }
 
   static async updateContentItem(
     id: string, 
-    updates: Partial<Omit<ContentItem, 'id' | 'created_at' | 'updated_at'>>
+    updates: ContentItemUpdates
   ): Promise<boolean> {
-    const dbUpdates = {
-      ...updates,
-      content_json: updates.content_json ? updates.content_json as any : undefined
-    };
-
-    const { error } = await supabase
-      .from('content_items')
-      .update(dbUpdates)
-      .eq('id', id);
-
-    if (error) {
+    try {
+      await getStorageAdapter().updateItem(id, updates);
+      return true;
+    } catch (error) {
       console.error('Error updating content item:', error);
       return false;
     }
+  }
+
+  /**
+   * Update a content item only if it is still at `expectedVersion`.
+   * The version is bumped by a database trigger whenever content, title or tags change.
+   */
+  static async updateContentItemIfVersion(
+    id: string,
+    expectedVersion: number,
+    updates: ContentItemUpdates
+  ): Promise<SaveResult> {
+    try {
+      const outcome = await getStorageAdapter().updateItem(id, updates, expectedVersion);
+
+      if (outcome.status === 'conflict') {
+        // Someone else saved first
+        const remote = await this.getContentItemById(id);
+        return remote ? { status: 'conflict', remote } : { status: 'error' };
+      }
 
-    return true;
+      return outcome.status === 'updated' ? { status: 'saved', version: outcome.version } : { status: 'error' };
+    } catch (error) {
+      console.error('Error updating content item:', error);
+      return { status: 'error' };
+    }
   }
 
   static async updateDocument(
     id: string, 
-    updates: Partial<Omit<WikiDocument, 'id' | 'created_at' | 'updated_at'>>
+    updates: Partial<Omit<WikiDocument, 'id' | 'created_at' | 'updated_at' | 'version'>>
   ): Promise<boolean> {
     return this.updateContentItem(id, updates);
   }
 
   static async deleteContentItem(id: string): Promise<boolean> {
-    const { error } = await supabase
-      .from('content_items')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
+    try {
+      await getStorageAdapter().deleteItem(id);
+      return true;
+    } catch (error) {
       console.error('Error deleting content item:', error);
       return false;
     }
-
-    return true;
   }
 
-  static async saveDocumentContent(path: string, sections: DocumentSection[]): Promise<boolean> {
+  /**
+   * Save a document's sections. When `baseVersion` is given the save is rejected
+   * with a conflict if the document has been saved elsewhere since that version.
+   * Links to sections it renames are rewritten in the same update; `editStart`
+   * is the document as it was when editing started (see
+   * LinkRewriteService.saveWithRenamedSections).
+   */
+  static async saveDocumentContent(
+    path: string,
+    sections: DocumentSection[],
+    baseVersion?: number,
+    editStart?: DocumentSection[]
+  ): Promise<SaveResult> {
     try {
       console.log('saveDocumentContent called with path:', path, 'sections:', sections);
       
@@ -361,41 +352,75 @@ export class ContentService {
       
       if (sections.length === 0) {
         console.log('No sections to save, returning true');
-        return true;
+        return { status: 'saved', version: existingItem?.version };
       }
 
-      // Extract tags from sections but NOT title - folder title is managed independently
-      const allTags = [...new Set(sections.flatMap(s => s.tags || []))];
+      // Extract tags from sections but NOT title - folder title is managed independently.
+      // "!tag" opt-outs of tag inheritance (see TagManager) are not tags of the document
+      const allTags = [...new Set(sections.flatMap(s => s.tags || []))].filter(tag => !tag.startsWith('!'));
       
       if (existingItem) {
         console.log('Updating existing item with id:', existingItem.id);
+        const renames = findSectionRenames(existingItem.id, existingItem.content_json || [], sections);
+        const editRenames = editStart ? findSectionRenames(existingItem.id, editStart, sections) : [];
+        if (renames.length > 0 || editRenames.length > 0) {
+          return await this.saveWithRenamedSections(existingItem, sections, allTags, baseVersion ?? existingItem.version, renames, editRenames);
+        }
+
         // Only update content_json and tags, NOT title - folder title is managed separately
-        const success = await this.updateContentItem(existingItem.id, {
+        const result = await this.updateContentItemIfVersion(existingItem.id, baseVersion ?? existingItem.version, {
           content_json: sections,
           tags: allTags.length > 0 ? allTags : []
         });
         
-        console.log('Update success:', success);
-        return success;
+        console.log('Update result:', result.status);
+        if (result.status === 'saved') {
+          LinkService.indexItem({ ...existingItem, content_json: sections, tags: allTags, version: result.version ?? existingItem.version });
+        }
+        return result;
       } else {
         console.log('Creating new document');
         // For new documents, use a default title that can be changed via sidebar
         const defaultTitle = path.split('/').pop()?.replace(/-/g, ' ').replace(/^\w/, c => c.toUpperCase()) || 'New Document';
         const newDocument = await this.createDocument(defaultTitle, sections, path, allTags);
         console.log('New document created:', newDocument);
-        return newDocument !== null;
+        if (newDocument) LinkService.indexItem(newDocument);
+        return newDocument ? { status: 'saved', version: newDocument.version } : { status: 'error' };
       }
     } catch (error) {
       console.error('Error saving document content:', error);
-      return false;
+      return { status: 'error' };
+    }
+  }
+
+  private static async saveWithRenamedSections(
+    item: ContentItem,
+    sections: DocumentSection[],
+    tags: string[],
+    expectedVersion: number,
+    renames: SectionRename[],
+    editRenames: SectionRename[]
+  ): Promise<SaveResult> {
+    try {
+      const { version, ...linkRewrite } = await LinkRewriteService.saveWithRenamedSections(
+        item.id, { content_json: sections, tags }, expectedVersion, renames, editRenames
+      );
+      return { status: 'saved', version, linkRewrite };
+    } catch (error) {
+      // Someone else saved first, or a page whose links follow the renames changed meanwhile
+      const remote = await this.getContentItemById(item.id);
+      if (remote && remote.version !== expectedVersion) return { status: 'conflict', remote };
+      console.error('Error saving document content:', error);
+      return { status: 'error' };
     }
   }
 
   static async updateSectionInDocument(
     path: string, 
     sectionId: string, 
-    updatedSection: DocumentSection
-  ): Promise<boolean> {
+    updatedSection: DocumentSection,
+    baseVersion?: number
+  ): Promise<SaveResult> {
     try {
       console.log('updateSectionInDocument called with:', { path, sectionId, updatedSection });
       
@@ -403,7 +428,7 @@ export class ContentService {
       const existingItem = await this.getContentItemByPath(path);
       if (!existingItem || !existingItem.content_json) {
         console.error('Document not found for section update');
-        return false;
+        return { status: 'error' };
       }
 
       // Update the specific section in the JSON content  
@@ -412,16 +437,16 @@ export class ContentService {
         section.id === sectionId ? updatedSection : section
       );
 
-      // Update the document with the new content
-      const success = await this.updateContentItem(existingItem.id, {
+      // Update the document with the new content, guarding against saves made since the read
+      const result = await this.updateContentItemIfVersion(existingItem.id, baseVersion ?? existingItem.version, {
         content_json: updatedSections
       });
       
-      console.log('Section update success:', success);
-      return success;
+      console.log('Section update result:', result.status);
+      return result;
     } catch (error) {
       console.error('Error updating section in document:', error);
-      return false;
+      return { status: 'error' };
     }
   }
 
@@ -438,20 +463,17 @@ export class ContentService {
     return this.deleteContentItem(id);
   }
 
-  static async reorderNavigationNodes(nodeId: string, newParentId: string | null, newOrderIndex: number): Promise<boolean> {
-    const { error } = await supabase
-      .from('content_items')
-      .update({
-        parent_id: newParentId,
-        order_index: newOrderIndex
-      })
-      .eq('id', nodeId);
-
-    if (error) {
+  /**
+   * Move a page under another parent. Its path and its subpages' paths follow
+   * the new parent, and links to them are rewritten in the same update.
+   * Returns how many links changed and how to undo the move, or null on failure.
+   */
+  static async reorderNavigationNodes(nodeId: string, newParentId: string | null, newOrderIndex: number): Promise<LinkRewriteResult | null> {
+    try {
+      return await LinkRewriteService.moveItem(nodeId, newParentId, newOrderIndex);
+    } catch (error) {
       console.error('Error reordering navigation node:', error);
-      return false;
+      return null;
     }
-
-    return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+import { ContentService } from "./contentService";
+import { getStorageAdapter, SectionEmbedding } from "./storage";
+import {
+  embeddingHash,
+  embedText,
+  EMBEDDING_MODEL,
+  findNearDuplicates,
+  findRelatedSections,
+  NearDuplicatePair,
+  RelatedSection,
+  sectionEmbeddingText,
+  SectionVector
+} from "@/lib/sectionEmbeddings";
+
+interface EmbeddingIndex {
+  sections: SectionVector[];
+  // Sections with body text; title-only sections would all pair up by their headings
+  withText: SectionVector[];
+}
+
+const keyOf = (itemId: string, sectionId: string) => `${itemId}/${sectionId}`;
+
+export class EmbeddingService {
+  // Known embeddings by item/section key, from storage or computed this session
+  private static embeddings = new Map<string, SectionEmbedding>();
+  // Sections each item has in storage, to notice deleted sections
+  private static storedSections = new Map<string, number>();
+  private static storedLoaded = false;
+
+  /**
+   * Sections most similar to the given one, across the whole wiki
+   */
+  static async getRelatedSections(itemId: string, sectionId: string, limit: number = 5): Promise<RelatedSection[]> {
+    const index = await this.buildIndex();
+    const target = index.sections.find(section => section.itemId === itemId && section.sectionId === sectionId);
+    return target ? findRelatedSections(target, index.sections, limit) : [];
+  }
+
+  /**
+   * Pairs of sections whose text is nearly the same, most similar first
+   */
+  static async getNearDuplicates(threshold: number = 0.8): Promise<NearDuplicatePair[]> {
+    const index = await this.buildIndex();
+    return findNearDuplicates(index.withText, threshold);
+  }
+
+  /**
+   * Embed every section, reusing stored vectors whose text has not changed.
+   * Items with new or stale vectors are written back (stores without
+   * embedding storage keep them in memory for the session).
+   */
+  private static async buildIndex(): Promise<EmbeddingIndex> {
+    const adapter = getStorageAdapter();
+    await this.loadStored();
+
+    let items;
+    try {
+      items = await adapter.listItems();
+    } catch (error) {
+      console.error('Error loading content for embeddings:', error);
+      return { sections: [], withText: [] };
+    }
+
+    const index: EmbeddingIndex = { sections: [], withText: [] };
+    const changedItems: Array<{ itemId: string; embeddings: SectionEmbedding[] }> = [];
+
+    for (const item of items) {
+      const sections = ContentService.normalizeContentJson(item.content_json) || [];
+      const embeddings: SectionEmbedding[] = [];
+      let changed = sections.length !== (this.storedSections.get(item.id) || 0);
+
+      for (const section of sections) {
+        const text = sectionEmbeddingText(section);
+        const contentHash = embeddingHash(text);
+        let embedding = this.embeddings.get(keyOf(item.id, section.id));
+
+        if (!embedding || embedding.contentHash !== contentHash) {
+          embedding = { itemId: item.id, sectionId: section.id, model: EMBEDDING_MODEL, contentHash, vector: embedText(text) };
+          this.embeddings.set(keyOf(item.id, section.id), embedding);
+          changed = true;
+        }
+        embeddings.push(embedding);
+
+        const vector: SectionVector = {
+          itemId: item.id,
+          documentTitle: item.title,
+          documentPath: item.path,
+          sectionId: section.id,
+          sectionTitle: section.title,
+          vector: embedding.vector
+        };
+        index.sections.push(vector);
+        if (section.content?.replace(/<!--[\s\S]*?-->/g, '').trim()) index.withText.push(vector);
+      }
+
+      if (changed) changedItems.push({ itemId: item.id, embeddings });
+    }
+
+    if (adapter.saveSectionEmbeddings && changedItems.length > 0) {
+      // Storing is only a cache for the next visit, so results do not wait for it
+      this.saveChanged(changedItems);
+    }
+
+    return index;
+  }
+
+  private static async loadStored(): Promise<void> {
+    const adapter = getStorageAdapter();
+    if (this.storedLoaded || !adapter.listSectionEmbeddings) return;
+
+    try {
+      const stored = await adapter.listSectionEmbeddings();
+      for (const embedding of stored) {
+        this.storedSections.set(embedding.itemId, (this.storedSections.get(embedding.itemId) || 0) + 1);
+        if (embedding.model === EMBEDDING_MODEL) {
+          this.embeddings.set(keyOf(embedding.itemId, embedding.sectionId), embedding);
+        }
+      }
+      this.storedLoaded = true;
+    } catch (error) {
+      console.error('Error loading stored embeddings:', error);
+    }
+  }
+
+  private static async saveChanged(changedItems: Array<{ itemId: string; embeddings: SectionEmbedding[] }>): Promise<void> {
+    const adapter = getStorageAdapter();
+    for (const { itemId, embeddings } of changedItems) {
+      try {
+        await adapter.saveSectionEmbeddings!(itemId, embeddings);
+        this.storedSections.set(itemId, embeddings.length);
+      } catch (error) {
+        console.error('Error saving section embeddings:', error);
+      }
+    }
+  }
+}
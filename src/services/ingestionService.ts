@@ -0,0 +1,101 @@
+import { ContentItem, ContentService } from "./contentService";
+import { ContentItemUpdates, getStorageAdapter } from "./storage";
+import { IngestionPlan, IngestionTarget, mergeIngestedSections, planIngestion } from "@/lib/bulkIngestion";
+
+export interface IngestionResult {
+  created: number;
+  merged: number;
+  overwritten: number;
+  skipped: number;
+  failed: Array<{ title: string; message: string }>;
+}
+
+/**
+ * Turns multi-document text files into wiki pages (see bulkIngestion.ts)
+ */
+export class IngestionService {
+  /**
+   * Preview what ingesting the text would do, against the current content tree
+   */
+  static async planIngestion(text: string, target: IngestionTarget): Promise<IngestionPlan> {
+    const existing = await getStorageAdapter().listItems();
+    return planIngestion(text, existing.map(item => ({
+      ...item,
+      content_json: ContentService.normalizeContentJson(item.content_json)
+    })), target);
+  }
+
+  /**
+   * Write the documents according to each one's chosen action. Overwrites and
+   * merges go through normal updates, so the previous content stays in revision history.
+   */
+  static async commitIngestion(plan: IngestionPlan): Promise<IngestionResult> {
+    const adapter = getStorageAdapter();
+    const result: IngestionResult = { created: 0, merged: 0, overwritten: 0, skipped: 0, failed: [] };
+    const willWrite = plan.documents.some(document => document.action !== 'skip');
+
+    let parentId = plan.target.kind === 'existing' ? plan.target.parentId : null;
+    if (plan.newFolder && willWrite) {
+      try {
+        const folder = await adapter.insertItem({ ...plan.newFolder, parent_id: null, tags: [], content_json: [] });
+        parentId = folder.id;
+      } catch (error) {
+        console.error('Error creating ingestion folder:', error);
+        result.failed.push({ title: plan.newFolder.title, message: 'Could not create the folder' });
+        return result;
+      }
+    }
+
+    for (const document of plan.documents) {
+      try {
+        switch (document.action) {
+          case 'skip':
+            result.skipped++;
+            break;
+          case 'create':
+            await adapter.insertItem({
+              title: document.title,
+              path: document.path,
+              parent_id: parentId,
+              order_index: document.order_index,
+              tags: document.tags,
+              content_json: document.sections
+            });
+            result.created++;
+            break;
+          case 'overwrite':
+            await this.updateDuplicate(document.duplicate, {
+              title: document.title,
+              tags: document.tags,
+              content_json: document.sections
+            });
+            result.overwritten++;
+            break;
+          case 'merge': {
+            const sections = mergeIngestedSections(document.duplicate?.content_json || [], document.sections);
+            await this.updateDuplicate(document.duplicate, {
+              tags: [...new Set(sections.flatMap(section => section.tags || []))],
+              content_json: sections
+            });
+            result.merged++;
+            break;
+          }
+        }
+      } catch (error) {
+        console.error('Error ingesting document:', error);
+        result.failed.push({ title: document.title, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  // Applies only if the page is unchanged since the preview was built
+  private static async updateDuplicate(duplicate: ContentItem | null, updates: ContentItemUpdates): Promise<void> {
+    if (!duplicate) throw new Error('No existing page to update');
+
+    const outcome = await getStorageAdapter().updateItem(duplicate.id, updates, duplicate.version);
+    if (outcome.status === 'conflict') throw new Error('The page was edited after the preview was made');
+    if (outcome.status === 'missing') throw new Error('The page was deleted after the preview was made');
+  }
+}
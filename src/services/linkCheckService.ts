@@ -0,0 +1,82 @@
+import { ContentItem } from "./contentService";
+import { getStorageAdapter } from "./storage";
+import { LinkService, toLinkable } from "./linkService";
+import { brokenTargets, checkLinks, LinkProblem, LinkRepair, repairLinks } from "@/lib/linkCheck";
+
+export interface LinkRepairResult {
+  updated: number;
+  failed: Array<{ title: string; message: string }>;
+}
+
+/**
+ * Finds broken and ambiguous wiki links and repairs them (see linkCheck.ts)
+ */
+export class LinkCheckService {
+  /**
+   * Check every link in the wiki, parsed from current content
+   */
+  static async checkAllLinks(): Promise<LinkProblem[]> {
+    try {
+      const documents = (await getStorageAdapter().listItems()).map(toLinkable);
+      return checkLinks(documents, documents);
+    } catch (error) {
+      console.error('Error checking links:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Targets of the document's links that lead nowhere, for styling them when rendered
+   */
+  static async getBrokenTargets(item: ContentItem): Promise<Set<string>> {
+    try {
+      const document = toLinkable(item);
+      const documents = (await getStorageAdapter().listItems()).map(toLinkable);
+      return brokenTargets(checkLinks([document], documents));
+    } catch (error) {
+      console.error('Error checking links:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Rewrite the repaired links, one update per document. Each document is read
+   * again first, so links edited since the check are left alone, and an edit
+   * made while it is rewritten fails the update instead of being overwritten.
+   * The previous content stays in revision history.
+   */
+  static async applyRepairs(problems: LinkProblem[], repairs: LinkRepair[]): Promise<LinkRepairResult> {
+    const adapter = getStorageAdapter();
+    const result: LinkRepairResult = { updated: 0, failed: [] };
+
+    const byDocument = new Map<string, LinkRepair[]>();
+    for (const repair of repairs) {
+      if (!byDocument.has(repair.sourceDocumentId)) byDocument.set(repair.sourceDocumentId, []);
+      byDocument.get(repair.sourceDocumentId)!.push(repair);
+    }
+
+    for (const [documentId, documentRepairs] of byDocument) {
+      const title = problems.find(problem => problem.link.sourceDocumentId === documentId)?.link.sourceDocumentTitle || documentId;
+      try {
+        const item = await adapter.getItemById(documentId);
+        if (!item) throw new Error('The page was deleted after the check');
+
+        const current = toLinkable(item).sections;
+        const sections = repairLinks(current, documentRepairs);
+        if (sections.every((section, i) => section === current[i])) continue;
+
+        const outcome = await adapter.updateItem(documentId, { content_json: sections }, item.version);
+        if (outcome.status === 'conflict') throw new Error('The page was edited while it was being repaired');
+        if (outcome.status === 'missing') throw new Error('The page was deleted after the check');
+
+        result.updated++;
+        await LinkService.indexItem({ ...item, content_json: sections, version: outcome.version ?? item.version });
+      } catch (error) {
+        console.error('Error repairing links:', error);
+        result.failed.push({ title, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+}
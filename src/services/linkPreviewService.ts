@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ContentService } from "./contentService";
+import { toLinkable } from "./linkService";
+import { resolveInternalLink } from "@/lib/internalLinkResolver";
+import type { LinkableDocument } from "@/lib/linkIndex";
+import { buildSectionPreview, SectionPreview, SourceMetadata } from "@/lib/linkPreview";
+
+interface SourceRow {
+  url: string;
+  title: string | null;
+  excerpt: string | null;
+  site_name: string | null;
+}
+
+/**
+ * Hover previews of internal links and sources (see linkPreview.ts)
+ */
+export class LinkPreviewService {
+  // Sources already looked up this session, including those that could not be read (null)
+  private static sources = new Map<string, SourceMetadata | null>();
+
+  /**
+   * Preview of what a link on the current document leads to, resolved like a
+   * click (resolveInternalLink). Null when the linked page does not exist.
+   */
+  static async getSectionPreview(target: string, currentDocument: LinkableDocument): Promise<SectionPreview | null> {
+    const resolved = resolveInternalLink(target, currentDocument.sections);
+    if (!resolved) return null;
+
+    if (resolved.type === 'same-document') {
+      return buildSectionPreview(target, currentDocument, resolved.sectionId ?? resolved.sectionTitle ?? null);
+    }
+
+    const sectionRef = resolved.sectionTitle ?? null;
+    if (resolved.documentPath === currentDocument.path) {
+      return buildSectionPreview(target, currentDocument, sectionRef);
+    }
+
+    const item = await ContentService.getContentItemByPath(resolved.documentPath || '/');
+    return item ? buildSectionPreview(target, toLinkable(item), sectionRef) : null;
+  }
+
+  /**
+   * Stored titles and excerpts of source URLs. Sources without a row are read
+   * by the source-metadata edge function, which stores them; sources it could
+   * not read have neither and are left out.
+   */
+  static async getSourceMetadata(urls: string[]): Promise<Record<string, SourceMetadata>> {
+    const unknown = [...new Set(urls)].filter(url => !this.sources.has(url));
+
+    if (unknown.length > 0) {
+      const { data, error } = await supabase
+        .from('source_metadata')
+        .select('url, title, excerpt, site_name')
+        .in('url', unknown);
+
+      if (error) {
+        console.error('Error fetching source metadata:', error);
+      } else {
+        this.store(data || []);
+      }
+
+      const unread = unknown.filter(url => !this.sources.has(url));
+      if (unread.length > 0) await this.readSources(unread);
+    }
+
+    const result: Record<string, SourceMetadata> = {};
+    for (const url of urls) {
+      const metadata = this.sources.get(url);
+      if (metadata) result[url] = metadata;
+    }
+    return result;
+  }
+
+  private static async readSources(urls: string[]): Promise<void> {
+    // Not asked for again this session, whether or not it works
+    urls.forEach(url => this.sources.set(url, null));
+
+    const { data, error } = await supabase.functions.invoke<{ sources: SourceRow[] }>('source-metadata', { body: { urls } });
+    if (error) {
+      console.error('Error reading source metadata:', error);
+      return;
+    }
+    this.store(data?.sources || []);
+  }
+
+  private static store(rows: SourceRow[]): void {
+    for (const row of rows) {
+      this.sources.set(row.url, row.title || row.excerpt
+        ? { url: row.url, title: row.title, excerpt: row.excerpt, siteName: row.site_name }
+        : null);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { ContentItem, DocumentSection } from "./contentService";
+import { ContentItemUpdates, getStorageAdapter, ItemUpdate } from "./storage";
+import { LinkService, toLinkable } from "./linkService";
+import { LinkableDocument } from "@/lib/linkIndex";
+import { movedPath, PathMove, planLinkRewrite, SectionRename } from "@/lib/linkRewrite";
+
+type ItemDocument = LinkableDocument & { item: ContentItem };
+
+export interface LinkRewriteResult {
+  linkCount: number;
+  sectionCount: number;
+  documentCount: number;
+  // Puts every updated item back as it was (see undo)
+  undo: ItemUpdate[];
+}
+
+const lastSegment = (path: string) => path.split('/').filter(Boolean).pop() || '';
+
+/**
+ * Rewrites the links to renamed sections and moved pages (see linkRewrite.ts).
+ * Everything a change touches is written in one batch, so either every link
+ * follows or nothing changes.
+ */
+export class LinkRewriteService {
+  /**
+   * Save a document's sections together with the links to the sections
+   * renamed since its last save (`renames`), in one batch: either the save
+   * and every rewritten link are written, or nothing is. The document is only
+   * saved if it is still at `expectedVersion`. Its own links may still name
+   * the titles from when editing started, as the open editor is not reloaded,
+   * so those follow `editRenames` (renames since editing started) first.
+   */
+  static async saveWithRenamedSections(
+    documentId: string,
+    updates: ContentItemUpdates & { content_json: DocumentSection[] },
+    expectedVersion: number,
+    renames: SectionRename[],
+    editRenames: SectionRename[]
+  ): Promise<LinkRewriteResult & { version: number }> {
+    const stored = await this.loadDocuments();
+    const saving = stored.find(document => document.id === documentId);
+    if (!saving) throw new Error('The page no longer exists');
+
+    const own = planLinkRewrite([{ ...saving, sections: updates.content_json }], editRenames).documents[0]?.sections
+      ?? updates.content_json;
+    // The wiki as it is after the save, which planLinkRewrite expects
+    const documents = stored.map(document => document.id === documentId ? { ...document, sections: own } : document);
+    const plan = planLinkRewrite(documents, renames);
+    const rewritten = plan.documents.find(change => change.document.id === documentId);
+
+    const result = await this.commit(
+      documents,
+      [
+        { id: documentId, updates: { ...updates, content_json: rewritten ? rewritten.sections : own }, expectedVersion },
+        ...plan.documents
+          .filter(change => change.document.id !== documentId)
+          .map(change => ({ id: change.document.id, updates: { content_json: change.sections } }))
+      ],
+      plan.linkCount,
+      plan.sectionCount
+    );
+
+    // Undoing puts the links back, not the save
+    const saved = result.undo.find(change => change.id === documentId)!;
+    const undo = result.undo.filter(change => change.id !== documentId);
+    if (rewritten) undo.push({ ...saved, updates: { content_json: own } });
+
+    return { ...result, undo, version: saved.expectedVersion! };
+  }
+
+  /**
+   * Move a page under another parent (null for the top level). Its path and
+   * its subpages' paths follow the new parent, and links to them are
+   * rewritten together with the move.
+   */
+  static async moveItem(itemId: string, parentId: string | null, orderIndex: number): Promise<LinkRewriteResult> {
+    const documents = await this.loadDocuments();
+    const moving = documents.find(document => document.id === itemId);
+    if (!moving) throw new Error('The page no longer exists');
+
+    const parent = parentId ? documents.find(document => document.id === parentId) : null;
+    if (parentId && !parent) throw new Error('The new parent no longer exists');
+    if (parent && (parent.id === itemId || parent.path.startsWith(`${moving.path}/`))) {
+      throw new Error('A page cannot be moved into itself');
+    }
+
+    const newPath = `${parent ? parent.path : ''}/${lastSegment(moving.path)}`;
+    const moves: PathMove[] = newPath !== moving.path ? [{ from: moving.path, to: newPath }] : [];
+    const taken = moves.length > 0 && documents.some(document => document.path === newPath);
+    if (taken) throw new Error(`There is already a page at ${newPath}`);
+
+    const updates = new Map<string, ContentItemUpdates>();
+    updates.set(itemId, { parent_id: parentId, order_index: orderIndex, path: newPath });
+    for (const document of documents) {
+      const path = document.id !== itemId ? movedPath(document.path, moves) : null;
+      if (path) updates.set(document.id, { path });
+    }
+
+    const plan = planLinkRewrite(documents, [], moves);
+    for (const change of plan.documents) {
+      updates.set(change.document.id, { ...updates.get(change.document.id), content_json: change.sections });
+    }
+
+    return this.commit(
+      documents,
+      [...updates].map(([id, itemUpdates]) => ({ id, updates: itemUpdates })),
+      plan.linkCount,
+      plan.sectionCount
+    );
+  }
+
+  /**
+   * Revert a rename's link rewrites or a move. Fails, changing nothing, when
+   * one of the items was edited since.
+   */
+  static async undo(changes: ItemUpdate[]): Promise<boolean> {
+    try {
+      const outcome = await getStorageAdapter().updateItems(changes);
+      if (outcome.status === 'conflict') return false;
+
+      await this.reindex(changes, outcome.versions);
+      return true;
+    } catch (error) {
+      console.error('Error undoing link rewrite:', error);
+      return false;
+    }
+  }
+
+  private static async loadDocuments(): Promise<ItemDocument[]> {
+    return (await getStorageAdapter().listItems()).map(item => ({ ...toLinkable(item), item }));
+  }
+
+  private static async commit(
+    documents: ItemDocument[],
+    // Without an expected version, each item only changes if it is still as it was read
+    changes: ItemUpdate[],
+    linkCount: number,
+    sectionCount: number
+  ): Promise<LinkRewriteResult> {
+    const documentCount = changes.filter(change => change.updates.content_json).length;
+    if (changes.length === 0) return { linkCount, sectionCount, documentCount, undo: [] };
+
+    const items = new Map(documents.map(document => [document.id, document.item]));
+    const outcome = await getStorageAdapter().updateItems(
+      changes.map(change => ({ ...change, expectedVersion: change.expectedVersion ?? items.get(change.id)!.version }))
+    );
+    if (outcome.status === 'conflict') {
+      throw new Error('A page changed while its links were being updated, so nothing was changed');
+    }
+
+    await this.reindex(changes, outcome.versions);
+
+    const undo = changes.map(change => {
+      const item = items.get(change.id)!;
+      const previous = Object.fromEntries(Object.keys(change.updates).map(field => [field, item[field as keyof ContentItem]]));
+      return { id: change.id, updates: previous, expectedVersion: outcome.versions[change.id] };
+    });
+
+    return { linkCount, sectionCount, documentCount, undo };
+  }
+
+  // Stored links follow the new content
+  private static async reindex(changes: ItemUpdate[], versions: Record<string, number>): Promise<void> {
+    for (const change of changes) {
+      if (!change.updates.content_json) continue;
+      const item = await getStorageAdapter().getItemById(change.id);
+      if (item && item.version === versions[change.id]) await LinkService.indexItem(item);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { ContentItem, ContentService } from "./contentService";
+import { getStorageAdapter, StoredLink } from "./storage";
+import {
+  extractSectionLinks,
+  inboundLinks,
+  indexByPath,
+  LinkableDocument,
+  LinkEdge,
+  outboundLinks,
+  resolveSectionLinks
+} from "@/lib/linkIndex";
+
+export const toLinkable = (item: ContentItem): LinkableDocument => ({
+  id: item.id,
+  title: item.title,
+  path: item.path,
+  sections: ContentService.normalizeContentJson(item.content_json) || []
+});
+
+export class LinkService {
+  /**
+   * Links pointing at a document, or at one of its sections when sectionId is given
+   */
+  static async getInboundLinks(itemId: string, sectionId?: string): Promise<LinkEdge[]> {
+    return inboundLinks(await this.getLinkIndex(), itemId, sectionId);
+  }
+
+  /**
+   * Links made from a document, or from one of its sections when sectionId is given
+   */
+  static async getOutboundLinks(itemId: string, sectionId?: string): Promise<LinkEdge[]> {
+    return outboundLinks(await this.getLinkIndex(), itemId, sectionId);
+  }
+
+  /**
+   * Every wiki link in the wiki, resolved against the current documents.
+   * Stored links are used for items unchanged since they were stored; the
+   * others are parsed from their content and written back (stores without
+   * link storage parse every item).
+   */
+  static async getLinkIndex(): Promise<LinkEdge[]> {
+    const adapter = getStorageAdapter();
+
+    let items: ContentItem[];
+    let stored: StoredLink[] = [];
+    try {
+      items = await adapter.listItems();
+      if (adapter.listLinks) stored = await adapter.listLinks();
+    } catch (error) {
+      console.error('Error loading the link index:', error);
+      return [];
+    }
+
+    const storedByItem = new Map<string, StoredLink[]>();
+    for (const link of stored) {
+      if (!storedByItem.has(link.itemId)) storedByItem.set(link.itemId, []);
+      storedByItem.get(link.itemId)!.push(link);
+    }
+
+    const documents = items.map(toLinkable);
+    const byPath = indexByPath(documents);
+    const edges: LinkEdge[] = [];
+    const stale: Array<{ item: ContentItem; edges: LinkEdge[] }> = [];
+
+    items.forEach((item, i) => {
+      const storedLinks = storedByItem.get(item.id) || [];
+      const upToDate = storedLinks.length > 0 && storedLinks.every(link => link.itemVersion === item.version);
+      const links = upToDate ? storedLinks : extractSectionLinks(documents[i].sections);
+      const itemEdges = resolveSectionLinks(documents[i], links, byPath);
+
+      edges.push(...itemEdges);
+      // Items without links have nothing stored to refresh
+      if (!upToDate && (links.length > 0 || storedLinks.length > 0)) stale.push({ item, edges: itemEdges });
+    });
+
+    if (adapter.saveLinks && stale.length > 0) {
+      // Storing only spares the next reader the parsing, so results do not wait for it
+      this.saveStale(stale);
+    }
+
+    return edges;
+  }
+
+  /**
+   * Store the links of a document that was just saved
+   */
+  static async indexItem(item: ContentItem): Promise<void> {
+    const adapter = getStorageAdapter();
+    if (!adapter.saveLinks) return;
+
+    try {
+      const document = toLinkable(item);
+      const links = extractSectionLinks(document.sections);
+      // Other documents are only needed to resolve cross-document targets
+      const targets = links.some(link => link.target.startsWith('/')) ? (await adapter.listItems()).map(toLinkable) : [document];
+      await adapter.saveLinks(item.id, this.toStored(item, resolveSectionLinks(document, links, indexByPath(targets))));
+    } catch (error) {
+      console.error('Error indexing links:', error);
+    }
+  }
+
+  private static toStored(item: ContentItem, edges: LinkEdge[]): StoredLink[] {
+    return edges.map(edge => ({
+      itemId: item.id,
+      itemVersion: item.version,
+      sectionId: edge.sourceSectionId,
+      text: edge.text,
+      target: edge.target,
+      targetItemId: edge.targetDocumentId,
+      targetSectionId: edge.targetSectionId
+    }));
+  }
+
+  private static async saveStale(stale: Array<{ item: ContentItem; edges: LinkEdge[] }>): Promise<void> {
+    const adapter = getStorageAdapter();
+    for (const { item, edges } of stale) {
+      try {
+        await adapter.saveLinks!(item.id, this.toStored(item, edges));
+      } catch (error) {
+        console.error('Error saving content links:', error);
+      }
+    }
+  }
+}
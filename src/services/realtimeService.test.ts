@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the realtime layer using the in-memory transport
+ * Run in browser console: import('/src/services/realtimeService.test.ts').then(m => m.runAllTests())
+ */
+
+import { InMemoryRealtimeTransport, PresenceState, toContentChangeEvent } from './realtimeService';
+
+// Test data
+const createPresence = (userId: string, overrides: Partial<PresenceState> = {}): PresenceState => ({
+  userId,
+  email: `${userId}@example.com`,
+  mode: 'viewing',
+  sectionId: null,
+  sectionTitle: null,
+  joinedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+// Test functions
+export function testPresenceSync(): { passed: boolean; message: string } {
+  try {
+    const transport = new InMemoryRealtimeTransport();
+    let alicePeers: PresenceState[] = [];
+    let bobPeers: PresenceState[] = [];
+
+    const alice = transport.joinPresence('/docs/guide', createPresence('alice'), peers => { alicePeers = peers; });
+    transport.joinPresence('/docs/guide', createPresence('bob'), peers => { bobPeers = peers; });
+    transport.joinPresence('/docs/other', createPresence('carol'), () => {});
+
+    if (alicePeers.length !== 1 || alicePeers[0].userId !== 'bob' || bobPeers[0]?.userId !== 'alice') {
+      return { passed: false, message: 'Expected alice and bob to see only each other' };
+    }
+
+    alice.update({ mode: 'editing', sectionId: 'setup', sectionTitle: 'Setup' });
+    if (bobPeers[0].mode !== 'editing' || bobPeers[0].sectionTitle !== 'Setup') {
+      return { passed: false, message: 'Presence update was not synced' };
+    }
+
+    alice.leave();
+    if (bobPeers.length !== 0) {
+      return { passed: false, message: 'Expected bob to be alone after alice left' };
+    }
+
+    return { passed: true, message: 'Presence joins, updates and leaves sync to peers' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testContentChangeSubscription(): { passed: boolean; message: string } {
+  try {
+    const transport = new InMemoryRealtimeTransport();
+    const received: string[] = [];
+
+    const unsubscribe = transport.subscribeToContentChanges(event => received.push(event.id));
+    transport.emitContentChange({ type: 'UPDATE', id: 'doc-1', path: '/doc-1', version: 2, structural: false });
+    unsubscribe();
+    transport.emitContentChange({ type: 'UPDATE', id: 'doc-2', path: '/doc-2', version: 2, structural: false });
+
+    if (received.join(',') !== 'doc-1') {
+      return { passed: false, message: `Unexpected events received: ${received.join(',')}` };
+    }
+
+    return { passed: true, message: 'Content change subscriptions deliver and unsubscribe' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export function testStructuralDetection(): { passed: boolean; message: string } {
+  try {
+    const row = { id: 'doc-1', path: '/doc-1', title: 'Doc', parent_id: null, order_index: 0, version: 1 };
+    const base = { schema: 'public', table: 'content_items', commit_timestamp: '', errors: [] as string[] };
+
+    const contentOnly = toContentChangeEvent({ ...base, eventType: 'UPDATE', old: row, new: { ...row, version: 2 } });
+    const moved = toContentChangeEvent({ ...base, eventType: 'UPDATE', old: row, new: { ...row, order_index: 3 } });
+
+    if (contentOnly?.structural !== false || moved?.structural !== true) {
+      return { passed: false, message: 'Expected only the reorder to be structural' };
+    }
+
+    return { passed: true, message: 'Structural changes are detected from old and new rows' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+// Run all tests
+export function runAllTests(): { total: number; passed: number; failed: number } {
+  const tests = [
+    { name: 'presenceSync', fn: testPresenceSync },
+    { name: 'contentChangeSubscription', fn: testContentChangeSubscription },
+    { name: 'structuralDetection', fn: testStructuralDetection },
+  ];
+
+  const results = tests.map(test => ({ name: test.name, ...test.fn() }));
+
+  console.log('\n=== Realtime Service Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
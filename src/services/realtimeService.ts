@@ -0,0 +1,221 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { RealtimeChannel, RealtimePostgresChangesPayload, SupabaseClient } from "@supabase/supabase-js";
+
+export type ContentChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface ContentChangeEvent {
+  type: ContentChangeType;
+  id: string;
+  path: string | null;
+  version: number | null;
+  // True when the sidebar tree is affected (title, path, parent or order changed)
+  structural: boolean;
+}
+
+export interface PresenceState {
+  userId: string;
+  email: string | null;
+  mode: 'viewing' | 'editing';
+  sectionId: string | null;
+  sectionTitle: string | null;
+  joinedAt: string;
+}
+
+export interface PresenceHandle {
+  update: (changes: Partial<PresenceState>) => void;
+  leave: () => void;
+}
+
+/**
+ * Transport behind RealtimeService. The Supabase transport is used in the app;
+ * the in-memory one stands in for it in tests and offline development.
+ */
+export interface RealtimeTransport {
+  subscribeToContentChanges(onChange: (event: ContentChangeEvent) => void): () => void;
+  joinPresence(room: string, state: PresenceState, onSync: (peers: PresenceState[]) => void): PresenceHandle;
+}
+
+type ContentItemRow = {
+  id: string;
+  path: string;
+  title: string;
+  parent_id: string | null;
+  order_index: number | null;
+  version: number;
+};
+
+const STRUCTURAL_COLUMNS: (keyof ContentItemRow)[] = ['title', 'path', 'parent_id', 'order_index'];
+
+// Identifies this browser tab so a user with two tabs open shows up twice
+const createClientKey = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Turns a postgres_changes payload into a ContentChangeEvent.
+ * Old row values need REPLICA IDENTITY FULL on content_items.
+ */
+export function toContentChangeEvent(payload: RealtimePostgresChangesPayload<ContentItemRow>): ContentChangeEvent | null {
+  const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<ContentItemRow>;
+  if (!row?.id) return null;
+
+  const oldRow = payload.old as Partial<ContentItemRow>;
+  const structural = payload.eventType !== 'UPDATE' ||
+    STRUCTURAL_COLUMNS.some(column => oldRow?.[column] !== (payload.new as Partial<ContentItemRow>)[column]);
+
+  return {
+    type: payload.eventType,
+    id: row.id,
+    path: row.path ?? null,
+    version: row.version ?? null,
+    structural
+  };
+}
+
+export class SupabaseRealtimeTransport implements RealtimeTransport {
+  // Accepts a client so tests can point it at a local Supabase stack
+  constructor(private client: SupabaseClient = supabase as unknown as SupabaseClient) {}
+
+  subscribeToContentChanges(onChange: (event: ContentChangeEvent) => void): () => void {
+    const channel = this.client
+      .channel(`content-items-${createClientKey()}`)
+      .on<ContentItemRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'content_items' },
+        payload => {
+          const event = toContentChangeEvent(payload);
+          if (event) onChange(event);
+        }
+      )
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Error subscribing to content changes');
+        }
+      });
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+
+  joinPresence(room: string, state: PresenceState, onSync: (peers: PresenceState[]) => void): PresenceHandle {
+    const key = createClientKey();
+    let current = state;
+    let subscribed = false;
+
+    const channel: RealtimeChannel = this.client.channel(`presence:${room}`, {
+      config: { presence: { key } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const presence = channel.presenceState<PresenceState>();
+        const peers = Object.entries(presence)
+          .filter(([peerKey]) => peerKey !== key)
+          .map(([, metas]) => metas[metas.length - 1])
+          .filter(Boolean);
+        onSync(peers);
+      })
+      .subscribe(async status => {
+        if (status === 'SUBSCRIBED') {
+          subscribed = true;
+          await channel.track(current);
+        } else if (status === 'CHANNEL_ERROR') {
+          console.error('Error joining presence channel:', room);
+        }
+      });
+
+    return {
+      update: changes => {
+        current = { ...current, ...changes };
+        if (subscribed) channel.track(current);
+      },
+      leave: () => {
+        this.client.removeChannel(channel);
+      }
+    };
+  }
+}
+
+/**
+ * Same-process transport: content changes are emitted by hand and presence
+ * rooms are shared between all handles created from one instance.
+ */
+export class InMemoryRealtimeTransport implements RealtimeTransport {
+  private contentListeners = new Set<(event: ContentChangeEvent) => void>();
+  private rooms = new Map<string, Map<string, { state: PresenceState; onSync: (peers: PresenceState[]) => void }>>();
+
+  subscribeToContentChanges(onChange: (event: ContentChangeEvent) => void): () => void {
+    this.contentListeners.add(onChange);
+    return () => {
+      this.contentListeners.delete(onChange);
+    };
+  }
+
+  emitContentChange(event: ContentChangeEvent): void {
+    this.contentListeners.forEach(listener => listener(event));
+  }
+
+  joinPresence(room: string, state: PresenceState, onSync: (peers: PresenceState[]) => void): PresenceHandle {
+    const key = createClientKey();
+    if (!this.rooms.has(room)) this.rooms.set(room, new Map());
+    const members = this.rooms.get(room)!;
+
+    members.set(key, { state, onSync });
+    this.syncRoom(room);
+
+    return {
+      update: changes => {
+        const member = members.get(key);
+        if (!member) return;
+        member.state = { ...member.state, ...changes };
+        this.syncRoom(room);
+      },
+      leave: () => {
+        members.delete(key);
+        if (members.size === 0) {
+          this.rooms.delete(room);
+        } else {
+          this.syncRoom(room);
+        }
+      }
+    };
+  }
+
+  private syncRoom(room: string): void {
+    const members = this.rooms.get(room);
+    if (!members) return;
+
+    members.forEach((member, key) => {
+      const peers = Array.from(members.entries())
+        .filter(([peerKey]) => peerKey !== key)
+        .map(([, peer]) => peer.state);
+      member.onSync(peers);
+    });
+  }
+}
+
+export class RealtimeService {
+  private static transport: RealtimeTransport = new SupabaseRealtimeTransport();
+
+  /**
+   * Swap the transport, e.g. for an InMemoryRealtimeTransport in tests
+   */
+  static setTransport(transport: RealtimeTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Listen for inserts, updates and deletes on content_items.
+   * Returns an unsubscribe function.
+   */
+  static subscribeToContentChanges(onChange: (event: ContentChangeEvent) => void): () => void {
+    return this.transport.subscribeToContentChanges(onChange);
+  }
+
+  /**
+   * Announce this tab in a presence room (one room per document path).
+   * `onSync` receives everyone else in the room whenever it changes.
+   */
+  static joinPresence(room: string, state: PresenceState, onSync: (peers: PresenceState[]) => void): PresenceHandle {
+    return this.transport.joinPresence(room, state, onSync);
+  }
+}
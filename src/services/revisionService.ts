@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ContentService, DocumentSection } from "./contentService";
+
+export interface DocumentRevisionSummary {
+  id: string;
+  content_item_id: string;
+  title: string;
+  path: string;
+  author_id: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+export interface DocumentRevision extends DocumentRevisionSummary {
+  content_json: DocumentSection[] | null;
+  tags: string[];
+}
+
+// Columns needed for the history list - content_json is only fetched per revision
+const SUMMARY_COLUMNS = 'id, content_item_id, title, path, author_id, author_email, created_at';
+
+export class RevisionService {
+  /**
+   * List revisions of a content item, newest first.
+   * Revisions are captured by a database trigger on every save.
+   */
+  static async listRevisions(contentItemId: string, limit: number = 100): Promise<DocumentRevisionSummary[]> {
+    const { data, error } = await supabase
+      .from('content_item_revisions')
+      .select(SUMMARY_COLUMNS)
+      .eq('content_item_id', contentItemId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching revisions:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async getRevision(revisionId: string): Promise<DocumentRevision | null> {
+    const { data, error } = await supabase
+      .from('content_item_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching revision:', error);
+      return null;
+    }
+
+    return data ? {
+      ...data,
+      tags: data.tags || [],
+      content_json: ContentService.normalizeContentJson(data.content_json)
+    } : null;
+  }
+
+  /**
+   * Restore a content item to the state captured in a revision.
+   * The restore is itself a save, so it produces a new revision and can be undone.
+   */
+  static async restoreRevision(revisionId: string): Promise<boolean> {
+    const revision = await this.getRevision(revisionId);
+    if (!revision) {
+      console.error('Revision not found for restore');
+      return false;
+    }
+
+    return ContentService.updateContentItem(revision.content_item_id, {
+      title: revision.title,
+      content_json: revision.content_json,
+      tags: revision.tags
+    });
+  }
+}
@@ -0,0 +1,177 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SearchResult, SearchService } from "./searchService";
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean;
+  last_opened_at: string | null;
+  last_result_keys: string[];
+  created_at: string;
+}
+
+export interface OpenedSavedSearch {
+  search: SavedSearch;
+  results: SearchResult[];
+  // Only the best matches came back (see SearchService.searchPage)
+  truncated: boolean;
+  // Keys (see resultKey) of results that were not there when it was last opened
+  newResultKeys: Set<string>;
+}
+
+const SAVED_SEARCH_COLUMNS = 'id, name, query, pinned, last_opened_at, last_result_keys, created_at';
+const HISTORY_LIMIT = 10;
+
+const historyKey = (userId: string) => `search-history:${userId}`;
+
+/**
+ * The same page or section can come back as a title, section-title or content
+ * match, so results are compared by what they point at
+ */
+export const resultKey = (result: SearchResult): string =>
+  result.sectionId ? `${result.documentId}#${result.sectionId}` : result.documentId;
+
+export class SavedSearchService {
+  private static listeners = new Set<() => void>();
+
+  /**
+   * The signed-in user's saved searches, by name. Saved searches live in
+   * Supabase whichever storage backend holds the content.
+   */
+  static async listSavedSearches(): Promise<SavedSearch[]> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select(SAVED_SEARCH_COLUMNS)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching saved searches:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createSavedSearch(name: string, query: string): Promise<SavedSearch | null> {
+    // Results already there when it is saved do not count as new on first open
+    const results = await SearchService.search(query);
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        name: name.trim(),
+        query: query.trim(),
+        last_opened_at: new Date().toISOString(),
+        last_result_keys: results.map(resultKey)
+      })
+      .select(SAVED_SEARCH_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving search:', error);
+      return null;
+    }
+
+    this.notify();
+    return data;
+  }
+
+  static async updateSavedSearch(id: string, updates: Partial<Pick<SavedSearch, 'name' | 'query' | 'pinned'>>): Promise<boolean> {
+    const { error } = await supabase
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating saved search:', error);
+      return false;
+    }
+
+    this.notify();
+    return true;
+  }
+
+  static async deleteSavedSearch(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved search:', error);
+      return false;
+    }
+
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Run a saved search, marking results that are new since it was last
+   * opened, and remember this run for next time
+   */
+  static async openSavedSearch(search: SavedSearch): Promise<OpenedSavedSearch> {
+    const { results, truncated } = await SearchService.searchPage(search.query);
+    const previousKeys = new Set(search.last_result_keys);
+    const newResultKeys = new Set(results.map(resultKey).filter(key => !previousKeys.has(key)));
+
+    const lastOpenedAt = new Date().toISOString();
+    const lastResultKeys = results.map(resultKey);
+    const { error } = await supabase
+      .from('saved_searches')
+      .update({ last_opened_at: lastOpenedAt, last_result_keys: lastResultKeys })
+      .eq('id', search.id);
+
+    if (error) {
+      console.error('Error recording saved search run:', error);
+    } else {
+      this.notify();
+    }
+
+    return {
+      search: { ...search, last_opened_at: lastOpenedAt, last_result_keys: lastResultKeys },
+      results,
+      truncated,
+      newResultKeys
+    };
+  }
+
+  /**
+   * Called whenever the saved searches change, e.g. to refresh the pinned
+   * list in the sidebar. Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Recent searches are kept per user in this browser only
+
+  static getRecentSearches(userId: string): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(historyKey(userId)) || '[]');
+      return Array.isArray(stored) ? stored.filter(query => typeof query === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static addRecentSearch(userId: string, query: string): string[] {
+    const trimmed = query.trim();
+    if (!trimmed) return this.getRecentSearches(userId);
+
+    const recent = [trimmed, ...this.getRecentSearches(userId).filter(previous => previous !== trimmed)].slice(0, HISTORY_LIMIT);
+    localStorage.setItem(historyKey(userId), JSON.stringify(recent));
+    return recent;
+  }
+
+  static clearRecentSearches(userId: string): void {
+    localStorage.removeItem(historyKey(userId));
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SearchResult } from "./searchService";
+import { normalizeQuery } from "@/lib/searchAnalytics";
+
+export type SearchSource = 'overlay' | 'link-picker';
+
+/**
+ * VITE_SEARCH_ANALYTICS: "off" logs nothing, "anonymous" (the default) logs
+ * searches without saying who made them, "identified" records the user too
+ */
+export type SearchAnalyticsMode = 'off' | 'anonymous' | 'identified';
+
+export interface SearchEvent {
+  id: string;
+  source: string;
+  query: string;
+  result_count: number;
+  clicked_path: string | null;
+  clicked_position: number | null;
+  created_at: string;
+}
+
+// A search this soon after the previous one, extending or shortening it, is
+// the same search being typed and replaces it rather than counting twice
+const REFINEMENT_WINDOW = 15 * 1000;
+// Opening a result later than this is not credited to the search
+const CLICK_WINDOW = 30 * 60 * 1000;
+
+export function getSearchAnalyticsMode(): SearchAnalyticsMode {
+  const configured = import.meta.env.VITE_SEARCH_ANALYTICS as string | undefined;
+  if (configured === 'off' || configured === 'identified') return configured;
+  return 'anonymous';
+}
+
+interface LastSearch {
+  id: string;
+  query: string;
+  at: number;
+  clicked: boolean;
+}
+
+export class SearchAnalyticsService {
+  private static lastSearches: Partial<Record<SearchSource, LastSearch>> = {};
+  // Writes run one at a time so a click always finds the search it belongs to
+  private static queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Log a search and how many results it found. Never throws or delays the
+   * search: failures are only logged to the console.
+   */
+  static recordSearch(query: string, resultCount: number, source: SearchSource): void {
+    const mode = getSearchAnalyticsMode();
+    if (mode === 'off' || !query.trim()) return;
+
+    this.enqueue(async () => {
+      const now = Date.now();
+      const last = this.lastSearches[source];
+      const normalized = normalizeQuery(query);
+      const isRefinement = last && !last.clicked && now - last.at < REFINEMENT_WINDOW
+        && (normalized.startsWith(last.query) || last.query.startsWith(normalized));
+
+      if (isRefinement) {
+        const { error } = await supabase
+          .from('search_events')
+          .update({ query: query.trim(), result_count: resultCount })
+          .eq('id', last.id);
+        if (error) throw error;
+        this.lastSearches[source] = { ...last, query: normalized, at: now };
+        return;
+      }
+
+      const userId = mode === 'identified'
+        ? (await supabase.auth.getSession()).data.session?.user.id ?? null
+        : null;
+      const { data, error } = await supabase
+        .from('search_events')
+        .insert({ query: query.trim(), result_count: resultCount, source, user_id: userId })
+        .select('id')
+        .single();
+      if (error) throw error;
+      this.lastSearches[source] = { id: data.id, query: normalized, at: now, clicked: false };
+    });
+  }
+
+  /**
+   * Credit the latest search from this source with the result opened from it,
+   * `position` being its zero-based place in the list shown. Results shown for
+   * another query, such as a saved search, are not credited.
+   */
+  static recordClick(source: SearchSource, query: string, result: SearchResult, position: number): void {
+    if (getSearchAnalyticsMode() === 'off') return;
+
+    this.enqueue(async () => {
+      const last = this.lastSearches[source];
+      if (!last || last.clicked || last.query !== normalizeQuery(query) || Date.now() - last.at > CLICK_WINDOW) return;
+
+      const { error } = await supabase
+        .from('search_events')
+        .update({
+          clicked_document_id: result.documentId,
+          clicked_section_id: result.sectionId ?? null,
+          clicked_path: result.sectionId ? `${result.documentPath}#${result.sectionId}` : result.documentPath,
+          clicked_position: position,
+          clicked_at: new Date().toISOString()
+        })
+        .eq('id', last.id);
+      if (error) throw error;
+      this.lastSearches[source] = { ...last, clicked: true };
+    });
+  }
+
+  /**
+   * Logged searches since a date, oldest first
+   */
+  static async listEvents(since: Date, limit: number = 5000): Promise<SearchEvent[]> {
+    const { data, error } = await supabase
+      .from('search_events')
+      .select('id, source, query, result_count, clicked_path, clicked_position, created_at')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching search events:', error);
+      return [];
+    }
+
+    return (data || []).reverse();
+  }
+
+  private static enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error('Error logging search:', error);
+    });
+  }
+}
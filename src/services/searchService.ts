@@ -1,5 +1,12 @@
-import { supabase } from "@/integrations/supabase/client";
-import { DocumentSection } from "./contentService";
+import { ContentItem, DocumentSection } from "./contentService";
+import { getStorageAdapter, SearchHit } from "./storage";
+import { collectSearchTerms, expandSynonyms, isPlainTextQuery, matchesQuery, parseSearchQuery, QueryNode, QuerySyntaxError } from "@/lib/searchQuery";
+import { DEFAULT_FUZZY_OPTIONS, findTermMatches, FuzzyOptions, TermMatch } from "@/lib/fuzzyMatch";
+import { isInScope, SearchScope } from "@/lib/searchFacets";
+import { parseRubric } from "@/lib/rubricConfig";
+import { TagManager } from "@/lib/tagManager";
+import { SearchAnalyticsService, SearchSource } from "./searchAnalyticsService";
+import { SearchSynonymService } from "./searchSynonymService";
 
 export interface SearchResult {
   id: string;
@@ -13,25 +20,144 @@ export interface SearchResult {
   breadcrumbPath: string[];
   matchType: 'title' | 'section-title' | 'content';
   relevanceScore: number;
+  // The document's tags for its own entry, the section's effective tags
+  // (its own and inherited ones, see TagManager) for a section
+  tags: string[];
+  // Lowercase rubric of the section title, e.g. "main goal"
+  rubric?: string;
+  // Words that only matched a close variant, e.g. "prioritise" as "prioritize"
+  matchedVariants?: { term: string; variant: string }[];
 }
 
+export interface SearchOptions {
+  // Typo tolerance; false for exact matching only
+  fuzzy?: Partial<FuzzyOptions> | false;
+  // Only search one document or folder
+  scope?: SearchScope | null;
+  // Where the search was made, for search analytics; unset searches are not logged
+  source?: SearchSource;
+}
+
+export interface SearchResultPage {
+  results: SearchResult[];
+  // Only the best matches came back (the full-text index stops at MAX_RESULTS),
+  // so counts over the results do not cover every match
+  truncated: boolean;
+}
+
+// The overlay and link picker only show the best matches
+const MAX_RESULTS = 50;
+// Score lost per edit between a query word and the variant it matched
+const FUZZY_EDIT_PENALTY = 10;
+
 export class SearchService {
   /**
-   * Search across all documents and sections with relevance ranking
-   * Prioritizes: exact title matches > section title matches > content matches
+   * Search across all documents and sections with relevance ranking.
+   * Plain word queries use the storage's full-text index when it has one
+   * (Supabase); queries with phrases, operators or fields, queries the index
+   * finds nothing for, and stores without an index, are evaluated locally,
+   * where words also match typo variants. Scoped searches are evaluated
+   * locally too, as the index only returns the best matches of the whole wiki.
+   * Words with synonyms (see SearchSynonymService) also match their synonyms,
+   * which takes the query to the local search as well.
+   * Invalid queries return no results; see validateQuery for the reason.
    */
-  static async search(query: string): Promise<SearchResult[]> {
-    if (!query.trim()) return [];
-    
-    const normalizedQuery = query.toLowerCase().trim();
+  static async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    return (await this.searchPage(query, options)).results;
+  }
+
+  /**
+   * Like search, and says whether the results are only the best matches,
+   * for counting them (see searchFacets)
+   */
+  static async searchPage(query: string, options: SearchOptions = {}): Promise<SearchResultPage> {
+    if (!query.trim()) return { results: [], truncated: false };
+
+    const page = await this.runSearch(query, options);
+    if (options.source) {
+      SearchAnalyticsService.recordSearch(query, page.results.length, options.source);
+    }
+    return page;
+  }
+
+  private static async runSearch(query: string, options: SearchOptions): Promise<SearchResultPage> {
+    let parsedQuery: QueryNode;
+    try {
+      parsedQuery = parseSearchQuery(query);
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return { results: [], truncated: false };
+      throw error;
+    }
+    parsedQuery = expandSynonyms(parsedQuery, await SearchSynonymService.getSynonymMap());
+
+    const adapter = getStorageAdapter();
+    if (adapter.searchIndex && isPlainTextQuery(parsedQuery) && !options.scope) {
+      try {
+        const hits = await adapter.searchIndex(query.trim(), MAX_RESULTS);
+        // The index only knows exact words, so let a typo fall through to the local search
+        if (hits.length > 0 || options.fuzzy === false) {
+          return { results: hits.map(hit => this.toSearchResult(hit)), truncated: hits.length >= MAX_RESULTS };
+        }
+      } catch (error) {
+        console.error('Search index unavailable, searching locally:', error);
+      }
+    }
+
+    const fuzzy = options.fuzzy === false ? null : { ...DEFAULT_FUZZY_OPTIONS, ...options.fuzzy };
+    return { results: await this.searchLocally(parsedQuery, fuzzy, options.scope), truncated: false };
+  }
+
+  /**
+   * The syntax error in a query, or null if it parses
+   */
+  static validateQuery(query: string): string | null {
+    if (!query.trim()) return null;
+    try {
+      parseSearchQuery(query);
+      return null;
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return error.message;
+      throw error;
+    }
+  }
+
+  private static toSearchResult(hit: SearchHit): SearchResult {
+    const idPrefix = { 'title': 'doc', 'section-title': 'section', 'content': 'content' }[hit.matchType];
+    return {
+      id: hit.sectionId ? `${idPrefix}-${hit.itemId}-${hit.sectionId}` : `${idPrefix}-${hit.itemId}`,
+      documentId: hit.itemId,
+      documentTitle: hit.documentTitle,
+      documentPath: hit.documentPath,
+      sectionId: hit.sectionId || undefined,
+      sectionTitle: hit.sectionTitle || undefined,
+      matchedText: hit.snippet,
+      fullContent: hit.matchType === 'title' ? hit.documentTitle : hit.content || hit.sectionTitle || '',
+      breadcrumbPath: hit.breadcrumb,
+      matchType: hit.matchType,
+      relevanceScore: hit.rank * 100,
+      tags: hit.tags,
+      rubric: hit.sectionTitle ? this.rubricOf(hit.sectionTitle, hit.sectionLevel || 1) : undefined
+    };
+  }
+
+  /**
+   * Evaluate the query against every document and section
+   * Prioritizes: exact title matches > section title matches > content matches,
+   * and any exact result over one that needed typo variants
+   *
+   * A document's own entry is matched on its title, path, tags and date. A
+   * section that matches only because of its document's title is left out
+   * when the document itself is already a result.
+   */
+  private static async searchLocally(parsedQuery: QueryNode, fuzzy: FuzzyOptions | null, scope?: SearchScope | null): Promise<SearchResult[]> {
+    const terms = collectSearchTerms(parsedQuery);
     const results: SearchResult[] = [];
     
     // Fetch all documents with content
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*');
-    
-    if (error) {
+    let data: ContentItem[];
+    try {
+      data = await getStorageAdapter().listItems();
+    } catch (error) {
       console.error('Search error:', error);
       return [];
     }
@@ -39,27 +165,40 @@ export class SearchService {
     if (!data) return [];
     
     for (const item of data) {
+      if (!isInScope(item.path || '', scope)) continue;
       const docTitle = item.title || '';
       const docPath = item.path || '';
       const sections = this.normalizeContentJson(item.content_json);
       
       // Build section hierarchy map for breadcrumbs
       const sectionHierarchy = this.buildSectionHierarchy(sections || []);
+      const effectiveTags = new Map(TagManager.getSectionTags(sections || []).map(tags => [tags.sectionId, tags.effective]));
+      const documentTags = TagManager.ownTags(item.tags || []);
       
-      // Check document title match
-      if (docTitle.toLowerCase().includes(normalizedQuery)) {
-        const isExactMatch = docTitle.toLowerCase() === normalizedQuery;
-        results.push({
+      // Check the document's own entry
+      const documentMatches = matchesQuery(parsedQuery, {
+        documentTitle: docTitle,
+        documentPath: docPath,
+        content: '',
+        tags: documentTags,
+        level: null,
+        updatedAt: item.updated_at
+      }, fuzzy);
+      if (documentMatches) {
+        const match = this.firstMatch(docTitle, terms, fuzzy);
+        const isExactMatch = terms.length > 0 && docTitle.toLowerCase() === terms.join(' ').toLowerCase();
+        results.push(this.withVariants({
           id: `doc-${item.id}`,
           documentId: item.id,
           documentTitle: docTitle,
           documentPath: docPath,
-          matchedText: this.highlightMatch(docTitle, query),
+          matchedText: this.highlightMatch(docTitle, terms, fuzzy),
           fullContent: docTitle,
           breadcrumbPath: [docTitle],
           matchType: 'title',
-          relevanceScore: isExactMatch ? 100 : 80 + this.calculateProximityScore(docTitle, normalizedQuery)
-        });
+          relevanceScore: isExactMatch ? 100 : 80 + this.calculateProximityScore(match),
+          tags: documentTags
+        }, [docTitle], terms, fuzzy));
       }
       
       // Check sections
@@ -67,81 +206,129 @@ export class SearchService {
         for (const section of sections) {
           const sectionTitle = section.title || '';
           const sectionContent = section.content || '';
+          const tags = effectiveTags.get(section.id) || [];
+          const sectionMatches = matchesQuery(parsedQuery, {
+            documentTitle: docTitle,
+            documentPath: docPath,
+            sectionTitle,
+            content: sectionContent,
+            tags,
+            level: section.level || 1,
+            updatedAt: item.updated_at
+          }, fuzzy);
+          if (!sectionMatches) continue;
+
+          const titleMatch = this.firstMatch(sectionTitle, terms, fuzzy);
+          const contentMatch = this.firstMatch(sectionContent, terms, fuzzy);
+          if (documentMatches && !titleMatch && !contentMatch) continue;
+
           const breadcrumb = this.getBreadcrumbPath(section.id, sectionHierarchy, docTitle);
+          const rubric = this.rubricOf(sectionTitle, section.level || 1);
+          const texts = [docTitle, sectionTitle, sectionContent];
           
-          // Section title match
-          if (sectionTitle.toLowerCase().includes(normalizedQuery)) {
-            const isExactMatch = sectionTitle.toLowerCase() === normalizedQuery;
-            results.push({
+          // Section title match; with no words in the query, list the section by its title
+          if (titleMatch || !contentMatch) {
+            const isExactMatch = terms.length > 0 && sectionTitle.toLowerCase() === terms.join(' ').toLowerCase();
+            results.push(this.withVariants({
               id: `section-${item.id}-${section.id}`,
               documentId: item.id,
               documentTitle: docTitle,
               documentPath: docPath,
               sectionId: section.id,
               sectionTitle: sectionTitle,
-              matchedText: this.highlightMatch(sectionTitle, query),
+              matchedText: this.highlightMatch(sectionTitle, terms, fuzzy),
               fullContent: sectionContent || sectionTitle,
               breadcrumbPath: breadcrumb,
               matchType: 'section-title',
-              relevanceScore: isExactMatch ? 70 : 50 + this.calculateProximityScore(sectionTitle, normalizedQuery)
-            });
-          }
-          
-          // Content match
-          if (sectionContent.toLowerCase().includes(normalizedQuery)) {
-            const snippet = this.extractSnippet(sectionContent, normalizedQuery);
-            results.push({
+              relevanceScore: isExactMatch ? 70 : 50 + this.calculateProximityScore(titleMatch),
+              tags,
+              rubric
+            }, texts, terms, fuzzy));
+          } else {
+            // Content match
+            const snippet = this.extractSnippet(sectionContent, contentMatch);
+            results.push(this.withVariants({
               id: `content-${item.id}-${section.id}`,
               documentId: item.id,
               documentTitle: docTitle,
               documentPath: docPath,
               sectionId: section.id,
               sectionTitle: sectionTitle,
-              matchedText: this.highlightMatch(snippet, query),
+              matchedText: this.highlightMatch(snippet, terms, fuzzy),
               fullContent: sectionContent,
               breadcrumbPath: breadcrumb,
               matchType: 'content',
-              relevanceScore: 30 + this.calculateProximityScore(sectionContent, normalizedQuery)
-            });
+              relevanceScore: 30 + this.calculateProximityScore(contentMatch),
+              tags,
+              rubric
+            }, texts, terms, fuzzy));
           }
         }
       }
     }
     
-    // Sort by relevance score descending
-    results.sort((a, b) => b.relevanceScore - a.relevanceScore);
-    
-    // Deduplicate - keep highest scoring result per section
-    const seen = new Set<string>();
-    return results.filter(r => {
-      const key = r.sectionId ? `${r.documentId}-${r.sectionId}` : r.documentId;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
+    // Sort by relevance score descending, exact results first
+    return results.sort((a, b) =>
+      Number(!!a.matchedVariants) - Number(!!b.matchedVariants) || b.relevanceScore - a.relevanceScore
+    );
+  }
+
+  private static rubricOf(sectionTitle: string, level: number): string | undefined {
+    return parseRubric(sectionTitle, level).rubric?.toLowerCase().trim() || undefined;
+  }
+
+  /**
+   * The earliest place any query term matches in the text, or null if none does
+   */
+  private static firstMatch(text: string, terms: string[], fuzzy: FuzzyOptions | null): TermMatch | null {
+    let best: TermMatch | null = null;
+    for (const term of terms) {
+      const match = findTermMatches(text, term, fuzzy)[0];
+      if (match && (!best || match.start < best.start)) best = match;
+    }
+    return best;
+  }
+
+  /**
+   * Record the terms that matched nowhere in the result as written, with the
+   * variant found instead, and lower the score by how far off they were
+   */
+  private static withVariants(result: SearchResult, texts: string[], terms: string[], fuzzy: FuzzyOptions | null): SearchResult {
+    if (!fuzzy) return result;
+
+    const variants: { term: string; variant: string; distance: number }[] = [];
+    for (const term of terms) {
+      const matches = texts.flatMap(text => findTermMatches(text, term, fuzzy));
+      if (matches.length === 0 || matches.some(match => match.kind === 'exact')) continue;
+      const closest = matches.reduce((best, match) => match.distance < best.distance ? match : best);
+      variants.push({ term, variant: closest.variant, distance: closest.distance });
+    }
+    if (variants.length === 0) return result;
+
+    return {
+      ...result,
+      matchedVariants: variants.map(({ term, variant }) => ({ term, variant })),
+      relevanceScore: result.relevanceScore - FUZZY_EDIT_PENALTY * variants.reduce((sum, variant) => sum + variant.distance, 0)
+    };
   }
   
   /**
    * Calculate how early/prominently the query appears in the text
    */
-  private static calculateProximityScore(text: string, query: string): number {
-    const index = text.toLowerCase().indexOf(query);
-    if (index === -1) return 0;
+  private static calculateProximityScore(match: TermMatch | null): number {
+    if (!match) return 0;
     // Earlier matches get higher scores (max 19 points)
-    return Math.max(0, 19 - Math.floor(index / 10));
+    return Math.max(0, 19 - Math.floor(match.start / 10));
   }
   
   /**
    * Extract a snippet around the matched text
    */
-  private static extractSnippet(content: string, query: string, contextLength: number = 60): string {
-    const lowerContent = content.toLowerCase();
-    const index = lowerContent.indexOf(query.toLowerCase());
+  private static extractSnippet(content: string, match: TermMatch | null, contextLength: number = 60): string {
+    if (!match) return content.slice(0, contextLength * 2);
     
-    if (index === -1) return content.slice(0, contextLength * 2);
-    
-    const start = Math.max(0, index - contextLength);
-    const end = Math.min(content.length, index + query.length + contextLength);
+    const start = Math.max(0, match.start - contextLength);
+    const end = Math.min(content.length, match.end + contextLength);
     
     let snippet = content.slice(start, end);
     
@@ -152,16 +339,23 @@ export class SearchService {
   }
   
   /**
-   * Add highlight markers around matched text
+   * Add highlight markers around every occurrence of the matched terms, or of
+   * the variants they matched
    */
-  private static highlightMatch(text: string, query: string): string {
-    if (!query) return text;
-    const regex = new RegExp(`(${this.escapeRegex(query)})`, 'gi');
-    return text.replace(regex, '**$1**');
-  }
-  
-  private static escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  private static highlightMatch(text: string, terms: string[], fuzzy: FuzzyOptions | null): string {
+    const ranges = terms
+      .flatMap(term => findTermMatches(text, term, fuzzy))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    let highlighted = '';
+    let position = 0;
+    for (const range of ranges) {
+      // Overlapping matches ("open questions" and "open") are marked once
+      if (range.start < position) continue;
+      highlighted += `${text.slice(position, range.start)}**${text.slice(range.start, range.end)}**`;
+      position = range.end;
+    }
+    return highlighted + text.slice(position);
   }
   
   private static normalizeContentJson(contentJson: any): DocumentSection[] | null {
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SearchSynonym {
+  id: string;
+  term: string;
+  synonym: string;
+  created_at: string;
+}
+
+// Searches run on every keystroke, so the synonyms are fetched at most this often
+const CACHE_TTL = 5 * 60 * 1000;
+
+export class SearchSynonymService {
+  private static cache: { map: Promise<Map<string, string[]>>; loadedAt: number } | null = null;
+
+  /**
+   * All synonym pairs, by term. Synonyms live in Supabase whichever storage
+   * backend holds the content.
+   */
+  static async listSynonyms(): Promise<SearchSynonym[]> {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .select('id, term, synonym, created_at')
+      .order('term');
+
+    if (error) {
+      console.error('Error fetching search synonyms:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Synonyms of each lowercase term, both ways round, for expandSynonyms
+   */
+  static getSynonymMap(): Promise<Map<string, string[]>> {
+    if (!this.cache || Date.now() - this.cache.loadedAt > CACHE_TTL) {
+      this.cache = { map: this.loadSynonymMap(), loadedAt: Date.now() };
+    }
+    return this.cache.map;
+  }
+
+  static async addSynonym(term: string, synonym: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('search_synonyms')
+      .insert({ term: term.trim(), synonym: synonym.trim() });
+
+    if (error) {
+      console.error('Error adding search synonym:', error);
+      return false;
+    }
+
+    this.cache = null;
+    return true;
+  }
+
+  static async deleteSynonym(id: string): Promise<boolean> {
+    const { error } = await supabase.from('search_synonyms').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting search synonym:', error);
+      return false;
+    }
+
+    this.cache = null;
+    return true;
+  }
+
+  private static async loadSynonymMap(): Promise<Map<string, string[]>> {
+    const map = new Map<string, string[]>();
+    const add = (term: string, synonym: string) => {
+      const key = term.trim().toLowerCase();
+      const existing = map.get(key) || [];
+      if (!existing.some(value => value.toLowerCase() === synonym.trim().toLowerCase())) {
+        map.set(key, [...existing, synonym.trim()]);
+      }
+    };
+
+    for (const { term, synonym } of await this.listSynonyms()) {
+      add(term, synonym);
+      add(synonym, term);
+    }
+    return map;
+  }
+}
@@ -0,0 +1,129 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { ContentItem, ContentService } from "./contentService";
+import { getStorageAdapter, writeTextFile } from "./storage";
+import { HierarchicalContentDisplay } from "@/components/HierarchicalContentDisplay";
+import { StaticRenderContext } from "@/hooks/useStaticRender";
+import { convertSectionsToMarkdown } from "@/lib/sectionUtils";
+import {
+  buildSearchIndex,
+  buildStaticSite,
+  escapeHtml,
+  renderNavigationTree,
+  renderSearchIndexScript,
+  renderStaticPage,
+  resolveStaticLink,
+  rootPrefixFor,
+  STATIC_ASSETS,
+  STATIC_SITE_CSS,
+  STATIC_SITE_SCRIPT,
+  StaticSite,
+  staticFileOf
+} from "@/lib/staticSite";
+
+export interface StaticExportResult {
+  pageCount: number;
+  // Internal links whose target page is not in the export
+  brokenLinks: Array<{ page: string; target: string }>;
+}
+
+/**
+ * Publishes a read-only copy of the wiki as plain HTML files (see staticSite.ts).
+ * Documents are rendered with HierarchicalContentDisplay itself, so rubric
+ * grouping, level styling and sources match the app.
+ */
+export class StaticExportService {
+  static async exportToDirectory(directory: FileSystemDirectoryHandle, siteTitle = document.title || 'Wiki'): Promise<StaticExportResult> {
+    const items = (await getStorageAdapter().listItems()).map(item => ({
+      ...item,
+      content_json: ContentService.normalizeContentJson(item.content_json)
+    }));
+    const site = buildStaticSite(items);
+    const result: StaticExportResult = { pageCount: 0, brokenLinks: [] };
+
+    const write = (path: string, content: string) => writeTextFile(directory, path, content);
+
+    await write(STATIC_ASSETS.appStyles, this.collectAppStyles());
+    await write(STATIC_ASSETS.siteStyles, STATIC_SITE_CSS);
+    await write(STATIC_ASSETS.script, STATIC_SITE_SCRIPT);
+    await write(STATIC_ASSETS.searchIndex, renderSearchIndexScript(buildSearchIndex(site)));
+
+    for (const item of items) {
+      const file = staticFileOf(site, item.path);
+      const body = this.renderDocument(item, site, result);
+      await write(file, renderStaticPage({ file, title: item.title, siteTitle, navigation: renderNavigationTree(site, file), body }));
+      result.pageCount++;
+    }
+
+    const topLevel = (site.childrenOf.get(null) || [])
+      .map(item => `<li><a href="${staticFileOf(site, item.path)}">${escapeHtml(item.title)}</a></li>`)
+      .join('');
+    await write('index.html', renderStaticPage({
+      file: 'index.html',
+      title: siteTitle,
+      siteTitle,
+      navigation: renderNavigationTree(site, 'index.html'),
+      body: `<h1 class="text-4xl font-bold text-hierarchy-hover mb-6">${escapeHtml(siteTitle)}</h1><ul class="wiki-children">${topLevel}</ul>`
+    }));
+
+    return result;
+  }
+
+  private static renderDocument(item: ContentItem, site: StaticSite, result: StaticExportResult): string {
+    const sections = item.content_json || [];
+    const file = staticFileOf(site, item.path);
+
+    const content = sections.length > 0
+      ? renderToStaticMarkup(
+          createElement(StaticRenderContext.Provider, { value: true },
+            createElement(HierarchicalContentDisplay, {
+              content: convertSectionsToMarkdown(sections),
+              documentTitle: item.title,
+              documentPath: item.path
+            })
+          )
+        )
+      : `<h1 class="text-4xl font-bold text-hierarchy-hover mb-6">${escapeHtml(item.title)}</h1>`;
+
+    // Point internal links at the exported files
+    const page = new DOMParser().parseFromString(`<div>${content}</div>`, 'text/html');
+    page.querySelectorAll('a[data-internal-link]').forEach(link => {
+      const target = link.getAttribute('data-internal-link') || '';
+      const href = resolveStaticLink(target, item, site);
+      if (href) {
+        link.setAttribute('href', href);
+      } else {
+        link.removeAttribute('href');
+        link.classList.add('static-link-missing');
+        link.setAttribute('title', `Not in this export: ${target}`);
+        result.brokenLinks.push({ page: item.path, target });
+      }
+    });
+
+    // Folder-style pages list their children, like the folder landing page
+    const children = site.childrenOf.get(item.id) || [];
+    const childList = children.length > 0
+      ? `<ul class="wiki-children">${children.map(child =>
+          `<li><a href="${rootPrefixFor(file)}${staticFileOf(site, child.path)}">${escapeHtml(child.title)}</a></li>`
+        ).join('')}</ul>`
+      : '';
+
+    return page.body.firstElementChild!.innerHTML + childList;
+  }
+
+  // The app's compiled stylesheet, so exported markup keeps its Tailwind classes and theme variables
+  private static collectAppStyles(): string {
+    const imports: string[] = [];
+    const rules = Array.from(document.styleSheets).map(sheet => {
+      try {
+        return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+      } catch {
+        // Cross-origin sheets (web fonts) cannot be read; link them instead
+        if (sheet.href) imports.push(`@import url("${sheet.href}");`);
+        return '';
+      }
+    });
+    // @import is only valid at the top of a stylesheet
+    return [...imports, ...rules].join('\n');
+  }
+}
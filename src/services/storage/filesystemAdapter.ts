@@ -0,0 +1,138 @@
+import type { ContentItem } from "../contentService";
+import { idbDelete, idbGet, idbPut } from "./indexedDb";
+import { InMemoryStorageAdapter, SnapshotStore } from "./memoryAdapter";
+import { StorageError } from "./types";
+
+const CONTENT_FILE = 'wiki-content.json';
+const HANDLE_KEY = 'filesystem-directory';
+
+// Permission and picker APIs are not in TypeScript's DOM lib yet
+type PermissionMode = { mode: 'read' | 'readwrite' };
+type DirectoryHandleWithPermissions = FileSystemDirectoryHandle & {
+  queryPermission(options: PermissionMode): Promise<PermissionState>;
+  requestPermission(options: PermissionMode): Promise<PermissionState>;
+};
+type WindowWithDirectoryPicker = Window & {
+  showDirectoryPicker(options?: { id?: string; mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * Open the browser's folder picker. Must be called from a user gesture.
+ */
+export async function pickDirectory(mode: 'read' | 'readwrite', id = 'deep-dive-wiki'): Promise<FileSystemDirectoryHandle> {
+  if (!FileSystemSnapshotStore.isSupported()) {
+    throw new StorageError('This browser cannot open local folders');
+  }
+  return (window as unknown as WindowWithDirectoryPicker).showDirectoryPicker({ id, mode });
+}
+
+/**
+ * Write a text file below a picked folder, creating subfolders on the way
+ */
+export async function writeTextFile(directory: FileSystemDirectoryHandle, path: string, content: string): Promise<void> {
+  const segments = path.split('/');
+  const name = segments.pop()!;
+  let folder = directory;
+  for (const segment of segments) {
+    folder = await folder.getDirectoryHandle(segment, { create: true });
+  }
+  const handle = await folder.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(content);
+  await writable.close();
+}
+
+interface ContentFile {
+  format: 1;
+  items: ContentItem[];
+}
+
+/**
+ * Reads and writes the content tree as a JSON file in a local folder the user
+ * picked (File System Access API). The folder handle is remembered in IndexedDB.
+ */
+export class FileSystemSnapshotStore implements SnapshotStore {
+  private directory: DirectoryHandleWithPermissions | null = null;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+  }
+
+  /**
+   * Whether a folder has been chosen and access is still granted.
+   * Browsers drop the grant between sessions, so this can turn false after a reload.
+   */
+  async hasDirectory(): Promise<boolean> {
+    const directory = await this.getRememberedDirectory();
+    return !!directory && (await directory.queryPermission({ mode: 'readwrite' })) === 'granted';
+  }
+
+  /**
+   * Pick a folder, or re-grant access to the remembered one. Must be called from a user gesture.
+   */
+  async chooseDirectory(): Promise<void> {
+    const remembered = await this.getRememberedDirectory();
+    if (remembered && (await remembered.requestPermission({ mode: 'readwrite' })) === 'granted') {
+      this.directory = remembered;
+      return;
+    }
+
+    const picked = await pickDirectory('readwrite');
+    this.directory = picked as DirectoryHandleWithPermissions;
+    await idbPut('handles', HANDLE_KEY, picked);
+  }
+
+  async forgetDirectory(): Promise<void> {
+    this.directory = null;
+    await idbDelete('handles', HANDLE_KEY);
+  }
+
+  async load(): Promise<ContentItem[] | null> {
+    const directory = await this.requireDirectory();
+    try {
+      const handle = await directory.getFileHandle(CONTENT_FILE);
+      const file = await handle.getFile();
+      const parsed = JSON.parse(await file.text()) as ContentFile;
+      return parsed.items || [];
+    } catch (error) {
+      // A fresh folder has no content file yet
+      if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+      throw new StorageError(`Failed to read ${CONTENT_FILE}`, error);
+    }
+  }
+
+  async save(items: ContentItem[]): Promise<void> {
+    const directory = await this.requireDirectory();
+    const content: ContentFile = { format: 1, items };
+
+    const handle = await directory.getFileHandle(CONTENT_FILE, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(JSON.stringify(content, null, 2));
+    await writable.close();
+  }
+
+  private async getRememberedDirectory(): Promise<DirectoryHandleWithPermissions | null> {
+    if (!this.directory) {
+      this.directory = (await idbGet<DirectoryHandleWithPermissions>('handles', HANDLE_KEY)) || null;
+    }
+    return this.directory;
+  }
+
+  private async requireDirectory(): Promise<DirectoryHandleWithPermissions> {
+    if (!(await this.hasDirectory())) {
+      throw new StorageError('No local folder selected for the filesystem storage backend');
+    }
+    return this.directory!;
+  }
+}
+
+/**
+ * Local-folder store: the in-memory adapter persisted to a JSON file on disk
+ */
+export class FileSystemStorageAdapter extends InMemoryStorageAdapter {
+  readonly name: string = 'filesystem';
+
+  constructor(readonly files: FileSystemSnapshotStore = new FileSystemSnapshotStore()) {
+    super(files);
+  }
+}
@@ -0,0 +1,91 @@
+import { StorageAdapter } from "./types";
+import { SupabaseStorageAdapter } from "./supabaseAdapter";
+import { InMemoryStorageAdapter } from "./memoryAdapter";
+import { IndexedDbStorageAdapter } from "./indexedDbAdapter";
+import { FileSystemStorageAdapter } from "./filesystemAdapter";
+import { OfflineStorageAdapter } from "./offlineAdapter";
+
+export type { StorageAdapter, NewContentItem, ContentItemUpdates, UpdateOutcome, ItemUpdate, BatchUpdateOutcome, SearchHit, SectionEmbedding, StoredLink } from "./types";
+export { StorageError } from "./types";
+export { SupabaseStorageAdapter } from "./supabaseAdapter";
+export { InMemoryStorageAdapter } from "./memoryAdapter";
+export type { SnapshotStore } from "./memoryAdapter";
+export { IndexedDbStorageAdapter } from "./indexedDbAdapter";
+export { FileSystemStorageAdapter, FileSystemSnapshotStore, pickDirectory, writeTextFile } from "./filesystemAdapter";
+export { OfflineStorageAdapter, IndexedDbQueueStore, isNetworkError } from "./offlineAdapter";
+export type { SyncState, SyncStatus, QueueStore } from "./offlineAdapter";
+export type { QueuedOperation, SyncConflict } from "./syncQueue";
+
+export type StorageBackend = 'supabase' | 'memory' | 'indexeddb' | 'filesystem';
+
+const DEFAULT_BACKEND: StorageBackend = 'supabase';
+
+/**
+ * Backend selected with VITE_STORAGE_BACKEND; anything unknown falls back to Supabase
+ */
+export function getConfiguredBackend(): StorageBackend {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND as string | undefined;
+  switch (configured) {
+    case 'supabase':
+    case 'memory':
+    case 'indexeddb':
+    case 'filesystem':
+      return configured;
+    default:
+      if (configured) {
+        console.warn(`Unknown VITE_STORAGE_BACKEND "${configured}", using ${DEFAULT_BACKEND}`);
+      }
+      return DEFAULT_BACKEND;
+  }
+}
+
+export function createStorageAdapter(backend: StorageBackend): StorageAdapter {
+  switch (backend) {
+    case 'memory':
+      return new InMemoryStorageAdapter();
+    case 'indexeddb':
+      return new IndexedDbStorageAdapter();
+    case 'filesystem':
+      return new FileSystemStorageAdapter();
+    default:
+      // Supabase is the only remote backend, so it is the one that needs an offline cache
+      return isOfflineCacheEnabled()
+        ? new OfflineStorageAdapter(new SupabaseStorageAdapter())
+        : new SupabaseStorageAdapter();
+  }
+}
+
+/**
+ * The offline cache is on unless VITE_OFFLINE_CACHE is "false", and needs IndexedDB
+ */
+function isOfflineCacheEnabled(): boolean {
+  const configured = import.meta.env.VITE_OFFLINE_CACHE as string | undefined;
+  return configured !== 'false' && typeof indexedDB !== 'undefined';
+}
+
+let activeAdapter: StorageAdapter | null = null;
+
+/**
+ * The adapter all content reads and writes go through
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createStorageAdapter(getConfiguredBackend());
+  }
+  return activeAdapter;
+}
+
+/**
+ * Replace the active adapter, e.g. with an InMemoryStorageAdapter in tests
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
+
+/**
+ * The active adapter when it is the offline wrapper, otherwise null
+ */
+export function getOfflineAdapter(): OfflineStorageAdapter | null {
+  const adapter = getStorageAdapter();
+  return adapter instanceof OfflineStorageAdapter ? adapter : null;
+}
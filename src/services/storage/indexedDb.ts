@@ -0,0 +1,57 @@
+import { StorageError } from "./types";
+
+const DATABASE_NAME = 'deep-dive-wiki';
+const DATABASE_VERSION = 2;
+
+// One key-value object store per purpose, created together on first open
+export const STORES = ['snapshots', 'handles', 'queue'] as const;
+export type StoreName = typeof STORES[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError('IndexedDB request failed', request.error));
+  });
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new StorageError('IndexedDB is not available in this environment'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(new StorageError('Failed to open IndexedDB', request.error));
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return toPromise<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  await toPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  const db = await openDatabase();
+  await toPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
@@ -0,0 +1,29 @@
+import type { ContentItem } from "../contentService";
+import { idbGet, idbPut } from "./indexedDb";
+import { InMemoryStorageAdapter, SnapshotStore } from "./memoryAdapter";
+
+/**
+ * Stores the whole content tree as one IndexedDB record
+ */
+export class IndexedDbSnapshotStore implements SnapshotStore {
+  constructor(private key: string = 'content-items') {}
+
+  async load(): Promise<ContentItem[] | null> {
+    return (await idbGet<ContentItem[]>('snapshots', this.key)) || null;
+  }
+
+  async save(items: ContentItem[]): Promise<void> {
+    await idbPut('snapshots', this.key, items);
+  }
+}
+
+/**
+ * Browser-local store: the in-memory adapter persisted to IndexedDB
+ */
+export class IndexedDbStorageAdapter extends InMemoryStorageAdapter {
+  readonly name: string = 'indexeddb';
+
+  constructor(key?: string) {
+    super(new IndexedDbSnapshotStore(key));
+  }
+}
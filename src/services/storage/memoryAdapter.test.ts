@@ -0,0 +1,254 @@
+/**
+ * Unit tests for the in-memory storage adapter and ContentService running on it
+ * Run in browser console: import('/src/services/storage/memoryAdapter.test.ts').then(m => m.runAllTests())
+ */
+
+import { InMemoryStorageAdapter } from './memoryAdapter';
+import { setStorageAdapter } from './index';
+import { ContentService, DocumentSection } from '../contentService';
+import { LinkRewriteService } from '../linkRewriteService';
+
+// Test data
+const sections: DocumentSection[] = [
+  { id: 'section-1', title: 'Overview', level: 1, content: 'Deep dive into storage.', tags: ['storage'] },
+];
+
+// Test functions
+export async function testVersionBump(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    const item = await adapter.insertItem({ title: 'Doc', path: '/doc', parent_id: null, order_index: 0, tags: [], content_json: sections });
+
+    const moved = await adapter.updateItem(item.id, { order_index: 3 });
+    const edited = await adapter.updateItem(item.id, { title: 'Doc v2' });
+
+    if (moved.version !== 1 || edited.version !== 2) {
+      return { passed: false, message: `Expected versions 1 then 2, got ${moved.version} then ${edited.version}` };
+    }
+
+    return { passed: true, message: 'Only content changes bump the version' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testVersionConflict(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    const item = await adapter.insertItem({ title: 'Doc', path: '/doc', parent_id: null, order_index: 0, tags: [], content_json: sections });
+
+    await adapter.updateItem(item.id, { title: 'First writer' }, 1);
+    const second = await adapter.updateItem(item.id, { title: 'Second writer' }, 1);
+
+    if (second.status !== 'conflict') {
+      return { passed: false, message: `Expected conflict, got ${second.status}` };
+    }
+
+    return { passed: true, message: 'Stale expected versions are rejected' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testCascadeDeleteAndSearch(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    const folder = await adapter.insertItem({ title: 'Folder', path: '/folder', parent_id: null, order_index: 0, tags: [], content_json: [] });
+    await adapter.insertItem({ title: 'Child', path: '/folder/child', parent_id: folder.id, order_index: 0, tags: [], content_json: sections });
+
+    const found = await adapter.searchItems('STORAGE');
+    if (found.length !== 1 || found[0].title !== 'Child') {
+      return { passed: false, message: 'Expected search to match section content case-insensitively' };
+    }
+
+    await adapter.deleteItem(folder.id);
+    if ((await adapter.listItems()).length !== 0) {
+      return { passed: false, message: 'Expected children to be deleted with their folder' };
+    }
+
+    return { passed: true, message: 'Search matches content and deletes cascade' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testContentServiceOnMemory(): Promise<{ passed: boolean; message: string }> {
+  try {
+    setStorageAdapter(new InMemoryStorageAdapter());
+
+    const created = await ContentService.saveDocumentContent('/guide', sections);
+    const saved = await ContentService.saveDocumentContent('/guide', [{ ...sections[0], content: 'Edited' }], created.version);
+    const stale = await ContentService.saveDocumentContent('/guide', [{ ...sections[0], content: 'Stale' }], created.version);
+    const document = await ContentService.getDocumentByPath('/guide');
+
+    if (saved.status !== 'saved' || stale.status !== 'conflict' || document?.content_json[0].content !== 'Edited') {
+      return { passed: false, message: `Unexpected results: ${saved.status}/${stale.status}/${document?.content_json[0].content}` };
+    }
+
+    return { passed: true, message: 'ContentService saves and detects conflicts through the adapter' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testBatchUpdate(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    const first = await adapter.insertItem({ title: 'First', path: '/first', parent_id: null, order_index: 0, tags: [], content_json: sections });
+    const second = await adapter.insertItem({ title: 'Second', path: '/second', parent_id: null, order_index: 1, tags: [], content_json: sections });
+
+    const stale = await adapter.updateItems([
+      { id: first.id, updates: { title: 'First v2' }, expectedVersion: 1 },
+      { id: second.id, updates: { title: 'Second v2' }, expectedVersion: 2 }
+    ]);
+    if (stale.status !== 'conflict' || (await adapter.getItemById(first.id))?.title !== 'First') {
+      return { passed: false, message: 'A conflicting batch should change nothing' };
+    }
+
+    const applied = await adapter.updateItems([
+      { id: first.id, updates: { title: 'First v2' }, expectedVersion: 1 },
+      { id: second.id, updates: { path: '/moved' }, expectedVersion: 1 }
+    ]);
+    if (applied.status !== 'updated' || applied.versions[first.id] !== 2 || applied.versions[second.id] !== 1) {
+      return { passed: false, message: `Unexpected batch outcome: ${JSON.stringify(applied)}` };
+    }
+
+    return { passed: true, message: 'Batches apply completely or not at all' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testMoveRewritesLinks(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    setStorageAdapter(adapter);
+    const research = await adapter.insertItem({ title: 'Research', path: '/research', parent_id: null, order_index: 0, tags: [], content_json: [] });
+    const archive = await adapter.insertItem({ title: 'Archive', path: '/archive', parent_id: null, order_index: 1, tags: [], content_json: [] });
+    const interviews = await adapter.insertItem({ title: 'Interviews', path: '/research/interviews', parent_id: research.id, order_index: 0, tags: [], content_json: sections });
+    const notes = await adapter.insertItem({ title: 'Notes', path: '/research/interviews/notes', parent_id: interviews.id, order_index: 0, tags: [], content_json: [] });
+    const linking = await adapter.insertItem({
+      title: 'Plan', path: '/plan', parent_id: null, order_index: 2, tags: [],
+      content_json: [{ ...sections[0], content: 'Read [[the overview|/research/interviews#Overview]] and [[/research/interviews/notes]].' }]
+    });
+
+    const result = await ContentService.reorderNavigationNodes(interviews.id, archive.id, 0);
+    const plan = await adapter.getItemById(linking.id);
+    const expected = 'Read [[the overview|/archive/interviews#Overview]] and [[/archive/interviews/notes]].';
+    if (result?.linkCount !== 2 || plan?.content_json?.[0].content !== expected || (await adapter.getItemById(notes.id))?.path !== '/archive/interviews/notes') {
+      return { passed: false, message: `Unexpected move result: ${result?.linkCount} links, ${plan?.content_json?.[0].content}` };
+    }
+
+    const undone = await LinkRewriteService.undo(result.undo);
+    const restored = await adapter.getItemById(linking.id);
+    if (!undone || !restored?.content_json?.[0].content.includes('/research/interviews#Overview') || (await adapter.getItemById(notes.id))?.path !== '/research/interviews/notes') {
+      return { passed: false, message: 'Undo should restore the paths and links' };
+    }
+
+    return { passed: true, message: 'Moves take subpages along and rewrite links to them, undoably' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testRenameSavedWithLinks(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const adapter = new InMemoryStorageAdapter();
+    setStorageAdapter(adapter);
+    const guide = await adapter.insertItem({ title: 'Guide', path: '/guide', parent_id: null, order_index: 0, tags: [], content_json: sections });
+    const linking = await adapter.insertItem({
+      title: 'Plan', path: '/plan', parent_id: null, order_index: 1, tags: [],
+      content_json: [{ ...sections[0], id: 'plan', content: 'See [[/guide#Overview]].' }]
+    });
+    const renamed = [{ ...sections[0], title: 'Summary' }];
+
+    // Saved elsewhere meanwhile: neither the rename nor the links are written
+    const other = await adapter.updateItem(guide.id, { tags: ['other'] });
+    const stale = await ContentService.saveDocumentContent('/guide', renamed, guide.version, sections);
+    if (stale.status !== 'conflict' || (await adapter.getItemById(linking.id))?.content_json?.[0].content !== 'See [[/guide#Overview]].') {
+      return { passed: false, message: `A conflicting save should change no links, got ${stale.status}` };
+    }
+
+    const saved = await ContentService.saveDocumentContent('/guide', renamed, other.version, sections);
+    const plan = await adapter.getItemById(linking.id);
+    if (saved.status !== 'saved' || saved.linkRewrite?.linkCount !== 1 || plan?.content_json?.[0].content !== 'See [[/guide#Summary]].') {
+      return { passed: false, message: `Unexpected save: ${saved.status}, ${plan?.content_json?.[0].content}` };
+    }
+
+    if (!(await LinkRewriteService.undo(saved.linkRewrite.undo)) || (await adapter.getItemById(guide.id))?.content_json?.[0].title !== 'Summary') {
+      return { passed: false, message: 'Undo should restore the links and keep the rename' };
+    }
+
+    return { passed: true, message: 'Renaming a section saves it and the links to it in one update' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testSaveAfterConflictResolve(): Promise<{ passed: boolean; message: string }> {
+  try {
+    setStorageAdapter(new InMemoryStorageAdapter());
+
+    const base: DocumentSection[] = [sections[0], { id: 'section-2', title: 'Details', level: 1, content: 'Original details.', tags: [] }];
+    const local = [{ ...base[0], content: 'Local overview.' }, base[1]];
+    const created = await ContentService.saveDocumentContent('/guide', base);
+    const remote = await ContentService.saveDocumentContent('/guide', [base[0], { ...base[1], content: 'Remote details.' }], created.version);
+    const conflict = await ContentService.saveDocumentContent('/guide', local, created.version);
+    if (conflict.status !== 'conflict' || conflict.remote?.version !== remote.version) {
+      return { passed: false, message: `Expected a conflict against the remote version, got ${conflict.status}` };
+    }
+
+    // Resolving saves the merge on top of the remote version
+    const merged = [local[0], { ...base[1], content: 'Remote details.' }];
+    const resolved = await ContentService.saveDocumentContent('/guide', merged, conflict.remote.version);
+
+    // The editor starts over from the reloaded document, so its next autosave keeps the merge
+    const reloaded = await ContentService.getDocumentByPath('/guide');
+    if (resolved.status !== 'saved' || !reloaded) {
+      return { passed: false, message: `Expected the merge to be saved, got ${resolved.status}` };
+    }
+    const next = await ContentService.saveDocumentContent(
+      '/guide',
+      reloaded.content_json.map(section => (section.id === 'section-2' ? { ...section, content: `${section.content} More.` } : section)),
+      reloaded.version,
+    );
+    const stale = await ContentService.saveDocumentContent('/guide', local, conflict.remote.version);
+    const document = await ContentService.getDocumentByPath('/guide');
+
+    const contents = document?.content_json.map(section => section.content).join(' | ');
+    if (next.status !== 'saved' || stale.status !== 'conflict' || contents !== 'Local overview. | Remote details. More.') {
+      return { passed: false, message: `Unexpected results: ${next.status}/${stale.status}/${contents}` };
+    }
+
+    return { passed: true, message: 'Saves after resolving a conflict build on the merge' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+// Run all tests
+export async function runAllTests(): Promise<{ total: number; passed: number; failed: number }> {
+  const tests = [
+    { name: 'versionBump', fn: testVersionBump },
+    { name: 'versionConflict', fn: testVersionConflict },
+    { name: 'cascadeDeleteAndSearch', fn: testCascadeDeleteAndSearch },
+    { name: 'contentServiceOnMemory', fn: testContentServiceOnMemory },
+    { name: 'batchUpdate', fn: testBatchUpdate },
+    { name: 'moveRewritesLinks', fn: testMoveRewritesLinks },
+    { name: 'renameSavedWithLinks', fn: testRenameSavedWithLinks },
+    { name: 'saveAfterConflictResolve', fn: testSaveAfterConflictResolve },
+  ];
+
+  const results = [];
+  for (const test of tests) {
+    results.push({ name: test.name, ...(await test.fn()) });
+  }
+
+  console.log('\n=== Storage Adapter Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
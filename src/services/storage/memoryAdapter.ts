@@ -0,0 +1,194 @@
+import type { ContentItem } from "../contentService";
+import { BatchUpdateOutcome, ContentItemUpdates, ItemUpdate, NewContentItem, StorageAdapter, UpdateOutcome } from "./types";
+
+/**
+ * Somewhere a full copy of the content can be loaded from and written back to
+ */
+export interface SnapshotStore {
+  load(): Promise<ContentItem[] | null>;
+  save(items: ContentItem[]): Promise<void>;
+}
+
+const VERSIONED_FIELDS: (keyof ContentItemUpdates)[] = ['content_json', 'title', 'tags'];
+
+const byOrderIndex = (a: ContentItem, b: ContentItem) => (a.order_index ?? 0) - (b.order_index ?? 0);
+
+// Rows are copied in and out so callers can never mutate the store directly
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps all content in memory, mirroring the content_items table semantics
+ * (version bumps, updated_at). With a SnapshotStore the data is loaded on
+ * first use and written back after every change.
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  readonly name: string = 'memory';
+  private items = new Map<string, ContentItem>();
+  private loaded: Promise<void> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private snapshot: SnapshotStore | null = null, initialItems: ContentItem[] = []) {
+    initialItems.forEach(item => this.items.set(item.id, clone(item)));
+  }
+
+  async listItems(): Promise<ContentItem[]> {
+    await this.ensureLoaded();
+    return this.all().sort(byOrderIndex);
+  }
+
+  async getItemById(id: string): Promise<ContentItem | null> {
+    await this.ensureLoaded();
+    const item = this.items.get(id);
+    return item ? clone(item) : null;
+  }
+
+  async getItemByPath(path: string): Promise<ContentItem | null> {
+    await this.ensureLoaded();
+    return this.all().find(item => item.path === path) || null;
+  }
+
+  async listChildren(parentId: string | null): Promise<ContentItem[]> {
+    await this.ensureLoaded();
+    return this.all().filter(item => item.parent_id === parentId).sort(byOrderIndex);
+  }
+
+  async insertItem(item: NewContentItem): Promise<ContentItem> {
+    await this.ensureLoaded();
+    const now = new Date().toISOString();
+    const created: ContentItem = {
+      ...clone(item),
+      tags: item.tags || [],
+      id: item.id || crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+      version: 1
+    };
+
+    this.items.set(created.id, created);
+    await this.persist();
+    return clone(created);
+  }
+
+  async updateItem(id: string, updates: ContentItemUpdates, expectedVersion?: number): Promise<UpdateOutcome> {
+    await this.ensureLoaded();
+    const existing = this.items.get(id);
+    if (!existing) return { status: 'missing' };
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      return { status: 'conflict' };
+    }
+
+    const updated = this.applyUpdates(existing, updates);
+    await this.persist();
+    return { status: 'updated', version: updated.version };
+  }
+
+  async updateItems(changes: ItemUpdate[]): Promise<BatchUpdateOutcome> {
+    await this.ensureLoaded();
+    // Check every item before changing any
+    const conflict = changes.some(change => {
+      const existing = this.items.get(change.id);
+      return !existing || (change.expectedVersion !== undefined && existing.version !== change.expectedVersion);
+    });
+    if (conflict) return { status: 'conflict', versions: {} };
+
+    const versions: Record<string, number> = {};
+    for (const change of changes) {
+      versions[change.id] = this.applyUpdates(this.items.get(change.id)!, change.updates).version;
+    }
+    await this.persist();
+    return { status: 'updated', versions };
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    await this.ensureLoaded();
+    // Children go with their parent, like the ON DELETE CASCADE foreign key
+    const removeWithChildren = (itemId: string) => {
+      this.items.delete(itemId);
+      this.all().filter(item => item.parent_id === itemId).forEach(child => removeWithChildren(child.id));
+    };
+    removeWithChildren(id);
+    await this.persist();
+  }
+
+  async moveItem(id: string, parentId: string | null, orderIndex: number): Promise<void> {
+    await this.ensureLoaded();
+    const existing = this.items.get(id);
+    if (!existing) return;
+
+    this.items.set(id, { ...existing, parent_id: parentId, order_index: orderIndex, updated_at: new Date().toISOString() });
+    await this.persist();
+  }
+
+  async searchItems(query: string): Promise<ContentItem[]> {
+    await this.ensureLoaded();
+    const needle = query.toLowerCase();
+    return this.all().filter(item =>
+      item.title.toLowerCase().includes(needle) ||
+      JSON.stringify(item.content_json || []).toLowerCase().includes(needle)
+    );
+  }
+
+  /**
+   * Replace the whole store, e.g. with a fresh copy from the server
+   */
+  async replaceAll(items: ContentItem[]): Promise<void> {
+    await this.ensureLoaded();
+    this.items = new Map(items.map(item => [item.id, clone(item)]));
+    await this.persist();
+  }
+
+  /**
+   * Insert or overwrite a single row exactly as given (id, version and timestamps included)
+   */
+  async putItem(item: ContentItem): Promise<void> {
+    await this.ensureLoaded();
+    this.items.set(item.id, clone(item));
+    await this.persist();
+  }
+
+  private applyUpdates(existing: ContentItem, updates: ContentItemUpdates): ContentItem {
+    // Same rule as the bump_content_item_version trigger
+    const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as ContentItemUpdates;
+    const contentChanged = VERSIONED_FIELDS.some(field =>
+      field in defined && JSON.stringify(defined[field]) !== JSON.stringify(existing[field])
+    );
+
+    const updated: ContentItem = {
+      ...existing,
+      ...clone(defined),
+      updated_at: new Date().toISOString(),
+      version: contentChanged ? existing.version + 1 : existing.version
+    };
+
+    this.items.set(existing.id, updated);
+    return updated;
+  }
+
+  private all(): ContentItem[] {
+    return Array.from(this.items.values()).map(item => clone(item));
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.snapshot) return Promise.resolve();
+    if (!this.loaded) {
+      this.loaded = this.snapshot.load().then(items => {
+        (items || []).forEach(item => this.items.set(item.id, item));
+      }).catch(error => {
+        // Allow the next call to retry
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  // Writes are chained so snapshots land in the order the changes were made
+  private persist(): Promise<void> {
+    if (!this.snapshot) return Promise.resolve();
+    const items = this.all();
+    const save = this.pendingSave.then(() => this.snapshot!.save(items));
+    // A failed write is reported to its caller but must not block later ones
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+}
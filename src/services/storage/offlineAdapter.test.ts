@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the offline cache and sync queue
+ * Run in browser console: import('/src/services/storage/offlineAdapter.test.ts').then(m => m.runAllTests())
+ */
+
+import type { ContentItem } from '../contentService';
+import { InMemoryStorageAdapter } from './memoryAdapter';
+import { OfflineStorageAdapter, QueueStore } from './offlineAdapter';
+import { enqueueOperation, QueuedOperation, SyncConflict } from './syncQueue';
+import { StorageError } from './types';
+
+// Test helpers
+
+// Remote that fails like an unreachable server while `down` is set
+class FlakyRemote extends InMemoryStorageAdapter {
+  down = false;
+
+  constructor() {
+    super();
+    for (const method of ['listItems', 'getItemById', 'getItemByPath', 'listChildren', 'insertItem', 'updateItem', 'deleteItem', 'moveItem', 'searchItems'] as const) {
+      const original = (this[method] as (...args: unknown[]) => Promise<unknown>).bind(this);
+      (this as Record<string, unknown>)[method] = (...args: unknown[]) => this.down
+        ? Promise.reject(new StorageError('Request failed', new TypeError('Failed to fetch')))
+        : original(...args);
+    }
+  }
+}
+
+class MemoryQueueStore implements QueueStore {
+  operations: QueuedOperation[] = [];
+  conflicts: SyncConflict[] = [];
+
+  async load() {
+    return { operations: this.operations, conflicts: this.conflicts };
+  }
+
+  async save(operations: QueuedOperation[], conflicts: SyncConflict[]) {
+    this.operations = operations;
+    this.conflicts = conflicts;
+  }
+}
+
+const newDoc = (title: string) => ({ title, path: `/${title.toLowerCase()}`, parent_id: null, order_index: 0, tags: [], content_json: [] });
+
+// Test functions
+export function testQueueCoalescing(): { passed: boolean; message: string } {
+  let queue = enqueueOperation([], { kind: 'update', itemId: 'a', updates: { title: 'One' }, baseVersion: 3 });
+  queue = enqueueOperation(queue, { kind: 'update', itemId: 'a', updates: { tags: ['x'] }, baseVersion: 4 });
+  queue = enqueueOperation(queue, { kind: 'insert', itemId: 'b', item: { ...newDoc('New'), id: 'b' } });
+  queue = enqueueOperation(queue, { kind: 'update', itemId: 'b', updates: { title: 'Renamed' }, baseVersion: 1 });
+  queue = enqueueOperation(queue, { kind: 'delete', itemId: 'b' });
+
+  const [update] = queue;
+  if (queue.length !== 1 || update.kind !== 'update' || update.baseVersion !== 3 || update.updates.title !== 'One' || update.updates.tags?.[0] !== 'x') {
+    return { passed: false, message: `Unexpected queue: ${JSON.stringify(queue)}` };
+  }
+
+  return { passed: true, message: 'Updates merge with the first base version and unsynced inserts cancel out on delete' };
+}
+
+export async function testOfflineEditsReplay(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const remote = new FlakyRemote();
+    const adapter = new OfflineStorageAdapter(remote, new InMemoryStorageAdapter(), new MemoryQueueStore());
+    const item = await remote.insertItem(newDoc('Guide'));
+    await adapter.listItems();
+
+    remote.down = true;
+    await adapter.updateItem(item.id, { title: 'Offline edit' });
+    const created = await adapter.insertItem(newDoc('Draft'));
+    const cached = await adapter.getItemById(item.id);
+
+    if (cached?.title !== 'Offline edit' || adapter.getStatus().pendingCount !== 2 || adapter.getStatus().state !== 'offline') {
+      return { passed: false, message: `Expected cached edit and 2 pending, got ${cached?.title} / ${JSON.stringify(adapter.getStatus())}` };
+    }
+
+    remote.down = false;
+    await adapter.syncPendingChanges();
+    const synced = await remote.getItemById(item.id);
+    const draft = await remote.getItemById(created.id);
+
+    if (synced?.title !== 'Offline edit' || !draft || adapter.getStatus().pendingCount !== 0) {
+      return { passed: false, message: 'Expected queued edits to reach the remote on reconnect' };
+    }
+
+    return { passed: true, message: 'Offline edits are served from the cache and replayed on reconnect' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+export async function testReplayConflict(): Promise<{ passed: boolean; message: string }> {
+  try {
+    const remote = new FlakyRemote();
+    const adapter = new OfflineStorageAdapter(remote, new InMemoryStorageAdapter(), new MemoryQueueStore());
+    const item = await remote.insertItem(newDoc('Guide'));
+    await adapter.getItemById(item.id);
+
+    remote.down = true;
+    await adapter.updateItem(item.id, { title: 'Mine' });
+    remote.down = false;
+    await remote.updateItem(item.id, { title: 'Theirs' });
+    await adapter.syncPendingChanges();
+
+    const { conflicts } = adapter.getStatus();
+    const untouched: ContentItem | null = await remote.getItemById(item.id);
+    if (conflicts.length !== 1 || conflicts[0].reason !== 'changed-remotely' || untouched?.title !== 'Theirs') {
+      return { passed: false, message: `Expected one changed-remotely conflict, got ${JSON.stringify(conflicts)}` };
+    }
+
+    await adapter.resolveConflict(conflicts[0].operation.id, 'local');
+    const resolved = await remote.getItemById(item.id);
+    if (resolved?.title !== 'Mine' || adapter.getStatus().conflicts.length !== 0) {
+      return { passed: false, message: `Expected "Mine" after keeping local, got ${resolved?.title}` };
+    }
+
+    return { passed: true, message: 'Remote changes made while offline become conflicts instead of being overwritten' };
+  } catch (error) {
+    return { passed: false, message: `Error: ${error}` };
+  }
+}
+
+// Run all tests
+export async function runAllTests(): Promise<{ total: number; passed: number; failed: number }> {
+  const tests = [
+    { name: 'queueCoalescing', fn: testQueueCoalescing },
+    { name: 'offlineEditsReplay', fn: testOfflineEditsReplay },
+    { name: 'replayConflict', fn: testReplayConflict },
+  ];
+
+  const results = [];
+  for (const test of tests) {
+    results.push({ name: test.name, ...(await test.fn()) });
+  }
+
+  console.log('\n=== Offline Sync Tests ===');
+  results.forEach(r => console.log(`${r.passed ? '✓' : '✗'} ${r.name}: ${r.message}`));
+
+  const passed = results.filter(r => r.passed).length;
+  console.log(`\nTotal: ${results.length}, Passed: ${passed}, Failed: ${results.length - passed}`);
+
+  return { total: results.length, passed, failed: results.length - passed };
+}
@@ -0,0 +1,469 @@
+import type { ContentItem } from "../contentService";
+import { idbGet, idbPut } from "./indexedDb";
+import { IndexedDbSnapshotStore } from "./indexedDbAdapter";
+import { InMemoryStorageAdapter } from "./memoryAdapter";
+import { enqueueOperation, NewQueuedOperation, QueuedOperation, SyncConflict } from "./syncQueue";
+import { BatchUpdateOutcome, ContentItemUpdates, ItemUpdate, NewContentItem, SearchHit, SectionEmbedding, StorageAdapter, StoredLink, StorageError, UpdateOutcome } from "./types";
+
+const QUEUE_KEY = 'operations';
+const CONFLICTS_KEY = 'conflicts';
+
+export type SyncState = 'online' | 'offline' | 'syncing';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Persistence for the queue, so edits survive closing the tab while offline
+ */
+export interface QueueStore {
+  load(): Promise<{ operations: QueuedOperation[]; conflicts: SyncConflict[] }>;
+  save(operations: QueuedOperation[], conflicts: SyncConflict[]): Promise<void>;
+}
+
+export class IndexedDbQueueStore implements QueueStore {
+  async load() {
+    const [operations, conflicts] = await Promise.all([
+      idbGet<QueuedOperation[]>('queue', QUEUE_KEY),
+      idbGet<SyncConflict[]>('queue', CONFLICTS_KEY)
+    ]);
+    return { operations: operations || [], conflicts: conflicts || [] };
+  }
+
+  async save(operations: QueuedOperation[], conflicts: SyncConflict[]) {
+    await Promise.all([
+      idbPut('queue', QUEUE_KEY, operations),
+      idbPut('queue', CONFLICTS_KEY, conflicts)
+    ]);
+  }
+}
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * True for failures caused by the connection rather than by the server
+ * refusing the request (those should not be queued and retried)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isBrowserOffline()) return true;
+  const cause = error instanceof StorageError ? error.cause : error;
+  const message = cause instanceof Error ? cause.message : (cause as { message?: string })?.message;
+  return typeof message === 'string' && /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+/**
+ * Offline-first wrapper around a remote adapter.
+ *
+ * Reads go to the remote while it is reachable and are copied into a local
+ * cache; when it is not, they are answered from the cache. Writes that cannot
+ * reach the remote are applied to the cache and queued, then replayed in order
+ * once the connection returns. Updates replay with the version they were based
+ * on, so edits made elsewhere meanwhile surface as conflicts instead of being
+ * overwritten.
+ */
+export class OfflineStorageAdapter implements StorageAdapter {
+  readonly name: string;
+  private operations: QueuedOperation[] = [];
+  private conflicts: SyncConflict[] = [];
+  private queueLoaded: Promise<void> | null = null;
+  private state: SyncState = isBrowserOffline() ? 'offline' : 'online';
+  private lastSyncedAt: string | null = null;
+  private syncing: Promise<void> | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+
+  constructor(
+    private remote: StorageAdapter,
+    private cache: InMemoryStorageAdapter = new InMemoryStorageAdapter(new IndexedDbSnapshotStore('offline-cache')),
+    private queueStore: QueueStore = new IndexedDbQueueStore()
+  ) {
+    this.name = `${remote.name}+offline`;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.syncPendingChanges();
+      });
+      window.addEventListener('offline', () => this.setState('offline'));
+    }
+  }
+
+  // Reads
+
+  async listItems(): Promise<ContentItem[]> {
+    return this.read(
+      async () => {
+        await this.syncPendingChanges();
+        const items = await this.remote.listItems();
+        // Only replace the cache wholesale when nothing local is still waiting to sync
+        if (this.operations.length === 0) {
+          await this.cache.replaceAll(items);
+          this.lastSyncedAt = new Date().toISOString();
+          this.notify();
+          return items;
+        }
+        return this.cache.listItems();
+      },
+      () => this.cache.listItems()
+    );
+  }
+
+  async getItemById(id: string): Promise<ContentItem | null> {
+    return this.read(
+      async () => this.cacheRead(await this.remote.getItemById(id)),
+      () => this.cache.getItemById(id)
+    );
+  }
+
+  async getItemByPath(path: string): Promise<ContentItem | null> {
+    return this.read(
+      async () => this.cacheRead(await this.remote.getItemByPath(path)),
+      () => this.cache.getItemByPath(path)
+    );
+  }
+
+  async listChildren(parentId: string | null): Promise<ContentItem[]> {
+    return this.read(() => this.remote.listChildren(parentId), () => this.cache.listChildren(parentId));
+  }
+
+  async searchItems(query: string): Promise<ContentItem[]> {
+    return this.read(() => this.remote.searchItems(query), () => this.cache.searchItems(query));
+  }
+
+  // The index lives on the server; offline, SearchService falls back to ranking cached items
+  async searchIndex(query: string, limit: number): Promise<SearchHit[]> {
+    const remote = this.remote;
+    if (!remote.searchIndex) throw new StorageError(`${remote.name} has no search index`);
+    return this.read(
+      () => remote.searchIndex!(query, limit),
+      () => Promise.reject(new StorageError('Search index is not available offline'))
+    );
+  }
+
+  // Embeddings are derived from the content, so offline they are read from
+  // nowhere and not stored; EmbeddingService recomputes them in memory
+  async listSectionEmbeddings(): Promise<SectionEmbedding[]> {
+    const remote = this.remote;
+    if (!remote.listSectionEmbeddings) return [];
+    return this.read(() => remote.listSectionEmbeddings!(), async () => []);
+  }
+
+  async saveSectionEmbeddings(itemId: string, embeddings: SectionEmbedding[]): Promise<void> {
+    const remote = this.remote;
+    if (!remote.saveSectionEmbeddings) return;
+    return this.read(() => remote.saveSectionEmbeddings!(itemId, embeddings), async () => undefined);
+  }
+
+  // Links likewise: LinkService parses them from the cached content offline
+  async listLinks(): Promise<StoredLink[]> {
+    const remote = this.remote;
+    if (!remote.listLinks) return [];
+    return this.read(() => remote.listLinks!(), async () => []);
+  }
+
+  async saveLinks(itemId: string, links: StoredLink[]): Promise<void> {
+    const remote = this.remote;
+    if (!remote.saveLinks) return;
+    return this.read(() => remote.saveLinks!(itemId, links), async () => undefined);
+  }
+
+  // Writes
+
+  async insertItem(item: NewContentItem): Promise<ContentItem> {
+    return this.write(
+      async () => {
+        const created = await this.remote.insertItem(item);
+        await this.cache.putItem(created);
+        return created;
+      },
+      async () => {
+        const created = await this.cache.insertItem(item);
+        await this.enqueue({ kind: 'insert', itemId: created.id, item: { ...item, id: created.id } });
+        return created;
+      }
+    );
+  }
+
+  async updateItem(id: string, updates: ContentItemUpdates, expectedVersion?: number): Promise<UpdateOutcome> {
+    return this.write(
+      async () => {
+        const outcome = await this.remote.updateItem(id, updates, expectedVersion);
+        if (outcome.status === 'updated') {
+          await this.refreshCachedItem(id);
+        }
+        return outcome;
+      },
+      async () => {
+        const cached = await this.cache.getItemById(id);
+        const outcome = await this.cache.updateItem(id, updates, expectedVersion);
+        if (outcome.status === 'updated') {
+          await this.enqueue({ kind: 'update', itemId: id, updates, baseVersion: cached?.version ?? null });
+        }
+        return outcome;
+      }
+    );
+  }
+
+  // Queued offline as one update per item, so they are replayed one by one
+  async updateItems(changes: ItemUpdate[]): Promise<BatchUpdateOutcome> {
+    return this.write(
+      async () => {
+        const outcome = await this.remote.updateItems(changes);
+        if (outcome.status === 'updated') {
+          for (const change of changes) await this.refreshCachedItem(change.id);
+        }
+        return outcome;
+      },
+      async () => {
+        const cached = await Promise.all(changes.map(change => this.cache.getItemById(change.id)));
+        const outcome = await this.cache.updateItems(changes);
+        if (outcome.status === 'updated') {
+          for (const [i, change] of changes.entries()) {
+            await this.enqueue({ kind: 'update', itemId: change.id, updates: change.updates, baseVersion: cached[i]?.version ?? null });
+          }
+        }
+        return outcome;
+      }
+    );
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    return this.write(
+      async () => {
+        await this.remote.deleteItem(id);
+        await this.cache.deleteItem(id);
+      },
+      async () => {
+        await this.cache.deleteItem(id);
+        await this.enqueue({ kind: 'delete', itemId: id });
+      }
+    );
+  }
+
+  async moveItem(id: string, parentId: string | null, orderIndex: number): Promise<void> {
+    return this.write(
+      async () => {
+        await this.remote.moveItem(id, parentId, orderIndex);
+        await this.cache.moveItem(id, parentId, orderIndex);
+      },
+      async () => {
+        await this.cache.moveItem(id, parentId, orderIndex);
+        await this.enqueue({ kind: 'move', itemId: id, parentId, orderIndex });
+      }
+    );
+  }
+
+  // Sync
+
+  getStatus(): SyncStatus {
+    return {
+      state: this.state,
+      pendingCount: this.operations.length,
+      conflicts: [...this.conflicts],
+      lastSyncedAt: this.lastSyncedAt
+    };
+  }
+
+  /**
+   * Listen for status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    this.ensureQueueLoaded().then(() => listener(this.getStatus()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay queued writes against the remote, oldest first. Stops at the first
+   * network failure; operations the server rejects become conflicts.
+   */
+  syncPendingChanges(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.replayQueue().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Settle a conflict: 'local' forces the queued change onto the server,
+   * 'remote' drops it and takes the server's copy.
+   */
+  async resolveConflict(operationId: string, keep: 'local' | 'remote'): Promise<void> {
+    await this.ensureQueueLoaded();
+    const conflict = this.conflicts.find(c => c.operation.id === operationId);
+    if (!conflict) return;
+
+    const { operation } = conflict;
+    if (keep === 'local') {
+      if (operation.kind === 'update') {
+        const outcome = await this.remote.updateItem(operation.itemId, operation.updates);
+        if (outcome.status === 'missing') {
+          // Deleted on the server: recreate it from the cached copy
+          const cached = await this.cache.getItemById(operation.itemId);
+          if (cached) await this.remote.insertItem(this.toNewItem(cached));
+        }
+      } else if (operation.kind === 'insert') {
+        await this.remote.insertItem(operation.item);
+      }
+    }
+
+    this.conflicts = this.conflicts.filter(c => c !== conflict);
+    await this.saveQueue();
+    await this.refreshCachedItem(operation.itemId);
+    this.notify();
+  }
+
+  private async replayQueue(): Promise<void> {
+    await this.ensureQueueLoaded();
+    if (this.operations.length === 0) {
+      if (this.state !== 'online') this.setState('online');
+      return;
+    }
+
+    this.setState('syncing');
+
+    while (this.operations.length > 0) {
+      const operation = this.operations[0];
+      try {
+        const conflict = await this.replay(operation);
+        if (conflict) this.conflicts.push(conflict);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          this.setState('offline');
+          return;
+        }
+        this.conflicts.push({ operation, reason: 'rejected', message: error instanceof Error ? error.message : String(error) });
+      }
+
+      this.operations = this.operations.slice(1);
+      await this.saveQueue();
+      this.notify();
+    }
+
+    this.lastSyncedAt = new Date().toISOString();
+    this.setState('online');
+  }
+
+  private async replay(operation: QueuedOperation): Promise<SyncConflict | null> {
+    switch (operation.kind) {
+      case 'insert':
+        await this.remote.insertItem(operation.item);
+        return null;
+      case 'update': {
+        const outcome = await this.remote.updateItem(operation.itemId, operation.updates, operation.baseVersion ?? undefined);
+        if (outcome.status === 'conflict') return { operation, reason: 'changed-remotely' };
+        if (outcome.status === 'missing') return { operation, reason: 'deleted-remotely' };
+        await this.refreshCachedItem(operation.itemId);
+        return null;
+      }
+      case 'delete':
+        await this.remote.deleteItem(operation.itemId);
+        return null;
+      case 'move':
+        await this.remote.moveItem(operation.itemId, operation.parentId, operation.orderIndex);
+        return null;
+    }
+  }
+
+  // Runs a remote read, falling back to the cache when the network is the problem
+  private async read<T>(fromRemote: () => Promise<T>, fromCache: () => Promise<T>): Promise<T> {
+    if (isBrowserOffline()) {
+      this.setState('offline');
+      return fromCache();
+    }
+    try {
+      const result = await fromRemote();
+      // The server is reachable again (not every outage ends with an 'online' event)
+      if (this.state === 'offline') this.syncPendingChanges();
+      return result;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      this.setState('offline');
+      return fromCache();
+    }
+  }
+
+  // Runs a remote write, or applies it locally and queues it when offline
+  private async write<T>(toRemote: () => Promise<T>, toCacheAndQueue: () => Promise<T>): Promise<T> {
+    await this.ensureQueueLoaded();
+    // Keep ordering: while older writes are queued, newer ones queue behind them
+    if (this.state === 'offline' || this.operations.length > 0) return toCacheAndQueue();
+    try {
+      return await toRemote();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      this.setState('offline');
+      return toCacheAndQueue();
+    }
+  }
+
+  private async cacheRead(item: ContentItem | null): Promise<ContentItem | null> {
+    if (item && !this.operations.some(op => op.itemId === item.id)) {
+      await this.cache.putItem(item);
+    }
+    return item;
+  }
+
+  private async refreshCachedItem(id: string): Promise<void> {
+    try {
+      const item = await this.remote.getItemById(id);
+      if (item) {
+        await this.cache.putItem(item);
+      } else {
+        await this.cache.deleteItem(id);
+      }
+    } catch (error) {
+      console.error('Error refreshing cached item:', error);
+    }
+  }
+
+  private async enqueue(operation: NewQueuedOperation): Promise<void> {
+    this.operations = enqueueOperation(this.operations, operation);
+    await this.saveQueue();
+    this.notify();
+  }
+
+  private toNewItem(item: ContentItem): NewContentItem {
+    const { id, title, path, parent_id, order_index, tags, content_json } = item;
+    return { id, title, path, parent_id, order_index, tags, content_json };
+  }
+
+  private ensureQueueLoaded(): Promise<void> {
+    if (!this.queueLoaded) {
+      this.queueLoaded = this.queueStore.load()
+        .then(({ operations, conflicts }) => {
+          this.operations = operations;
+          this.conflicts = conflicts;
+        })
+        .catch(error => {
+          console.error('Error loading offline queue:', error);
+        });
+    }
+    return this.queueLoaded;
+  }
+
+  private async saveQueue(): Promise<void> {
+    try {
+      await this.queueStore.save(this.operations, this.conflicts);
+    } catch (error) {
+      console.error('Error saving offline queue:', error);
+    }
+  }
+
+  private setState(state: SyncState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
@@ -0,0 +1,271 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { ContentItem, DocumentSection } from "../contentService";
+import { BatchUpdateOutcome, ContentItemUpdates, ItemUpdate, NewContentItem, SearchHit, SectionEmbedding, StorageAdapter, StoredLink, StorageError, UpdateOutcome } from "./types";
+
+type ContentItemRow = Omit<ContentItem, 'content_json'> & { content_json: Json | null };
+
+const toItem = (row: ContentItemRow): ContentItem => ({
+  ...row,
+  tags: row.tags || [],
+  content_json: row.content_json as unknown as DocumentSection[] | null
+});
+
+// content_json is typed as Json in the generated database types
+const toDbUpdates = (updates: ContentItemUpdates) => ({
+  ...updates,
+  content_json: updates.content_json ? updates.content_json as unknown as Json : undefined
+});
+
+/**
+ * Default adapter: the content_items table in Supabase
+ */
+export class SupabaseStorageAdapter implements StorageAdapter {
+  readonly name = 'supabase';
+
+  async listItems(): Promise<ContentItem[]> {
+    const { data, error } = await supabase
+      .from('content_items')
+      .select('*')
+      .order('order_index');
+
+    if (error) throw new StorageError('Failed to list content items', error);
+    return (data || []).map(toItem);
+  }
+
+  async getItemById(id: string): Promise<ContentItem | null> {
+    const { data, error } = await supabase
+      .from('content_items')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new StorageError('Failed to fetch content item by id', error);
+    return data ? toItem(data) : null;
+  }
+
+  async getItemByPath(path: string): Promise<ContentItem | null> {
+    const { data, error } = await supabase
+      .from('content_items')
+      .select('*')
+      .eq('path', path)
+      .maybeSingle();
+
+    if (error) throw new StorageError('Failed to fetch content item by path', error);
+    return data ? toItem(data) : null;
+  }
+
+  async listChildren(parentId: string | null): Promise<ContentItem[]> {
+    const query = supabase.from('content_items').select('*');
+    const { data, error } = await (parentId === null ? query.is('parent_id', null) : query.eq('parent_id', parentId))
+      .order('order_index');
+
+    if (error) throw new StorageError('Failed to list child content items', error);
+    return (data || []).map(toItem);
+  }
+
+  async insertItem(item: NewContentItem): Promise<ContentItem> {
+    const { data, error } = await supabase
+      .from('content_items')
+      .insert({
+        ...item,
+        content_json: item.content_json as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) throw new StorageError('Failed to create content item', error);
+    return toItem(data);
+  }
+
+  async updateItem(id: string, updates: ContentItemUpdates, expectedVersion?: number): Promise<UpdateOutcome> {
+    let query = supabase
+      .from('content_items')
+      .update(toDbUpdates(updates))
+      .eq('id', id);
+
+    if (expectedVersion !== undefined) {
+      query = query.eq('version', expectedVersion);
+    }
+
+    const { data, error } = await query.select('version');
+
+    if (error) throw new StorageError('Failed to update content item', error);
+
+    if (!data || data.length === 0) {
+      // No row matched: either the version moved on or the item is gone
+      if (expectedVersion === undefined) return { status: 'missing' };
+      const current = await this.getItemById(id);
+      return { status: current ? 'conflict' : 'missing' };
+    }
+
+    return { status: 'updated', version: data[0].version };
+  }
+
+  // See update_content_items() in the migrations; it rolls back on a conflict
+  async updateItems(changes: ItemUpdate[]): Promise<BatchUpdateOutcome> {
+    const { data, error } = await supabase.rpc('update_content_items', {
+      changes: changes.map(change => ({
+        id: change.id,
+        expected_version: change.expectedVersion,
+        updates: toDbUpdates(change.updates)
+      })) as unknown as Json
+    });
+
+    if (error?.code === '40001') return { status: 'conflict', versions: {} };
+    if (error) throw new StorageError('Failed to update content items', error);
+
+    return {
+      status: 'updated',
+      versions: Object.fromEntries((data || []).map(row => [row.item_id, row.item_version]))
+    };
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('content_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new StorageError('Failed to delete content item', error);
+  }
+
+  async moveItem(id: string, parentId: string | null, orderIndex: number): Promise<void> {
+    const { error } = await supabase
+      .from('content_items')
+      .update({
+        parent_id: parentId,
+        order_index: orderIndex
+      })
+      .eq('id', id);
+
+    if (error) throw new StorageError('Failed to move content item', error);
+  }
+
+  async searchItems(query: string): Promise<ContentItem[]> {
+    // Use separate .ilike() calls to avoid string interpolation in .or()
+    // This leverages Supabase's built-in parameterization for safer queries
+    const searchPattern = `%${query}%`;
+
+    const { data: titleMatches, error: titleError } = await supabase
+      .from('content_items')
+      .select('*')
+      .ilike('title', searchPattern);
+
+    if (titleError) throw new StorageError('Failed to search content items by title', titleError);
+
+    // Search content_json cast to text; if the cast filter fails, fall back to title matches
+    const { data: contentMatches, error: contentError } = await supabase
+      .from('content_items')
+      .select('*')
+      .filter('content_json::text', 'ilike', searchPattern);
+
+    if (contentError) {
+      console.error('Error searching documents by content:', contentError);
+    }
+
+    // Merge and deduplicate results by id
+    const allMatches = [...(titleMatches || []), ...(contentMatches || [])];
+    return Array.from(new Map(allMatches.map(item => [item.id, toItem(item)])).values());
+  }
+
+  // See search_content() in the migrations for tokenizing, stemming and weights
+  async searchIndex(query: string, limit: number): Promise<SearchHit[]> {
+    const { data, error } = await supabase.rpc('search_content', { search_query: query, max_results: limit });
+
+    if (error) throw new StorageError('Failed to search content index', error);
+    return (data || []).map(row => ({
+      itemId: row.content_item_id,
+      documentTitle: row.document_title,
+      documentPath: row.document_path,
+      sectionId: row.section_id,
+      sectionTitle: row.section_title,
+      sectionLevel: row.section_level,
+      breadcrumb: row.breadcrumb,
+      tags: row.tags || [],
+      content: row.content,
+      matchType: row.match_type as SearchHit['matchType'],
+      rank: row.rank,
+      snippet: row.snippet
+    }));
+  }
+
+  async listSectionEmbeddings(): Promise<SectionEmbedding[]> {
+    const { data, error } = await supabase
+      .from('section_embeddings')
+      .select('content_item_id, section_id, model, content_hash, vector');
+
+    if (error) throw new StorageError('Failed to list section embeddings', error);
+    return (data || []).map(row => ({
+      itemId: row.content_item_id,
+      sectionId: row.section_id,
+      model: row.model,
+      contentHash: row.content_hash,
+      vector: row.vector
+    }));
+  }
+
+  async saveSectionEmbeddings(itemId: string, embeddings: SectionEmbedding[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('section_embeddings')
+      .delete()
+      .eq('content_item_id', itemId);
+
+    if (deleteError) throw new StorageError('Failed to clear section embeddings', deleteError);
+    if (embeddings.length === 0) return;
+
+    const { error } = await supabase
+      .from('section_embeddings')
+      .insert(embeddings.map(embedding => ({
+        content_item_id: itemId,
+        section_id: embedding.sectionId,
+        model: embedding.model,
+        content_hash: embedding.contentHash,
+        vector: embedding.vector
+      })));
+
+    if (error) throw new StorageError('Failed to save section embeddings', error);
+  }
+
+  async listLinks(): Promise<StoredLink[]> {
+    const { data, error } = await supabase
+      .from('content_links')
+      .select('content_item_id, item_version, section_id, link_text, target, target_item_id, target_section_id')
+      .order('created_at');
+
+    if (error) throw new StorageError('Failed to list content links', error);
+    return (data || []).map(row => ({
+      itemId: row.content_item_id,
+      itemVersion: row.item_version,
+      sectionId: row.section_id,
+      text: row.link_text,
+      target: row.target,
+      targetItemId: row.target_item_id,
+      targetSectionId: row.target_section_id
+    }));
+  }
+
+  async saveLinks(itemId: string, links: StoredLink[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('content_links')
+      .delete()
+      .eq('content_item_id', itemId);
+
+    if (deleteError) throw new StorageError('Failed to clear content links', deleteError);
+    if (links.length === 0) return;
+
+    const { error } = await supabase
+      .from('content_links')
+      .insert(links.map(link => ({
+        content_item_id: itemId,
+        item_version: link.itemVersion,
+        section_id: link.sectionId,
+        link_text: link.text,
+        target: link.target,
+        target_item_id: link.targetItemId,
+        target_section_id: link.targetSectionId
+      })));
+
+    if (error) throw new StorageError('Failed to save content links', error);
+  }
+}
@@ -0,0 +1,75 @@
+import { ContentItemUpdates, NewContentItem } from "./types";
+
+/**
+ * A write made while offline, waiting to be replayed against the server
+ */
+export type QueuedOperation =
+  | { kind: 'insert'; id: string; itemId: string; item: NewContentItem & { id: string }; queuedAt: string }
+  | { kind: 'update'; id: string; itemId: string; updates: ContentItemUpdates; baseVersion: number | null; queuedAt: string }
+  | { kind: 'delete'; id: string; itemId: string; queuedAt: string }
+  | { kind: 'move'; id: string; itemId: string; parentId: string | null; orderIndex: number; queuedAt: string };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewQueuedOperation = DistributiveOmit<QueuedOperation, 'id' | 'queuedAt'>;
+
+/**
+ * An operation the server rejected during replay, kept until the user decides
+ */
+export interface SyncConflict {
+  operation: QueuedOperation;
+  reason: 'changed-remotely' | 'deleted-remotely' | 'rejected';
+  message?: string;
+}
+
+const createOperationId = () => `op-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Adds an operation to the queue, folding it into earlier operations on the
+ * same item so each item replays at most one insert or update. Updates keep the
+ * first base version, since local version bumps never reached the server.
+ */
+export function enqueueOperation(queue: QueuedOperation[], operation: NewQueuedOperation): QueuedOperation[] {
+  const queuedAt = new Date().toISOString();
+  const pendingInsert = queue.find(op => op.itemId === operation.itemId && op.kind === 'insert');
+
+  switch (operation.kind) {
+    case 'update': {
+      if (pendingInsert && pendingInsert.kind === 'insert') {
+        return queue.map(op => op === pendingInsert
+          ? { ...pendingInsert, item: { ...pendingInsert.item, ...definedFields(operation.updates) } }
+          : op);
+      }
+      const pendingUpdate = queue.find(op => op.itemId === operation.itemId && op.kind === 'update');
+      if (pendingUpdate && pendingUpdate.kind === 'update') {
+        return queue.map(op => op === pendingUpdate
+          ? { ...pendingUpdate, updates: { ...pendingUpdate.updates, ...definedFields(operation.updates) } }
+          : op);
+      }
+      break;
+    }
+    case 'move': {
+      if (pendingInsert && pendingInsert.kind === 'insert') {
+        return queue.map(op => op === pendingInsert
+          ? { ...pendingInsert, item: { ...pendingInsert.item, parent_id: operation.parentId, order_index: operation.orderIndex } }
+          : op);
+      }
+      // Only the last position matters
+      queue = queue.filter(op => !(op.itemId === operation.itemId && op.kind === 'move'));
+      break;
+    }
+    case 'delete': {
+      const remaining = queue.filter(op => op.itemId !== operation.itemId);
+      // Never reached the server, so there is nothing to delete there
+      if (pendingInsert) return remaining;
+      queue = remaining;
+      break;
+    }
+  }
+
+  return [...queue, { ...operation, id: createOperationId(), queuedAt } as QueuedOperation];
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,130 @@
+import type { ContentItem } from "../contentService";
+
+/**
+ * Fields supplied when creating a content item; timestamps and the version are
+ * assigned by the store, and so is the id unless one is given (offline inserts)
+ */
+export type NewContentItem = Pick<ContentItem, 'title' | 'path' | 'parent_id' | 'order_index' | 'tags' | 'content_json'> & {
+  id?: string;
+};
+
+export type ContentItemUpdates = Partial<Omit<ContentItem, 'id' | 'created_at' | 'updated_at' | 'version' | 'children'>>;
+
+export interface UpdateOutcome {
+  // 'conflict': expectedVersion no longer matches; 'missing': no item with that id
+  status: 'updated' | 'conflict' | 'missing';
+  version?: number;
+}
+
+/**
+ * One item's part of a batch update (see StorageAdapter.updateItems)
+ */
+export interface ItemUpdate {
+  id: string;
+  updates: ContentItemUpdates;
+  expectedVersion?: number;
+}
+
+export interface BatchUpdateOutcome {
+  // 'conflict': an item was changed or deleted since its expectedVersion, and nothing was updated
+  status: 'updated' | 'conflict';
+  // The new version of each updated item
+  versions: Record<string, number>;
+}
+
+/**
+ * A ranked match from a server-side full-text index: the document's title
+ * (sectionId null) or one section. The snippet marks matches with **.
+ */
+export interface SearchHit {
+  itemId: string;
+  documentTitle: string;
+  documentPath: string;
+  sectionId: string | null;
+  sectionTitle: string | null;
+  // Heading level; null for the document's own entry
+  sectionLevel: number | null;
+  breadcrumb: string[];
+  // The document's tags, or the section's own tags
+  tags: string[];
+  content: string;
+  matchType: 'title' | 'section-title' | 'content';
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * A stored section embedding. contentHash identifies the text and model it was
+ * computed from, so stale ones can be recomputed.
+ */
+export interface SectionEmbedding {
+  itemId: string;
+  sectionId: string;
+  model: string;
+  contentHash: string;
+  vector: number[];
+}
+
+/**
+ * A stored wiki link from one section. itemVersion is the version of the item
+ * it was read from, so links of items edited since can be refreshed; the
+ * target ids are what the link resolved to when it was stored.
+ */
+export interface StoredLink {
+  itemId: string;
+  itemVersion: number;
+  sectionId: string;
+  text: string;
+  target: string;
+  targetItemId: string | null;
+  targetSectionId: string | null;
+}
+
+/**
+ * Persistence behind ContentService and SearchService.
+ *
+ * Adapters return raw rows (content_json is normalized by ContentService) and
+ * throw a StorageError on failure; callers decide how to log and recover.
+ * Stores must bump `version` whenever content_json, title or tags change.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  // All items ordered by order_index
+  listItems(): Promise<ContentItem[]>;
+  getItemById(id: string): Promise<ContentItem | null>;
+  getItemByPath(path: string): Promise<ContentItem | null>;
+  // Children of a parent (null for root items) ordered by order_index
+  listChildren(parentId: string | null): Promise<ContentItem[]>;
+
+  insertItem(item: NewContentItem): Promise<ContentItem>;
+  // With expectedVersion the update only applies if the item is still at that version
+  updateItem(id: string, updates: ContentItemUpdates, expectedVersion?: number): Promise<UpdateOutcome>;
+  // Several updates applied together: all of them, or none when one conflicts
+  updateItems(changes: ItemUpdate[]): Promise<BatchUpdateOutcome>;
+  deleteItem(id: string): Promise<void>;
+  moveItem(id: string, parentId: string | null, orderIndex: number): Promise<void>;
+
+  // Case-insensitive substring match on title or section text
+  searchItems(query: string): Promise<ContentItem[]>;
+  // Ranked full-text search, best match first. Stores without an index leave
+  // this out and SearchService ranks listItems() itself
+  searchIndex?(query: string, limit: number): Promise<SearchHit[]>;
+
+  // Stored section embeddings (see EmbeddingService). Stores without them
+  // leave these out and the embeddings are recomputed in memory each session
+  listSectionEmbeddings?(): Promise<SectionEmbedding[]>;
+  // Replaces all embeddings of one item
+  saveSectionEmbeddings?(itemId: string, embeddings: SectionEmbedding[]): Promise<void>;
+  // Stored wiki links (see LinkService). Stores without them have links
+  // parsed from the content whenever they are needed
+  listLinks?(): Promise<StoredLink[]>;
+  saveLinks?(itemId: string, links: StoredLink[]): Promise<void>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
@@ -0,0 +1,54 @@
+import { ContentService } from "./contentService";
+import { getStorageAdapter } from "./storage";
+import { TagTaxonomyService } from "./tagTaxonomyService";
+import { TagOperation, TagRewritePlan, planTagRewrite } from "@/lib/tagRewrite";
+
+export interface TagRewriteResult {
+  updated: number;
+  // False when the documents were rewritten but the tag taxonomy could not be renamed to match
+  taxonomyUpdated: boolean;
+}
+
+/**
+ * Renames, merges, splits and deletes tags across the wiki (see tagRewrite.ts)
+ */
+export class TagRewriteService {
+  /**
+   * Preview the documents and sections an operation changes
+   */
+  static async planRewrite(operation: TagOperation): Promise<TagRewritePlan> {
+    return planTagRewrite(await ContentService.getAllDocuments(), operation);
+  }
+
+  /**
+   * Write every document of the plan in one batch (updateItems), checked
+   * against the versions the preview was built from: when one of them was
+   * edited or deleted since, nothing changes and this throws. The previous
+   * tags stay in revision history. Renamed and merged tags are renamed in the
+   * tag taxonomy once the documents are written.
+   */
+  static async commitRewrite(plan: TagRewritePlan): Promise<TagRewriteResult> {
+    const changes = plan.documents.map(change => ({
+      id: change.document.id,
+      updates: { tags: change.tags, content_json: change.sections },
+      expectedVersion: change.document.version
+    }));
+
+    if (changes.length > 0) {
+      const outcome = await getStorageAdapter().updateItems(changes);
+      if (outcome.status === 'conflict') {
+        throw new Error('A page was edited or deleted after the preview was made, so nothing was changed');
+      }
+    }
+
+    const { operation } = plan;
+    let taxonomyUpdated = true;
+    if (operation.kind === 'rename') {
+      taxonomyUpdated = await TagTaxonomyService.renameValues([operation.tag], operation.to);
+    } else if (operation.kind === 'merge') {
+      taxonomyUpdated = await TagTaxonomyService.renameValues(operation.tags, operation.into);
+    }
+
+    return { updated: changes.length, taxonomyUpdated };
+  }
+}
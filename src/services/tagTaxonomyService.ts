@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TagValue {
+  id: string;
+  category_id: string;
+  // The tag as written on sections, e.g. "b2b"
+  value: string;
+  label: string;
+  order_index: number;
+}
+
+export interface TagCategory {
+  id: string;
+  name: string;
+  order_index: number;
+  values: TagValue[];
+}
+
+export class TagTaxonomyService {
+  private static listeners = new Set<() => void>();
+
+  /**
+   * All tag categories with their values, in display order. The taxonomy
+   * lives in Supabase whichever storage backend holds the content.
+   */
+  static async getTaxonomy(): Promise<TagCategory[]> {
+    const [categoriesResult, valuesResult] = await Promise.all([
+      supabase.from('tag_categories').select('id, name, order_index').order('order_index').order('name'),
+      supabase.from('tag_values').select('id, category_id, value, label, order_index').order('order_index').order('label')
+    ]);
+
+    if (categoriesResult.error || valuesResult.error) {
+      console.error('Error fetching tag taxonomy:', categoriesResult.error || valuesResult.error);
+      return [];
+    }
+
+    const values = valuesResult.data || [];
+    return (categoriesResult.data || []).map(category => ({
+      ...category,
+      values: values.filter(value => value.category_id === category.id)
+    }));
+  }
+
+  /**
+   * Point taxonomy values written as one of `tags` at `to` after the tags were
+   * renamed or merged in the content, labelled with the new name. A value
+   * already present in its category is not duplicated: the old value is
+   * removed instead.
+   */
+  static async renameValues(tags: string[], to: string): Promise<boolean> {
+    const taxonomy = await this.getTaxonomy();
+    const renamed = new Set(tags.filter(tag => tag !== to));
+
+    try {
+      for (const category of taxonomy) {
+        const targetExists = category.values.some(value => value.value === to);
+        const affected = category.values.filter(value => renamed.has(value.value));
+
+        for (const [index, value] of affected.entries()) {
+          const { error } = targetExists || index > 0
+            ? await supabase.from('tag_values').delete().eq('id', value.id)
+            : await supabase.from('tag_values').update({ value: to, label: to }).eq('id', value.id);
+          if (error) throw error;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Error renaming tag values:', error);
+      return false;
+    } finally {
+      this.notify();
+    }
+  }
+
+  /**
+   * Called whenever the taxonomy changes. Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
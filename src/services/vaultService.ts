@@ -0,0 +1,120 @@
+import { ContentItem, ContentService } from "./contentService";
+import { getStorageAdapter, writeTextFile } from "./storage";
+import {
+  exportVault,
+  findRoundTripLosses,
+  planVaultImport,
+  readVault,
+  VaultFile,
+  VaultImportPlan,
+  VaultProblem
+} from "@/lib/markdownVault";
+
+export interface VaultExportResult {
+  fileCount: number;
+  // Anything that would not come back unchanged on import
+  problems: VaultProblem[];
+}
+
+export interface VaultImportResult {
+  created: number;
+  updated: number;
+  failed: Array<{ file: string; message: string }>;
+}
+
+/**
+ * Moves the content tree in and out of the markdown vault format (see markdownVault.ts)
+ */
+export class VaultService {
+  /**
+   * Write every content item into a local folder. Existing files with the same
+   * names are overwritten; other files in the folder are left alone.
+   */
+  static async exportToDirectory(directory: FileSystemDirectoryHandle): Promise<VaultExportResult> {
+    const items = await this.loadItems();
+    const files = exportVault(items);
+
+    for (const file of files) {
+      await writeTextFile(directory, file.path, file.content);
+    }
+
+    return { fileCount: files.length, problems: findRoundTripLosses(items) };
+  }
+
+  /**
+   * Read the files picked with an `<input webkitdirectory>`. Paths drop the
+   * picked folder's own name so they are relative to the vault root.
+   */
+  static async readFileList(fileList: FileList | File[]): Promise<VaultFile[]> {
+    const files = Array.from(fileList).filter(file => file.name.toLowerCase().endsWith('.md'));
+    return Promise.all(files.map(async file => {
+      const relativePath = file.webkitRelativePath || file.name;
+      return {
+        path: relativePath.split('/').slice(relativePath.includes('/') ? 1 : 0).join('/'),
+        content: await file.text()
+      };
+    }));
+  }
+
+  /**
+   * Dry run: what importing these files would create and change, without writing
+   */
+  static async planImport(files: VaultFile[]): Promise<VaultImportPlan> {
+    return planVaultImport(readVault(files), await this.loadItems());
+  }
+
+  /**
+   * Apply a plan from planImport. Parents are created before their children;
+   * a failed item is reported and the rest continue.
+   */
+  static async applyImport(plan: VaultImportPlan): Promise<VaultImportResult> {
+    const adapter = getStorageAdapter();
+    const result: VaultImportResult = { created: 0, updated: 0, failed: [] };
+
+    for (const item of plan.creates) {
+      try {
+        await adapter.insertItem({
+          id: item.id,
+          title: item.title,
+          path: item.path,
+          parent_id: item.parent_id,
+          order_index: item.order_index,
+          tags: item.tags,
+          content_json: item.content_json
+        });
+        result.created++;
+      } catch (error) {
+        console.error('Error importing vault item:', error);
+        result.failed.push({ file: item.file, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    for (const { item } of plan.updates) {
+      try {
+        const outcome = await adapter.updateItem(item.id, {
+          title: item.title,
+          path: item.path,
+          parent_id: item.parent_id,
+          order_index: item.order_index,
+          tags: item.tags,
+          content_json: item.content_json
+        });
+        if (outcome.status === 'updated') {
+          result.updated++;
+        } else {
+          result.failed.push({ file: item.file, message: 'Page was deleted during the import' });
+        }
+      } catch (error) {
+        console.error('Error updating vault item:', error);
+        result.failed.push({ file: item.file, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  private static async loadItems(): Promise<ContentItem[]> {
+    const items = await getStorageAdapter().listItems();
+    return items.map(item => ({ ...item, content_json: ContentService.normalizeContentJson(item.content_json) }));
+  }
+}
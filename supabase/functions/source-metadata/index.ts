@@ -0,0 +1,191 @@
+// Reads the title, description and site name of source URLs (<!-- sources: -->
+// comments) and stores them in source_metadata, which only this function
+// writes. Pages are fetched here rather than in the reader's browser, so
+// readers' addresses are not sent to source sites and cross-origin rules do
+// not apply. Every URL is read once; pages that cannot be read get an empty
+// row, and their previews show the domain only.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Per request, as a section rarely lists more sources
+const MAX_URLS = 20;
+const FETCH_TIMEOUT = 5000;
+const MAX_REDIRECTS = 3;
+// The head of the page is enough for its meta tags
+const MAX_HTML_LENGTH = 256 * 1024;
+const EXCERPT_LENGTH = 280;
+
+interface SourceRow {
+  url: string;
+  title: string | null;
+  excerpt: string | null;
+  site_name: string | null;
+}
+
+// Addresses of this network rather than the public web
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) return true;
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  return host.includes(":") && (host === "::1" || host === "::" || /^f[cd]/.test(host) || host.startsWith("fe80") || host.startsWith("::ffff:"));
+}
+
+function isPublicUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === "http:" || url.protocol === "https:") && !isPrivateHost(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Redirects are followed by hand so each hop is checked too
+async function fetchPage(url: string): Promise<string | null> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!isPublicUrl(current)) return null;
+    const response = await fetch(current, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+      headers: { accept: "text/html" },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!response.ok || !(response.headers.get("content-type") || "").includes("html") || !response.body) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let html = "";
+    while (html.length < MAX_HTML_LENGTH) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      html += decoder.decode(value, { stream: true });
+    }
+    await reader.cancel();
+    return html;
+  }
+  return null;
+}
+
+const decodeEntities = (text: string) => text
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&lt;/g, "<")
+  .replace(/&gt;/g, ">")
+  .replace(/&nbsp;/g, " ")
+  .replace(/&amp;/g, "&");
+
+const cleanText = (text: string) => decodeEntities(text).replace(/\s+/g, " ").trim();
+
+// The first of the named meta tags the page has, in the order given
+function metaContent(html: string, names: string[]): string | null {
+  const values = new Map<string, string>();
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const name = tag.match(/\b(?:name|property)\s*=\s*["']([^"']+)["']/i)?.[1]?.toLowerCase();
+    const content = tag.match(/\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    if (!name || !content || values.has(name)) continue;
+    const value = cleanText(content[1] ?? content[2]);
+    if (value) values.set(name, value);
+  }
+
+  const found = names.find(name => values.has(name));
+  return found ? values.get(found)! : null;
+}
+
+// Cut at a word boundary, like the app's section previews
+function excerpt(text: string): string {
+  if (text.length <= EXCERPT_LENGTH) return text;
+  const cut = text.substring(0, EXCERPT_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > EXCERPT_LENGTH / 2 ? cut.substring(0, lastSpace) : cut).replace(/[\s,.;:]+$/, "")}…`;
+}
+
+// Open Graph tags first, then the page title and description
+function parsePageMetadata(url: string, html: string): SourceRow {
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const description = metaContent(html, ["og:description", "description", "twitter:description"]);
+
+  return {
+    url,
+    title: metaContent(html, ["og:title", "twitter:title"]) || (titleTag ? cleanText(titleTag) || null : null),
+    excerpt: description ? excerpt(description) : null,
+    site_name: metaContent(html, ["og:site_name"]),
+  };
+}
+
+async function readSource(url: string): Promise<SourceRow> {
+  try {
+    const html = await fetchPage(url);
+    if (html) return parsePageMetadata(url, html);
+  } catch (error) {
+    console.error(`Error reading source ${url}:`, error);
+  }
+  return { url, title: null, excerpt: null, site_name: null };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  // Only signed-in readers may have sources read
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) return json({ error: "Not signed in" }, 401);
+
+  let urls: string[];
+  try {
+    const body = await req.json();
+    urls = Array.isArray(body?.urls) ? [...new Set(body.urls.filter((url: unknown): url is string => typeof url === "string"))] : [];
+  } catch {
+    return json({ error: "Expected a JSON body with urls" }, 400);
+  }
+  if (urls.length === 0 || urls.length > MAX_URLS) {
+    return json({ error: `Between 1 and ${MAX_URLS} urls are read at a time` }, 400);
+  }
+
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { data: stored, error } = await admin
+    .from("source_metadata")
+    .select("url, title, excerpt, site_name")
+    .in("url", urls);
+  if (error) return json({ error: error.message }, 500);
+
+  const known = new Set((stored || []).map(row => row.url));
+  const read = await Promise.all(urls.filter(url => !known.has(url) && isPublicUrl(url)).map(readSource));
+
+  if (read.length > 0) {
+    const { error: writeError } = await admin
+      .from("source_metadata")
+      .upsert(read.map(row => ({ ...row, fetched_at: new Date().toISOString() })));
+    if (writeError) console.error("Error storing source metadata:", writeError);
+  }
+
+  return json({ sources: [...(stored || []), ...read] });
+});
@@ -0,0 +1,62 @@
+-- Create revisions table holding every saved version of a content item
+CREATE TABLE public.content_item_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  content_item_id UUID NOT NULL REFERENCES public.content_items(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  path TEXT NOT NULL,
+  content_json JSONB,
+  tags TEXT[] DEFAULT '{}',
+  author_id UUID,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.content_item_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below, so users only need read access
+CREATE POLICY "Authenticated users can read revisions"
+ON public.content_item_revisions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_content_item_revisions_item
+ON public.content_item_revisions(content_item_id, created_at DESC);
+
+-- Capture a revision whenever a content item is created or its content changes
+CREATE OR REPLACE FUNCTION public.capture_content_item_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.content_json IS NOT DISTINCT FROM OLD.content_json
+     AND NEW.title IS NOT DISTINCT FROM OLD.title
+     AND NEW.tags IS NOT DISTINCT FROM OLD.tags THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.content_item_revisions (
+    content_item_id, title, path, content_json, tags, author_id, author_email
+  ) VALUES (
+    NEW.id,
+    NEW.title,
+    NEW.path,
+    NEW.content_json,
+    NEW.tags,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER capture_content_item_revision
+AFTER INSERT OR UPDATE ON public.content_items
+FOR EACH ROW
+EXECUTE FUNCTION public.capture_content_item_revision();
+
+-- Seed an initial revision for existing content so it can be restored
+INSERT INTO public.content_item_revisions (content_item_id, title, path, content_json, tags, created_at)
+SELECT id, title, path, content_json, tags, updated_at
+FROM public.content_items;
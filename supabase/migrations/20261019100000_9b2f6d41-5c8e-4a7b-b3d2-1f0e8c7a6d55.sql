@@ -0,0 +1,26 @@
+-- Version counter used for optimistic concurrency on saves.
+-- Clients send the version their edit was based on and the update only
+-- applies when it still matches.
+ALTER TABLE public.content_items
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Bump the version whenever the document content changes; moves and
+-- reorders (parent_id/order_index) leave it alone so they never conflict
+CREATE OR REPLACE FUNCTION public.bump_content_item_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content_json IS DISTINCT FROM OLD.content_json
+     OR NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_content_item_version
+BEFORE UPDATE ON public.content_items
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_content_item_version();
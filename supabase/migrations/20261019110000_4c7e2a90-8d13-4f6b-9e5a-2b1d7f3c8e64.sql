@@ -0,0 +1,5 @@
+-- Stream content_items changes to clients; full replica identity includes the
+-- old row on updates and deletes so clients can tell structural changes apart
+ALTER TABLE public.content_items REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.content_items;
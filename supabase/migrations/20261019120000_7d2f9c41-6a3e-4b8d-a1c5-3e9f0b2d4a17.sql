@@ -0,0 +1,173 @@
+-- Full-text search index: one row for each document's title and one per
+-- section, kept in step with content_items by a trigger and queried through
+-- search_content() instead of scanning every row in the browser
+CREATE TABLE public.content_search_index (
+  id BIGSERIAL PRIMARY KEY,
+  content_item_id UUID NOT NULL REFERENCES public.content_items(id) ON DELETE CASCADE,
+  section_id TEXT, -- null for the document's own row
+  document_title TEXT NOT NULL,
+  document_path TEXT NOT NULL,
+  section_title TEXT,
+  breadcrumb TEXT[] NOT NULL DEFAULT '{}',
+  content TEXT NOT NULL DEFAULT '',
+  search_vector TSVECTOR NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.content_search_index ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the trigger below, so users only need read access
+CREATE POLICY "Authenticated users can read the search index"
+ON public.content_search_index
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_content_search_index_vector
+ON public.content_search_index USING GIN (search_vector);
+
+CREATE INDEX idx_content_search_index_item
+ON public.content_search_index(content_item_id);
+
+-- Rebuild the index rows of one item. Weights: document title A, section
+-- title B, section content C; section rows also carry the document title at D
+-- so a query can combine words from both
+CREATE OR REPLACE FUNCTION public.refresh_content_search_index(item public.content_items)
+RETURNS VOID AS $$
+DECLARE
+  sections JSONB;
+  section JSONB;
+  section_level INTEGER;
+  section_title TEXT;
+  section_content TEXT;
+  ancestor_levels INTEGER[] := '{}';
+  ancestor_titles TEXT[] := '{}';
+BEGIN
+  DELETE FROM public.content_search_index WHERE content_item_id = item.id;
+
+  INSERT INTO public.content_search_index (content_item_id, document_title, document_path, breadcrumb, search_vector)
+  VALUES (item.id, item.title, item.path, ARRAY[item.title], setweight(to_tsvector('english', item.title), 'A'));
+
+  -- Older rows wrap the sections in {"sections": [...]}
+  sections := CASE
+    WHEN jsonb_typeof(item.content_json) = 'array' THEN item.content_json
+    WHEN jsonb_typeof(item.content_json -> 'sections') = 'array' THEN item.content_json -> 'sections'
+    ELSE '[]'::JSONB
+  END;
+
+  FOR section IN SELECT value FROM jsonb_array_elements(sections) LOOP
+    section_level := COALESCE((section ->> 'level')::INTEGER, 1);
+    section_title := COALESCE(section ->> 'title', '');
+    -- Sources and other comments are not searchable text
+    section_content := regexp_replace(COALESCE(section ->> 'content', ''), '<!--.*?-->', ' ', 'g');
+
+    -- Breadcrumbs follow the heading levels, as in the sidebar
+    WHILE COALESCE(array_length(ancestor_levels, 1), 0) > 0
+          AND ancestor_levels[array_length(ancestor_levels, 1)] >= section_level LOOP
+      ancestor_levels := ancestor_levels[1:array_length(ancestor_levels, 1) - 1];
+      ancestor_titles := ancestor_titles[1:array_length(ancestor_titles, 1) - 1];
+    END LOOP;
+    ancestor_levels := ancestor_levels || section_level;
+    ancestor_titles := ancestor_titles || section_title;
+
+    INSERT INTO public.content_search_index (
+      content_item_id, section_id, document_title, document_path, section_title, breadcrumb, content, search_vector
+    ) VALUES (
+      item.id,
+      section ->> 'id',
+      item.title,
+      item.path,
+      section_title,
+      ARRAY[item.title] || ancestor_titles,
+      section_content,
+      setweight(to_tsvector('english', section_title), 'B')
+        || setweight(to_tsvector('english', section_content), 'C')
+        || setweight(to_tsvector('english', item.title), 'D')
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_content_search_index()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_content_search_index(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes are covered by ON DELETE CASCADE
+CREATE TRIGGER sync_content_search_index
+AFTER INSERT OR UPDATE OF title, path, content_json ON public.content_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_content_search_index();
+
+-- Index existing content
+SELECT public.refresh_content_search_index(item) FROM public.content_items item;
+
+-- Ranked search. Every word has to match (stemmed, so "interviewing" finds
+-- "interview"); the last word also matches as a prefix so results appear while
+-- typing. Snippets mark matches with ** like the client-side highlighter did.
+CREATE OR REPLACE FUNCTION public.search_content(search_query TEXT, max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  content_item_id UUID,
+  document_title TEXT,
+  document_path TEXT,
+  section_id TEXT,
+  section_title TEXT,
+  breadcrumb TEXT[],
+  content TEXT,
+  match_type TEXT,
+  rank REAL,
+  snippet TEXT
+) AS $$
+  WITH words AS (
+    SELECT word, row_number() OVER () AS word_position, count(*) OVER () AS word_count
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  ),
+  query AS (
+    SELECT to_tsquery('english', string_agg(
+      quote_literal(word) || CASE WHEN word_position = word_count THEN ':*' ELSE '' END, ' & ' ORDER BY word_position
+    )) AS q
+    FROM words
+  ),
+  matches AS (
+    SELECT entry.*, query.q, ts_rank_cd('{0.1, 0.3, 0.6, 1.0}', entry.search_vector, query.q) AS rank
+    FROM public.content_search_index entry, query
+    WHERE entry.search_vector @@ query.q
+    ORDER BY rank DESC, entry.document_title, entry.id
+    LIMIT max_results
+  ),
+  typed AS (
+    SELECT matches.*,
+      CASE
+        WHEN matches.section_id IS NULL THEN 'title'
+        WHEN to_tsvector('english', matches.section_title) @@ matches.q THEN 'section-title'
+        ELSE 'content'
+      END AS match_type
+    FROM matches
+  )
+  SELECT
+    typed.content_item_id,
+    typed.document_title,
+    typed.document_path,
+    typed.section_id,
+    typed.section_title,
+    typed.breadcrumb,
+    typed.content,
+    typed.match_type,
+    typed.rank,
+    ts_headline(
+      'english',
+      CASE typed.match_type
+        WHEN 'title' THEN typed.document_title
+        WHEN 'section-title' THEN typed.section_title
+        ELSE typed.content
+      END,
+      typed.q,
+      'StartSel="**", StopSel="**", MaxWords=30, MinWords=12, MaxFragments=1, FragmentDelimiter=" ... "'
+    ) AS snippet
+  FROM typed
+  ORDER BY typed.rank DESC, typed.document_title, typed.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,41 @@
+-- Section embeddings for "related sections" and the near-duplicate report.
+-- They are computed in the browser (see src/lib/sectionEmbeddings.ts) and
+-- stored here so each client only recomputes sections whose text changed;
+-- content_hash records the text and model a vector was computed from
+CREATE TABLE public.section_embeddings (
+  content_item_id UUID NOT NULL REFERENCES public.content_items(id) ON DELETE CASCADE,
+  section_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  vector REAL[] NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (content_item_id, section_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.section_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in client may refresh embeddings, like the content they derive from
+CREATE POLICY "Authenticated users can read section embeddings"
+ON public.section_embeddings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert section embeddings"
+ON public.section_embeddings
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update section embeddings"
+ON public.section_embeddings
+FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete section embeddings"
+ON public.section_embeddings
+FOR DELETE
+TO authenticated
+USING (true);
@@ -0,0 +1,50 @@
+-- Saved searches: named queries per user, optionally pinned to the sidebar.
+-- last_result_keys holds the results seen when the search was last opened,
+-- so reopening it can show which results are new
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  last_opened_at TIMESTAMP WITH TIME ZONE,
+  last_result_keys TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- Saved searches are private to the user who saved them
+CREATE POLICY "Users can read their saved searches"
+ON public.saved_searches
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their saved searches"
+ON public.saved_searches
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their saved searches"
+ON public.saved_searches
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their saved searches"
+ON public.saved_searches
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE INDEX idx_saved_searches_user
+ON public.saved_searches(user_id, name);
+
+CREATE TRIGGER update_saved_searches_updated_at
+BEFORE UPDATE ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
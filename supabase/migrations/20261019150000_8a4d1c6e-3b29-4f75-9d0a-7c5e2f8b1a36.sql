@@ -0,0 +1,151 @@
+-- Tags and heading levels in the search index, so search results can be
+-- faceted by tag and rubric without loading every document
+ALTER TABLE public.content_search_index
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN section_level INTEGER; -- null for the document's own row
+
+-- As before, plus the document's tags on its own row and each section's tags
+-- and level on the section rows
+CREATE OR REPLACE FUNCTION public.refresh_content_search_index(item public.content_items)
+RETURNS VOID AS $$
+DECLARE
+  sections JSONB;
+  section JSONB;
+  section_level INTEGER;
+  section_title TEXT;
+  section_content TEXT;
+  section_tags TEXT[];
+  ancestor_levels INTEGER[] := '{}';
+  ancestor_titles TEXT[] := '{}';
+BEGIN
+  DELETE FROM public.content_search_index WHERE content_item_id = item.id;
+
+  INSERT INTO public.content_search_index (content_item_id, document_title, document_path, breadcrumb, tags, search_vector)
+  VALUES (item.id, item.title, item.path, ARRAY[item.title], COALESCE(item.tags, '{}'), setweight(to_tsvector('english', item.title), 'A'));
+
+  -- Older rows wrap the sections in {"sections": [...]}
+  sections := CASE
+    WHEN jsonb_typeof(item.content_json) = 'array' THEN item.content_json
+    WHEN jsonb_typeof(item.content_json -> 'sections') = 'array' THEN item.content_json -> 'sections'
+    ELSE '[]'::JSONB
+  END;
+
+  FOR section IN SELECT value FROM jsonb_array_elements(sections) LOOP
+    section_level := COALESCE((section ->> 'level')::INTEGER, 1);
+    section_title := COALESCE(section ->> 'title', '');
+    -- Sources and other comments are not searchable text
+    section_content := regexp_replace(COALESCE(section ->> 'content', ''), '<!--.*?-->', ' ', 'g');
+    section_tags := CASE
+      WHEN jsonb_typeof(section -> 'tags') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(section -> 'tags'))
+      ELSE '{}'
+    END;
+
+    -- Breadcrumbs follow the heading levels, as in the sidebar
+    WHILE COALESCE(array_length(ancestor_levels, 1), 0) > 0
+          AND ancestor_levels[array_length(ancestor_levels, 1)] >= section_level LOOP
+      ancestor_levels := ancestor_levels[1:array_length(ancestor_levels, 1) - 1];
+      ancestor_titles := ancestor_titles[1:array_length(ancestor_titles, 1) - 1];
+    END LOOP;
+    ancestor_levels := ancestor_levels || section_level;
+    ancestor_titles := ancestor_titles || section_title;
+
+    INSERT INTO public.content_search_index (
+      content_item_id, section_id, document_title, document_path, section_title, section_level, breadcrumb, tags, content, search_vector
+    ) VALUES (
+      item.id,
+      section ->> 'id',
+      item.title,
+      item.path,
+      section_title,
+      section_level,
+      ARRAY[item.title] || ancestor_titles,
+      section_tags,
+      section_content,
+      setweight(to_tsvector('english', section_title), 'B')
+        || setweight(to_tsvector('english', section_content), 'C')
+        || setweight(to_tsvector('english', item.title), 'D')
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tag edits now change the index too
+DROP TRIGGER sync_content_search_index ON public.content_items;
+CREATE TRIGGER sync_content_search_index
+AFTER INSERT OR UPDATE OF title, path, tags, content_json ON public.content_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_content_search_index();
+
+-- Reindex existing content
+SELECT public.refresh_content_search_index(item) FROM public.content_items item;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION public.search_content(TEXT, INTEGER);
+
+CREATE FUNCTION public.search_content(search_query TEXT, max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  content_item_id UUID,
+  document_title TEXT,
+  document_path TEXT,
+  section_id TEXT,
+  section_title TEXT,
+  section_level INTEGER,
+  breadcrumb TEXT[],
+  tags TEXT[],
+  content TEXT,
+  match_type TEXT,
+  rank REAL,
+  snippet TEXT
+) AS $$
+  WITH words AS (
+    SELECT word, row_number() OVER () AS word_position, count(*) OVER () AS word_count
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  ),
+  query AS (
+    SELECT to_tsquery('english', string_agg(
+      quote_literal(word) || CASE WHEN word_position = word_count THEN ':*' ELSE '' END, ' & ' ORDER BY word_position
+    )) AS q
+    FROM words
+  ),
+  matches AS (
+    SELECT entry.*, query.q, ts_rank_cd('{0.1, 0.3, 0.6, 1.0}', entry.search_vector, query.q) AS rank
+    FROM public.content_search_index entry, query
+    WHERE entry.search_vector @@ query.q
+    ORDER BY rank DESC, entry.document_title, entry.id
+    LIMIT max_results
+  ),
+  typed AS (
+    SELECT matches.*,
+      CASE
+        WHEN matches.section_id IS NULL THEN 'title'
+        WHEN to_tsvector('english', matches.section_title) @@ matches.q THEN 'section-title'
+        ELSE 'content'
+      END AS match_type
+    FROM matches
+  )
+  SELECT
+    typed.content_item_id,
+    typed.document_title,
+    typed.document_path,
+    typed.section_id,
+    typed.section_title,
+    typed.section_level,
+    typed.breadcrumb,
+    typed.tags,
+    typed.content,
+    typed.match_type,
+    typed.rank,
+    ts_headline(
+      'english',
+      CASE typed.match_type
+        WHEN 'title' THEN typed.document_title
+        WHEN 'section-title' THEN typed.section_title
+        ELSE typed.content
+      END,
+      typed.q,
+      'StartSel="**", StopSel="**", MaxWords=30, MinWords=12, MaxFragments=1, FragmentDelimiter=" ... "'
+    ) AS snippet
+  FROM typed
+  ORDER BY typed.rank DESC, typed.document_title, typed.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
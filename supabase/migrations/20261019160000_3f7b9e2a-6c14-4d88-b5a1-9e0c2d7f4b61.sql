@@ -0,0 +1,127 @@
+-- Tag taxonomy: the categories and values shown in the sidebar's Filters pane.
+-- A value's `value` is the tag as written on sections ("# Title [b2b, saas]");
+-- `label` is how the Filters pane shows it
+CREATE TABLE public.tag_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tag_values (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES public.tag_categories(id) ON DELETE CASCADE,
+  value TEXT NOT NULL,
+  label TEXT NOT NULL,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (category_id, value)
+);
+
+-- Enable RLS
+ALTER TABLE public.tag_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_values ENABLE ROW LEVEL SECURITY;
+
+-- Shared by everyone, like the content it classifies
+CREATE POLICY "Authenticated users can read tag categories"
+ON public.tag_categories
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert tag categories"
+ON public.tag_categories
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update tag categories"
+ON public.tag_categories
+FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete tag categories"
+ON public.tag_categories
+FOR DELETE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can read tag values"
+ON public.tag_values
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert tag values"
+ON public.tag_values
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update tag values"
+ON public.tag_values
+FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete tag values"
+ON public.tag_values
+FOR DELETE
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_tag_values_category
+ON public.tag_values(category_id, order_index);
+
+CREATE TRIGGER update_tag_categories_updated_at
+BEFORE UPDATE ON public.tag_categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_tag_values_updated_at
+BEFORE UPDATE ON public.tag_values
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start from the groups the Filters pane used to hardcode
+WITH categories (name, order_index) AS (
+  VALUES ('Venture level', 0), ('Technology', 1), ('Market/Product type', 2), ('Content', 3)
+), inserted AS (
+  INSERT INTO public.tag_categories (name, order_index)
+  SELECT name, order_index FROM categories
+  RETURNING id, name
+)
+INSERT INTO public.tag_values (category_id, value, label, order_index)
+SELECT inserted.id, seed.value, seed.label, seed.order_index
+FROM inserted
+JOIN (VALUES
+  ('Venture level', 'early', 'early', 0),
+  ('Venture level', 'pmf', 'PMF', 1),
+  ('Venture level', 'scale-up', 'scale-up', 2),
+  ('Technology', 'ai-llm', 'AI (LLM)', 0),
+  ('Technology', 'ai-other', 'AI (other)', 1),
+  ('Technology', 'non-ai', 'Non-AI', 2),
+  ('Market/Product type', 'b2b', 'b2b', 0),
+  ('Market/Product type', 'b2c', 'b2c', 1),
+  ('Market/Product type', 'saas', 'saas', 2),
+  ('Market/Product type', 'internal-tooling', 'internal tooling', 3),
+  ('Market/Product type', 'shop-site', 'shop site', 4),
+  ('Market/Product type', 'multi-marketplace', '2/multi marketplace', 5),
+  ('Market/Product type', 'service', 'service', 6),
+  ('Content', 'overviews', 'Overviews/summaries', 0),
+  ('Content', 'pitfalls', 'Top pitfalls', 1),
+  ('Content', 'tips', 'Tips', 2),
+  ('Content', 'steps', 'Steps', 3),
+  ('Content', 'frameworks', 'Frameworks', 4),
+  ('Content', 'diligence', 'Diligence/Checklists', 5),
+  ('Content', 'gpt-tips', 'GPT tips', 6),
+  ('Content', 'agentic-tools', 'Agentic Tools', 7),
+  ('Content', 'tooling', 'Tooling', 8),
+  ('Content', 'news', 'News', 9),
+  ('Content', 'discussions', 'Discussions', 10),
+  ('Content', 'debates', 'Debates', 11),
+  ('Content', 'postmortem', 'Postmortem Data', 12)
+) AS seed (category, value, label, order_index) ON seed.category = inserted.name;
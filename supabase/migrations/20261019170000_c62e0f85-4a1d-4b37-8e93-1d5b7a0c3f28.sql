@@ -0,0 +1,98 @@
+-- Index each section with its effective tags: its own tags plus those of the
+-- sections above it, less the ones it opts out of with "!tag" (or all of
+-- them with "!*"), as computed by TagManager.getSectionTags in the app.
+-- Opt-out markers are not tags, so they are left out of the document row too
+CREATE OR REPLACE FUNCTION public.refresh_content_search_index(item public.content_items)
+RETURNS VOID AS $$
+DECLARE
+  sections JSONB;
+  section JSONB;
+  section_level INTEGER;
+  section_title TEXT;
+  section_content TEXT;
+  written_tags TEXT[];
+  inherited_tags TEXT[];
+  section_tags TEXT[];
+  ancestor_levels INTEGER[] := '{}';
+  ancestor_titles TEXT[] := '{}';
+  -- Effective tags of each ancestor, one JSON array per entry of ancestor_levels
+  ancestor_tags JSONB := '[]';
+BEGIN
+  DELETE FROM public.content_search_index WHERE content_item_id = item.id;
+
+  INSERT INTO public.content_search_index (content_item_id, document_title, document_path, breadcrumb, tags, search_vector)
+  VALUES (
+    item.id,
+    item.title,
+    item.path,
+    ARRAY[item.title],
+    ARRAY(SELECT tag FROM unnest(COALESCE(item.tags, '{}')) AS tag WHERE tag NOT LIKE '!%'),
+    setweight(to_tsvector('english', item.title), 'A')
+  );
+
+  -- Older rows wrap the sections in {"sections": [...]}
+  sections := CASE
+    WHEN jsonb_typeof(item.content_json) = 'array' THEN item.content_json
+    WHEN jsonb_typeof(item.content_json -> 'sections') = 'array' THEN item.content_json -> 'sections'
+    ELSE '[]'::JSONB
+  END;
+
+  FOR section IN SELECT value FROM jsonb_array_elements(sections) LOOP
+    section_level := COALESCE((section ->> 'level')::INTEGER, 1);
+    section_title := COALESCE(section ->> 'title', '');
+    -- Sources and other comments are not searchable text
+    section_content := regexp_replace(COALESCE(section ->> 'content', ''), '<!--.*?-->', ' ', 'g');
+    written_tags := CASE
+      WHEN jsonb_typeof(section -> 'tags') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(section -> 'tags'))
+      ELSE '{}'
+    END;
+
+    -- Breadcrumbs and inherited tags follow the heading levels, as in the sidebar
+    WHILE COALESCE(array_length(ancestor_levels, 1), 0) > 0
+          AND ancestor_levels[array_length(ancestor_levels, 1)] >= section_level LOOP
+      ancestor_levels := ancestor_levels[1:array_length(ancestor_levels, 1) - 1];
+      ancestor_titles := ancestor_titles[1:array_length(ancestor_titles, 1) - 1];
+      ancestor_tags := ancestor_tags - (jsonb_array_length(ancestor_tags) - 1);
+    END LOOP;
+
+    inherited_tags := CASE
+      WHEN jsonb_array_length(ancestor_tags) = 0 OR '!*' = ANY(written_tags) THEN '{}'
+      ELSE ARRAY(
+        SELECT tag FROM jsonb_array_elements_text(ancestor_tags -> -1) AS tag
+        WHERE lower('!' || tag) NOT IN (SELECT lower(written) FROM unnest(written_tags) AS written)
+      )
+    END;
+    -- Own tags first, so a tag written on the section keeps its own spelling
+    section_tags := ARRAY(
+      SELECT DISTINCT ON (lower(tag)) tag
+      FROM unnest(ARRAY(SELECT written FROM unnest(written_tags) AS written WHERE written NOT LIKE '!%') || inherited_tags)
+        WITH ORDINALITY AS candidate(tag, position)
+      ORDER BY lower(tag), position
+    );
+
+    ancestor_levels := ancestor_levels || section_level;
+    ancestor_titles := ancestor_titles || section_title;
+    ancestor_tags := ancestor_tags || jsonb_build_array(to_jsonb(section_tags));
+
+    INSERT INTO public.content_search_index (
+      content_item_id, section_id, document_title, document_path, section_title, section_level, breadcrumb, tags, content, search_vector
+    ) VALUES (
+      item.id,
+      section ->> 'id',
+      item.title,
+      item.path,
+      section_title,
+      section_level,
+      ARRAY[item.title] || ancestor_titles,
+      section_tags,
+      section_content,
+      setweight(to_tsvector('english', section_title), 'B')
+        || setweight(to_tsvector('english', section_content), 'C')
+        || setweight(to_tsvector('english', item.title), 'D')
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reindex existing content
+SELECT public.refresh_content_search_index(item) FROM public.content_items item;
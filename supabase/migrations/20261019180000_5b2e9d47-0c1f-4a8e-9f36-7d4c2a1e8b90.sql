@@ -0,0 +1,75 @@
+-- Search analytics: one row per search made in the search overlay or link
+-- picker, with how many results it found and which one was opened. user_id
+-- is only recorded when analytics are configured as identified
+-- (VITE_SEARCH_ANALYTICS); anonymous events leave it empty
+CREATE TABLE public.search_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  query TEXT NOT NULL,
+  result_count INTEGER NOT NULL,
+  clicked_document_id UUID,
+  clicked_section_id TEXT,
+  clicked_path TEXT,
+  clicked_position INTEGER,
+  clicked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Synonyms searched along with a term, both ways: "onboarding" with
+-- "activation" finds either word when searching for the other
+CREATE TABLE public.search_synonyms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  term TEXT NOT NULL,
+  synonym TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.search_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.search_synonyms ENABLE ROW LEVEL SECURITY;
+
+-- Editors read every event for the report; events can only be attributed to
+-- the user making them, and only one's own or anonymous events get clicks
+CREATE POLICY "Authenticated users can read search events"
+ON public.search_events
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can log search events"
+ON public.search_events
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Authenticated users can update their search events"
+ON public.search_events
+FOR UPDATE
+TO authenticated
+USING (user_id IS NULL OR user_id = auth.uid())
+WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Authenticated users can read search synonyms"
+ON public.search_synonyms
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert search synonyms"
+ON public.search_synonyms
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete search synonyms"
+ON public.search_synonyms
+FOR DELETE
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_search_events_created_at
+ON public.search_events(created_at DESC);
+
+CREATE UNIQUE INDEX idx_search_synonyms_pair
+ON public.search_synonyms(lower(term), lower(synonym));
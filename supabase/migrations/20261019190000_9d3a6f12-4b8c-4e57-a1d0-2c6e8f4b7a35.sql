@@ -0,0 +1,44 @@
+-- Wiki links between sections, for backlinks ("Linked from") and link checks.
+-- Links are parsed in the browser (see src/lib/linkIndex.ts) when a document
+-- is saved; item_version records the version they were read from so links of
+-- items edited elsewhere are refreshed. target is the link as written;
+-- target_item_id and target_section_id are what it resolved to when saved
+CREATE TABLE public.content_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  content_item_id UUID NOT NULL REFERENCES public.content_items(id) ON DELETE CASCADE,
+  item_version INTEGER NOT NULL,
+  section_id TEXT NOT NULL,
+  link_text TEXT NOT NULL,
+  target TEXT NOT NULL,
+  target_item_id UUID REFERENCES public.content_items(id) ON DELETE SET NULL,
+  target_section_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.content_links ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in client may refresh links, like the content they derive from
+CREATE POLICY "Authenticated users can read content links"
+ON public.content_links
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert content links"
+ON public.content_links
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete content links"
+ON public.content_links
+FOR DELETE
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_content_links_source
+ON public.content_links(content_item_id);
+
+CREATE INDEX idx_content_links_target
+ON public.content_links(target_item_id, target_section_id);
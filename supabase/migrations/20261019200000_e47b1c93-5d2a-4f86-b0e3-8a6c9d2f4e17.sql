@@ -0,0 +1,39 @@
+-- Several content item updates applied in one transaction, e.g. a move
+-- together with the links it rewrites (see StorageAdapter.updateItems).
+-- Each change is {id, expected_version?, updates: {title?, path?, parent_id?,
+-- order_index?, tags?, content_json?}}. When an item no longer has its
+-- expected version, or is gone, nothing is updated and serialization_failure
+-- is raised. Runs with the caller's row level security
+CREATE OR REPLACE FUNCTION public.update_content_items(changes jsonb)
+RETURNS TABLE (item_id uuid, item_version integer)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  change jsonb;
+  fields jsonb;
+BEGIN
+  FOR change IN SELECT * FROM jsonb_array_elements(changes) LOOP
+    fields := change->'updates';
+
+    UPDATE public.content_items AS item
+    SET
+      title = CASE WHEN fields ? 'title' THEN fields->>'title' ELSE item.title END,
+      path = CASE WHEN fields ? 'path' THEN fields->>'path' ELSE item.path END,
+      parent_id = CASE WHEN fields ? 'parent_id' THEN (fields->>'parent_id')::uuid ELSE item.parent_id END,
+      order_index = CASE WHEN fields ? 'order_index' THEN (fields->>'order_index')::integer ELSE item.order_index END,
+      tags = CASE WHEN fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(fields->'tags')) ELSE item.tags END,
+      content_json = CASE WHEN fields ? 'content_json' THEN fields->'content_json' ELSE item.content_json END
+    WHERE item.id = (change->>'id')::uuid
+      AND (NOT change ? 'expected_version' OR item.version = (change->>'expected_version')::integer)
+    RETURNING item.id, item.version INTO item_id, item_version;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Content item % was changed or deleted', change->>'id'
+        USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- Page titles and excerpts of source URLs (<!-- sources: --> comments), shown
+-- when hovering a section's sources. Read from the page in the browser the
+-- first time a source is previewed (see src/lib/linkPreview.ts); pages that
+-- cannot be read cross-origin get no row and show their domain only
+CREATE TABLE public.source_metadata (
+  url TEXT NOT NULL PRIMARY KEY,
+  title TEXT,
+  excerpt TEXT,
+  site_name TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.source_metadata ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in client may store what it read from a source
+CREATE POLICY "Authenticated users can read source metadata"
+ON public.source_metadata
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert source metadata"
+ON public.source_metadata
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update source metadata"
+ON public.source_metadata
+FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,5 @@
+-- Source metadata is read from the page by the source-metadata edge function,
+-- which writes it with the service role (bypassing RLS). Clients only read it,
+-- so they can no longer store any title or excerpt for any URL
+DROP POLICY "Authenticated users can insert source metadata" ON public.source_metadata;
+DROP POLICY "Authenticated users can update source metadata" ON public.source_metadata;